@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "SynonymGroup" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "keywords" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SynonymGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SynonymGroup_userId_idx" ON "SynonymGroup"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SynonymGroup_userId_name_key" ON "SynonymGroup"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "SynonymGroup" ADD CONSTRAINT "SynonymGroup_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
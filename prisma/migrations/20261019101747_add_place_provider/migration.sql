@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Place" ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'google';
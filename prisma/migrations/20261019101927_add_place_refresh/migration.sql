@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Place" ADD COLUMN     "businessStatus" TEXT,
+ADD COLUMN     "lastRefreshedAt" TIMESTAMP(3),
+ADD COLUMN     "openingHours" JSONB;
+
+-- CreateTable
+CREATE TABLE "PlaceChange" (
+    "id" TEXT NOT NULL,
+    "placeId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "oldValue" JSONB,
+    "newValue" JSONB,
+    "source" TEXT NOT NULL DEFAULT 'refresh',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlaceChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PlaceChange_placeId_createdAt_idx" ON "PlaceChange"("placeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Place_lastRefreshedAt_idx" ON "Place"("lastRefreshedAt");
+
+-- AddForeignKey
+ALTER TABLE "PlaceChange" ADD CONSTRAINT "PlaceChange_placeId_fkey" FOREIGN KEY ("placeId") REFERENCES "Place"("id") ON DELETE CASCADE ON UPDATE CASCADE;
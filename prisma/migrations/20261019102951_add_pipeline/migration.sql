@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "Lead" ADD COLUMN     "followUpAt" TIMESTAMP(3),
+ADD COLUMN     "stageChangedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PipelineStage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#3b82f6',
+    "kind" TEXT NOT NULL DEFAULT 'OPEN',
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PipelineStage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LeadActivity" (
+    "id" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "note" TEXT,
+    "metadata" JSONB,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LeadActivity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PipelineStage_userId_position_idx" ON "PipelineStage"("userId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PipelineStage_userId_key_key" ON "PipelineStage"("userId", "key");
+
+-- CreateIndex
+CREATE INDEX "LeadActivity_leadId_occurredAt_idx" ON "LeadActivity"("leadId", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "Lead_userId_status_idx" ON "Lead"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "Lead_userId_followUpAt_idx" ON "Lead"("userId", "followUpAt");
+
+-- AddForeignKey
+ALTER TABLE "PipelineStage" ADD CONSTRAINT "PipelineStage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadActivity" ADD CONSTRAINT "LeadActivity_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadActivity" ADD CONSTRAINT "LeadActivity_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "CrmConnection" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "accessToken" TEXT NOT NULL,
+    "fieldMapping" JSONB NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "lastSyncAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CrmConnection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LeadCrmSync" (
+    "id" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "connectionId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "externalCompanyId" TEXT,
+    "externalContactId" TEXT,
+    "lastAction" TEXT,
+    "error" TEXT,
+    "syncedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeadCrmSync_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CrmConnection_userId_provider_key" ON "CrmConnection"("userId", "provider");
+
+-- CreateIndex
+CREATE INDEX "LeadCrmSync_connectionId_status_idx" ON "LeadCrmSync"("connectionId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeadCrmSync_leadId_connectionId_key" ON "LeadCrmSync"("leadId", "connectionId");
+
+-- AddForeignKey
+ALTER TABLE "CrmConnection" ADD CONSTRAINT "CrmConnection_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadCrmSync" ADD CONSTRAINT "LeadCrmSync_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadCrmSync" ADD CONSTRAINT "LeadCrmSync_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "CrmConnection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
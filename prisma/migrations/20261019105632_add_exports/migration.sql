@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "Export" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "source" JSONB NOT NULL,
+    "rowCount" INTEGER,
+    "fileName" TEXT,
+    "storageKey" TEXT,
+    "size" INTEGER,
+    "error" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Export_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Export_userId_createdAt_idx" ON "Export"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Export_status_expiresAt_idx" ON "Export"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "Export" ADD CONSTRAINT "Export_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
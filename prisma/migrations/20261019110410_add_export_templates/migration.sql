@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Export" ADD COLUMN     "layout" JSONB;
+
+-- CreateTable
+CREATE TABLE "ExportTemplate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "columns" JSONB NOT NULL,
+    "delimiter" TEXT NOT NULL DEFAULT ',',
+    "encoding" TEXT NOT NULL DEFAULT 'utf8',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExportTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExportTemplate_userId_name_key" ON "ExportTemplate"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "ExportTemplate" ADD CONSTRAINT "ExportTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "leadScoreWeights" JSONB;
+
+-- AlterTable
+ALTER TABLE "Lead" ADD COLUMN     "distanceMeters" DOUBLE PRECISION,
+ADD COLUMN     "score" INTEGER,
+ADD COLUMN     "scoredAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "leadScoreWeights" JSONB;
+
+-- CreateIndex
+CREATE INDEX "Lead_userId_score_idx" ON "Lead"("userId", "score");
+
+-- CreateIndex
+CREATE INDEX "Lead_organizationId_score_idx" ON "Lead"("organizationId", "score");
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Lead" ADD COLUMN     "excludedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "LeadList" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeadList_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LeadListItem" (
+    "listId" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LeadListItem_pkey" PRIMARY KEY ("listId","leadId")
+);
+
+-- CreateIndex
+CREATE INDEX "LeadList_userId_idx" ON "LeadList"("userId");
+
+-- CreateIndex
+CREATE INDEX "LeadList_organizationId_idx" ON "LeadList"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "LeadListItem_leadId_idx" ON "LeadListItem"("leadId");
+
+-- AddForeignKey
+ALTER TABLE "LeadList" ADD CONSTRAINT "LeadList_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadList" ADD CONSTRAINT "LeadList_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadListItem" ADD CONSTRAINT "LeadListItem_listId_fkey" FOREIGN KEY ("listId") REFERENCES "LeadList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadListItem" ADD CONSTRAINT "LeadListItem_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE CASCADE ON UPDATE CASCADE;
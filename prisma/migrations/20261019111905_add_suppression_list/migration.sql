@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "SuppressionEntry" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "type" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SuppressionEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SuppressionEntry_userId_type_idx" ON "SuppressionEntry"("userId", "type");
+
+-- CreateIndex
+CREATE INDEX "SuppressionEntry_organizationId_type_idx" ON "SuppressionEntry"("organizationId", "type");
+
+-- AddForeignKey
+ALTER TABLE "SuppressionEntry" ADD CONSTRAINT "SuppressionEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SuppressionEntry" ADD CONSTRAINT "SuppressionEntry_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
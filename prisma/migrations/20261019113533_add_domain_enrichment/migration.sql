@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Place" ADD COLUMN     "websiteDomain" TEXT;
+
+-- Existing places are filled in by scripts/backfill-website-domains.ts
+
+-- CreateTable
+CREATE TABLE "DomainEnrichment" (
+    "id" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "emails" TEXT[],
+    "emailScores" JSONB,
+    "phones" TEXT[],
+    "socials" JSONB,
+    "meta" JSONB,
+    "error" TEXT,
+    "scrapedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DomainEnrichment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DomainEnrichment_domain_key" ON "DomainEnrichment"("domain");
+
+-- CreateIndex
+CREATE INDEX "DomainEnrichment_scrapedAt_idx" ON "DomainEnrichment"("scrapedAt");
+
+-- CreateIndex
+CREATE INDEX "Place_websiteDomain_idx" ON "Place"("websiteDomain");
@@ -0,0 +1,14 @@
+import { prisma } from "@/lib/prisma";
+
+// Fills Lead.personalUserId for personal leads stored before the column existed.
+// Run once after `prisma db push`: npx tsx scripts/backfill-personal-lead-keys.ts
+async function main() {
+    const updated = await prisma.$executeRaw`
+        UPDATE "Lead" SET "personalUserId" = "userId"
+        WHERE "organizationId" IS NULL AND "personalUserId" IS NULL
+    `;
+    console.log(`Backfilled ${updated} personal leads.`);
+    process.exit(0);
+}
+
+main().catch(console.error);
@@ -0,0 +1,30 @@
+import { prisma } from "@/lib/prisma";
+import { domainEnrichmentKey } from "@/lib/scraping/domain-enrichment";
+
+// Fills Place.websiteDomain for places stored before the column existed.
+async function main() {
+    let cursor: string | undefined;
+    let updated = 0;
+    for (;;) {
+        const places = await prisma.place.findMany({
+            where: { website: { not: null }, websiteDomain: null },
+            orderBy: { id: "asc" },
+            take: 500,
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+            select: { id: true, website: true },
+        });
+        if (places.length === 0) break;
+        cursor = places[places.length - 1].id;
+
+        for (const place of places) {
+            const websiteDomain = domainEnrichmentKey(place.website);
+            if (!websiteDomain) continue;
+            await prisma.place.update({ where: { id: place.id }, data: { websiteDomain } });
+            updated++;
+        }
+    }
+    console.log(`Backfilled ${updated} places.`);
+    process.exit(0);
+}
+
+main().catch(console.error);
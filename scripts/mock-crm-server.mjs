@@ -0,0 +1,121 @@
+// Local stand-in for the HubSpot and Pipedrive endpoints the CRM connectors use, so lead
+// sync can be exercised offline:
+//   node scripts/mock-crm-server.mjs [port]
+//   HUBSPOT_API_URL=http://localhost:8090/hubspot PIPEDRIVE_API_URL=http://localhost:8090/pipedrive npm run dev
+// Any token is accepted unless MOCK_CRM_TOKEN is set. Records live in memory; GET /_state dumps them.
+import http from 'http';
+
+const PORT = Number(process.argv[2] || process.env.MOCK_CRM_PORT || 8090);
+const TOKEN = process.env.MOCK_CRM_TOKEN;
+
+const hubspot = { companies: new Map(), contacts: new Map(), associations: [] };
+const pipedrive = { organizations: new Map(), persons: new Map() };
+let nextId = 1000;
+
+function send(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readJson(req) {
+    return new Promise(resolve => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            try { resolve(body ? JSON.parse(body) : {}); } catch { resolve({}); }
+        });
+    });
+}
+
+function authorized(token) {
+    return !!token && (!TOKEN || token === TOKEN);
+}
+
+async function handleHubSpot(req, res, path) {
+    const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    if (!authorized(token)) return send(res, 401, { status: 'error', message: 'Authentication credentials not found.' });
+
+    let m;
+    if (req.method === 'GET' && path === '/crm/v3/objects/companies') {
+        return send(res, 200, { results: [...hubspot.companies.values()].slice(0, 1) });
+    }
+    if (req.method === 'POST' && (m = path.match(/^\/crm\/v3\/objects\/(companies|contacts)\/search$/))) {
+        const { filterGroups = [] } = await readJson(req);
+        const filters = filterGroups[0]?.filters || [];
+        const results = [...hubspot[m[1]].values()].filter(record =>
+            filters.every(f => String(record.properties[f.propertyName] ?? '').toLowerCase() === String(f.value).toLowerCase())
+        );
+        return send(res, 200, { total: results.length, results: results.slice(0, 1) });
+    }
+    if (req.method === 'POST' && (m = path.match(/^\/crm\/v3\/objects\/(companies|contacts)$/))) {
+        const { properties = {}, associations = [] } = await readJson(req);
+        const record = { id: String(nextId++), properties, createdAt: new Date().toISOString() };
+        hubspot[m[1]].set(record.id, record);
+        for (const a of associations) hubspot.associations.push({ contactId: record.id, companyId: a.to.id });
+        console.log(`[mock-crm] HubSpot ${m[1]} ${record.id} created`);
+        return send(res, 201, record);
+    }
+    if (req.method === 'PATCH' && (m = path.match(/^\/crm\/v3\/objects\/(companies|contacts)\/(\w+)$/))) {
+        const record = hubspot[m[1]].get(m[2]);
+        if (!record) return send(res, 404, { status: 'error', message: 'Object not found' });
+        const { properties = {} } = await readJson(req);
+        Object.assign(record.properties, properties);
+        console.log(`[mock-crm] HubSpot ${m[1]} ${record.id} updated`);
+        return send(res, 200, record);
+    }
+    if (req.method === 'PUT' && (m = path.match(/^\/crm\/v4\/objects\/contacts\/(\w+)\/associations\/default\/companies\/(\w+)$/))) {
+        hubspot.associations.push({ contactId: m[1], companyId: m[2] });
+        return send(res, 200, { status: 'COMPLETE' });
+    }
+    send(res, 404, { status: 'error', message: 'not found' });
+}
+
+async function handlePipedrive(req, res, path, query) {
+    if (!authorized(query.get('api_token'))) return send(res, 401, { success: false, error: 'unauthorized access', errorCode: 401 });
+
+    let m;
+    if (req.method === 'GET' && path === '/v1/users/me') {
+        return send(res, 200, { success: true, data: { id: 1, name: 'Mock User' } });
+    }
+    if (req.method === 'GET' && (m = path.match(/^\/v1\/(organizations|persons)\/search$/))) {
+        const term = (query.get('term') || '').toLowerCase();
+        const items = [...pipedrive[m[1]].values()]
+            .filter(record => Object.values(record).some(v => (Array.isArray(v) ? v : [v]).some(x => String(x?.value ?? x).toLowerCase() === term)))
+            .slice(0, 1)
+            .map(item => ({ result_score: 1, item }));
+        return send(res, 200, { success: true, data: { items } });
+    }
+    if (req.method === 'POST' && (m = path.match(/^\/v1\/(organizations|persons)$/))) {
+        const record = { id: nextId++, ...(await readJson(req)) };
+        pipedrive[m[1]].set(record.id, record);
+        console.log(`[mock-crm] Pipedrive ${m[1]} ${record.id} created`);
+        return send(res, 201, { success: true, data: record });
+    }
+    if (req.method === 'PUT' && (m = path.match(/^\/v1\/(organizations|persons)\/(\d+)$/))) {
+        const record = pipedrive[m[1]].get(Number(m[2]));
+        if (!record) return send(res, 404, { success: false, error: 'not found' });
+        Object.assign(record, await readJson(req));
+        console.log(`[mock-crm] Pipedrive ${m[1]} ${record.id} updated`);
+        return send(res, 200, { success: true, data: record });
+    }
+    send(res, 404, { success: false, error: 'not found' });
+}
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+
+    if (url.pathname === '/_state') {
+        return send(res, 200, {
+            hubspot: { companies: [...hubspot.companies.values()], contacts: [...hubspot.contacts.values()], associations: hubspot.associations },
+            pipedrive: { organizations: [...pipedrive.organizations.values()], persons: [...pipedrive.persons.values()] },
+        });
+    }
+    if (url.pathname.startsWith('/hubspot/')) return handleHubSpot(req, res, url.pathname.slice('/hubspot'.length));
+    if (url.pathname.startsWith('/pipedrive/')) return handlePipedrive(req, res, url.pathname.slice('/pipedrive'.length), url.searchParams);
+
+    send(res, 404, { error: 'not found' });
+});
+
+server.listen(PORT, () => {
+    console.log(`Mock HubSpot/Pipedrive listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,110 @@
+// Local stand-in for Overpass (/api/interpreter) and Nominatim (/search) so the OSM
+// provider can be exercised offline:
+//   node scripts/mock-overpass-server.mjs [port] [fixture.json]
+//   OVERPASS_URL=http://localhost:8089 NOMINATIM_URL=http://localhost:8089 npm run dev
+// The fixture is an Overpass-style { "elements": [...] } file; a small İstanbul sample is built in.
+import http from 'http';
+import fs from 'fs';
+
+const PORT = Number(process.argv[2] || process.env.MOCK_OSM_PORT || 8089);
+const FIXTURE = process.argv[3];
+
+const CITIES = [
+    { name: 'istanbul', display_name: 'İstanbul, Marmara Bölgesi, Türkiye', lat: 41.0082, lon: 28.9784, boundingbox: ['40.80', '41.32', '28.50', '29.45'] },
+    { name: 'ankara', display_name: 'Ankara, İç Anadolu Bölgesi, Türkiye', lat: 39.9334, lon: 32.8597, boundingbox: ['39.70', '40.10', '32.50', '33.10'] },
+    { name: 'izmir', display_name: 'İzmir, Ege Bölgesi, Türkiye', lat: 38.4237, lon: 27.1428, boundingbox: ['38.25', '38.60', '26.90', '27.30'] },
+];
+
+const SAMPLE_ELEMENTS = [
+    { type: 'node', id: 1001, lat: 40.9903, lon: 29.0290, tags: { name: 'Moda Kahve Evi', amenity: 'cafe', 'addr:street': 'Moda Caddesi', 'addr:housenumber': '12', 'addr:suburb': 'Kadıköy', 'addr:city': 'İstanbul', phone: '+90 216 555 10 01', website: 'https://modakahve.example.com' } },
+    { type: 'node', id: 1002, lat: 40.9875, lon: 29.0262, tags: { name: 'Kadıköy Kahvecisi', shop: 'coffee', 'addr:street': 'Bahariye Caddesi', 'addr:suburb': 'Kadıköy', 'addr:city': 'İstanbul' } },
+    { type: 'node', id: 1003, lat: 41.0430, lon: 29.0070, tags: { name: 'Beşiktaş Fitness Club', leisure: 'fitness_centre', 'addr:street': 'Barbaros Bulvarı', 'addr:suburb': 'Beşiktaş', 'addr:city': 'İstanbul', website: 'https://besiktasfitness.example.com' } },
+    { type: 'node', id: 1004, lat: 41.0445, lon: 29.0050, tags: { name: 'Spor Dünyası', shop: 'sports', 'addr:suburb': 'Beşiktaş', 'addr:city': 'İstanbul' } },
+    { type: 'way', id: 2001, center: { lat: 41.0600, lon: 28.9870 }, tags: { name: 'Şişli Diş Kliniği', amenity: 'dentist', 'addr:suburb': 'Şişli', 'addr:city': 'İstanbul', 'contact:phone': '+90 212 555 20 01' } },
+    { type: 'node', id: 1005, lat: 41.0086, lon: 28.9802, tags: { name: 'Sultanahmet Köftecisi', amenity: 'restaurant', 'addr:suburb': 'Fatih', 'addr:city': 'İstanbul', website: 'https://koftecisi.example.com' } },
+    { type: 'node', id: 1006, lat: 41.0255, lon: 29.0150, tags: { name: 'Üsküdar Eczanesi', amenity: 'pharmacy', 'addr:suburb': 'Üsküdar', 'addr:city': 'İstanbul' } },
+    { type: 'node', id: 1007, lat: 40.9950, lon: 29.0400, tags: { name: 'Eski Fırın', 'disused:shop': 'bakery', 'addr:suburb': 'Kadıköy', 'addr:city': 'İstanbul' } },
+];
+
+const elements = FIXTURE ? JSON.parse(fs.readFileSync(FIXTURE, 'utf8')).elements || [] : SAMPLE_ELEMENTS;
+
+function positionOf(el) {
+    return { lat: el.lat ?? el.center?.lat, lon: el.lon ?? el.center?.lon };
+}
+
+// Supports the subset of Overpass QL the app generates: nwr["k"="v"](s,w,n,e); nwr["name"~"x",i](s,w,n,e); type(id); out ... N;
+function runOverpass(query) {
+    const matches = new Map();
+
+    for (const m of query.matchAll(/nwr\["([^"]+)"(=|~)"((?:[^"\\]|\\.)*)"(,i)?\]\(([-\d.]+),([-\d.]+),([-\d.]+),([-\d.]+)\)/g)) {
+        const [, key, op, rawValue, , s, w, n, e] = m;
+        const value = rawValue.replace(/\\(.)/g, '$1');
+        for (const el of elements) {
+            const { lat, lon } = positionOf(el);
+            if (lat < Number(s) || lat > Number(n) || lon < Number(w) || lon > Number(e)) continue;
+            const tag = el.tags?.[key];
+            if (tag === undefined) continue;
+            const ok = op === '=' ? tag === value : tag.toLocaleLowerCase('tr-TR').includes(value.toLocaleLowerCase('tr-TR'));
+            if (ok) matches.set(`${el.type}/${el.id}`, el);
+        }
+    }
+
+    for (const m of query.matchAll(/(node|way|relation)\((\d+)\)/g)) {
+        const el = elements.find(x => x.type === m[1] && String(x.id) === m[2]);
+        if (el) matches.set(`${el.type}/${el.id}`, el);
+    }
+
+    const limit = Number((query.match(/out[^;]*?(\d+);/) || [])[1] || Infinity);
+    return Array.from(matches.values()).slice(0, limit);
+}
+
+function runNominatim(q, limit) {
+    const query = q.trim().toLocaleLowerCase('tr-TR');
+    const city = CITIES.find(c => query === c.name || query.startsWith(`${c.name},`));
+    if (city) {
+        return [{ osm_type: 'relation', osm_id: 100 + CITIES.indexOf(city), category: 'boundary', type: 'administrative', name: city.name, ...city, lat: String(city.lat), lon: String(city.lon) }];
+    }
+    return elements
+        .filter(el => (el.tags?.name || '').toLocaleLowerCase('tr-TR').includes(query))
+        .slice(0, limit)
+        .map(el => {
+            const { lat, lon } = positionOf(el);
+            const [category, type] = ['amenity', 'shop', 'leisure', 'office', 'tourism'].map(k => el.tags[k] && [k, el.tags[k]]).find(Boolean) || ['place', 'yes'];
+            return {
+                osm_type: el.type, osm_id: el.id, lat: String(lat), lon: String(lon),
+                name: el.tags.name, display_name: [el.tags.name, el.tags['addr:suburb'], el.tags['addr:city']].filter(Boolean).join(', '),
+                category, type, extratags: { phone: el.tags.phone, website: el.tags.website },
+            };
+        });
+}
+
+function send(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+
+    if (url.pathname === '/search') {
+        return send(res, 200, runNominatim(url.searchParams.get('q') || '', Number(url.searchParams.get('limit') || 10)));
+    }
+
+    if (url.pathname === '/api/interpreter') {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            const query = url.searchParams.get('data') || new URLSearchParams(body).get('data') || '';
+            const result = runOverpass(query);
+            console.log(`[mock-overpass] ${result.length} element(s) for ${query.slice(0, 120)}`);
+            send(res, 200, { version: 0.6, generator: 'mock-overpass', elements: result });
+        });
+        return;
+    }
+
+    send(res, 404, { error: 'not found' });
+});
+
+server.listen(PORT, () => {
+    console.log(`Mock Overpass/Nominatim listening on http://localhost:${PORT} (${elements.length} elements)`);
+});
@@ -0,0 +1,149 @@
+"use server";
+
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { getWorkspace, leadListScope, leadScope, stageScope, type Workspace } from "@/lib/org/workspace";
+import { canManageMembers } from "@/lib/org/roles";
+import { dispatchWebhookEvent, workspaceUserIds } from "@/lib/webhooks/dispatch";
+import { addEnrichmentJob } from "@/lib/queue/enrichment-queue";
+import { rescoreWorkspaceLeads } from "@/lib/crm/scoring";
+import { findOrCreateLeadList } from "@/lib/crm/lead-lists";
+
+// A deep search page set tops out around 500 rows; leave headroom for merged keyword searches
+const MAX_BULK_PLACES = 1000;
+
+const PlaceIdsSchema = z.array(z.string().min(1)).min(1, "En az bir sonuç seçin.").max(MAX_BULK_PLACES, `Tek seferde en fazla ${MAX_BULK_PLACES} sonuç seçilebilir.`);
+
+async function getUserWorkspace() {
+    const session = await auth();
+    return getWorkspace(session?.user?.id || "default-user");
+}
+
+/**
+ * Leads of the workspace for the selected result rows (Google/OSM place ids).
+ * Cached searches don't create leads, so missing ones are created here for places we already store.
+ */
+async function resolveSelectedLeads(workspace: Workspace, placeIds: string[]) {
+    const parsed = PlaceIdsSchema.safeParse([...new Set(placeIds)]);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+
+    const places = await prisma.place.findMany({ where: { googleId: { in: parsed.data } }, select: { id: true } });
+    if (places.length === 0) throw new Error("Seçilen sonuçlar bulunamadı.");
+    const created = await prisma.lead.createMany({
+        data: places.map(place => ({
+            userId: workspace.userId,
+            organizationId: workspace.organizationId,
+            personalUserId: workspace.organizationId ? null : workspace.userId,
+            placeId: place.id,
+            status: "NEW",
+        })),
+        skipDuplicates: true,
+    });
+    if (created.count > 0) await rescoreWorkspaceLeads(workspace, undefined, { score: null });
+
+    return prisma.lead.findMany({
+        where: { ...leadScope(workspace), placeId: { in: places.map(p => p.id) } },
+        select: { id: true, status: true, place: { select: { id: true, googleId: true, name: true, address: true, website: true, scrapeStatus: true } } },
+    });
+}
+
+// Adds the selection to an existing list, or to a new one created under `name`
+export async function bulkAddToLeadList(placeIds: string[], target: { listId?: string; name?: string }) {
+    const workspace = await getUserWorkspace();
+    const leads = await resolveSelectedLeads(workspace, placeIds);
+
+    let listId = target.listId;
+    if (listId) {
+        const list = await prisma.leadList.findFirst({ where: { id: listId, ...leadListScope(workspace) }, select: { id: true } });
+        if (!list) throw new Error("Liste bulunamadı.");
+    } else {
+        listId = (await findOrCreateLeadList(workspace, target.name ?? "")).id;
+    }
+
+    const result = await prisma.leadListItem.createMany({
+        data: leads.map(lead => ({ listId: listId!, leadId: lead.id })),
+        skipDuplicates: true,
+    });
+    await prisma.leadList.update({ where: { id: listId }, data: { updatedAt: new Date() } });
+    return { success: true, listId, added: result.count };
+}
+
+export async function bulkSetLeadStage(placeIds: string[], stageKey: string) {
+    const workspace = await getUserWorkspace();
+    const stage = await prisma.pipelineStage.findFirst({ where: { ...stageScope(workspace), key: stageKey }, select: { key: true } });
+    if (!stage) throw new Error("Aşama bulunamadı.");
+
+    const leads = (await resolveSelectedLeads(workspace, placeIds)).filter(lead => lead.status !== stage.key);
+    if (leads.length === 0) return { success: true, updated: 0 };
+
+    await prisma.$transaction([
+        prisma.lead.updateMany({ where: { id: { in: leads.map(l => l.id) } }, data: { status: stage.key, stageChangedAt: new Date() } }),
+        prisma.leadActivity.createMany({
+            data: leads.map(lead => ({
+                leadId: lead.id,
+                userId: workspace.userId,
+                type: "STAGE_CHANGE",
+                metadata: { from: lead.status, to: stage.key, bulk: true },
+            })),
+        }),
+    ]);
+
+    const recipients = await workspaceUserIds(workspace);
+    for (const lead of leads) {
+        await dispatchWebhookEvent(recipients, "lead.status_changed", {
+            leadId: lead.id,
+            placeId: lead.place.googleId,
+            placeName: lead.place.name,
+            from: lead.status,
+            to: stage.key,
+            changedBy: workspace.userId,
+            organizationId: workspace.organizationId,
+        });
+    }
+    return { success: true, updated: leads.length };
+}
+
+// Same rules as assignLead: members may only take the selection themselves
+export async function bulkAssignLeads(placeIds: string[], assigneeId: string | null) {
+    const workspace = await getUserWorkspace();
+    if (!workspace.organizationId) throw new Error("Atama yalnızca ekip çalışma alanlarında kullanılabilir.");
+    if (!canManageMembers(workspace.role) && assigneeId !== workspace.userId) {
+        throw new Error("Toplu atamayı yalnızca ekip yöneticileri yapabilir.");
+    }
+    if (assigneeId) {
+        const member = await prisma.membership.findFirst({ where: { userId: assigneeId, organizationId: workspace.organizationId } });
+        if (!member) throw new Error("Seçilen kullanıcı ekipte değil.");
+    }
+
+    const leads = await resolveSelectedLeads(workspace, placeIds);
+    const result = await prisma.lead.updateMany({ where: { id: { in: leads.map(l => l.id) } }, data: { assigneeId } });
+    return { success: true, updated: result.count };
+}
+
+// Queues the scraper again for the selection; places already being scraped are skipped
+export async function bulkReEnrichPlaces(placeIds: string[]) {
+    const workspace = await getUserWorkspace();
+    const places = (await resolveSelectedLeads(workspace, placeIds))
+        .map(lead => lead.place)
+        .filter(place => place.scrapeStatus !== "PROCESSING");
+
+    if (places.length > 0) {
+        await prisma.place.updateMany({ where: { id: { in: places.map(p => p.id) } }, data: { scrapeStatus: "PENDING" } });
+    }
+    for (const place of places) {
+        await addEnrichmentJob({ placeId: place.id, website: place.website || "", name: place.name, address: place.address || "" });
+    }
+    return { success: true, queued: places.length };
+}
+
+// Excluded places stay in the workspace (lists, pipeline) but no longer show up in search results
+export async function bulkSetLeadsExcluded(placeIds: string[], excluded: boolean) {
+    const workspace = await getUserWorkspace();
+    const leads = await resolveSelectedLeads(workspace, placeIds);
+    const result = await prisma.lead.updateMany({
+        where: { id: { in: leads.map(l => l.id) } },
+        data: { excludedAt: excluded ? new Date() : null },
+    });
+    return { success: true, updated: result.count };
+}
@@ -0,0 +1,212 @@
+"use server";
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { decryptSecret, encryptSecret } from "@/lib/auth/encryption";
+import { getCrmConnector } from "@/lib/crm/connectors";
+import {
+    CRM_PROVIDER_IDS,
+    DEFAULT_FIELD_MAPPINGS,
+    isCrmProviderId,
+    normalizeFieldMapping,
+    type FieldMapping,
+} from "@/lib/crm/connectors/types";
+import { CrmApiError } from "@/lib/crm/connectors/http";
+import { getWorkspace, leadScope } from "@/lib/org/workspace";
+import { addCrmSyncJobs } from "@/lib/queue/crm-sync-queue";
+
+const MAX_SYNC_BATCH = 5000;
+
+const ConnectionSchema = z.object({
+    provider: z.enum(CRM_PROVIDER_IDS as [string, ...string[]], { message: "Geçersiz CRM." }),
+    accessToken: z.string().trim().min(8, "Geçerli bir erişim anahtarı girin.").max(500, "Erişim anahtarı çok uzun.").optional(),
+    active: z.boolean().optional(),
+});
+
+async function getUserId() {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) throw new Error("Yetkisiz.");
+    return userId;
+}
+
+async function findConnection(userId: string, id: string) {
+    const connection = await prisma.crmConnection.findFirst({ where: { id, userId } });
+    if (!connection) throw new Error("CRM bağlantısı bulunamadı.");
+    return connection;
+}
+
+// Only the last four characters of a stored token are ever sent back to the browser
+function maskToken(encryptedToken: string) {
+    try {
+        return `••••${decryptSecret(encryptedToken).slice(-4)}`;
+    } catch {
+        // Unreadable with the current key; the user has to enter the token again
+        return "••••";
+    }
+}
+
+function sealToken(token: string) {
+    try {
+        return encryptSecret(token);
+    } catch {
+        throw new Error("Erişim anahtarı şifrelenemedi: sunucuda şifreleme anahtarı eksik.");
+    }
+}
+
+function describeConnectionError(error: unknown) {
+    if (error instanceof CrmApiError && (error.status === 401 || error.status === 403)) {
+        return `${error.provider} erişim anahtarını reddetti.`;
+    }
+    if (error instanceof CrmApiError) return `${error.provider} ${error.status} hatası döndürdü.`;
+    return "CRM sunucusuna ulaşılamadı.";
+}
+
+export async function getCrmConnections() {
+    const userId = await getUserId();
+    const connections = await prisma.crmConnection.findMany({
+        where: { userId },
+        orderBy: { createdAt: "asc" },
+    });
+    const counts = await prisma.leadCrmSync.groupBy({
+        by: ["connectionId", "status"],
+        where: { connectionId: { in: connections.map(c => c.id) } },
+        _count: { _all: true },
+    });
+
+    return connections.map(connection => ({
+        id: connection.id,
+        provider: connection.provider,
+        tokenHint: maskToken(connection.accessToken),
+        fieldMapping: normalizeFieldMapping(connection.fieldMapping),
+        active: connection.active,
+        lastSyncAt: connection.lastSyncAt,
+        createdAt: connection.createdAt,
+        counts: Object.fromEntries(
+            counts.filter(c => c.connectionId === connection.id).map(c => [c.status, c._count._all])
+        ) as Partial<Record<"PENDING" | "SYNCED" | "FAILED", number>>,
+    }));
+}
+
+/**
+ * Creates or updates the user's connection for a provider. A new token is verified
+ * against the CRM before it is stored.
+ */
+export async function saveCrmConnection(input: { provider: string; accessToken?: string; active?: boolean; fieldMapping?: FieldMapping }) {
+    const userId = await getUserId();
+    const parsed = ConnectionSchema.safeParse(input);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+    const provider = parsed.data.provider;
+    if (!isCrmProviderId(provider)) throw new Error("Geçersiz CRM.");
+
+    const existing = await prisma.crmConnection.findUnique({ where: { userId_provider: { userId, provider } } });
+    if (!existing && !parsed.data.accessToken) throw new Error("Erişim anahtarı gerekli.");
+
+    if (parsed.data.accessToken) {
+        try {
+            await getCrmConnector(provider).testConnection(parsed.data.accessToken);
+        } catch (error: unknown) {
+            throw new Error(describeConnectionError(error));
+        }
+    }
+
+    const fieldMapping = input.fieldMapping
+        ? normalizeFieldMapping(input.fieldMapping)
+        : existing ? undefined : DEFAULT_FIELD_MAPPINGS[provider];
+    if (fieldMapping && Object.keys(fieldMapping.company).length === 0) {
+        throw new Error("Firma için en az bir alan eşleştirin.");
+    }
+
+    const data = {
+        ...(parsed.data.accessToken ? { accessToken: sealToken(parsed.data.accessToken) } : {}),
+        ...(parsed.data.active !== undefined ? { active: parsed.data.active } : {}),
+        ...(fieldMapping ? { fieldMapping: fieldMapping as unknown as Prisma.InputJsonValue } : {}),
+    };
+    const connection = existing
+        ? await prisma.crmConnection.update({ where: { id: existing.id }, data, select: { id: true } })
+        : await prisma.crmConnection.create({
+            data: { userId, provider, accessToken: sealToken(parsed.data.accessToken!), fieldMapping: fieldMapping as unknown as Prisma.InputJsonValue },
+            select: { id: true }
+        });
+    return { success: true, id: connection.id };
+}
+
+export async function deleteCrmConnection(id: string) {
+    const userId = await getUserId();
+    await findConnection(userId, id);
+    await prisma.crmConnection.delete({ where: { id } });
+    return { success: true };
+}
+
+export async function testCrmConnection(id: string) {
+    const userId = await getUserId();
+    const connection = await findConnection(userId, id);
+    if (!isCrmProviderId(connection.provider)) throw new Error("Geçersiz CRM.");
+    let accessToken: string;
+    try {
+        accessToken = decryptSecret(connection.accessToken);
+    } catch {
+        return { success: false, message: "Kayıtlı erişim anahtarı okunamadı, anahtarı yeniden girin." };
+    }
+    try {
+        await getCrmConnector(connection.provider).testConnection(accessToken);
+        return { success: true };
+    } catch (error: unknown) {
+        return { success: false, message: describeConnectionError(error) };
+    }
+}
+
+/**
+ * Queues leads for sync. Without leadIds every lead in the workspace is queued;
+ * `onlyUnsynced` skips leads that already synced successfully.
+ */
+export async function syncLeadsToCrm(connectionId: string, options: { leadIds?: string[]; onlyUnsynced?: boolean } = {}) {
+    const userId = await getUserId();
+    const connection = await findConnection(userId, connectionId);
+    if (!connection.active) throw new Error("CRM bağlantısı devre dışı.");
+
+    const workspace = await getWorkspace(userId);
+    const leads = await prisma.lead.findMany({
+        where: {
+            ...leadScope(workspace),
+            ...(options.leadIds ? { id: { in: options.leadIds } } : {}),
+            ...(options.onlyUnsynced ? { crmSyncs: { none: { connectionId, status: "SYNCED" } } } : {}),
+        },
+        select: { id: true },
+        take: MAX_SYNC_BATCH,
+    });
+    if (leads.length === 0) return { success: true, queued: 0 };
+
+    const leadIds = leads.map(l => l.id);
+    await prisma.$transaction(leadIds.map(leadId => prisma.leadCrmSync.upsert({
+        where: { leadId_connectionId: { leadId, connectionId } },
+        create: { leadId, connectionId, status: "PENDING" },
+        update: { status: "PENDING", error: null },
+    })));
+    await addCrmSyncJobs(connectionId, leadIds);
+    return { success: true, queued: leadIds.length };
+}
+
+export async function getLeadCrmSyncs(leadId: string) {
+    const userId = await getUserId();
+    const workspace = await getWorkspace(userId);
+    const lead = await prisma.lead.findFirst({ where: { id: leadId, ...leadScope(workspace) }, select: { id: true } });
+    if (!lead) throw new Error("Müşteri adayı bulunamadı.");
+
+    const connections = await prisma.crmConnection.findMany({
+        where: { userId },
+        orderBy: { createdAt: "asc" },
+        select: {
+            id: true,
+            provider: true,
+            active: true,
+            syncs: {
+                where: { leadId },
+                select: { status: true, externalCompanyId: true, externalContactId: true, lastAction: true, error: true, syncedAt: true, updatedAt: true }
+            }
+        }
+    });
+    return connections.map(({ syncs, ...connection }) => ({ ...connection, sync: syncs[0] ?? null }));
+}
@@ -0,0 +1,66 @@
+"use server";
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { normalizeExportLayout } from "@/lib/exports/layout";
+
+const MAX_TEMPLATES = 20;
+
+const TemplateNameSchema = z.string().trim().min(2, "Şablon adı en az 2 karakter olmalıdır.").max(60, "Şablon adı çok uzun.");
+
+async function getUserId() {
+    const session = await auth();
+    return session?.user?.id || "default-user";
+}
+
+export async function getExportTemplates() {
+    const userId = await getUserId();
+    const templates = await prisma.exportTemplate.findMany({
+        where: { userId },
+        orderBy: { name: "asc" },
+        select: { id: true, name: true, columns: true, delimiter: true, encoding: true, updatedAt: true }
+    });
+    return templates.map(t => ({ ...t, ...normalizeExportLayout(t) }));
+}
+
+export async function saveExportTemplate(input: { id?: string; name: string; columns: { key: string; header?: string }[]; delimiter?: string; encoding?: string }) {
+    const userId = await getUserId();
+    const name = TemplateNameSchema.safeParse(input.name);
+    if (!name.success) throw new Error(name.error.issues[0].message);
+    const layout = normalizeExportLayout(input);
+    if (layout.columns.length === 0) throw new Error("En az bir sütun seçin.");
+
+    const data = {
+        name: name.data,
+        columns: layout.columns as unknown as Prisma.InputJsonValue,
+        delimiter: layout.delimiter,
+        encoding: layout.encoding,
+    };
+
+    try {
+        if (input.id) {
+            const result = await prisma.exportTemplate.updateMany({ where: { id: input.id, userId }, data });
+            if (result.count === 0) throw new Error("Şablon bulunamadı.");
+            return { success: true, id: input.id };
+        }
+
+        const count = await prisma.exportTemplate.count({ where: { userId } });
+        if (count >= MAX_TEMPLATES) throw new Error(`En fazla ${MAX_TEMPLATES} şablon kaydedebilirsiniz.`);
+        const template = await prisma.exportTemplate.create({ data: { userId, ...data }, select: { id: true } });
+        return { success: true, id: template.id };
+    } catch (error: unknown) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+            throw new Error("Bu adla bir şablon zaten var.");
+        }
+        throw error;
+    }
+}
+
+export async function deleteExportTemplate(id: string) {
+    const userId = await getUserId();
+    const result = await prisma.exportTemplate.deleteMany({ where: { id, userId } });
+    if (result.count === 0) throw new Error("Şablon bulunamadı.");
+    return { success: true };
+}
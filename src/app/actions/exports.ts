@@ -0,0 +1,46 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { getStorage } from "@/lib/storage";
+import { buildExportDownloadUrl } from "@/lib/exports/links";
+
+const HISTORY_SIZE = 100;
+
+async function getUserId() {
+    const session = await auth();
+    return session?.user?.id || "default-user";
+}
+
+export async function getExports() {
+    const userId = await getUserId();
+    return prisma.export.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" },
+        take: HISTORY_SIZE,
+        select: {
+            id: true, format: true, status: true, rowCount: true, fileName: true, size: true,
+            error: true, expiresAt: true, completedAt: true, createdAt: true,
+        }
+    });
+}
+
+// Fresh signed link for a finished export; links are short-lived, so they are minted on demand
+export async function getExportDownloadUrl(id: string) {
+    const userId = await getUserId();
+    const record = await prisma.export.findFirst({ where: { id, userId }, select: { status: true, expiresAt: true } });
+    if (!record) throw new Error("Dışa aktarma bulunamadı.");
+    if (record.status !== "COMPLETED" || record.expiresAt < new Date()) throw new Error("Dosya artık indirilemiyor.");
+    return buildExportDownloadUrl(id, record.expiresAt).url;
+}
+
+export async function deleteExport(id: string) {
+    const userId = await getUserId();
+    const record = await prisma.export.findFirst({ where: { id, userId }, select: { storageKey: true, status: true } });
+    if (!record) throw new Error("Dışa aktarma bulunamadı.");
+    if (record.status === "PENDING" || record.status === "PROCESSING") throw new Error("Hazırlanan bir dosya silinemez.");
+
+    if (record.storageKey) await getStorage().delete(record.storageKey);
+    await prisma.export.delete({ where: { id } });
+    return { success: true };
+}
@@ -1,32 +1,74 @@
 "use server";
 
 import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
 import { PlaceResult } from "@/components/ResultsTable";
+import { getWorkspace, leadListScope, leadScope } from "@/lib/org/workspace";
+import { loadSuppressionMatcher } from "@/lib/crm/exclusions";
+import { Prisma } from "@prisma/client";
 
-export async function getLeads(userId: string): Promise<PlaceResult[]> {
-    try {
-        const leads = await prisma.lead.findMany({
-            where: {
-                userId: userId,
-                place: {
-                    emails: {
-                        isEmpty: false
-                    }
-                }
-            },
-            include: {
-                place: true
-            },
-            orderBy: {
-                updatedAt: 'desc'
-            },
-            take: 100 // Limit for now to avoid massive payloads
-        });
-
-        // Map to PlaceResult interface
-        return leads.map(lead => {
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export interface LeadRow extends PlaceResult {
+    lead_id: string;
+    lead_status: string;
+    lead_score: number | null;
+    excluded: boolean;
+    suppressed: boolean;
+}
+
+export interface GetLeadsOptions {
+    listId?: string | null;
+    cursor?: string | null;
+    take?: number;
+    withEmailOnly?: boolean;
+}
+
+/**
+ * The workspace's leads, best scored first, a page at a time. Excluded and suppressed leads are
+ * returned flagged rather than hidden so they can be reviewed and restored from the lists view.
+ */
+export async function getLeads(options: GetLeadsOptions = {}): Promise<{ leads: LeadRow[]; nextCursor: string | null; total: number }> {
+    const session = await auth();
+    const workspace = await getWorkspace(session?.user?.id || "default-user");
+    const take = Math.min(Math.max(Math.floor(options.take || DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+
+    if (options.listId) {
+        const list = await prisma.leadList.findFirst({ where: { id: options.listId, ...leadListScope(workspace) }, select: { id: true } });
+        if (!list) throw new Error("Liste bulunamadı.");
+    }
+
+    const where: Prisma.LeadWhereInput = {
+        ...leadScope(workspace),
+        ...(options.listId ? { listItems: { some: { listId: options.listId } } } : {}),
+        ...(options.withEmailOnly ? { place: { emails: { isEmpty: false } } } : {}),
+    };
+
+    const [leads, total, suppression] = await Promise.all([
+        prisma.lead.findMany({
+            where,
+            include: { place: true },
+            orderBy: [{ score: { sort: "desc", nulls: "last" } }, { updatedAt: "desc" }, { id: "asc" }],
+            take: take + 1,
+            ...(options.cursor ? { cursor: { id: options.cursor }, skip: 1 } : {}),
+        }),
+        prisma.lead.count({ where }),
+        loadSuppressionMatcher(workspace),
+    ]);
+
+    const page = leads.slice(0, take);
+    return {
+        total,
+        nextCursor: leads.length > take ? page[page.length - 1].id : null,
+        leads: page.map(lead => {
             const p = lead.place;
             return {
+                lead_id: lead.id,
+                lead_status: lead.status,
+                lead_score: lead.score,
+                excluded: !!lead.excludedAt,
+                suppressed: suppression.matches({ website: p.website, phone: p.phone, phones: p.phones, emails: p.emails }),
                 place_id: p.googleId,
                 name: p.name,
                 formatted_address: p.address || "",
@@ -35,21 +77,18 @@ export async function getLeads(userId: string): Promise<PlaceResult[]> {
                 rating: p.rating || undefined,
                 user_ratings_total: p.userRatingsTotal || undefined,
                 types: p.types,
+                primary_type: p.primaryType || undefined,
                 location: (p.latitude && p.longitude) ? {
                     latitude: p.latitude,
                     longitude: p.longitude
                 } : undefined,
+                distance_meters: lead.distanceMeters ?? undefined,
                 emails: p.emails,
-                socials: p.socials as any || undefined, // Typesafe casting if needed
-                // We might not have photos or extensive details stored in Place yet, 
-                // or we rely on them being optional in PlaceResult
-                // If we saved photos in Place, we would map them here. 
-                // For now, Place model doesn't seem to store photos explicitly in schema? 
-                // Checking schema: Place has no 'photos' field. OK.
+                emailScores: (p.emailScores as Record<string, number> | null) || undefined,
+                phones: p.phones,
+                business_status: p.businessStatus || undefined,
+                socials: (p.socials as PlaceResult["socials"] | null) || undefined,
             };
-        });
-    } catch (error) {
-        console.error("Failed to fetch leads:", error);
-        return [];
-    }
+        }),
+    };
 }
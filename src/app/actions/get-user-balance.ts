@@ -1,16 +1,13 @@
 "use server";
 
-import { prisma } from "@/lib/prisma";
+import { getCreditBalance } from "@/lib/org/credits";
 
 export async function getUserBalance(userId?: string) {
     if (!userId) {
         return 0;
     }
 
-    const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { credits: true }
-    });
-
-    return user?.credits ?? 0;
+    // Team members spend from the shared pool
+    const { balance } = await getCreditBalance(userId);
+    return balance;
 }
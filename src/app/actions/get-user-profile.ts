@@ -7,7 +7,17 @@ export async function getUserProfile(userId?: string) {
 
     const user = await prisma.user.findUnique({
         where: { id: userId },
+        include: {
+            membership: { select: { role: true, organization: { select: { id: true, name: true, credits: true } } } }
+        }
     });
+    if (!user) return null;
 
-    return user;
+    const { membership, ...profile } = user;
+    return {
+        ...profile,
+        organization: membership ? { ...membership.organization, role: membership.role } : null,
+        // Balance searches are charged against: the team pool for members
+        availableCredits: membership ? membership.organization.credits : user.credits,
+    };
 }
@@ -0,0 +1,61 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { getWorkspace, leadListScope, type Workspace } from "@/lib/org/workspace";
+import { findOrCreateLeadList, LeadListNameSchema } from "@/lib/crm/lead-lists";
+
+async function getUserWorkspace() {
+    const session = await auth();
+    return getWorkspace(session?.user?.id || "default-user");
+}
+
+async function findWorkspaceList(workspace: Workspace, listId: string) {
+    const list = await prisma.leadList.findFirst({ where: { id: listId, ...leadListScope(workspace) }, select: { id: true, name: true } });
+    if (!list) throw new Error("Liste bulunamadı.");
+    return list;
+}
+
+export async function getLeadLists() {
+    const workspace = await getUserWorkspace();
+    return prisma.leadList.findMany({
+        where: leadListScope(workspace),
+        orderBy: { name: "asc" },
+        select: { id: true, name: true, updatedAt: true, _count: { select: { items: true } } },
+    });
+}
+
+export async function createLeadList(name: string) {
+    const workspace = await getUserWorkspace();
+    return findOrCreateLeadList(workspace, name);
+}
+
+export async function renameLeadList(listId: string, name: string) {
+    const workspace = await getUserWorkspace();
+    const list = await findWorkspaceList(workspace, listId);
+    const parsed = LeadListNameSchema.safeParse(name);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+
+    const clash = await prisma.leadList.findFirst({
+        where: { ...leadListScope(workspace), id: { not: list.id }, name: { equals: parsed.data, mode: "insensitive" } },
+        select: { id: true },
+    });
+    if (clash) throw new Error("Bu adla bir liste zaten var.");
+    await prisma.leadList.update({ where: { id: list.id }, data: { name: parsed.data } });
+    return { success: true };
+}
+
+// Deleting a list only removes the grouping; its leads stay in the workspace
+export async function deleteLeadList(listId: string) {
+    const workspace = await getUserWorkspace();
+    const list = await findWorkspaceList(workspace, listId);
+    await prisma.leadList.delete({ where: { id: list.id } });
+    return { success: true };
+}
+
+export async function removeLeadsFromList(listId: string, leadIds: string[]) {
+    const workspace = await getUserWorkspace();
+    const list = await findWorkspaceList(workspace, listId);
+    const result = await prisma.leadListItem.deleteMany({ where: { listId: list.id, leadId: { in: leadIds } } });
+    return { success: true, removed: result.count };
+}
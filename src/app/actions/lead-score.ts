@@ -0,0 +1,48 @@
+"use server";
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { normalizeLeadScoreWeights, LEAD_SCORE_FACTORS } from "@/lib/analysis/lead-score";
+import { getLeadScoreWeights, rescoreWorkspaceLeads } from "@/lib/crm/scoring";
+import { getWorkspace } from "@/lib/org/workspace";
+import { canManageMembers } from "@/lib/org/roles";
+
+async function getUserWorkspace() {
+    const session = await auth();
+    return getWorkspace(session?.user?.id || "default-user");
+}
+
+export async function getLeadScoreSettings() {
+    const workspace = await getUserWorkspace();
+    return {
+        weights: await getLeadScoreWeights(workspace),
+        canEdit: !workspace.organizationId || canManageMembers(workspace.role),
+    };
+}
+
+/**
+ * Saves the workspace's weights and rescores its stored leads so DB-side ordering matches.
+ * Teams share one set of weights, so only owners/admins change them.
+ */
+export async function saveLeadScoreWeights(input: Record<string, number>) {
+    const workspace = await getUserWorkspace();
+    if (workspace.organizationId && !canManageMembers(workspace.role)) {
+        throw new Error("Skor ağırlıklarını yalnızca ekip yöneticileri düzenleyebilir.");
+    }
+
+    const weights = normalizeLeadScoreWeights(input);
+    if (LEAD_SCORE_FACTORS.every(f => weights[f.key] === 0)) {
+        throw new Error("En az bir ölçütün ağırlığı sıfırdan büyük olmalıdır.");
+    }
+
+    const data = { leadScoreWeights: weights as unknown as Prisma.InputJsonValue };
+    if (workspace.organizationId) {
+        await prisma.organization.update({ where: { id: workspace.organizationId }, data });
+    } else {
+        await prisma.user.update({ where: { id: workspace.userId }, data });
+    }
+
+    const rescored = await rescoreWorkspaceLeads(workspace, weights);
+    return { success: true, weights, rescored };
+}
@@ -0,0 +1,33 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+
+async function getUserId() {
+    const session = await auth();
+    return session?.user?.id || "default-user";
+}
+
+export async function getNotifications(limit = 20) {
+    const userId = await getUserId();
+    const safeLimit = Math.min(Math.max(1, limit), 100);
+    const [notifications, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+            where: { userId },
+            orderBy: { createdAt: "desc" },
+            take: safeLimit,
+            select: { id: true, type: true, title: true, body: true, data: true, readAt: true, createdAt: true }
+        }),
+        prisma.notification.count({ where: { userId, readAt: null } }),
+    ]);
+    return { notifications, unreadCount };
+}
+
+export async function markNotificationsRead(ids?: string[]) {
+    const userId = await getUserId();
+    await prisma.notification.updateMany({
+        where: { userId, readAt: null, ...(ids && ids.length > 0 ? { id: { in: ids } } : {}) },
+        data: { readAt: new Date() }
+    });
+    return { success: true };
+}
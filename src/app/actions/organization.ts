@@ -0,0 +1,322 @@
+"use server";
+
+import { z } from "zod";
+import { headers } from "next/headers";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { logAuditEvent } from "@/lib/auth/audit";
+import { getAppUrl, getClientId, getUserAgent } from "@/lib/auth/request";
+import { sendOrganizationInvitationEmail } from "@/lib/auth/email";
+import { canManageMembers, INVITABLE_ROLES, type MembershipRole } from "@/lib/org/roles";
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_MEMBERS = 50;
+
+const OrganizationNameSchema = z.string().trim().min(2, "Ekip adı en az 2 karakter olmalıdır.").max(60, "Ekip adı çok uzun.");
+const InviteSchema = z.object({
+    email: z.string().trim().toLowerCase().email("Geçerli bir e-posta adresi girin."),
+    role: z.enum(INVITABLE_ROLES.map(r => r.value) as [string, ...string[]], { message: "Geçersiz rol." }),
+});
+
+async function getUserId() {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) throw new Error("Yetkisiz.");
+    return userId;
+}
+
+async function audit(userId: string, action: string, metadata: Prisma.InputJsonValue) {
+    const headerStore = await headers();
+    await logAuditEvent({ userId, action, ip: getClientId(headerStore), userAgent: getUserAgent(headerStore), metadata });
+}
+
+async function getMembershipOrThrow(userId: string) {
+    const membership = await prisma.membership.findUnique({
+        where: { userId },
+        select: { id: true, role: true, organizationId: true, organization: { select: { name: true } } }
+    });
+    if (!membership) throw new Error("Bir ekibe üye değilsiniz.");
+    return membership;
+}
+
+async function getManagerMembership(userId: string) {
+    const membership = await getMembershipOrThrow(userId);
+    if (!canManageMembers(membership.role)) throw new Error("Bu işlem için ekip yöneticisi olmalısınız.");
+    return membership;
+}
+
+/**
+ * Moves a user's personal leads and pipeline into a team they just joined. Leads for places the
+ * team already tracks stay personal (and out of view) rather than creating duplicates.
+ */
+async function moveLeadsIntoOrganization(tx: Prisma.TransactionClient, userId: string, organizationId: string) {
+    const teamPlaceIds = (await tx.lead.findMany({ where: { organizationId }, select: { placeId: true } })).map(l => l.placeId);
+    await tx.lead.updateMany({
+        where: { userId, organizationId: null, placeId: { notIn: teamPlaceIds } },
+        data: { organizationId, personalUserId: null }
+    });
+}
+
+/**
+ * Hands a team back to its last member when they leave: its leads, lists, do-not-contact entries and the
+ * stages those leads use become personal, the credit pool returns to their balance and the empty team is
+ * deleted. Personal leads the team lead was shadowing are dropped in favour of the team's copy.
+ */
+async function moveLeadsOutOfOrganization(tx: Prisma.TransactionClient, userId: string, organizationId: string) {
+    const teamPlaceIds = (await tx.lead.findMany({ where: { organizationId }, select: { placeId: true } })).map(l => l.placeId);
+    await tx.lead.deleteMany({ where: { personalUserId: userId, placeId: { in: teamPlaceIds } } });
+    await tx.lead.updateMany({ where: { organizationId }, data: { userId, organizationId: null, personalUserId: userId } });
+    await tx.leadList.updateMany({ where: { organizationId }, data: { userId, organizationId: null } });
+    await tx.suppressionEntry.updateMany({ where: { organizationId }, data: { userId, organizationId: null } });
+
+    const personalStages = await tx.pipelineStage.findMany({ where: { userId, organizationId: null }, select: { key: true, position: true } });
+    const personalKeys = new Set(personalStages.map(s => s.key));
+    const nextPosition = personalStages.reduce((max, s) => Math.max(max, s.position + 1), 0);
+    const teamStages = await tx.pipelineStage.findMany({ where: { organizationId }, orderBy: { position: "asc" }, select: { id: true, key: true } });
+    const missing = teamStages.filter(stage => !personalKeys.has(stage.key));
+    for (const [index, stage] of missing.entries()) {
+        await tx.pipelineStage.update({ where: { id: stage.id }, data: { userId, organizationId: null, position: nextPosition + index } });
+    }
+
+    const organization = await tx.organization.delete({ where: { id: organizationId }, select: { name: true, credits: true } });
+    if (organization.credits > 0) {
+        await tx.user.update({ where: { id: userId }, data: { credits: { increment: organization.credits } } });
+        await tx.creditTransaction.create({
+            data: {
+                userId,
+                amount: organization.credits,
+                type: "TRANSFER",
+                description: `${organization.name} ekip havuzundan kalan kredi iadesi`,
+                metadata: { timestamp: new Date().toISOString() }
+            }
+        });
+    }
+}
+
+export async function getOrganization() {
+    const userId = await getUserId();
+    const membership = await prisma.membership.findUnique({
+        where: { userId },
+        select: {
+            role: true,
+            organization: {
+                select: {
+                    id: true,
+                    name: true,
+                    credits: true,
+                    createdAt: true,
+                    memberships: {
+                        orderBy: { createdAt: "asc" },
+                        select: { id: true, role: true, createdAt: true, user: { select: { id: true, name: true, email: true } } }
+                    },
+                    invitations: {
+                        where: { acceptedAt: null, expires: { gt: new Date() } },
+                        orderBy: { createdAt: "desc" },
+                        select: { id: true, email: true, role: true, expires: true, createdAt: true }
+                    },
+                }
+            }
+        }
+    });
+    if (!membership) return null;
+    return { ...membership.organization, myRole: membership.role as MembershipRole, myUserId: userId };
+}
+
+// Open invitations addressed to the signed-in user's email
+export async function getMyInvitations() {
+    const userId = await getUserId();
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+    if (!user?.email) return [];
+    return prisma.invitation.findMany({
+        where: { email: user.email.toLowerCase(), acceptedAt: null, expires: { gt: new Date() } },
+        orderBy: { createdAt: "desc" },
+        select: {
+            id: true,
+            role: true,
+            createdAt: true,
+            organization: { select: { name: true } },
+            invitedBy: { select: { name: true, email: true } }
+        }
+    });
+}
+
+export async function createOrganization(name: string) {
+    const userId = await getUserId();
+    const parsed = OrganizationNameSchema.safeParse(name);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+
+    const existing = await prisma.membership.findUnique({ where: { userId } });
+    if (existing) throw new Error("Zaten bir ekibe üyesiniz.");
+
+    const organization = await prisma.$transaction(async (tx) => {
+        const org = await tx.organization.create({ data: { name: parsed.data } });
+        await tx.membership.create({ data: { organizationId: org.id, userId, role: "OWNER" } });
+        await moveLeadsIntoOrganization(tx, userId, org.id);
+        return org;
+    });
+
+    await audit(userId, "ORG_CREATED", { organizationId: organization.id, name: organization.name });
+    return { success: true, id: organization.id };
+}
+
+export async function renameOrganization(name: string) {
+    const userId = await getUserId();
+    const parsed = OrganizationNameSchema.safeParse(name);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+    const membership = await getManagerMembership(userId);
+    await prisma.organization.update({ where: { id: membership.organizationId }, data: { name: parsed.data } });
+    return { success: true };
+}
+
+export async function inviteMember(email: string, role: string = "MEMBER") {
+    const userId = await getUserId();
+    const parsed = InviteSchema.safeParse({ email, role });
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+    const membership = await getManagerMembership(userId);
+
+    const memberCount = await prisma.membership.count({ where: { organizationId: membership.organizationId } });
+    if (memberCount >= MAX_MEMBERS) throw new Error(`Bir ekipte en fazla ${MAX_MEMBERS} üye olabilir.`);
+
+    const alreadyMember = await prisma.membership.findFirst({
+        where: { organizationId: membership.organizationId, user: { email: { equals: parsed.data.email, mode: "insensitive" } } }
+    });
+    if (alreadyMember) throw new Error("Bu kullanıcı zaten ekipte.");
+
+    // Re-inviting replaces any open invitation for the same address
+    await prisma.invitation.deleteMany({
+        where: { organizationId: membership.organizationId, email: parsed.data.email, acceptedAt: null }
+    });
+    await prisma.invitation.create({
+        data: {
+            organizationId: membership.organizationId,
+            email: parsed.data.email,
+            role: parsed.data.role,
+            invitedById: userId,
+            expires: new Date(Date.now() + INVITATION_TTL_MS),
+        }
+    });
+
+    const inviter = await prisma.user.findUnique({ where: { id: userId }, select: { name: true, email: true } });
+    await sendOrganizationInvitationEmail(
+        parsed.data.email,
+        membership.organization.name,
+        inviter?.name || inviter?.email || "Bir ekip yöneticisi",
+        `${getAppUrl()}/dashboard`
+    );
+    await audit(userId, "ORG_MEMBER_INVITED", { organizationId: membership.organizationId, email: parsed.data.email, role: parsed.data.role });
+    return { success: true };
+}
+
+export async function revokeInvitation(invitationId: string) {
+    const userId = await getUserId();
+    const membership = await getManagerMembership(userId);
+    const result = await prisma.invitation.deleteMany({
+        where: { id: invitationId, organizationId: membership.organizationId, acceptedAt: null }
+    });
+    if (result.count === 0) throw new Error("Davet bulunamadı.");
+    return { success: true };
+}
+
+export async function acceptInvitation(invitationId: string) {
+    const userId = await getUserId();
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true, emailVerified: true } });
+    if (!user?.email) throw new Error("Davet bulunamadı.");
+    if (!user.emailVerified) throw new Error("Daveti kabul etmek için önce e-posta adresinizi doğrulayın.");
+
+    const invitation = await prisma.invitation.findFirst({
+        where: { id: invitationId, email: user.email.toLowerCase(), acceptedAt: null, expires: { gt: new Date() } },
+        select: { id: true, organizationId: true, role: true }
+    });
+    if (!invitation) throw new Error("Davet bulunamadı veya süresi dolmuş.");
+
+    const existing = await prisma.membership.findUnique({ where: { userId } });
+    if (existing) throw new Error("Yeni bir ekibe katılmak için önce mevcut ekibinizden ayrılın.");
+
+    await prisma.$transaction(async (tx) => {
+        await tx.membership.create({ data: { organizationId: invitation.organizationId, userId, role: invitation.role } });
+        await tx.invitation.update({ where: { id: invitation.id }, data: { acceptedAt: new Date() } });
+        await moveLeadsIntoOrganization(tx, userId, invitation.organizationId);
+    });
+
+    await audit(userId, "ORG_MEMBER_JOINED", { organizationId: invitation.organizationId, role: invitation.role });
+    return { success: true };
+}
+
+export async function changeMemberRole(membershipId: string, role: string) {
+    const userId = await getUserId();
+    const membership = await getMembershipOrThrow(userId);
+    if (membership.role !== "OWNER") throw new Error("Rolleri yalnızca ekip sahibi değiştirebilir.");
+    if (!INVITABLE_ROLES.some(r => r.value === role)) throw new Error("Geçersiz rol.");
+
+    const target = await prisma.membership.findFirst({ where: { id: membershipId, organizationId: membership.organizationId } });
+    if (!target) throw new Error("Üye bulunamadı.");
+    if (target.role === "OWNER") throw new Error("Ekip sahibinin rolü değiştirilemez.");
+
+    await prisma.membership.update({ where: { id: target.id }, data: { role } });
+    await audit(userId, "ORG_ROLE_CHANGED", { organizationId: membership.organizationId, memberUserId: target.userId, role });
+    return { success: true };
+}
+
+export async function removeMember(membershipId: string) {
+    const userId = await getUserId();
+    const membership = await getManagerMembership(userId);
+
+    const target = await prisma.membership.findFirst({ where: { id: membershipId, organizationId: membership.organizationId } });
+    if (!target) throw new Error("Üye bulunamadı.");
+    if (target.userId === userId) throw new Error("Kendinizi çıkarmak için ekipten ayrılın.");
+    if (target.role === "OWNER") throw new Error("Ekip sahibi çıkarılamaz.");
+    if (target.role === "ADMIN" && membership.role !== "OWNER") throw new Error("Yöneticileri yalnızca ekip sahibi çıkarabilir.");
+
+    // Shared leads stay with the team; only the removed member's assignments are cleared
+    await prisma.$transaction([
+        prisma.lead.updateMany({ where: { organizationId: membership.organizationId, assigneeId: target.userId }, data: { assigneeId: null } }),
+        prisma.membership.delete({ where: { id: target.id } }),
+    ]);
+    await audit(userId, "ORG_MEMBER_REMOVED", { organizationId: membership.organizationId, memberUserId: target.userId });
+    return { success: true };
+}
+
+export async function leaveOrganization() {
+    const userId = await getUserId();
+    const membership = await getMembershipOrThrow(userId);
+    const others = await prisma.membership.count({ where: { organizationId: membership.organizationId, userId: { not: userId } } });
+    if (membership.role === "OWNER" && others > 0) throw new Error("Ekip sahibi, ekipte başka üyeler varken ayrılamaz.");
+
+    await prisma.$transaction(async (tx) => {
+        await tx.lead.updateMany({ where: { organizationId: membership.organizationId, assigneeId: userId }, data: { assigneeId: null } });
+        await tx.membership.delete({ where: { id: membership.id } });
+        if (others === 0) await moveLeadsOutOfOrganization(tx, userId, membership.organizationId);
+    });
+    await audit(userId, "ORG_MEMBER_LEFT", { organizationId: membership.organizationId, dissolved: others === 0 });
+    return { success: true };
+}
+
+// Owners and admins top up the shared pool from their personal balance
+export async function transferCreditsToOrganization(amount: number) {
+    const userId = await getUserId();
+    if (!Number.isInteger(amount) || amount <= 0) throw new Error("Geçersiz kredi miktarı.");
+    const membership = await getManagerMembership(userId);
+
+    await prisma.$transaction(async (tx) => {
+        const updated = await tx.user.updateMany({
+            where: { id: userId, credits: { gte: amount } },
+            data: { credits: { decrement: amount } }
+        });
+        if (updated.count === 0) throw new Error("Yetersiz bakiye.");
+        await tx.organization.update({ where: { id: membership.organizationId }, data: { credits: { increment: amount } } });
+        await tx.creditTransaction.create({
+            data: {
+                userId,
+                organizationId: membership.organizationId,
+                amount,
+                type: "TRANSFER",
+                description: `${membership.organization.name} ekip havuzuna kredi aktarımı`,
+                metadata: { timestamp: new Date().toISOString() }
+            }
+        });
+    });
+
+    await audit(userId, "ORG_CREDITS_TRANSFERRED", { organizationId: membership.organizationId, amount });
+    return { success: true };
+}
@@ -0,0 +1,340 @@
+"use server";
+
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import {
+    DEFAULT_PIPELINE_STAGES,
+    LEAD_ACTIVITY_TYPES,
+    MAX_PIPELINE_STAGES,
+    PIPELINE_STAGE_KINDS,
+    stageKeyFromName,
+} from "@/lib/crm/pipeline";
+import { getWorkspace, leadScope, stageScope, type Workspace } from "@/lib/org/workspace";
+import { dispatchWebhookEvent, workspaceUserIds } from "@/lib/webhooks/dispatch";
+import { canManageMembers } from "@/lib/org/roles";
+
+const LEADS_PER_STAGE = 200;
+
+const StageSchema = z.object({
+    name: z.string().trim().min(2, "Aşama adı en az 2 karakter olmalıdır.").max(40, "Aşama adı çok uzun."),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Geçersiz renk.").optional(),
+    kind: z.enum(PIPELINE_STAGE_KINDS.map(k => k.value) as [string, ...string[]]).optional(),
+});
+
+const ActivitySchema = z.object({
+    type: z.enum(LEAD_ACTIVITY_TYPES.map(t => t.value) as [string, ...string[]], { message: "Geçersiz aktivite türü." }),
+    note: z.string().trim().max(2000, "Not çok uzun.").optional(),
+    occurredAt: z.coerce.date().optional(),
+});
+
+async function getUserWorkspace() {
+    const session = await auth();
+    return getWorkspace(session?.user?.id || "default-user");
+}
+
+// Seeds the default stages the first time a user (or team) opens the pipeline
+async function ensurePipelineStages(workspace: Workspace) {
+    const count = await prisma.pipelineStage.count({ where: stageScope(workspace) });
+    if (count > 0) return;
+    await prisma.pipelineStage.createMany({
+        data: DEFAULT_PIPELINE_STAGES.map((stage, position) => ({
+            userId: workspace.userId,
+            organizationId: workspace.organizationId,
+            ...stage,
+            position,
+        })),
+    });
+}
+
+async function findWorkspaceLead(workspace: Workspace, leadId: string) {
+    const lead = await prisma.lead.findFirst({
+        where: { id: leadId, ...leadScope(workspace) },
+        select: { id: true, status: true, assigneeId: true }
+    });
+    if (!lead) throw new Error("Müşteri adayı bulunamadı.");
+    return lead;
+}
+
+async function listStages(workspace: Workspace) {
+    await ensurePipelineStages(workspace);
+    return prisma.pipelineStage.findMany({
+        where: stageScope(workspace),
+        orderBy: { position: "asc" },
+        select: { id: true, key: true, name: true, color: true, kind: true, position: true }
+    });
+}
+
+export async function getPipelineStages() {
+    return listStages(await getUserWorkspace());
+}
+
+/**
+ * Kanban data: stages in order, each with its most recently moved leads.
+ * Leads whose status matches no stage (e.g. a deleted stage) land in the first column.
+ */
+export async function getPipeline(filter: { assignedToMe?: boolean } = {}) {
+    const workspace = await getUserWorkspace();
+    const stages = await listStages(workspace);
+    const stageKeys = new Set(stages.map(s => s.key));
+    const where = { ...leadScope(workspace), ...(filter.assignedToMe ? { assigneeId: workspace.userId } : {}) };
+
+    const leads = await prisma.lead.findMany({
+        where,
+        orderBy: [{ stageChangedAt: { sort: "desc", nulls: "last" } }, { updatedAt: "desc" }],
+        take: LEADS_PER_STAGE * stages.length,
+        select: {
+            id: true,
+            status: true,
+            score: true,
+            notes: true,
+            followUpAt: true,
+            stageChangedAt: true,
+            updatedAt: true,
+            assignee: { select: { id: true, name: true, email: true } },
+            place: {
+                select: { googleId: true, name: true, address: true, phone: true, website: true, emails: true, rating: true }
+            },
+            activities: {
+                orderBy: { occurredAt: "desc" },
+                take: 1,
+                select: { type: true, occurredAt: true }
+            },
+            _count: { select: { activities: true } }
+        }
+    });
+
+    const fallbackKey = stages[0]?.key;
+    const columns = stages.map(stage => ({ ...stage, leads: [] as typeof leads }));
+    const byKey = new Map(columns.map(c => [c.key, c]));
+    for (const lead of leads) {
+        const column = byKey.get(stageKeys.has(lead.status) ? lead.status : fallbackKey);
+        if (column && column.leads.length < LEADS_PER_STAGE) column.leads.push(lead);
+    }
+
+    const counts = await prisma.lead.groupBy({ by: ["status"], where, _count: { _all: true } });
+    const totals = new Map(counts.map(c => [c.status, c._count._all]));
+
+    return columns.map(column => ({
+        ...column,
+        total: column.key === fallbackKey
+            ? counts.filter(c => c.status === fallbackKey || !stageKeys.has(c.status)).reduce((sum, c) => sum + c._count._all, 0)
+            : totals.get(column.key) || 0,
+    }));
+}
+
+// Stage layout is shared by the whole team, so only owners/admins change it
+function assertCanEditStages(workspace: Workspace) {
+    if (workspace.organizationId && !canManageMembers(workspace.role)) {
+        throw new Error("Aşamaları yalnızca ekip yöneticileri düzenleyebilir.");
+    }
+}
+
+export async function createPipelineStage(input: { name: string; color?: string; kind?: string }) {
+    const workspace = await getUserWorkspace();
+    assertCanEditStages(workspace);
+    const parsed = StageSchema.safeParse(input);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+
+    const stages = await listStages(workspace);
+    if (stages.length >= MAX_PIPELINE_STAGES) throw new Error(`En fazla ${MAX_PIPELINE_STAGES} aşama oluşturabilirsiniz.`);
+
+    const baseKey = stageKeyFromName(parsed.data.name);
+    let key = baseKey;
+    for (let i = 2; stages.some(s => s.key === key); i++) key = `${baseKey}_${i}`;
+
+    // New stages go before the closing (won/lost) columns
+    const firstClosed = stages.findIndex(s => s.kind !== "OPEN");
+    const position = firstClosed === -1 ? stages.length : firstClosed;
+    await prisma.$transaction([
+        ...stages.slice(position).map((s, i) => prisma.pipelineStage.update({ where: { id: s.id }, data: { position: position + i + 1 } })),
+        prisma.pipelineStage.create({
+            data: {
+                userId: workspace.userId,
+                organizationId: workspace.organizationId,
+                key,
+                name: parsed.data.name,
+                color: parsed.data.color,
+                kind: parsed.data.kind,
+                position,
+            }
+        }),
+    ]);
+    return { success: true, key };
+}
+
+export async function updatePipelineStage(id: string, input: { name?: string; color?: string; kind?: string }) {
+    const workspace = await getUserWorkspace();
+    assertCanEditStages(workspace);
+    const parsed = StageSchema.partial().safeParse(input);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+
+    const result = await prisma.pipelineStage.updateMany({ where: { id, ...stageScope(workspace) }, data: parsed.data });
+    if (result.count === 0) throw new Error("Aşama bulunamadı.");
+    return { success: true };
+}
+
+export async function reorderPipelineStages(orderedIds: string[]) {
+    const workspace = await getUserWorkspace();
+    assertCanEditStages(workspace);
+    const stages = await prisma.pipelineStage.findMany({ where: stageScope(workspace), select: { id: true } });
+    const own = new Set(stages.map(s => s.id));
+    if (orderedIds.length !== own.size || orderedIds.some(id => !own.has(id))) {
+        throw new Error("Geçersiz aşama sıralaması.");
+    }
+    await prisma.$transaction(orderedIds.map((id, position) => prisma.pipelineStage.update({ where: { id }, data: { position } })));
+    return { success: true };
+}
+
+// Leads in the deleted stage are moved to `moveToKey` so nothing disappears from the board
+export async function deletePipelineStage(id: string, moveToKey: string) {
+    const workspace = await getUserWorkspace();
+    assertCanEditStages(workspace);
+    const stages = await prisma.pipelineStage.findMany({ where: stageScope(workspace), select: { id: true, key: true } });
+    const stage = stages.find(s => s.id === id);
+    if (!stage) throw new Error("Aşama bulunamadı.");
+    if (stages.length <= 1) throw new Error("En az bir aşama kalmalıdır.");
+    if (moveToKey === stage.key || !stages.some(s => s.key === moveToKey)) throw new Error("Adayların taşınacağı aşama geçersiz.");
+
+    await prisma.$transaction([
+        prisma.lead.updateMany({ where: { ...leadScope(workspace), status: stage.key }, data: { status: moveToKey, stageChangedAt: new Date() } }),
+        prisma.pipelineStage.delete({ where: { id: stage.id } }),
+    ]);
+    return { success: true };
+}
+
+export async function moveLeadToStage(leadId: string, stageKey: string) {
+    const workspace = await getUserWorkspace();
+    const lead = await findWorkspaceLead(workspace, leadId);
+    const stage = await prisma.pipelineStage.findFirst({ where: { ...stageScope(workspace), key: stageKey }, select: { key: true } });
+    if (!stage) throw new Error("Aşama bulunamadı.");
+    if (lead.status === stage.key) return { success: true };
+
+    await prisma.$transaction([
+        prisma.lead.update({ where: { id: lead.id }, data: { status: stage.key, stageChangedAt: new Date() } }),
+        prisma.leadActivity.create({
+            data: { leadId: lead.id, userId: workspace.userId, type: "STAGE_CHANGE", metadata: { from: lead.status, to: stage.key } }
+        }),
+    ]);
+
+    const place = await prisma.lead.findUnique({ where: { id: lead.id }, select: { place: { select: { googleId: true, name: true } } } });
+    await dispatchWebhookEvent(await workspaceUserIds(workspace), "lead.status_changed", {
+        leadId: lead.id,
+        placeId: place?.place.googleId ?? null,
+        placeName: place?.place.name ?? null,
+        from: lead.status,
+        to: stage.key,
+        changedBy: workspace.userId,
+        organizationId: workspace.organizationId,
+    });
+    return { success: true };
+}
+
+export async function getLeadActivities(leadId: string) {
+    const workspace = await getUserWorkspace();
+    await findWorkspaceLead(workspace, leadId);
+    return prisma.leadActivity.findMany({
+        where: { leadId },
+        orderBy: { occurredAt: "desc" },
+        take: 100,
+        select: { id: true, type: true, note: true, metadata: true, occurredAt: true, user: { select: { name: true, email: true } } }
+    });
+}
+
+export async function addLeadActivity(leadId: string, input: { type: string; note?: string; occurredAt?: string | Date }) {
+    const workspace = await getUserWorkspace();
+    const parsed = ActivitySchema.safeParse(input);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+    const lead = await findWorkspaceLead(workspace, leadId);
+
+    const activity = await prisma.leadActivity.create({
+        data: {
+            leadId: lead.id,
+            userId: workspace.userId,
+            type: parsed.data.type,
+            note: parsed.data.note || null,
+            occurredAt: parsed.data.occurredAt ?? new Date(),
+        },
+        select: { id: true, type: true, note: true, metadata: true, occurredAt: true, user: { select: { name: true, email: true } } }
+    });
+    await prisma.lead.update({ where: { id: lead.id }, data: { updatedAt: new Date() } });
+    return activity;
+}
+
+// Members can only delete the activities they logged themselves
+export async function deleteLeadActivity(activityId: string) {
+    const workspace = await getUserWorkspace();
+    const result = await prisma.leadActivity.deleteMany({ where: { id: activityId, userId: workspace.userId, type: { not: "STAGE_CHANGE" } } });
+    if (result.count === 0) throw new Error("Aktivite bulunamadı.");
+    return { success: true };
+}
+
+export async function setLeadFollowUp(leadId: string, followUpAt: string | Date | null) {
+    const workspace = await getUserWorkspace();
+    const lead = await findWorkspaceLead(workspace, leadId);
+    const date = followUpAt ? new Date(followUpAt) : null;
+    if (date && Number.isNaN(date.getTime())) throw new Error("Geçersiz takip tarihi.");
+    await prisma.lead.update({ where: { id: lead.id }, data: { followUpAt: date } });
+    return { success: true };
+}
+
+export async function updateLeadNotes(leadId: string, notes: string) {
+    const workspace = await getUserWorkspace();
+    const lead = await findWorkspaceLead(workspace, leadId);
+    if (notes.length > 5000) throw new Error("Not çok uzun.");
+    await prisma.lead.update({ where: { id: lead.id }, data: { notes: notes.trim() || null } });
+    return { success: true };
+}
+
+// Follow-ups of open leads due up to `withinDays` from now (overdue ones included), soonest first
+export async function getUpcomingFollowUps(withinDays = 7) {
+    const workspace = await getUserWorkspace();
+    const stages = await listStages(workspace);
+    const closedKeys = stages.filter(s => s.kind !== "OPEN").map(s => s.key);
+    const until = new Date(Date.now() + Math.min(Math.max(0, withinDays), 90) * 24 * 60 * 60 * 1000);
+    return prisma.lead.findMany({
+        where: { ...leadScope(workspace), followUpAt: { not: null, lte: until }, status: { notIn: closedKeys } },
+        orderBy: { followUpAt: "asc" },
+        take: 50,
+        select: { id: true, status: true, followUpAt: true, place: { select: { googleId: true, name: true, phone: true } } }
+    });
+}
+
+/**
+ * Sets or clears the team member responsible for a lead. Owners/admins can assign anyone in
+ * the team; members can only take a lead themselves or release their own.
+ */
+export async function assignLead(leadId: string, assigneeId: string | null) {
+    const workspace = await getUserWorkspace();
+    if (!workspace.organizationId) throw new Error("Atama yalnızca ekip çalışma alanlarında kullanılabilir.");
+    const lead = await findWorkspaceLead(workspace, leadId);
+
+    if (!canManageMembers(workspace.role)) {
+        const takingSelf = assigneeId === workspace.userId;
+        const releasingOwn = assigneeId === null && lead.assigneeId === workspace.userId;
+        if (!takingSelf && !releasingOwn) throw new Error("Bu adayı yalnızca ekip yöneticileri atayabilir.");
+    }
+    if (assigneeId) {
+        const member = await prisma.membership.findFirst({ where: { userId: assigneeId, organizationId: workspace.organizationId } });
+        if (!member) throw new Error("Seçilen kullanıcı ekipte değil.");
+    }
+
+    await prisma.lead.update({ where: { id: lead.id }, data: { assigneeId } });
+    return { success: true };
+}
+
+// Assignment options for the board; null outside a team workspace
+export async function getAssignableMembers() {
+    const workspace = await getUserWorkspace();
+    if (!workspace.organizationId) return null;
+    const memberships = await prisma.membership.findMany({
+        where: { organizationId: workspace.organizationId },
+        orderBy: { createdAt: "asc" },
+        select: { user: { select: { id: true, name: true, email: true } } }
+    });
+    return {
+        myUserId: workspace.userId,
+        canAssignOthers: canManageMembers(workspace.role),
+        members: memberships.map(m => m.user),
+    };
+}
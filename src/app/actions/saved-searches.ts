@@ -0,0 +1,146 @@
+"use server";
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { PLANS, SubscriptionTier } from "@/lib/plans";
+import { prepareSearchOptions } from "@/lib/search/prepare";
+import { isSavedSearchSchedule, type SavedSearchSchedule } from "@/lib/search/saved-search-schedule";
+import { addSavedSearchRunJob, scheduleSavedSearch, unscheduleSavedSearch } from "@/lib/queue/saved-search-queue";
+import type { SearchOptions } from "@/lib/search/options";
+
+const MAX_SAVED_SEARCHES = 20;
+const RECENT_RUNS = 5;
+
+const SavedSearchSchema = z.object({
+    name: z.string().trim().min(2, "Arama adı en az 2 karakter olmalıdır.").max(60, "Arama adı çok uzun."),
+    city: z.string().trim().min(2, "Şehir adı en az 2 karakter olmalıdır.").max(50, "Şehir adı çok uzun."),
+    keyword: z.string().trim().min(2, "Anahtar kelime en az 2 karakter olmalıdır.").max(50, "Anahtar kelime çok uzun."),
+    deepSearch: z.boolean().optional().default(false),
+    schedule: z.string().refine(isSavedSearchSchedule, "Geçersiz tekrar sıklığı.").default("weekly"),
+    notifyEmail: z.boolean().optional().default(true),
+});
+
+async function getUserId() {
+    const session = await auth();
+    return session?.user?.id || "default-user";
+}
+
+async function assertSavedSearchesAllowed(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { subscriptionTier: true } });
+    const plan = PLANS[(user?.subscriptionTier as SubscriptionTier) || "FREE"] || PLANS.FREE;
+    if (!plan.features.savedSearches) throw new Error("Kayıtlı aramalar planınızda bulunmuyor. Lütfen planınızı yükseltin.");
+}
+
+export async function getSavedSearches() {
+    const userId = await getUserId();
+    const searches = await prisma.savedSearch.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" },
+        select: {
+            id: true, name: true, city: true, keyword: true, deepSearch: true, schedule: true,
+            options: true, active: true, notifyEmail: true, lastRunAt: true, lastError: true, createdAt: true,
+            runs: {
+                orderBy: { createdAt: "desc" },
+                take: RECENT_RUNS,
+                select: { id: true, resultCount: true, newPlaceIds: true, closedPlaceIds: true, createdAt: true }
+            }
+        }
+    });
+
+    // Resolve names for the places flagged by the latest run of each search
+    const flaggedIds = searches.flatMap(s => s.runs[0] ? [...s.runs[0].newPlaceIds, ...s.runs[0].closedPlaceIds] : []);
+    const places = flaggedIds.length > 0
+        ? await prisma.place.findMany({ where: { googleId: { in: flaggedIds } }, select: { googleId: true, name: true, address: true } })
+        : [];
+    const byId = new Map(places.map(p => [p.googleId, p]));
+
+    return searches.map(search => ({
+        ...search,
+        latestOpened: (search.runs[0]?.newPlaceIds || []).flatMap(id => byId.get(id) || []),
+        latestClosed: (search.runs[0]?.closedPlaceIds || []).flatMap(id => byId.get(id) || []),
+    }));
+}
+
+export async function createSavedSearch(input: {
+    name: string;
+    city: string;
+    keyword: string;
+    deepSearch?: boolean;
+    schedule?: SavedSearchSchedule;
+    notifyEmail?: boolean;
+    options?: SearchOptions;
+}) {
+    const userId = await getUserId();
+    const parsed = SavedSearchSchema.safeParse(input);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+
+    await assertSavedSearchesAllowed(userId);
+    const count = await prisma.savedSearch.count({ where: { userId } });
+    if (count >= MAX_SAVED_SEARCHES) throw new Error(`En fazla ${MAX_SAVED_SEARCHES} kayıtlı arama oluşturabilirsiniz.`);
+
+    const options = await prepareSearchOptions(parsed.data.keyword, input.options || {}, userId);
+    const saved = await prisma.savedSearch.create({
+        data: {
+            userId,
+            name: parsed.data.name,
+            city: parsed.data.city,
+            keyword: parsed.data.keyword,
+            deepSearch: parsed.data.deepSearch,
+            schedule: parsed.data.schedule,
+            notifyEmail: parsed.data.notifyEmail,
+            options: options as unknown as Prisma.InputJsonValue,
+        },
+        select: { id: true, schedule: true }
+    });
+
+    await scheduleSavedSearch(saved.id, saved.schedule as SavedSearchSchedule);
+    // First run records the baseline the scheduled runs are compared against
+    await addSavedSearchRunJob(saved.id);
+    return { success: true, id: saved.id };
+}
+
+export async function updateSavedSearch(id: string, changes: { active?: boolean; schedule?: SavedSearchSchedule; notifyEmail?: boolean }) {
+    const userId = await getUserId();
+    const existing = await prisma.savedSearch.findFirst({ where: { id, userId }, select: { id: true, schedule: true, active: true } });
+    if (!existing) throw new Error("Kayıtlı arama bulunamadı.");
+    if (changes.schedule !== undefined && !isSavedSearchSchedule(changes.schedule)) throw new Error("Geçersiz tekrar sıklığı.");
+    if (changes.active) await assertSavedSearchesAllowed(userId);
+
+    const updated = await prisma.savedSearch.update({
+        where: { id },
+        data: {
+            active: changes.active,
+            schedule: changes.schedule,
+            notifyEmail: changes.notifyEmail,
+            ...(changes.active ? { lastError: null } : {}),
+        },
+        select: { id: true, schedule: true, active: true }
+    });
+
+    if (updated.active) {
+        await scheduleSavedSearch(updated.id, updated.schedule as SavedSearchSchedule);
+    } else if (existing.active) {
+        await unscheduleSavedSearch(updated.id);
+    }
+    return { success: true };
+}
+
+export async function deleteSavedSearch(id: string) {
+    const userId = await getUserId();
+    const result = await prisma.savedSearch.deleteMany({ where: { id, userId } });
+    if (result.count === 0) throw new Error("Kayıtlı arama bulunamadı.");
+    await unscheduleSavedSearch(id);
+    return { success: true };
+}
+
+export async function runSavedSearchNow(id: string) {
+    const userId = await getUserId();
+    const existing = await prisma.savedSearch.findFirst({ where: { id, userId }, select: { id: true, active: true } });
+    if (!existing) throw new Error("Kayıtlı arama bulunamadı.");
+    if (!existing.active) throw new Error("Duraklatılmış arama çalıştırılamaz.");
+    await assertSavedSearchesAllowed(userId);
+    await addSavedSearchRunJob(existing.id);
+    return { success: true };
+}
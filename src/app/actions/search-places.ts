@@ -5,11 +5,26 @@ import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
 import { acquireLock, releaseLock, waitForValue, rateLimitSlidingWindow } from "@/lib/traffic-control";
 import { googlePlacesGateway } from "@/lib/gateway/google-places";
+import { getPlacesProvider } from "@/lib/gateway/providers";
 import { PLANS, SubscriptionTier } from "@/lib/plans";
 import { z } from "zod";
 import { randomUUID } from "crypto";
 import { addSearchJob } from "@/lib/queue/search-queue";
 import { addEnrichmentJob } from "@/lib/queue/enrichment-queue";
+import { areaBounds, pointInArea, type SearchArea } from "@/lib/geo/polygon";
+import { circleToPolygon, haversineMeters } from "@/lib/geo/distance";
+import type { NearbyTarget, SearchOptions } from "@/lib/search/options";
+import { diffPlace, recordPlaceChanges } from "@/lib/places/place-changes";
+import { mergeKeywordResults, normalizeKeywordSet } from "@/lib/search/keywords";
+import { buildSearchScope, normalizeInput, prepareSearchOptions, SearchInputError } from "@/lib/search/prepare";
+import { getWorkspace } from "@/lib/org/workspace";
+import { domainEnrichmentKey } from "@/lib/scraping/domain-enrichment";
+import { getLeadScoreWeights, scoreLead } from "@/lib/crm/scoring";
+import { filterSearchResultForUser } from "@/lib/crm/exclusions";
+import { debitCredits, getCreditBalance } from "@/lib/org/credits";
+import { dispatchWebhookEvent } from "@/lib/webhooks/dispatch";
+import type { PlaceResult } from "@/components/ResultsTable";
+import type { LatLng, ProviderPlace } from "@/lib/gateway/types";
 
 const CACHE_TTL_SECONDS = 86400;
 const LOCK_TTL_MS = 30000;
@@ -22,35 +37,140 @@ const SearchSchema = z.object({
     city: z.string().trim().min(2, "Şehir adı en az 2 karakter olmalıdır.").max(50, "Şehir adı çok uzun."),
     keyword: z.string().trim().min(2, "Anahtar kelime en az 2 karakter olmalıdır.").max(50, "Anahtar kelime çok uzun."),
     deepSearch: z.boolean().optional().default(false),
+    area: z.unknown().optional(),
+    nearby: z.unknown().optional(),
+    keywords: z.unknown().optional(),
+    synonymGroupId: z.unknown().optional(),
+    includedType: z.unknown().optional(),
+    strictTypeFiltering: z.unknown().optional(),
+    provider: z.unknown().optional(),
 });
 
-function normalizeInput(value: string) {
-    return value.trim().toLowerCase();
+// A provider listing as it moves through a search, tagged with the keywords of a keyword set that found it
+type SearchPlace = ProviderPlace & { matched_keywords?: string[] };
+
+// Resolves the center of a radius search (coordinates or a stored Place)
+async function resolveNearbyCenter(nearby: NearbyTarget) {
+    if (nearby.placeId) {
+        const place = await prisma.place.findUnique({
+            where: { googleId: nearby.placeId },
+            select: { latitude: true, longitude: true }
+        });
+        if (!place || place.latitude == null || place.longitude == null) {
+            throw new Error("Seçilen işletmenin konumu bulunamadı.");
+        }
+        return { lat: place.latitude, lng: place.longitude };
+    }
+    return { lat: nearby.lat!, lng: nearby.lng! };
+}
+
+function filterToArea<T extends { location?: LatLng }>(places: T[], area?: SearchArea) {
+    if (!area) return places;
+    return places.filter(({ location }) => !!location && pointInArea(location.latitude, location.longitude, area));
+}
+
+// Annotates distance from the radius-search center and sorts nearest first
+function sortByDistance<T extends { location?: LatLng; distance_meters?: number }>(places: T[], center: { lat: number; lng: number } | null) {
+    if (!center) return places;
+    return places
+        .map(place => {
+            const { location } = place;
+            if (!location) return place;
+            return { ...place, distance_meters: Math.round(haversineMeters(center.lat, center.lng, location.latitude, location.longitude)) };
+        })
+        .sort((a, b) => (a.distance_meters ?? Infinity) - (b.distance_meters ?? Infinity));
+}
+
+async function notifySearchCompleted(
+    userId: string,
+    search: { city: string; keyword: string; deepSearch: boolean; pageToken?: string },
+    result: { places: PlaceResult[]; nextPageToken?: string; jobId: string }
+) {
+    await dispatchWebhookEvent([userId], "search.completed", {
+        jobId: result.jobId,
+        city: search.city,
+        keyword: search.keyword,
+        deepSearch: search.deepSearch,
+        pageToken: search.pageToken ?? null,
+        nextPageToken: result.nextPageToken ?? null,
+        resultCount: result.places.length,
+        places: result.places.map(p => ({
+            placeId: p.place_id,
+            name: p.name,
+            address: p.formatted_address ?? null,
+            phone: p.formatted_phone_number ?? null,
+            website: p.website ?? null,
+            rating: p.rating ?? null,
+            userRatingsTotal: p.user_ratings_total ?? null,
+            types: p.types ?? [],
+            emails: p.emails ?? [],
+        })),
+    });
 }
 
-export async function executeSearchCore(city: string, keyword: string, userId: string = "default-user", initialPageToken?: string, deepSearch: boolean = false, jobId?: string) {
+// apiKeyId marks searches started through the public API; they are billed as API_CALL
+export async function executeSearchCore(city: string, keyword: string, userId: string = "default-user", initialPageToken?: string, deepSearch: boolean = false, jobId?: string, options: SearchOptions = {}, apiKeyId?: string) {
     const normalizedCity = normalizeInput(city);
     const normalizedKeyword = normalizeInput(keyword);
+    const searchScope = buildSearchScope(city, keyword, options);
     // Ensure we have a Job ID for streaming updates (even for sync searches)
     const effectiveJobId = jobId || randomUUID();
+    // Team members share leads and spend from the team's credit pool
+    const workspace = await getWorkspace(userId);
+    const leadScoreWeights = await getLeadScoreWeights(workspace);
+
+    // Radius searches: a circle restriction for standard search, its polygon approximation for deep scans
+    const nearbyCenter = options.nearby ? await resolveNearbyCenter(options.nearby) : null;
+    const nearbyCircle = nearbyCenter && options.nearby ? {
+        circle: {
+            center: { latitude: nearbyCenter.lat, longitude: nearbyCenter.lng },
+            radius: options.nearby.radius,
+        }
+    } : undefined;
+
+    // Polygon searches query the keyword alone, restricted to the polygon's bounding box,
+    // and drop anything outside the polygon itself
+    const area = options.area || (nearbyCenter && options.nearby ? circleToPolygon(nearbyCenter.lat, nearbyCenter.lng, options.nearby.radius) : undefined);
+    const bounds = area ? areaBounds(area) : null;
+    const locationRestriction = nearbyCircle || (bounds ? {
+        rectangle: {
+            low: { latitude: bounds.southwest.lat, longitude: bounds.southwest.lng },
+            high: { latitude: bounds.northeast.lat, longitude: bounds.northeast.lng },
+        }
+    } : undefined);
+    const queryFor = (term: string) => area ? term : `${term} in ${city}`;
+    const textQuery = queryFor(keyword);
+    const rankByDistance = !!nearbyCircle;
+    const provider = getPlacesProvider(options.provider);
+    const typeFilter = { includedType: options.includedType, strictTypeFiltering: options.strictTypeFiltering };
+
+    // Keyword sets (synonyms) run every query in the same job and merge by place_id
+    const keywordSet = normalizeKeywordSet(keyword, options.keywords);
+    const isMultiKeyword = keywordSet.length > 1;
 
     // Deep search cache keys
-    const listCacheKey = `search:list:${normalizedCity}:${normalizedKeyword}`;
-    const listDataCacheKey = `search:list:data:${normalizedCity}:${normalizedKeyword}`;
-    const cacheKey = `search:${normalizedCity}:${normalizedKeyword}:${initialPageToken || 'p1'}`;
+    const listCacheKey = `search:list:${searchScope}`;
+    const listDataCacheKey = `search:list:data:${searchScope}`;
+    const cacheKey = `search:${searchScope}:${initialPageToken || 'p1'}`;
     const LONG_TERM_TTL = 2592000;
     const MAX_DEEP_PAGES = Number(process.env.DEEP_SEARCH_MAX_PAGES || 200);
 
     // Helper to Persist & Publish
-    const persistAndPublish = async (placesToSave: any[]) => {
+    const persistAndPublish = async (placesToSave: SearchPlace[]): Promise<PlaceResult[]> => {
         if (placesToSave.length === 0) return [];
 
+        // Snapshot rows we already know so field changes can be logged
+        const existingPlaces = await prisma.place.findMany({
+            where: { googleId: { in: placesToSave.map(p => p.place_id) } },
+            select: { googleId: true, name: true, address: true, phone: true, website: true, rating: true, userRatingsTotal: true, businessStatus: true }
+        });
+        const existingByGoogleId = new Map(existingPlaces.map(p => [p.googleId, p]));
+
         // 1. Upsert Places and Collect Results
-        const enrichedBatch = await Promise.all(placesToSave.map(async (place: any) => {
+        const enrichedBatch = await Promise.all(placesToSave.map(async (place): Promise<PlaceResult> => {
             // Upsert Place
-            const location = place.geometry?.location || place.location || {};
-            const lat = (location as any).lat ?? (location as any).latitude;
-            const lng = (location as any).lng ?? (location as any).longitude;
+            const lat = place.location?.latitude;
+            const lng = place.location?.longitude;
             const savedPlace = await prisma.place.upsert({
                 where: { googleId: place.place_id },
                 update: {
@@ -61,7 +181,11 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
                     latitude: lat,
                     longitude: lng,
                     types: place.types || [],
+                    primaryType: place.primary_type || undefined,
+                    phone: place.formatted_phone_number || undefined,
+                    businessStatus: place.business_status || undefined,
                     website: place.website || null,
+                    websiteDomain: domainEnrichmentKey(place.website),
                 },
                 create: {
                     googleId: place.place_id,
@@ -72,24 +196,49 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
                     latitude: lat,
                     longitude: lng,
                     types: place.types || [],
+                    primaryType: place.primary_type || null,
+                    provider: provider.id,
+                    phone: place.formatted_phone_number || null,
+                    businessStatus: place.business_status || null,
                     website: place.website || null,
+                    websiteDomain: domainEnrichmentKey(place.website),
                 }
             });
 
-            // Upsert Lead for User
-            await prisma.lead.upsert({
-                where: {
-                    userId_placeId: {
-                        userId,
-                        placeId: savedPlace.id
-                    }
-                },
-                update: {},
+            const previous = existingByGoogleId.get(place.place_id);
+            if (previous) {
+                const changes = diffPlace(previous, {
+                    name: place.name,
+                    address: place.formatted_address,
+                    phone: place.formatted_phone_number || undefined,
+                    website: place.website || null,
+                    rating: place.rating,
+                    userRatingsTotal: place.user_ratings_total,
+                    businessStatus: place.business_status || undefined,
+                });
+                await recordPlaceChanges(savedPlace.id, changes, "search");
+            }
+
+            // Upsert Lead for User (or for the user's team); a radius search refreshes the stored distance
+            const distanceMeters = typeof place.distance_meters === "number" ? place.distance_meters : null;
+            const lead = await prisma.lead.upsert({
+                where: workspace.organizationId
+                    ? { organizationId_placeId: { organizationId: workspace.organizationId, placeId: savedPlace.id } }
+                    : { personalUserId_placeId: { personalUserId: userId, placeId: savedPlace.id } },
+                update: distanceMeters !== null ? { distanceMeters } : {},
                 create: {
                     userId,
+                    organizationId: workspace.organizationId,
+                    personalUserId: workspace.organizationId ? null : userId,
                     placeId: savedPlace.id,
-                    status: "NEW"
-                }
+                    status: "NEW",
+                    distanceMeters
+                },
+                select: { id: true, distanceMeters: true }
+            });
+            await prisma.lead.update({
+                where: { id: lead.id },
+                data: { score: scoreLead(savedPlace, lead.distanceMeters, leadScoreWeights), scoredAt: new Date() }
             });
 
             // 3. Trigger Scraping Job if website exists and not already scraped
@@ -99,7 +248,7 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
                     placeId: savedPlace.id,
                     website: place.website || "", // Pass empty string if missing, worker handles fallback
                     name: place.name,
-                    address: place.formatted_address,
+                    address: place.formatted_address || "",
                     jobId: effectiveJobId
                 });
             }
@@ -108,12 +257,13 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
             return {
                 ...place, // Keep original Google props
                 name: savedPlace.name,
+                formatted_address: savedPlace.address ?? "",
                 emails: savedPlace.emails || [],
-                emailScores: savedPlace.emailScores || {},
+                emailScores: (savedPlace.emailScores as PlaceResult["emailScores"]) || {},
                 phones: savedPlace.phones || [],
-                socials: savedPlace.socials,
+                socials: (savedPlace.socials as PlaceResult["socials"]) ?? undefined,
                 place_id: savedPlace.googleId,
-                website: savedPlace.website,
+                website: savedPlace.website ?? undefined,
             };
         }));
 
@@ -150,20 +300,23 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
     let isPaidPagination = false;
 
     if (!initialPageToken && deepSearch) {
-        requiredCredits = 10;
+        requiredCredits = 10 * keywordSet.length;
     } else if (initialPageToken && initialPageToken.startsWith("deep:")) {
         requiredCredits = 1;
         isPaidPagination = true;
+    } else if (!initialPageToken) {
+        requiredCredits = keywordSet.length; // One query per keyword
     }
 
-    if (user.credits < requiredCredits) throw new Error(`Yetersiz bakiye. Bu işlem için ${requiredCredits} kredi gerekiyor.`);
+    const { balance: creditBalance } = await getCreditBalance(userId);
+    if (creditBalance < requiredCredits) throw new Error(`Yetersiz bakiye. Bu işlem için ${requiredCredits} kredi gerekiyor.`);
 
     const tier = (user.subscriptionTier as SubscriptionTier) || "FREE";
     const plan = PLANS[tier] || PLANS.FREE;
     const STANDARD_PAGE_SIZE = plan.resultsPerSearch;
     const configuredDeepPageSize = Number(process.env.DEEP_SEARCH_PAGE_SIZE || 60);
     const DEEP_PAGE_SIZE = Math.max(10, Math.min(configuredDeepPageSize, 500));
-    const remainingCredits = Math.max(0, user.credits - requiredCredits);
+    const remainingCredits = Math.max(0, creditBalance - requiredCredits);
     const businessGridOverride = Number(process.env.DEEP_SEARCH_BUSINESS_GRID_SIZE || 0);
     const businessPagesOverride = Number(process.env.DEEP_SEARCH_BUSINESS_MAX_PAGES_PER_GRID || 0);
     const baseGridSizeByTier: Record<SubscriptionTier, number> = {
@@ -182,10 +335,26 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
     const gridSize = Math.min(baseGridSizeByTier[tier] + creditBoost, 12);
     const maxPagesPerGrid = Math.min(basePagesByTier[tier] + creditBoost, 10);
 
+    // Adaptive (quadtree) deep search: request budget grows with the user's remaining credits
+    const deepSearchStrategy = process.env.DEEP_SEARCH_STRATEGY === "grid" ? "grid" : "adaptive";
+    const baseRequestBudgetByTier: Record<SubscriptionTier, number> = {
+        FREE: 20,
+        STARTER: 60,
+        PRO: 150,
+        BUSINESS: 400,
+    };
+    const requestsPerCredit = Number(process.env.DEEP_SEARCH_REQUESTS_PER_CREDIT || 2);
+    const maxRequestBudget = Number(process.env.DEEP_SEARCH_MAX_REQUESTS || 1500);
+    const requestBudget = Math.min(baseRequestBudgetByTier[tier] + Math.floor(remainingCredits * requestsPerCredit), maxRequestBudget);
+    const adaptiveMaxDepth = Number(process.env.DEEP_SEARCH_MAX_DEPTH || 5);
+    const adaptiveInitialGridSize = Number(process.env.DEEP_SEARCH_INITIAL_GRID_SIZE || 2);
+    // Keyword sets pay per keyword, so each keyword gets its own budget (bounded by the global cap)
+    const requestBudgetPerKeyword = Math.floor(Math.min(requestBudget * keywordSet.length, maxRequestBudget) / keywordSet.length);
+
     // --- EXECUTION OR RETRIEVAL ---
-    let limitedPlaces: any[] = [];
+    let limitedPlaces: SearchPlace[] = [];
     let nextToken: string | undefined = undefined;
-    let enrichedPlaces: any[] = [];
+    let enrichedPlaces: PlaceResult[] = [];
 
     // A. Handle "Next Page" of Deep Search
     if (initialPageToken && initialPageToken.startsWith("deep:")) {
@@ -200,7 +369,7 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
 
         if (allPlacesParam) {
             const parsed = JSON.parse(allPlacesParam);
-            const allPlaces = Array.isArray(parsed) ? parsed : (parsed?.places || []);
+            const allPlaces: SearchPlace[] = Array.isArray(parsed) ? parsed : (parsed?.places || []);
 
             limitedPlaces = allPlaces.slice(startIndex, startIndex + DEEP_PAGE_SIZE);
             enrichedPlaces = await persistAndPublish(limitedPlaces);
@@ -218,24 +387,26 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
                 where: { googleId: { in: sliceIds } }
             });
 
-            // Map DB objects to Google-like for uniformity
-            limitedPlaces = placesFromDb.map(p => ({
+            // Map DB objects to Google-like for uniformity; they are already enriched
+            enrichedPlaces = placesFromDb.map(p => ({
                 place_id: p.googleId,
                 name: p.name,
-                formatted_address: p.address,
-                rating: p.rating,
-                user_ratings_total: p.userRatingsTotal,
+                formatted_address: p.address ?? "",
+                rating: p.rating ?? undefined,
+                user_ratings_total: p.userRatingsTotal ?? undefined,
                 photos: [],
-                geometry: { location: { lat: p.latitude, lng: p.longitude } },
-                website: p.website,
+                location: p.latitude != null && p.longitude != null ? { latitude: p.latitude, longitude: p.longitude } : undefined,
+                types: p.types,
+                primary_type: p.primaryType || undefined,
+                formatted_phone_number: p.phone || undefined,
+                business_status: p.businessStatus || undefined,
+                website: p.website ?? undefined,
                 emails: p.emails,
-                emailScores: p.emailScores,
+                emailScores: (p.emailScores as PlaceResult["emailScores"]) ?? undefined,
                 phones: p.phones,
-                socials: p.socials
+                socials: (p.socials as PlaceResult["socials"]) ?? undefined
             }));
 
-            enrichedPlaces = limitedPlaces; // Already enriched from DB basically
-
             if (startIndex + DEEP_PAGE_SIZE < allIds.length) {
                 nextToken = `deep:${startIndex + DEEP_PAGE_SIZE}`;
             }
@@ -244,42 +415,56 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
     }
     // B. Handle New Search (Standard or Deep)
     else if (!initialPageToken) {
-        let allPlaces: any[] = [];
+        let allPlaces: SearchPlace[] = [];
 
         if (deepSearch) {
-            // 1. Get Viewport (using a cheap TextSearch for city)
-            const cityResult = await googlePlacesGateway.searchText(city, { pageSize: 1 });
-            const cityPlace = cityResult.places[0];
+            // 1. Get Viewport (polygon bounds, or a cheap TextSearch for city)
+            const cityPlace = bounds ? null : (await provider.searchText(city, { pageSize: 1 })).places[0];
 
             console.log(`[Deep Search] Viewport check for "${city}":`, {
+                hasArea: !!area,
                 hasPlace: !!cityPlace,
                 hasViewport: !!cityPlace?.viewport
             });
 
-            const cityViewport = cityPlace?.viewport ? {
-                northeast: {
-                    lat: Number((cityPlace.viewport as any).northeast?.latitude || (cityPlace.viewport as any).high?.latitude || 0),
-                    lng: Number((cityPlace.viewport as any).northeast?.longitude || (cityPlace.viewport as any).high?.longitude || 0)
-                },
-                southwest: {
-                    lat: Number((cityPlace.viewport as any).southwest?.latitude || (cityPlace.viewport as any).low?.latitude || 0),
-                    lng: Number((cityPlace.viewport as any).southwest?.longitude || (cityPlace.viewport as any).low?.longitude || 0)
-                }
+            const cityViewport = bounds ? bounds : cityPlace?.viewport ? {
+                northeast: { lat: cityPlace.viewport.high.latitude, lng: cityPlace.viewport.high.longitude },
+                southwest: { lat: cityPlace.viewport.low.latitude, lng: cityPlace.viewport.low.longitude }
             } : null;
 
             if (!cityViewport || (cityViewport.northeast.lat === 0 && cityViewport.northeast.lng === 0)) {
                 console.log("Deep Search fallback: No viewport found for city.");
-                const result = await googlePlacesGateway.searchText(`${keyword} in ${city}`);
-                allPlaces = result.places;
+                const batches = [];
+                for (const term of keywordSet) {
+                    const result = await provider.searchText(queryFor(term), { locationRestriction, ...typeFilter });
+                    batches.push({ keyword: term, places: filterToArea(result.places, area) });
+                }
+                allPlaces = mergeKeywordResults(batches);
                 // Persist & Publish Fallback Batch
                 const persistedBatch = await persistAndPublish(allPlaces);
                 enrichedPlaces.push(...persistedBatch);
             } else {
-                console.log(`[Deep Search] Scanning grid for ${city}...`);
-                // Note: scanCity might return a LOT. We might want to pass a callback to scanCity to stream?
-                // For now, scanCity returns all at once. If it takes too long, we might need to refactor scanCity too.
-                // Assuming scanCity is reasonably fast or we process its result here.
-                const gridResults = await googlePlacesGateway.scanCity(keyword, cityViewport, { gridSize, maxPagesPerGrid });
+                const batches: { keyword: string; places: ProviderPlace[] }[] = [];
+                for (const term of keywordSet) {
+                    if (deepSearchStrategy === "adaptive" || provider.id !== "google") {
+                        console.log(`[Deep Search] Adaptive scan for "${term}" in ${city} (budget: ${requestBudgetPerKeyword} requests)...`);
+                        const scan = await provider.searchArea(term, cityViewport, {
+                            initialGridSize: adaptiveInitialGridSize,
+                            maxDepth: adaptiveMaxDepth,
+                            maxPagesPerCell: 3,
+                            requestBudget: requestBudgetPerKeyword,
+                            area,
+                            ...typeFilter,
+                        });
+                        batches.push({ keyword: term, places: scan.places });
+                    } else {
+                        console.log(`[Deep Search] Scanning grid for "${term}" in ${city}...`);
+                        // Note: scanCity returns all at once; the adaptive scanner above is the default path.
+                        batches.push({ keyword: term, places: await googlePlacesGateway.scanCity(term, cityViewport, { gridSize, maxPagesPerGrid, area, ...typeFilter }) });
+                    }
+                }
+                let gridResults: SearchPlace[] = mergeKeywordResults(batches);
+                gridResults = sortByDistance(filterToArea(gridResults, area), nearbyCenter);
 
                 // Deduplicate by place_id
                 const seen = new Set();
@@ -303,16 +488,20 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
             const slimPlaces = allPlaces.map(p => ({
                 place_id: p.place_id,
                 name: p.name,
-                formatted_address: p.formatted_address || p.formattedAddress,
+                formatted_address: p.formatted_address,
                 rating: p.rating,
-                user_ratings_total: p.user_ratings_total || p.userRatingCount,
-                formatted_phone_number: p.formatted_phone_number || p.nationalPhoneNumber,
-                website: p.website || p.websiteUri,
+                user_ratings_total: p.user_ratings_total,
+                formatted_phone_number: p.formatted_phone_number,
+                website: p.website,
                 photos: p.photos,
                 types: p.types,
+                primary_type: p.primary_type,
+                primary_type_display_name: p.primary_type_display_name,
                 opening_hours: p.opening_hours,
                 business_status: p.business_status,
-                location: p.location
+                location: p.location,
+                distance_meters: p.distance_meters,
+                matched_keywords: p.matched_keywords
             }));
             await Promise.all([
                 redis.set(listCacheKey, JSON.stringify(allIds), "EX", LONG_TERM_TTL),
@@ -344,35 +533,56 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
             }
 
         } else {
-            // Standard Search Logic
-            const query = `${keyword} in ${city}`;
-            console.log(`[Search] Executing query: "${query}"`);
-
+            // Standard Search Logic (one query per keyword, merged by place_id)
             let fetchCount = 0;
             const MAX_FETCHES = Math.ceil(STANDARD_PAGE_SIZE / 20) + 1;
             let currentToken = undefined;
+            let hasMoreResults = false;
+            const batches: { keyword: string; places: ProviderPlace[] }[] = [];
+            const publishedIds = new Set<string>();
+
+            for (const term of keywordSet) {
+                const query = queryFor(term);
+                console.log(`[Search] Executing query: "${query}"${nearbyCircle ? " (radius)" : area ? " (polygon area)" : ""}`);
+
+                const termPlaces: ProviderPlace[] = [];
+                fetchCount = 0;
+                currentToken = undefined;
+                while (fetchCount < MAX_FETCHES && termPlaces.length < STANDARD_PAGE_SIZE) {
+                    const result = await provider.searchText(query, { pageToken: currentToken, locationRestriction, rankByDistance, ...typeFilter });
+                    const newPlaces = filterToArea(result.places, area);
+
+                    // Incremental Publish! (places already returned by an earlier keyword are not re-published)
+                    const unseen = newPlaces.filter(p => !publishedIds.has(p.place_id));
+                    if (unseen.length > 0) {
+                        unseen.forEach(p => publishedIds.add(p.place_id));
+                        const batch = await persistAndPublish(unseen.map(p => ({ ...p, matched_keywords: [term] })));
+                        enrichedPlaces.push(...batch); // Collect for final return/cache
+                    }
 
-            while (fetchCount < MAX_FETCHES && allPlaces.length < STANDARD_PAGE_SIZE) {
-                const result = await googlePlacesGateway.searchText(query, { pageToken: currentToken });
-                const newPlaces = result.places;
-
-                // Incremental Publish!
-                if (newPlaces.length > 0) {
-                    const batch = await persistAndPublish(newPlaces);
-                    enrichedPlaces.push(...batch); // Collect for final return/cache
+                    termPlaces.push(...newPlaces);
+                    currentToken = result.nextPageToken;
+                    fetchCount++;
+                    if (!currentToken) break;
                 }
-
-                allPlaces = [...allPlaces, ...newPlaces];
-                currentToken = result.nextPageToken;
-                fetchCount++;
-                if (!currentToken) break;
+                batches.push({ keyword: term, places: termPlaces });
+                if (currentToken) hasMoreResults = true;
             }
 
+            allPlaces = mergeKeywordResults(batches);
+            const matchedById = new Map(allPlaces.map(p => [p.place_id, p.matched_keywords]));
+            enrichedPlaces = enrichedPlaces.map(p => ({ ...p, matched_keywords: matchedById.get(p.place_id) || p.matched_keywords }));
+
             limitedPlaces = allPlaces.slice(0, STANDARD_PAGE_SIZE); // We might have fetched slightly more
             // Re-slice enrichedPlaces to match STANDARD_PAGE_SIZE if needed, though collecting all is fine for cache
-            enrichedPlaces = enrichedPlaces.slice(0, STANDARD_PAGE_SIZE);
-
-            if (!currentToken) {
+            enrichedPlaces = sortByDistance(enrichedPlaces, nearbyCenter).slice(0, STANDARD_PAGE_SIZE);
+
+            if (isMultiKeyword) {
+                // Google page tokens belong to a single query, so keyword sets cannot be paged further
+                nextToken = limitedPlaces.length < allPlaces.length
+                    ? "plan_limit_reached"
+                    : hasMoreResults ? "google_limit_reached" : undefined;
+            } else if (!currentToken) {
                 // If Google gave no token, we are done.
                 // Note: Standard Text Search often limits at 60.
                 nextToken = allPlaces.length >= 60 ? "google_limit_reached" : undefined;
@@ -382,28 +592,37 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
         }
 
         // --- BILLING TRANSACTION ---
+        const keywordLabel = keywordSet.map(k => `"${k}"`).join(", ");
         const searchDescription = deepSearch
-            ? `"${keyword}" için ${city} bölgesinde derin arama`
-            : `"${keyword}" için ${city} bölgesinde arama`;
+            ? `${keywordLabel} için ${city} bölgesinde derin arama`
+            : `${keywordLabel} için ${city} bölgesinde arama`;
 
-        await prisma.$transaction(async (tx: any) => {
-            const updated = await tx.user.updateMany({
-                where: { id: userId, credits: { gte: requiredCredits } },
-                data: { credits: { decrement: requiredCredits } }
-            });
-            if (updated.count === 0) throw new Error("Yetersiz bakiye.");
+        const searchOperation = deepSearch ? "DEEP_SEARCH" : (isPaidPagination ? "PAGE_LOAD" : "SEARCH");
+        await prisma.$transaction(async (tx) => {
+            const chargedOrganizationId = await debitCredits(tx, userId, requiredCredits);
 
             await tx.creditTransaction.create({
                 data: {
                     userId,
+                    organizationId: chargedOrganizationId,
                     amount: -requiredCredits,
-                    type: deepSearch ? "DEEP_SEARCH" : (isPaidPagination ? "PAGE_LOAD" : "SEARCH"),
+                    type: apiKeyId ? "API_CALL" : searchOperation,
                     description: searchDescription,
                     metadata: {
+                        operation: apiKeyId ? searchOperation : undefined,
+                        apiKeyId,
                         city: normalizedCity,
                         keyword: normalizedKeyword,
+                        keywords: isMultiKeyword ? keywordSet : undefined,
+                        matchesByKeyword: isMultiKeyword
+                            ? Object.fromEntries(keywordSet.map(k => [k, allPlaces.filter(p => p.matched_keywords?.includes(k)).length]))
+                            : undefined,
                         resultCount: limitedPlaces.length,
                         deepSearch,
+                        includedType: options.includedType,
+                        provider: provider.id,
+                        area: !!options.area,
+                        nearby: options.nearby ? { ...options.nearby } : undefined,
                         timestamp: new Date().toISOString()
                     }
                 }
@@ -428,30 +647,33 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
             redis.set(cacheKey, JSON.stringify(finalResult), "EX", LONG_TERM_TTL),
             prisma.searchCache.upsert({
                 where: { queryKey: cacheKey },
-                update: { results: finalResult as any, expiresAt: new Date(Date.now() + LONG_TERM_TTL * 1000) },
-                create: { queryKey: cacheKey, results: finalResult as any, expiresAt: new Date(Date.now() + LONG_TERM_TTL * 1000) }
+                update: { results: finalResult as unknown as Prisma.InputJsonValue, expiresAt: new Date(Date.now() + LONG_TERM_TTL * 1000) },
+                create: { queryKey: cacheKey, results: finalResult as unknown as Prisma.InputJsonValue, expiresAt: new Date(Date.now() + LONG_TERM_TTL * 1000) }
             })
         ]);
 
+        await notifySearchCompleted(userId, { city: normalizedCity, keyword: normalizedKeyword, deepSearch, pageToken: initialPageToken }, finalResult);
         return finalResult;
     }
     // C. Handle Google Token Pagination (Legacy/Standard)
     else {
         // Existing Logic for standard paging
-        const query = `${keyword} in ${city}`;
-        const result = await googlePlacesGateway.searchText(query, { pageToken: initialPageToken });
-        limitedPlaces = result.places; // Google returns 20
+        const result = await provider.searchText(textQuery, { pageToken: initialPageToken, locationRestriction, rankByDistance, ...typeFilter });
+        limitedPlaces = filterToArea(result.places, area); // Google returns 20
         nextToken = result.nextPageToken;
 
-        await prisma.$transaction(async (tx: any) => {
-            await tx.user.updateMany({ where: { id: userId }, data: { credits: { decrement: 1 } } });
+        await prisma.$transaction(async (tx) => {
+            const chargedOrganizationId = await debitCredits(tx, userId, 1);
             await tx.creditTransaction.create({
                 data: {
                     userId,
+                    organizationId: chargedOrganizationId,
                     amount: -1,
-                    type: "PAGE_LOAD",
+                    type: apiKeyId ? "API_CALL" : "PAGE_LOAD",
                     description: `"${keyword}" araması sayfa yüklemesi`,
                     metadata: {
+                        operation: apiKeyId ? "PAGE_LOAD" : undefined,
+                        apiKeyId,
                         city: normalizedCity,
                         keyword: normalizedKeyword,
                         pageToken: initialPageToken,
@@ -471,16 +693,19 @@ export async function executeSearchCore(city: string, keyword: string, userId: s
         jobId: effectiveJobId
     };
 
+    await notifySearchCompleted(userId, { city: normalizedCity, keyword: normalizedKeyword, deepSearch, pageToken: initialPageToken }, finalResult);
     return finalResult;
 }
 
+// `apiKey` is not used: API-key callers go through /api/v1, which authenticates and rate-limits the key
 export async function searchPlaces(
     city: string,
     keyword: string,
     apiKey?: string,
     initialPageToken?: string,
     userId?: string,
-    deepSearch: boolean = false
+    deepSearch: boolean = false,
+    options: SearchOptions = {}
 ) {
     const normalizedCity = normalizeInput(city);
     const normalizedKeyword = normalizeInput(keyword);
@@ -489,14 +714,17 @@ export async function searchPlaces(
         throw new Error("Şehir ve anahtar kelime zorunludur.");
     }
 
+
+    const searchUserId = userId || "default-user";
+    const validatedOptions = await prepareSearchOptions(keyword, options, searchUserId);
     console.log(`[DEBUG] searchPlaces called for city: ${normalizedCity}, keyword: ${normalizedKeyword}, deepSearch: ${deepSearch}`);
 
-    const cacheKey = `search:${normalizedCity}:${normalizedKeyword}`;
+    const cacheKey = `search:${buildSearchScope(city, keyword, validatedOptions)}`;
     const lockKey = `lock:${cacheKey}`;
 
     if (!initialPageToken) {
         const cachedResults = await redis.get(cacheKey);
-        if (cachedResults) return JSON.parse(cachedResults);
+        if (cachedResults) return filterSearchResultForUser(searchUserId, JSON.parse(cachedResults));
 
         const dbCache = await prisma.searchCache.findUnique({
             where: { queryKey: cacheKey }
@@ -505,7 +733,7 @@ export async function searchPlaces(
         if (dbCache && dbCache.expiresAt > new Date()) {
             const ttlSeconds = Math.max(1, Math.floor((dbCache.expiresAt.getTime() - Date.now()) / 1000));
             await redis.set(cacheKey, JSON.stringify(dbCache.results), "EX", ttlSeconds);
-            return dbCache.results as any;
+            return filterSearchResultForUser(searchUserId, dbCache.results as unknown as Awaited<ReturnType<typeof executeSearchCore>>);
         }
     }
 
@@ -515,36 +743,40 @@ export async function searchPlaces(
             lockToken = await acquireLock(lockKey, LOCK_TTL_MS);
             if (!lockToken) {
                 const cachedFromWait = await waitForValue(cacheKey, WAIT_FOR_CACHE_MS, WAIT_POLL_MS);
-                if (cachedFromWait) return JSON.parse(cachedFromWait);
+                if (cachedFromWait) return filterSearchResultForUser(searchUserId, JSON.parse(cachedFromWait));
                 lockToken = await acquireLock(lockKey, LOCK_TTL_MS);
                 if (!lockToken) throw new Error("Sistem şu an bu aramayı gerçekleştiriyor.");
             }
         }
 
-        return await executeSearchCore(city, keyword, userId || "default-user", initialPageToken, deepSearch);
+        return await filterSearchResultForUser(searchUserId, await executeSearchCore(city, keyword, searchUserId, initialPageToken, deepSearch, undefined, validatedOptions));
     } finally {
         if (lockToken) await releaseLock(lockKey, lockToken);
     }
 }
 
-export async function searchPlacesAsync(city: string, keyword: string, userId: string = "default-user", initialPageToken?: string, deepSearch: boolean = false) {
+// Users allowed to read a job's result through /api/v1/jobs; concurrent identical searches share one job
+async function trackJobUser(jobId: string, userId: string) {
+    await redis.multi().sadd(`job:${jobId}:users`, userId).expire(`job:${jobId}:users`, 3600).exec();
+}
+
+export async function searchPlacesAsync(city: string, keyword: string, userId: string = "default-user", initialPageToken?: string, deepSearch: boolean = false, options: SearchOptions = {}, apiKeyId?: string) {
     // 1. Validate Input
-    const validated = SearchSchema.safeParse({ city, keyword, deepSearch });
+    const validated = SearchSchema.safeParse({ city, keyword, deepSearch, ...options });
     if (!validated.success) {
-        throw new Error(validated.error.issues[0].message);
+        throw new SearchInputError(validated.error.issues[0].message);
     }
 
     const { city: validatedCity, keyword: validatedKeyword } = validated.data;
-    const normalizedCity = normalizeInput(validatedCity);
-    const normalizedKeyword = normalizeInput(validatedKeyword);
+    const validatedOptions = await prepareSearchOptions(validatedKeyword, options, userId);
     // Include pageToken in cache key to avoid collisions between pages
-    const cacheKey = `search:${normalizedCity}:${normalizedKeyword}:${initialPageToken || 'p1'}`;
+    const cacheKey = `search:${buildSearchScope(validatedCity, validatedKeyword, validatedOptions)}:${initialPageToken || 'p1'}`;
     const jobLockKey = `lock:job:${cacheKey}`;
 
     // 2. Check Cache First (Skipped for Deep Search initiation? Or check deep cache?)
     // For simplicity, standard cache check.
     const cachedResults = await redis.get(cacheKey);
-    if (cachedResults) return { type: "CACHED", results: JSON.parse(cachedResults) };
+    if (cachedResults) return { type: "CACHED", results: await filterSearchResultForUser(userId, JSON.parse(cachedResults)) };
 
     // 3. Thundering Herd Protection:
     // Only one request should trigger a job for a non-cached query
@@ -556,6 +788,7 @@ export async function searchPlacesAsync(city: string, keyword: string, userId: s
             await new Promise(r => setTimeout(r, 300));
             const existingJobId = await redis.get(`active-job:${cacheKey}`);
             if (existingJobId) {
+                await trackJobUser(existingJobId, userId);
                 return { type: "JOB", jobId: existingJobId, message: "Arama zaten devrededir." };
             }
         }
@@ -569,14 +802,18 @@ export async function searchPlacesAsync(city: string, keyword: string, userId: s
     try {
         // Re-check cache inside lock
         const secondCacheCheck = await redis.get(cacheKey);
-        if (secondCacheCheck) return { type: "CACHED", results: JSON.parse(secondCacheCheck) };
+        if (secondCacheCheck) return { type: "CACHED", results: await filterSearchResultForUser(userId, JSON.parse(secondCacheCheck)) };
 
         // Double check active-job tracker inside lock too
         const activeJobId = await redis.get(`active-job:${cacheKey}`);
-        if (activeJobId) return { type: "JOB", jobId: activeJobId, message: "Arama zaten devrededir." };
+        if (activeJobId) {
+            await trackJobUser(activeJobId, userId);
+            return { type: "JOB", jobId: activeJobId, message: "Arama zaten devrededir." };
+        }
 
         // 4. Add to Queue
-        const jobId = await addSearchJob({ city: validatedCity, keyword: validatedKeyword, userId, initialPageToken, deepSearch });
+        const jobId = await addSearchJob({ city: validatedCity, keyword: validatedKeyword, userId, initialPageToken, deepSearch, options: validatedOptions, apiKeyId });
+        if (jobId) await trackJobUser(jobId, userId);
 
         // 5. Set status and tracker in Redis
         await redis.set(`job:${jobId}:status`, "pending", "EX", 3600);
@@ -1,22 +1,74 @@
 "use server";
 
 import { auth } from "@/auth";
-import { addExportJob } from "@/lib/queue/export-queue";
+import { addExportJob, EXPORT_RETENTION_HOURS } from "@/lib/queue/export-queue";
 import { PLANS, SubscriptionTier } from "@/lib/plans";
 import { prisma } from "@/lib/prisma";
+import { leadsExportWhere, MAX_EXPORT_ROWS, type ExportSource } from "@/lib/exports/source";
+import { isExportFormat, type ExportFormat } from "@/lib/exports/formats/types";
+import { normalizeExportLayout } from "@/lib/exports/layout";
+import { getWorkspace, leadListScope } from "@/lib/org/workspace";
+import { Prisma } from "@prisma/client";
 
-export async function startExport(results: any[], format: "csv" | "xlsx") {
-    const session = await auth();
-    const userId = session?.user?.id || "default-user";
-
+// Checks the plan and template, then stores the export and queues it for the worker.
+// The template's layout is copied onto the export so later edits don't change queued files.
+async function queueExport(userId: string, source: ExportSource, format: ExportFormat, templateId?: string | null) {
     const user = await prisma.user.findUnique({ where: { id: userId } });
     const tier = (user?.subscriptionTier as SubscriptionTier) || "FREE";
     const plan = PLANS[tier];
 
+    if (!isExportFormat(format)) throw new Error("Geçersiz dışa aktarma biçimi.");
     if (!plan.features.export.includes(format)) {
         throw new Error(`${format.toUpperCase()} dışa aktarma işlemi ${tier} planında desteklenmiyor.`);
     }
 
-    const jobId = await addExportJob({ results, format, userId });
+    let layout: Prisma.InputJsonValue | undefined;
+    if (templateId) {
+        const template = await prisma.exportTemplate.findFirst({ where: { id: templateId, userId } });
+        if (!template) throw new Error("Dışa aktarma şablonu bulunamadı.");
+        layout = normalizeExportLayout(template) as unknown as Prisma.InputJsonValue;
+    }
+
+    const record = await prisma.export.create({
+        data: {
+            userId,
+            format,
+            source,
+            layout,
+            expiresAt: new Date(Date.now() + EXPORT_RETENTION_HOURS * 60 * 60 * 1000),
+        },
+        select: { id: true }
+    });
+
+    return addExportJob(record.id);
+}
+
+// Exports the selected result rows; only their place ids travel from the browser and the worker reads fresh rows from the DB.
+export async function startExport(placeIds: string[], format: ExportFormat, templateId?: string | null) {
+    const session = await auth();
+    const userId = session?.user?.id || "default-user";
+
+    const ids = Array.from(new Set(placeIds.filter(id => typeof id === "string" && id.length > 0)));
+    if (ids.length === 0) throw new Error("Dışa aktarılacak sonuç yok.");
+    if (ids.length > MAX_EXPORT_ROWS) throw new Error(`Tek seferde en fazla ${MAX_EXPORT_ROWS} satır dışa aktarılabilir.`);
+
+    const jobId = await queueExport(userId, { type: "places", placeIds: ids }, format, templateId);
     return { jobId };
 }
+
+// Exports the workspace's leads, or one of its lists; the worker queries the leads when the job runs
+export async function startLeadsExport(listId: string | null, format: ExportFormat, templateId?: string | null) {
+    const session = await auth();
+    const userId = session?.user?.id || "default-user";
+    const workspace = await getWorkspace(userId);
+
+    if (listId) {
+        const list = await prisma.leadList.findFirst({ where: { id: listId, ...leadListScope(workspace) }, select: { id: true } });
+        if (!list) throw new Error("Liste bulunamadı.");
+    }
+    const count = await prisma.lead.count({ where: leadsExportWhere(workspace, listId) });
+    if (count === 0) throw new Error("Dışa aktarılacak aday yok.");
+
+    const jobId = await queueExport(userId, { type: "leads", listId }, format, templateId);
+    return { jobId, rows: Math.min(count, MAX_EXPORT_ROWS) };
+}
@@ -0,0 +1,72 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { getWorkspace, suppressionScope } from "@/lib/org/workspace";
+import { canManageMembers } from "@/lib/org/roles";
+import { isSuppressionType, normalizeSuppressionValue } from "@/lib/crm/suppression";
+
+const MAX_SUPPRESSION_ENTRIES = 20000;
+const MAX_VALUES_PER_ADD = 1000;
+
+async function getUserWorkspace() {
+    const session = await auth();
+    return getWorkspace(session?.user?.id || "default-user");
+}
+
+export async function getSuppressionEntries() {
+    const workspace = await getUserWorkspace();
+    const entries = await prisma.suppressionEntry.findMany({
+        where: suppressionScope(workspace),
+        orderBy: { createdAt: "desc" },
+        select: { id: true, type: true, value: true, reason: true, createdAt: true, user: { select: { name: true, email: true } } },
+    });
+    return { entries, canDelete: !workspace.organizationId || canManageMembers(workspace.role) };
+}
+
+/**
+ * Adds opt-outs in bulk (one value per line in the UI). Anyone in the workspace may add;
+ * invalid and already listed values are skipped and reported back.
+ */
+export async function addSuppressionEntries(type: string, values: string[], reason?: string) {
+    const workspace = await getUserWorkspace();
+    if (!isSuppressionType(type)) throw new Error("Geçersiz engelleme türü.");
+    if (values.length > MAX_VALUES_PER_ADD) throw new Error(`Tek seferde en fazla ${MAX_VALUES_PER_ADD} kayıt eklenebilir.`);
+
+    const normalized = values.map(v => normalizeSuppressionValue(type, v));
+    const valid = [...new Set(normalized.filter((v): v is string => !!v))];
+    const invalid = normalized.filter(v => !v).length;
+    if (valid.length === 0) throw new Error("Geçerli bir değer bulunamadı.");
+
+    const existing = await prisma.suppressionEntry.findMany({
+        where: { ...suppressionScope(workspace), type, value: { in: valid } },
+        select: { value: true },
+    });
+    const known = new Set(existing.map(e => e.value));
+    const fresh = valid.filter(v => !known.has(v));
+
+    const count = await prisma.suppressionEntry.count({ where: suppressionScope(workspace) });
+    if (count + fresh.length > MAX_SUPPRESSION_ENTRIES) throw new Error(`Engelleme listesi en fazla ${MAX_SUPPRESSION_ENTRIES} kayıt içerebilir.`);
+
+    await prisma.suppressionEntry.createMany({
+        data: fresh.map(value => ({
+            userId: workspace.userId,
+            organizationId: workspace.organizationId,
+            type,
+            value,
+            reason: reason?.trim().slice(0, 200) || null,
+        })),
+    });
+    return { success: true, added: fresh.length, duplicates: valid.length - fresh.length, invalid };
+}
+
+// Lifting an opt-out is a compliance decision, so teams leave it to owners/admins
+export async function deleteSuppressionEntry(id: string) {
+    const workspace = await getUserWorkspace();
+    if (workspace.organizationId && !canManageMembers(workspace.role)) {
+        throw new Error("Engelleme kayıtlarını yalnızca ekip yöneticileri silebilir.");
+    }
+    const result = await prisma.suppressionEntry.deleteMany({ where: { id, ...suppressionScope(workspace) } });
+    if (result.count === 0) throw new Error("Kayıt bulunamadı.");
+    return { success: true };
+}
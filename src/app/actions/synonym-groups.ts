@@ -0,0 +1,51 @@
+"use server";
+
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { MAX_KEYWORDS_PER_SEARCH, normalizeKeywordSet } from "@/lib/search/keywords";
+
+const SynonymGroupSchema = z.object({
+    name: z.string().trim().min(2, "Grup adı en az 2 karakter olmalıdır.").max(40, "Grup adı çok uzun."),
+    keywords: z.array(z.string().trim().min(2, "Anahtar kelime en az 2 karakter olmalıdır.").max(50, "Anahtar kelime çok uzun."))
+        .min(2, "Bir grupta en az 2 anahtar kelime olmalıdır.")
+        .max(MAX_KEYWORDS_PER_SEARCH, `Bir grupta en fazla ${MAX_KEYWORDS_PER_SEARCH} anahtar kelime olabilir.`),
+});
+
+async function getUserId() {
+    const session = await auth();
+    return session?.user?.id || "default-user";
+}
+
+export async function getSynonymGroups() {
+    const userId = await getUserId();
+    return prisma.synonymGroup.findMany({
+        where: { userId },
+        orderBy: { name: "asc" },
+        select: { id: true, name: true, keywords: true }
+    });
+}
+
+export async function saveSynonymGroup(name: string, keywords: string[]) {
+    const userId = await getUserId();
+    const parsed = SynonymGroupSchema.safeParse({ name, keywords });
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+
+    const [first, ...rest] = parsed.data.keywords;
+    const normalized = normalizeKeywordSet(first, rest);
+    if (normalized.length < 2) throw new Error("Bir grupta en az 2 farklı anahtar kelime olmalıdır.");
+
+    return prisma.synonymGroup.upsert({
+        where: { userId_name: { userId, name: parsed.data.name } },
+        update: { keywords: normalized },
+        create: { userId, name: parsed.data.name, keywords: normalized },
+        select: { id: true, name: true, keywords: true }
+    });
+}
+
+export async function deleteSynonymGroup(id: string) {
+    const userId = await getUserId();
+    const result = await prisma.synonymGroup.deleteMany({ where: { id, userId } });
+    if (result.count === 0) throw new Error("Eş anlamlı kelime grubu bulunamadı.");
+    return { success: true };
+}
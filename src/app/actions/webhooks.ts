@@ -0,0 +1,145 @@
+"use server";
+
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { isWebhookEvent } from "@/lib/webhooks/events";
+import { generateWebhookSecret } from "@/lib/webhooks/signing";
+import { assertDeliverableUrl } from "@/lib/webhooks/url";
+import { addWebhookDeliveryJob } from "@/lib/queue/webhook-queue";
+
+const MAX_ENDPOINTS = 10;
+const DELIVERY_LOG_SIZE = 50;
+
+const EndpointSchema = z.object({
+    url: z.string().trim().min(1, "Webhook adresi girin.").max(500, "URL çok uzun.").url("Geçerli bir URL girin."),
+    description: z.string().trim().max(100, "Açıklama çok uzun.").optional(),
+    events: z.array(z.string().refine(isWebhookEvent, "Geçersiz olay.")).min(1, "En az bir olay seçin."),
+});
+
+async function getUserId() {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) throw new Error("Yetkisiz.");
+    return userId;
+}
+
+async function findEndpoint(userId: string, id: string) {
+    const endpoint = await prisma.webhookEndpoint.findFirst({ where: { id, userId }, select: { id: true } });
+    if (!endpoint) throw new Error("Webhook bulunamadı.");
+    return endpoint;
+}
+
+export async function getWebhookEndpoints() {
+    const userId = await getUserId();
+    return prisma.webhookEndpoint.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" },
+        select: {
+            id: true, url: true, description: true, secret: true, events: true, active: true, createdAt: true,
+            deliveries: {
+                orderBy: { createdAt: "desc" },
+                take: 1,
+                select: { status: true, createdAt: true }
+            }
+        }
+    });
+}
+
+export async function createWebhookEndpoint(input: { url: string; description?: string; events: string[] }) {
+    const userId = await getUserId();
+    const parsed = EndpointSchema.safeParse(input);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+    await assertDeliverableUrl(parsed.data.url);
+
+    const count = await prisma.webhookEndpoint.count({ where: { userId } });
+    if (count >= MAX_ENDPOINTS) throw new Error(`En fazla ${MAX_ENDPOINTS} webhook tanımlayabilirsiniz.`);
+
+    const endpoint = await prisma.webhookEndpoint.create({
+        data: {
+            userId,
+            url: parsed.data.url,
+            description: parsed.data.description || null,
+            events: parsed.data.events,
+            secret: generateWebhookSecret(),
+        },
+        select: { id: true }
+    });
+    return { success: true, id: endpoint.id };
+}
+
+export async function updateWebhookEndpoint(id: string, input: { url?: string; description?: string; events?: string[]; active?: boolean }) {
+    const userId = await getUserId();
+    await findEndpoint(userId, id);
+    const parsed = EndpointSchema.partial().safeParse(input);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+    if (parsed.data.url !== undefined) await assertDeliverableUrl(parsed.data.url);
+
+    await prisma.webhookEndpoint.update({
+        where: { id },
+        data: {
+            ...parsed.data,
+            ...(input.active !== undefined ? { active: input.active } : {}),
+        }
+    });
+    return { success: true };
+}
+
+export async function deleteWebhookEndpoint(id: string) {
+    const userId = await getUserId();
+    await findEndpoint(userId, id);
+    await prisma.webhookEndpoint.delete({ where: { id } });
+    return { success: true };
+}
+
+// The old secret stops working immediately, including for queued retries
+export async function rotateWebhookSecret(id: string) {
+    const userId = await getUserId();
+    await findEndpoint(userId, id);
+    await prisma.webhookEndpoint.update({ where: { id }, data: { secret: generateWebhookSecret() } });
+    return { success: true };
+}
+
+export async function getWebhookDeliveries(endpointId: string) {
+    const userId = await getUserId();
+    await findEndpoint(userId, endpointId);
+    return prisma.webhookDelivery.findMany({
+        where: { endpointId },
+        orderBy: { createdAt: "desc" },
+        take: DELIVERY_LOG_SIZE,
+        select: {
+            id: true, event: true, status: true, attempts: true, responseStatus: true, responseBody: true,
+            error: true, payload: true, lastAttemptAt: true, deliveredAt: true, createdAt: true
+        }
+    });
+}
+
+export async function redeliverWebhook(deliveryId: string) {
+    const userId = await getUserId();
+    const delivery = await prisma.webhookDelivery.findFirst({
+        where: { id: deliveryId, endpoint: { userId } },
+        select: { id: true, status: true }
+    });
+    if (!delivery) throw new Error("Gönderim bulunamadı.");
+    if (delivery.status === "PENDING") throw new Error("Bu gönderim zaten yeniden deneniyor.");
+
+    await prisma.webhookDelivery.update({ where: { id: delivery.id }, data: { status: "PENDING", error: null } });
+    await addWebhookDeliveryJob(delivery.id);
+    return { success: true };
+}
+
+// Sends a `ping` so receivers can be checked without waiting for a real event
+export async function sendTestWebhook(endpointId: string) {
+    const userId = await getUserId();
+    await findEndpoint(userId, endpointId);
+    const delivery = await prisma.webhookDelivery.create({
+        data: {
+            endpointId,
+            event: "ping",
+            payload: { event: "ping", createdAt: new Date().toISOString(), data: { message: "Zakrom webhook testi" } },
+        },
+        select: { id: true }
+    });
+    await addWebhookDeliveryJob(delivery.id);
+    return { success: true };
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { getClientId, getUserAgent } from "@/lib/auth/request";
+import { logAuditEvent } from "@/lib/auth/audit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function DELETE(
+    req: Request,
+    props: { params: Promise<{ keyId: string }> }
+) {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+        return NextResponse.json({ ok: false, message: "Yetkisiz." }, { status: 401 });
+    }
+
+    const { keyId } = await props.params;
+    const result = await prisma.apiKey.updateMany({
+        where: { id: keyId, userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+    });
+    if (result.count === 0) {
+        return NextResponse.json({ ok: false, message: "Anahtar bulunamadi." }, { status: 404 });
+    }
+
+    await logAuditEvent({
+        userId,
+        action: "API_KEY_REVOKED",
+        ip: getClientId(req),
+        userAgent: getUserAgent(req),
+        metadata: { apiKeyId: keyId },
+    });
+
+    return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { rateLimit } from "@/lib/auth/rate-limit";
+import { getClientId, getUserAgent } from "@/lib/auth/request";
+import { logAuditEvent } from "@/lib/auth/audit";
+import { generateApiKey, hasApiAccess, MAX_API_KEYS_PER_USER } from "@/lib/api/keys";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const API_KEY_SELECT = { id: true, name: true, prefix: true, lastUsedAt: true, createdAt: true } as const;
+
+export async function GET() {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+        return NextResponse.json({ ok: false, message: "Yetkisiz." }, { status: 401 });
+    }
+
+    const [keys, apiAccess] = await Promise.all([
+        prisma.apiKey.findMany({
+            where: { userId, revokedAt: null },
+            orderBy: { createdAt: "desc" },
+            select: API_KEY_SELECT,
+        }),
+        hasApiAccess(userId),
+    ]);
+
+    return NextResponse.json({ ok: true, keys, apiAccess });
+}
+
+export async function POST(req: Request) {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+        return NextResponse.json({ ok: false, message: "Yetkisiz." }, { status: 401 });
+    }
+
+    const { allowed, retryAfter } = await rateLimit(`api-key-create:${userId}`, { limit: 10, windowMs: 60 * 60_000 });
+    if (!allowed) {
+        return NextResponse.json(
+            { ok: false, message: "Cok fazla deneme. Lutfen biraz sonra tekrar deneyin." },
+            { status: 429, headers: { "Retry-After": `${retryAfter}` } }
+        );
+    }
+
+    let body: { name?: string };
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json({ ok: false, message: "Gecersiz istek." }, { status: 400 });
+    }
+
+    const name = (body.name ?? "").trim();
+    if (name.length < 2 || name.length > 60) {
+        return NextResponse.json({ ok: false, message: "Anahtar adi 2-60 karakter olmalidir." }, { status: 400 });
+    }
+
+    if (!(await hasApiAccess(userId))) {
+        return NextResponse.json({ ok: false, message: "API erisimi planinizda bulunmuyor." }, { status: 403 });
+    }
+
+    const activeCount = await prisma.apiKey.count({ where: { userId, revokedAt: null } });
+    if (activeCount >= MAX_API_KEYS_PER_USER) {
+        return NextResponse.json(
+            { ok: false, message: `En fazla ${MAX_API_KEYS_PER_USER} aktif API anahtariniz olabilir.` },
+            { status: 400 }
+        );
+    }
+
+    const { key, keyHash, prefix } = generateApiKey();
+    const apiKey = await prisma.apiKey.create({
+        data: { userId, name, prefix, keyHash },
+        select: API_KEY_SELECT,
+    });
+
+    await logAuditEvent({
+        userId,
+        action: "API_KEY_CREATED",
+        ip: getClientId(req),
+        userAgent: getUserAgent(req),
+        metadata: { apiKeyId: apiKey.id, prefix },
+    });
+
+    // The plain key is only ever returned here
+    return NextResponse.json({ ok: true, key, apiKey });
+}
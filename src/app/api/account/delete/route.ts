@@ -8,6 +8,7 @@ import { decryptSecret } from "@/lib/auth/encryption";
 import { verifyTotp } from "@/lib/auth/totp";
 import { issueEmailOtp, verifyEmailOtp } from "@/lib/auth/email-otp";
 import { logAuditEvent } from "@/lib/auth/audit";
+import { handOverTeamRecords } from "@/lib/org/handover";
 
 export async function POST(req: Request) {
     const session = await auth();
@@ -98,7 +99,10 @@ export async function POST(req: Request) {
         userAgent,
     });
 
-    await prisma.user.delete({ where: { id: userId } });
+    await prisma.$transaction(async (tx) => {
+        await handOverTeamRecords(tx, userId);
+        await tx.user.delete({ where: { id: userId } });
+    });
 
     return NextResponse.json({ ok: true });
 }
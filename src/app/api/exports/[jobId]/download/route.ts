@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import { prisma } from '@/lib/prisma';
+import { getStorage } from '@/lib/storage';
+import { getExporter, isExportFormat } from '@/lib/exports/formats';
+import { verifyExportSignature } from '@/lib/exports/links';
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Signed, expiring link; no session needed so it also works from webhook receivers
+export async function GET(
+    request: NextRequest,
+    props: { params: Promise<{ jobId: string }> }
+) {
+    const { jobId } = await props.params;
+    const { searchParams } = new URL(request.url);
+
+    if (!verifyExportSignature(jobId, searchParams.get('expires'), searchParams.get('signature'))) {
+        return NextResponse.json({ error: 'Link is invalid or has expired' }, { status: 403 });
+    }
+
+    const record = await prisma.export.findUnique({
+        where: { id: jobId },
+        select: { status: true, format: true, fileName: true, storageKey: true, expiresAt: true }
+    });
+    if (!record || record.status !== 'COMPLETED' || !record.storageKey || record.expiresAt < new Date() || !isExportFormat(record.format)) {
+        return NextResponse.json({ error: 'Export is no longer available' }, { status: 410 });
+    }
+
+    try {
+        const { contentType } = getExporter(record.format);
+        const fileName = record.fileName || `zakrom_export.${record.format}`;
+        const expiresInSeconds = Math.max(1, Math.floor((Number(searchParams.get('expires')) * 1000 - Date.now()) / 1000));
+        const download = await getStorage().getDownload(record.storageKey, { fileName, contentType, expiresInSeconds });
+
+        if (download.type === 'redirect') {
+            return NextResponse.redirect(download.url);
+        }
+        return new NextResponse(Readable.toWeb(download.stream) as ReadableStream, {
+            headers: {
+                'Content-Type': contentType,
+                'Content-Length': String(download.size),
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+                'Cache-Control': 'private, no-store',
+            },
+        });
+    } catch (err: unknown) {
+        console.error('Export download error:', err);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { redis } from '@/lib/redis';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { buildExportDownloadUrl } from '@/lib/exports/links';
 
 export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
 export async function GET(
     request: NextRequest,
@@ -13,48 +16,34 @@ export async function GET(
     const isDownload = searchParams.get('download') === 'true';
 
     try {
-        const [status, result, error, format] = await Promise.all([
-            redis.get(`export:${jobId}:status`),
-            redis.get(`export:${jobId}:result`),
-            redis.get(`export:${jobId}:error`),
-            redis.get(`export:${jobId}:format`),
-        ]);
+        const session = await auth();
+        const userId = session?.user?.id || "default-user";
+        const record = await prisma.export.findFirst({
+            where: { id: jobId, userId },
+            select: { status: true, error: true, rowCount: true, expiresAt: true }
+        });
 
-        if (!status) {
+        if (!record) {
             return NextResponse.json({ error: 'Export job not found' }, { status: 404 });
         }
 
-        if (isDownload && status === 'completed' && result) {
-            const resolvedFormat = (format === "xlsx" || format === "csv")
-                ? format
-                : (jobId.includes('xlsx') ? 'xlsx' : 'csv');
+        const downloadUrl = record.status === 'COMPLETED' && record.expiresAt > new Date()
+            ? buildExportDownloadUrl(jobId, record.expiresAt).url
+            : null;
 
-            if (resolvedFormat === 'xlsx') {
-                const buffer = Buffer.from(result, 'base64');
-                return new NextResponse(buffer, {
-                    headers: {
-                        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-                        'Content-Disposition': `attachment; filename="zakrom_export_${Date.now()}.xlsx"`,
-                    },
-                });
-            } else {
-                return new NextResponse(result, {
-                    headers: {
-                        'Content-Type': 'text/csv',
-                        'Content-Disposition': `attachment; filename="zakrom_export_${Date.now()}.csv"`,
-                    },
-                });
-            }
+        if (isDownload) {
+            if (!downloadUrl) return NextResponse.json({ error: 'Export is not available' }, { status: 409 });
+            return NextResponse.redirect(downloadUrl);
         }
 
         return NextResponse.json({
             jobId,
-            status,
-            error: error || null,
-            // Don't send huge result in status polling
-            hasResult: !!result,
+            status: record.status.toLowerCase(),
+            error: record.error || null,
+            rowCount: record.rowCount,
+            downloadUrl,
         });
-    } catch (err: any) {
+    } catch (err: unknown) {
         console.error('Export API error:', err);
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
     }
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getBrowserPoolMetrics } from "@/lib/scraping/browser-pool";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Scraper capacity of this server process, for monitoring; counts only, nothing user-specific
+export async function GET() {
+    return NextResponse.json({
+        browserPool: getBrowserPoolMetrics(),
+        checkedAt: new Date().toISOString(),
+    });
+}
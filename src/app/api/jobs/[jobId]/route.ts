@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { redis } from '@/lib/redis';
+import { auth } from '@/auth';
+import { filterSearchResultForUser } from '@/lib/crm/exclusions';
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -38,6 +40,11 @@ export async function GET(
             }
         }
 
+        if (parsedResult) {
+            const session = await auth();
+            parsedResult = await filterSearchResultForUser(session?.user?.id || "default-user", parsedResult);
+        }
+
         return NextResponse.json({
             jobId,
             status,
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { summarizePlaceHistory } from "@/lib/places/place-changes";
+import { getWorkspace, leadScope } from "@/lib/org/workspace";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_HISTORY_ENTRIES = 100;
+
+export async function GET(
+    request: NextRequest,
+    props: { params: Promise<{ placeId: string }> }
+) {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+        return NextResponse.json({ error: "Yetkisiz." }, { status: 401 });
+    }
+
+    const { placeId: googleId } = await props.params;
+
+    // Only places pulled into the workspace's leads are visible
+    const place = await prisma.place.findFirst({
+        where: { googleId, leads: { some: leadScope(await getWorkspace(userId)) } },
+        select: { id: true, googleId: true, lastRefreshedAt: true }
+    });
+    if (!place) {
+        return NextResponse.json({ error: "İşletme bulunamadı." }, { status: 404 });
+    }
+
+    const changes = await prisma.placeChange.findMany({
+        where: { placeId: place.id },
+        orderBy: { createdAt: "desc" },
+        take: MAX_HISTORY_ENTRIES,
+        select: { id: true, field: true, oldValue: true, newValue: true, source: true, createdAt: true }
+    });
+
+    return NextResponse.json({
+        placeId: place.googleId,
+        lastRefreshedAt: place.lastRefreshedAt,
+        summary: summarizePlaceHistory(changes),
+        changes,
+    });
+}
@@ -1,6 +1,8 @@
 
 import { redis } from '@/lib/redis';
 import { NextRequest } from 'next/server';
+import { auth } from '@/auth';
+import { withoutExcludedPlaces } from '@/lib/crm/exclusions';
 
 export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
@@ -10,6 +12,9 @@ export async function GET(request: NextRequest) {
         return new Response('Job ID is required', { status: 400 });
     }
 
+    const session = await auth();
+    const userId = session?.user?.id || 'default-user';
+
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
         async start(controller) {
@@ -21,11 +26,27 @@ export async function GET(request: NextRequest) {
 
             await subscriber.subscribe(`search:updates:${jobId}`);
 
-            const onMessage = (channel: string, message: string) => {
-                if (channel === `search:updates:${jobId}`) {
-                    const data = `data: ${message}\n\n`;
-                    controller.enqueue(encoder.encode(data));
+            // Messages are filtered one after another so they reach the client in publish order
+            let closed = false;
+            let pending = Promise.resolve();
+            const forward = async (message: string) => {
+                // Places this user excluded never reach their table
+                let payload = message;
+                try {
+                    const places = await withoutExcludedPlaces(userId, JSON.parse(message));
+                    if (places.length === 0) return;
+                    payload = JSON.stringify(places);
+                } catch (error) {
+                    console.error('[Stream] Exclusion filter failed:', error);
                 }
+                if (closed) return;
+                controller.enqueue(encoder.encode(`data: ${payload}\n\n`));
+            };
+            const onMessage = (channel: string, message: string) => {
+                if (channel !== `search:updates:${jobId}` || closed) return;
+                pending = pending.then(() => forward(message)).catch(error => {
+                    console.error('[Stream] Failed to forward update:', error);
+                });
             };
 
             subscriber.on('message', onMessage);
@@ -40,6 +61,7 @@ export async function GET(request: NextRequest) {
 
             // Clean up on close
             request.signal.addEventListener('abort', async () => {
+                closed = true;
                 await subscriber.unsubscribe(`search:updates:${jobId}`);
                 subscriber.quit();
             });
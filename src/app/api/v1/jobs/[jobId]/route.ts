@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { redis } from "@/lib/redis";
+import { apiError, authenticateApiRequest } from "@/lib/api/v1";
+import { filterSearchResultForUser } from "@/lib/crm/exclusions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+    request: Request,
+    props: { params: Promise<{ jobId: string }> }
+) {
+    const authResult = await authenticateApiRequest(request);
+    if ("response" in authResult) return authResult.response;
+    const { caller } = authResult;
+    const { jobId } = await props.params;
+
+    const [allowed, status, result, error] = await Promise.all([
+        redis.sismember(`job:${jobId}:users`, caller.userId),
+        redis.get(`job:${jobId}:status`),
+        redis.get(`job:${jobId}:result`),
+        redis.get(`job:${jobId}:error`),
+    ]);
+
+    // Jobs expire after an hour; unknown and foreign jobs look the same
+    if (!allowed || !status) {
+        return apiError(404, "not_found", "İş bulunamadı veya süresi dolmuş.");
+    }
+
+    let parsedResult: unknown = null;
+    if (result) {
+        try {
+            parsedResult = await filterSearchResultForUser(caller.userId, JSON.parse(result));
+        } catch {
+            parsedResult = null;
+        }
+    }
+
+    return NextResponse.json({ jobId, status, result: parsedResult, error: error || null });
+}
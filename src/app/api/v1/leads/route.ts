@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getWorkspace, leadScope } from "@/lib/org/workspace";
+import { authenticateApiRequest } from "@/lib/api/v1";
+import { loadSuppressionMatcher } from "@/lib/crm/exclusions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Lists the caller's leads (their team's when they belong to one), newest first.
+ * Query: status, minScore (0-100), updatedSince (ISO date), limit, cursor (nextCursor of the previous page).
+ * Leads on the do-not-contact list come back with `suppressed: true` and without their contact details
+ * (website, phones, emails, socials), as exports and CRM syncs leave them out.
+ */
+export async function GET(request: Request) {
+    const authResult = await authenticateApiRequest(request);
+    if ("response" in authResult) return authResult.response;
+    const { caller } = authResult;
+
+    const params = new URL(request.url).searchParams;
+    const limit = Math.min(Math.max(Number(params.get("limit")) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const cursor = params.get("cursor");
+    const status = params.get("status");
+    const minScore = params.get("minScore") ? Number(params.get("minScore")) : null;
+    const updatedSince = params.get("updatedSince") ? new Date(params.get("updatedSince")!) : null;
+
+    const workspace = await getWorkspace(caller.userId);
+    const leads = await prisma.lead.findMany({
+        where: {
+            ...leadScope(workspace),
+            ...(status ? { status } : {}),
+            ...(minScore !== null && Number.isFinite(minScore) ? { score: { gte: minScore } } : {}),
+            ...(updatedSince && !isNaN(updatedSince.getTime()) ? { updatedAt: { gte: updatedSince } } : {}),
+        },
+        orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        select: {
+            id: true,
+            status: true,
+            score: true,
+            excludedAt: true,
+            notes: true,
+            followUpAt: true,
+            createdAt: true,
+            updatedAt: true,
+            assignee: { select: { id: true, name: true, email: true } },
+            place: {
+                select: {
+                    googleId: true,
+                    name: true,
+                    address: true,
+                    phone: true,
+                    website: true,
+                    rating: true,
+                    userRatingsTotal: true,
+                    latitude: true,
+                    longitude: true,
+                    types: true,
+                    primaryType: true,
+                    businessStatus: true,
+                    emails: true,
+                    phones: true,
+                    socials: true,
+                }
+            }
+        }
+    });
+
+    const hasMore = leads.length > limit;
+    const page = hasMore ? leads.slice(0, limit) : leads;
+    const suppression = await loadSuppressionMatcher(workspace);
+    return NextResponse.json({
+        data: page.map(({ place: { googleId, ...place }, ...lead }) => {
+            const suppressed = suppression.matches({ website: place.website, phone: place.phone, phones: place.phones, emails: place.emails });
+            return {
+                ...lead,
+                suppressed,
+                place: {
+                    placeId: googleId,
+                    ...place,
+                    ...(suppressed ? { phone: null, website: null, emails: [], phones: [], socials: null } : {}),
+                },
+            };
+        }),
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { searchPlacesAsync } from "@/app/actions/search-places";
+import { apiError, authenticateApiRequest } from "@/lib/api/v1";
+import { SearchInputError } from "@/lib/search/prepare";
+import type { SearchOptions } from "@/lib/search/options";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const SearchRequestSchema = z.object({
+    city: z.string().min(1),
+    keyword: z.string().min(1),
+    deepSearch: z.boolean().optional(),
+    pageToken: z.string().optional(),
+    options: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * Starts a search. Cached results come back immediately (200); otherwise a job is queued (202)
+ * and its result is read from /api/v1/jobs/:jobId.
+ */
+export async function POST(request: Request) {
+    const authResult = await authenticateApiRequest(request);
+    if ("response" in authResult) return authResult.response;
+    const { caller } = authResult;
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return apiError(400, "invalid_request", "Geçersiz JSON gövdesi.");
+    }
+    const parsed = SearchRequestSchema.safeParse(body);
+    if (!parsed.success) {
+        return apiError(400, "invalid_request", "city ve keyword alanları zorunludur.");
+    }
+
+    const { city, keyword, deepSearch, pageToken, options } = parsed.data;
+    try {
+        const result = await searchPlacesAsync(
+            city,
+            keyword,
+            caller.userId,
+            pageToken,
+            deepSearch ?? false,
+            (options || {}) as SearchOptions,
+            caller.apiKeyId
+        );
+
+        if (result.type === "CACHED") {
+            return NextResponse.json({ status: "completed", result: result.results });
+        }
+        return NextResponse.json(
+            { status: "pending", jobId: result.jobId, statusUrl: `/api/v1/jobs/${result.jobId}` },
+            { status: 202 }
+        );
+    } catch (error: unknown) {
+        // Validation and plan errors carry user-facing messages; anything else is on our side
+        if (error instanceof SearchInputError) {
+            return apiError(400, "search_failed", error.message);
+        }
+        console.error("[API] Search could not be started:", error);
+        return apiError(500, "internal_error", "Arama başlatılamadı, lütfen daha sonra tekrar deneyin.");
+    }
+}
@@ -6,9 +6,8 @@ import { SearchForm } from "@/components/SearchForm";
 import { ResultsTable, PlaceResult } from "@/components/ResultsTable";
 import { searchPlaces, searchPlacesAsync } from "@/app/actions/search-places";
 import { useState, useEffect, useCallback } from "react";
-import { History as HistoryIcon, Clock, Search, LayoutDashboard, Coins, LogOut, Loader2, RefreshCw, CheckCircle, User as UserIcon, CreditCard, TrendingUp } from "lucide-react";
+import { History as HistoryIcon, Clock, Search, LayoutDashboard, Coins, LogOut, Loader2, RefreshCw, CheckCircle, User as UserIcon, CreditCard, TrendingUp, CalendarClock, KanbanSquare, FileDown, ListChecks } from "lucide-react";
 import { useSession, signOut } from "next-auth/react";
-import { getLeads } from "@/app/actions/get-leads";
 import { AnalyticsView } from "@/components/AnalyticsView";
 import { UsageView } from "@/components/UsageView";
 import { cn } from "@/lib/utils";
@@ -19,8 +18,16 @@ import { PLANS, SubscriptionTier } from "@/lib/plans";
 import ProfileTabs from "@/components/dashboard/profile/ProfileTabs";
 import { SearchProgress } from "@/components/SearchProgress";
 import { getEnrichedPlaces } from "@/app/actions/get-enriched-places";
+import type { SearchOptions } from "@/lib/search/options";
+import { SavedSearchesView } from "@/components/SavedSearchesView";
+import { InvitationBanner } from "@/components/InvitationBanner";
+import { SaveSearchButton } from "@/components/SaveSearchButton";
+import { PipelineBoard } from "@/components/crm/PipelineBoard";
+import { ExportsView } from "@/components/ExportsView";
+import { LeadListsView } from "@/components/crm/LeadListsView";
+import { getNotifications } from "@/app/actions/notifications";
 
-type ViewState = "search" | "analytics" | "usage" | "history" | "profile";
+type ViewState = "search" | "analytics" | "usage" | "history" | "profile" | "saved" | "pipeline" | "lists" | "exports";
 
 export default function Home() {
   const { data: session } = useSession();
@@ -34,6 +41,7 @@ export default function Home() {
   const [pollingPageToken, setPollingPageToken] = useState<string | null>(null);
   const [pollingFallbackAttempted, setPollingFallbackAttempted] = useState(false);
   const [history, setHistory] = useState<any[]>([]);
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
 
 
   // View State
@@ -44,16 +52,19 @@ export default function Home() {
   const [currentCity, setCurrentCity] = useState("");
   const [currentKeyword, setCurrentKeyword] = useState("");
   const [currentDeepSearch, setCurrentDeepSearch] = useState(false);
+  const [currentOptions, setCurrentOptions] = useState<SearchOptions>({});
 
   const loadProfile = async () => {
     const targetUserId = session?.user?.id || "default-user";
     try {
-      const [profile, searchHistory] = await Promise.all([
+      const [profile, searchHistory, notificationData] = await Promise.all([
         getUserProfile(targetUserId),
-        getSearchHistory(10)
+        getSearchHistory(10),
+        getNotifications(1)
       ]);
       setUserProfile(profile);
       setHistory(searchHistory);
+      setUnreadNotifications(notificationData.unreadCount);
     } catch (err) {
       console.error("Failed to fetch profile/history", err);
     }
@@ -86,7 +97,8 @@ export default function Home() {
                 undefined,
                 pollingPageToken || undefined,
                 targetUserId,
-                currentDeepSearch
+                currentDeepSearch,
+                currentOptions
               );
 
               if (cancelled) return;
@@ -179,7 +191,7 @@ export default function Home() {
       cancelled = true;
       clearInterval(interval);
     };
-  }, [pollingJobId, pollingFallbackAttempted, pollingPageToken, currentCity, currentKeyword, currentDeepSearch, session]);
+  }, [pollingJobId, pollingFallbackAttempted, pollingPageToken, currentCity, currentKeyword, currentDeepSearch, currentOptions, session]);
 
   // Real-time Stream Effect with Batching
   useEffect(() => {
@@ -330,7 +342,7 @@ export default function Home() {
     setShowLoadingScreen(false);
   }, []);
 
-  const handleSearch = async (city: string, keyword: string, deepSearch: boolean = false) => {
+  const handleSearch = async (city: string, keyword: string, deepSearch: boolean = false, options: SearchOptions = {}) => {
     setIsLoading(true);
     setShowLoadingScreen(true); // Enable loading screen
     setError(null);
@@ -339,6 +351,7 @@ export default function Home() {
     setCurrentCity(city);
     setCurrentKeyword(keyword);
     setCurrentDeepSearch(deepSearch); // Track for pagination if needed
+    setCurrentOptions(options);
     setPollingPageToken(null);
     setPollingFallbackAttempted(false);
     setStreamId(null);
@@ -346,7 +359,7 @@ export default function Home() {
 
     try {
       const targetUserId = session?.user?.id || "default-user";
-      const response = await searchPlacesAsync(city, keyword, targetUserId, undefined, deepSearch);
+      const response = await searchPlacesAsync(city, keyword, targetUserId, undefined, deepSearch, options);
 
       if (response.type === "CACHED") {
         setResults(response.results.places);
@@ -382,7 +395,7 @@ export default function Home() {
       // Actually, for pagination, 'deepSearch' boolean might be ignored if token is present, 
       // OR we should pass it to match schema? Schema has default false.
       // Let's pass the state we stored.
-      const response = await searchPlacesAsync(currentCity, currentKeyword, targetUserId, requestedPageToken, currentDeepSearch);
+      const response = await searchPlacesAsync(currentCity, currentKeyword, targetUserId, requestedPageToken, currentDeepSearch, currentOptions);
 
       if (response.type === "CACHED") {
         const newResults = response.results.places;
@@ -454,6 +467,53 @@ export default function Home() {
             <span className="flex-1 text-left text-sm">Geçmiş</span>
           </button>
 
+          <button
+            onClick={() => setCurrentView("pipeline")}
+            className={cn(
+              "w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200 group relative overflow-hidden",
+              currentView === "pipeline" ? "bg-primary text-white shadow-lg shadow-primary/25 font-medium" : "text-slate-400 hover:text-white hover:bg-white/5"
+            )}
+          >
+            <KanbanSquare className="w-5 h-5 shrink-0" />
+            <span className="flex-1 text-left text-sm">Satış Hattı</span>
+          </button>
+
+          <button
+            onClick={() => setCurrentView("lists")}
+            className={cn(
+              "w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200 group relative overflow-hidden",
+              currentView === "lists" ? "bg-primary text-white shadow-lg shadow-primary/25 font-medium" : "text-slate-400 hover:text-white hover:bg-white/5"
+            )}
+          >
+            <ListChecks className="w-5 h-5 shrink-0" />
+            <span className="flex-1 text-left text-sm">Listeler</span>
+          </button>
+
+          <button
+            onClick={() => setCurrentView("saved")}
+            className={cn(
+              "w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200 group relative overflow-hidden",
+              currentView === "saved" ? "bg-primary text-white shadow-lg shadow-primary/25 font-medium" : "text-slate-400 hover:text-white hover:bg-white/5"
+            )}
+          >
+            <CalendarClock className="w-5 h-5 shrink-0" />
+            <span className="flex-1 text-left text-sm">Kayıtlı Aramalar</span>
+            {unreadNotifications > 0 && (
+              <span className="text-[10px] font-bold bg-red-500 text-white rounded-full px-2 py-0.5">{unreadNotifications}</span>
+            )}
+          </button>
+
+          <button
+            onClick={() => setCurrentView("exports")}
+            className={cn(
+              "w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200 group relative overflow-hidden",
+              currentView === "exports" ? "bg-primary text-white shadow-lg shadow-primary/25 font-medium" : "text-slate-400 hover:text-white hover:bg-white/5"
+            )}
+          >
+            <FileDown className="w-5 h-5 shrink-0" />
+            <span className="flex-1 text-left text-sm">Dışa Aktarmalar</span>
+          </button>
+
           <div className="pt-4 pb-2">
             <div className="h-px bg-white/5 w-full mx-auto" />
           </div>
@@ -542,7 +602,7 @@ export default function Home() {
         <div className="flex flex-col items-center gap-1 p-2">
           <Coins className="w-5 h-5 text-yellow-500" />
           <span className="text-[10px] font-bold text-white">
-            {userProfile?.credits !== undefined ? userProfile.credits : "..."}
+            {userProfile?.availableCredits !== undefined ? userProfile.availableCredits : "..."}
           </span>
         </div>
       </div>
@@ -554,6 +614,7 @@ export default function Home() {
         <div className="absolute bottom-0 right-0 w-[800px] h-[600px] bg-purple-500/10 rounded-full blur-[120px] opacity-20 -z-10 pointer-events-none" />
 
         <div className="container mx-auto px-4 py-12 md:py-16">
+          <InvitationBanner onAccepted={loadProfile} />
 
           {currentView === "search" ? (
             <div className="animate-in fade-in slide-in-from-left-4 duration-500">
@@ -662,12 +723,31 @@ export default function Home() {
 
               {/* We pass a custom header action to ResultsTable if needed, or handle navigation via sidebar */}
               <div className={cn("transition-opacity duration-500", showLoadingScreen ? "opacity-0 h-0 overflow-hidden" : "opacity-100")}>
+                {results.length > 0 && currentCity && (
+                  <div className="flex justify-end mt-8 -mb-4">
+                    <SaveSearchButton
+                      key={`${currentCity}:${currentKeyword}:${currentDeepSearch}`}
+                      city={currentCity}
+                      keyword={currentKeyword}
+                      deepSearch={currentDeepSearch}
+                      options={currentOptions}
+                      enabled={!!PLANS[activeTier]?.features.savedSearches}
+                    />
+                  </div>
+                )}
                 <ResultsTable
                   results={results}
                   tier={userProfile?.subscriptionTier || "FREE"}
                   onLoadMore={handleLoadMore}
                   isLoadingMore={isLoading}
                   hasMore={!!nextPageToken}
+                  onExclude={(placeIds) => setResults(prev => prev.filter(place => !placeIds.includes(place.place_id)))}
+                  onSearchNearby={(place) => handleSearch(
+                    `${place.name} yakını`,
+                    currentKeyword,
+                    false,
+                    { nearby: { placeId: place.place_id, radius: 1000 } }
+                  )}
                 />
               </div>
 
@@ -682,7 +762,7 @@ export default function Home() {
                     Daha fazla sonuç (500+) bulmak için harita taraması yapan <strong>Derin Arama</strong> moduna geçmelisiniz.
                   </p>
                   <button
-                    onClick={() => handleSearch(currentCity, currentKeyword, true)}
+                    onClick={() => handleSearch(currentCity, currentKeyword, true, currentOptions)}
                     className="bg-primary hover:bg-blue-600 text-white font-bold h-12 px-8 rounded-xl transition-all shadow-lg shadow-primary/25 flex items-center gap-2 hover:scale-105 active:scale-95"
                   >
                     <RefreshCw className="w-4 h-4" />
@@ -756,6 +836,21 @@ export default function Home() {
                 </div>
               )}
             </div>
+          ) : currentView === "pipeline" ? (
+            <PipelineBoard />
+          ) : currentView === "lists" ? (
+            <LeadListsView tier={activeTier} />
+          ) : currentView === "exports" ? (
+            <ExportsView />
+          ) : currentView === "saved" ? (
+            <SavedSearchesView
+              tier={activeTier}
+              onOpenSearch={(city, keyword, deepSearch, options) => {
+                setCurrentView("search");
+                handleSearch(city, keyword, deepSearch, options);
+              }}
+              onNotificationsRead={() => setUnreadNotifications(0)}
+            />
           ) : currentView === "profile" ? (
             <ProfileTabs
               userProfile={userProfile}
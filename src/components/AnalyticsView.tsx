@@ -2,6 +2,7 @@
 
 import { BarChart, TrendingUp, Users, Star, ArrowLeft, Map as MapIcon, PieChart as PieChartIcon, Activity, ImageIcon, BrainCircuit, Radar as RadarIcon, Target } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { placeCategory } from "@/lib/places/place-types";
 import {
     BarChart as RechartsBarChart,
     Bar,
@@ -95,8 +96,9 @@ export function AnalyticsView({ results, onBack, tier = "FREE" }: AnalyticsViewP
     const categoryData = useMemo(() => {
         const counts: Record<string, number> = {};
         results.forEach(p => {
-            if (p.types && p.types.length > 0) {
-                const type = p.types[0].replace(/_/g, " ").toUpperCase();
+            const category = placeCategory(p);
+            if (category) {
+                const type = category.toLocaleUpperCase("tr-TR");
                 counts[type] = (counts[type] || 0) + 1;
             } else {
                 counts["BİLİNMEYEN"] = (counts["BİLİNMEYEN"] || 0) + 1;
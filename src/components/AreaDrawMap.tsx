@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect } from "react";
+import { APIProvider, Map, useMap, type MapMouseEvent } from "@vis.gl/react-google-maps";
+import { Undo2, Trash2 } from "lucide-react";
+import type { Position } from "@/lib/geo/polygon";
+
+interface AreaDrawMapProps {
+    vertices: Position[];
+    onChange: (vertices: Position[]) => void;
+}
+
+// Click-to-draw polygon editor for the search area picker. Vertices are GeoJSON [lng, lat].
+export function AreaDrawMap({ vertices, onChange }: AreaDrawMapProps) {
+    const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || "";
+
+    if (!apiKey) {
+        return (
+            <div className="w-full h-[300px] bg-white/5 rounded-2xl border border-white/5 flex items-center justify-center text-muted-foreground p-4 text-center">
+                Harita üzerinde çizim için Google Maps API Anahtarı gerekli.
+            </div>
+        );
+    }
+
+    const handleClick = (e: MapMouseEvent) => {
+        const latLng = e.detail.latLng;
+        if (!latLng) return;
+        onChange([...vertices, [latLng.lng, latLng.lat]]);
+    };
+
+    return (
+        <div className="w-full space-y-2">
+            <div className="w-full h-[320px] rounded-2xl overflow-hidden border border-white/10 relative bg-[#1c1c1c]">
+                <APIProvider apiKey={apiKey}>
+                    <Map
+                        defaultCenter={{ lat: 41.015, lng: 28.979 }}
+                        defaultZoom={11}
+                        gestureHandling={'greedy'}
+                        streetViewControl={false}
+                        mapTypeControl={false}
+                        style={{ width: '100%', height: '100%' }}
+                        colorScheme={'DARK'}
+                        onClick={handleClick}
+                    >
+                        <PolygonOverlay vertices={vertices} />
+                    </Map>
+                </APIProvider>
+            </div>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>Haritaya tıklayarak köşe ekleyin ({vertices.length} nokta, en az 3 gerekli)</span>
+                <div className="flex items-center gap-2">
+                    <button
+                        type="button"
+                        onClick={() => onChange(vertices.slice(0, -1))}
+                        disabled={vertices.length === 0}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 disabled:opacity-40"
+                    >
+                        <Undo2 className="w-3 h-3" /> Geri Al
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onChange([])}
+                        disabled={vertices.length === 0}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white/5 hover:bg-red-500/10 hover:text-red-400 border border-white/10 disabled:opacity-40"
+                    >
+                        <Trash2 className="w-3 h-3" /> Temizle
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function PolygonOverlay({ vertices }: { vertices: Position[] }) {
+    const map = useMap();
+
+    useEffect(() => {
+        if (!map || vertices.length === 0) return;
+
+        const polygon = new google.maps.Polygon({
+            paths: vertices.map(([lng, lat]) => ({ lat, lng })),
+            strokeColor: "#3b82f6",
+            strokeWeight: 2,
+            fillColor: "#3b82f6",
+            fillOpacity: 0.15,
+            clickable: false,
+            map,
+        });
+
+        return () => polygon.setMap(null);
+    }, [map, vertices]);
+
+    return null;
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Ban, ListPlus, Loader2, RefreshCw, UserCheck, KanbanSquare, X } from "lucide-react";
+import { bulkAddToLeadList, bulkAssignLeads, bulkReEnrichPlaces, bulkSetLeadStage, bulkSetLeadsExcluded } from "@/app/actions/bulk-leads";
+import { getLeadLists } from "@/app/actions/lead-lists";
+import { getAssignableMembers, getPipelineStages } from "@/app/actions/pipeline";
+import type { AssignableTeam } from "./crm/LeadPanel";
+import { cn } from "@/lib/utils";
+
+type LeadListOption = Awaited<ReturnType<typeof getLeadLists>>[number];
+type StageOption = Awaited<ReturnType<typeof getPipelineStages>>[number];
+type BulkMode = "list" | "stage" | "assign" | null;
+
+const NEW_LIST = "__new__";
+
+interface BulkActionsBarProps {
+    selectedIds: string[];
+    onClear: () => void;
+    onExcluded: (placeIds: string[]) => void;
+}
+
+export function BulkActionsBar({ selectedIds, onClear, onExcluded }: BulkActionsBarProps) {
+    const [lists, setLists] = useState<LeadListOption[]>([]);
+    const [stages, setStages] = useState<StageOption[]>([]);
+    const [team, setTeam] = useState<AssignableTeam | null>(null);
+    const [mode, setMode] = useState<BulkMode>(null);
+    const [listChoice, setListChoice] = useState(NEW_LIST);
+    const [newListName, setNewListName] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([getLeadLists(), getPipelineStages(), getAssignableMembers()])
+            .then(([listData, stageData, teamData]) => {
+                if (cancelled) return;
+                setLists(listData);
+                setStages(stageData);
+                setTeam(teamData);
+            })
+            .catch(() => { });
+        return () => { cancelled = true; };
+    }, []);
+
+    const run = async (action: () => Promise<string>) => {
+        setBusy(true);
+        setMessage(null);
+        try {
+            setMessage({ type: "success", text: await action() });
+            setMode(null);
+        } catch (e: unknown) {
+            setMessage({ type: "error", text: e instanceof Error ? e.message : "İşlem başarısız." });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const addToList = () => run(async () => {
+        const res = await bulkAddToLeadList(selectedIds, listChoice === NEW_LIST ? { name: newListName } : { listId: listChoice });
+        setLists(await getLeadLists());
+        setListChoice(res.listId);
+        setNewListName("");
+        return `${res.added} aday listeye eklendi.`;
+    });
+
+    const setStage = (stageKey: string) => run(async () => {
+        const res = await bulkSetLeadStage(selectedIds, stageKey);
+        return `${res.updated} adayın aşaması güncellendi.`;
+    });
+
+    const assign = (assigneeId: string) => run(async () => {
+        const res = await bulkAssignLeads(selectedIds, assigneeId || null);
+        return assigneeId ? `${res.updated} aday atandı.` : `${res.updated} adayın ataması kaldırıldı.`;
+    });
+
+    const reEnrich = () => run(async () => {
+        const res = await bulkReEnrichPlaces(selectedIds);
+        return `${res.queued} işletme yeniden zenginleştirme için sıraya alındı.`;
+    });
+
+    const exclude = () => {
+        if (!confirm(`${selectedIds.length} sonuç bundan sonraki aramalarda gösterilmeyecek. Devam edilsin mi?`)) return;
+        run(async () => {
+            const ids = [...selectedIds];
+            const res = await bulkSetLeadsExcluded(ids, true);
+            onExcluded(ids);
+            return `${res.updated} sonuç hariç tutuldu.`;
+        });
+    };
+
+    const actionClass = (active: boolean) => cn(
+        "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs border transition-colors disabled:opacity-50",
+        active ? "bg-primary text-white border-primary" : "bg-white/5 text-white border-white/10 hover:bg-white/10"
+    );
+    const selectClass = "bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white";
+
+    return (
+        <div className="px-6 py-3 border-b border-white/10 bg-primary/5 space-y-2 animate-in fade-in duration-200">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-bold text-white mr-2">{selectedIds.length} seçili</span>
+                <button onClick={() => setMode(mode === "list" ? null : "list")} disabled={busy} className={actionClass(mode === "list")}>
+                    <ListPlus className="w-3.5 h-3.5" /> Listeye Ekle
+                </button>
+                <button onClick={() => setMode(mode === "stage" ? null : "stage")} disabled={busy} className={actionClass(mode === "stage")}>
+                    <KanbanSquare className="w-3.5 h-3.5" /> Aşama
+                </button>
+                {team && (
+                    <button onClick={() => setMode(mode === "assign" ? null : "assign")} disabled={busy} className={actionClass(mode === "assign")}>
+                        <UserCheck className="w-3.5 h-3.5" /> Ata
+                    </button>
+                )}
+                <button onClick={reEnrich} disabled={busy} className={actionClass(false)}>
+                    <RefreshCw className="w-3.5 h-3.5" /> Yeniden Zenginleştir
+                </button>
+                <button onClick={exclude} disabled={busy} className={cn(actionClass(false), "text-red-300")}>
+                    <Ban className="w-3.5 h-3.5" /> Hariç Tut
+                </button>
+                {busy && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+                <button onClick={onClear} className="ml-auto flex items-center gap-1 text-xs text-white/60 hover:text-white">
+                    <X className="w-3.5 h-3.5" /> Seçimi Temizle
+                </button>
+            </div>
+
+            {mode === "list" && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <select value={listChoice} onChange={(e) => setListChoice(e.target.value)} className={selectClass}>
+                        <option value={NEW_LIST}>+ Yeni liste</option>
+                        {lists.map(list => <option key={list.id} value={list.id}>{list.name} ({list._count.items})</option>)}
+                    </select>
+                    {listChoice === NEW_LIST && (
+                        <input
+                            value={newListName}
+                            onChange={(e) => setNewListName(e.target.value)}
+                            placeholder="Liste adı"
+                            className="bg-black/30 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white"
+                        />
+                    )}
+                    <button
+                        onClick={addToList}
+                        disabled={busy || (listChoice === NEW_LIST && newListName.trim().length < 2)}
+                        className="px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold disabled:opacity-50"
+                    >
+                        Ekle
+                    </button>
+                </div>
+            )}
+
+            {mode === "stage" && (
+                <select defaultValue="" onChange={(e) => e.target.value && setStage(e.target.value)} disabled={busy} className={selectClass}>
+                    <option value="" disabled>Aşama seçin</option>
+                    {stages.map(stage => <option key={stage.key} value={stage.key}>{stage.name}</option>)}
+                </select>
+            )}
+
+            {mode === "assign" && team && (
+                <select defaultValue="-" onChange={(e) => e.target.value !== "-" && assign(e.target.value)} disabled={busy} className={selectClass}>
+                    <option value="-" disabled>Sorumlu seçin</option>
+                    {team.canAssignOthers && <option value="">Atamayı kaldır</option>}
+                    {team.members
+                        .filter(member => team.canAssignOthers || member.id === team.myUserId)
+                        .map(member => <option key={member.id} value={member.id}>{member.name || member.email}</option>)}
+                </select>
+            )}
+
+            {message && (
+                <div className={cn("text-xs", message.type === "success" ? "text-emerald-400" : "text-red-300")}>{message.text}</div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Columns3, Loader2, Pencil, Plus, Save, Trash2, X } from "lucide-react";
+import { deleteExportTemplate, getExportTemplates, saveExportTemplate } from "@/app/actions/export-templates";
+import { EXPORT_COLUMNS } from "@/lib/exports/columns";
+import { DEFAULT_EXPORT_LAYOUT, EXPORT_DELIMITERS, EXPORT_ENCODINGS, MAX_HEADER_LENGTH, type ExportDelimiter, type ExportEncoding } from "@/lib/exports/layout";
+import { cn } from "@/lib/utils";
+
+type ExportTemplate = Awaited<ReturnType<typeof getExportTemplates>>[number];
+
+interface Draft {
+    id?: string;
+    name: string;
+    columns: { key: string; header: string }[];
+    delimiter: ExportDelimiter;
+    encoding: ExportEncoding;
+}
+
+const COLUMN_HEADERS = Object.fromEntries(EXPORT_COLUMNS.map(c => [c.key, c.header]));
+
+function emptyDraft(): Draft {
+    return {
+        name: "",
+        columns: DEFAULT_EXPORT_LAYOUT.columns.map(c => ({ key: c.key, header: "" })),
+        delimiter: DEFAULT_EXPORT_LAYOUT.delimiter,
+        encoding: DEFAULT_EXPORT_LAYOUT.encoding,
+    };
+}
+
+export function ExportTemplatesEditor() {
+    const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        try {
+            setTemplates(await getExportTemplates());
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Şablonlar yüklenemedi.");
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const edit = (template: ExportTemplate) => {
+        setError(null);
+        setDraft({
+            id: template.id,
+            name: template.name,
+            columns: template.columns.map(c => ({ key: c.key, header: c.header || "" })),
+            delimiter: template.delimiter,
+            encoding: template.encoding,
+        });
+    };
+
+    const toggleColumn = (key: string) => setDraft(d => d && ({
+        ...d,
+        columns: d.columns.some(c => c.key === key) ? d.columns.filter(c => c.key !== key) : [...d.columns, { key, header: "" }],
+    }));
+
+    const moveColumn = (index: number, delta: number) => setDraft(d => {
+        if (!d) return d;
+        const target = index + delta;
+        if (target < 0 || target >= d.columns.length) return d;
+        const columns = [...d.columns];
+        [columns[index], columns[target]] = [columns[target], columns[index]];
+        return { ...d, columns };
+    });
+
+    const renameColumn = (key: string, header: string) => setDraft(d => d && ({
+        ...d,
+        columns: d.columns.map(c => (c.key === key ? { ...c, header } : c)),
+    }));
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setSaving(true);
+        setError(null);
+        try {
+            await saveExportTemplate(draft);
+            setDraft(null);
+            await load();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Şablon kaydedilemedi.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (template: ExportTemplate) => {
+        if (!confirm(`"${template.name}" şablonu silinsin mi?`)) return;
+        setError(null);
+        try {
+            await deleteExportTemplate(template.id);
+            if (draft?.id === template.id) setDraft(null);
+            await load();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Şablon silinemedi.");
+        }
+    };
+
+    return (
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <h3 className="text-white font-bold flex items-center gap-2"><Columns3 className="w-4 h-4 text-primary" /> Sütun Şablonları</h3>
+                    <p className="text-xs text-muted-foreground">Hangi sütunların hangi sırayla ve hangi başlıkla dışa aktarılacağını belirleyin.</p>
+                </div>
+                {!draft && (
+                    <button
+                        onClick={() => { setError(null); setDraft(emptyDraft()); }}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold"
+                    >
+                        <Plus className="w-3 h-3" /> Yeni Şablon
+                    </button>
+                )}
+            </div>
+
+            {error && <div className="p-3 bg-red-500/10 border border-red-500/20 text-red-200 rounded-xl text-xs">{error}</div>}
+
+            {templates.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {templates.map(template => (
+                        <div key={template.id} className={cn("flex items-center gap-1 pl-3 pr-1 py-1 rounded-lg border text-xs", draft?.id === template.id ? "border-primary/60 bg-primary/10" : "border-white/10 bg-black/20")}>
+                            <span className="text-white">{template.name}</span>
+                            <span className="text-white/40">· {template.columns.length} sütun</span>
+                            <button onClick={() => edit(template)} title="Düzenle" className="p-1 text-white/60 hover:text-white"><Pencil className="w-3 h-3" /></button>
+                            <button onClick={() => handleDelete(template)} title="Sil" className="p-1 text-red-400/70 hover:text-red-400"><Trash2 className="w-3 h-3" /></button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {draft && (
+                <div className="space-y-4 border-t border-white/5 pt-4">
+                    <div className="flex flex-wrap gap-2">
+                        <input
+                            value={draft.name}
+                            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            placeholder="Şablon adı (ör. CRM içe aktarma)"
+                            className="flex-1 min-w-[180px] bg-black/30 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white"
+                        />
+                        <select
+                            value={draft.delimiter}
+                            onChange={(e) => setDraft({ ...draft, delimiter: e.target.value as ExportDelimiter })}
+                            title="CSV ayırıcı"
+                            className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white"
+                        >
+                            {EXPORT_DELIMITERS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                        </select>
+                        <select
+                            value={draft.encoding}
+                            onChange={(e) => setDraft({ ...draft, encoding: e.target.value as ExportEncoding })}
+                            title="CSV kodlaması"
+                            className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white"
+                        >
+                            {EXPORT_ENCODINGS.map(e => <option key={e.value} value={e.value}>{e.label}</option>)}
+                        </select>
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">Ayırıcı ve kodlama yalnızca CSV dosyalarına uygulanır; Excel&apos;de Türkçe karakterler için UTF-8 BOM seçin.</p>
+
+                    <div className="grid md:grid-cols-2 gap-4">
+                        <div>
+                            <div className="text-[10px] uppercase tracking-wider text-muted-foreground mb-2">Kullanılabilir Sütunlar</div>
+                            <div className="grid grid-cols-2 gap-1">
+                                {EXPORT_COLUMNS.map(column => (
+                                    <label key={column.key} className="flex items-center gap-2 text-xs text-white/80 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={draft.columns.some(c => c.key === column.key)}
+                                            onChange={() => toggleColumn(column.key)}
+                                        />
+                                        {column.header}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div>
+                            <div className="text-[10px] uppercase tracking-wider text-muted-foreground mb-2">Sıra ve Başlıklar</div>
+                            <div className="space-y-1">
+                                {draft.columns.map((column, index) => (
+                                    <div key={column.key} className="flex items-center gap-1">
+                                        <input
+                                            value={column.header}
+                                            onChange={(e) => renameColumn(column.key, e.target.value)}
+                                            placeholder={COLUMN_HEADERS[column.key]}
+                                            maxLength={MAX_HEADER_LENGTH}
+                                            className="flex-1 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-xs text-white"
+                                        />
+                                        <button onClick={() => moveColumn(index, -1)} disabled={index === 0} className="p-1 text-white/60 hover:text-white disabled:opacity-30"><ArrowUp className="w-3 h-3" /></button>
+                                        <button onClick={() => moveColumn(index, 1)} disabled={index === draft.columns.length - 1} className="p-1 text-white/60 hover:text-white disabled:opacity-30"><ArrowDown className="w-3 h-3" /></button>
+                                        <button onClick={() => toggleColumn(column.key)} className="p-1 text-red-400/70 hover:text-red-400"><X className="w-3 h-3" /></button>
+                                    </div>
+                                ))}
+                                {draft.columns.length === 0 && <div className="text-xs text-white/40">En az bir sütun seçin.</div>}
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-lg text-xs text-white/70 hover:text-white">Vazgeç</button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving || draft.name.trim().length < 2 || draft.columns.length === 0}
+                            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold disabled:opacity-50"
+                        >
+                            {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Kaydet
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Download, FileDown, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { deleteExport, getExportDownloadUrl, getExports } from "@/app/actions/exports";
+import { cn } from "@/lib/utils";
+import { ExportTemplatesEditor } from "./ExportTemplatesEditor";
+
+type ExportItem = Awaited<ReturnType<typeof getExports>>[number];
+
+const STATUS_LABELS: Record<string, string> = {
+    PENDING: "Sırada",
+    PROCESSING: "Hazırlanıyor",
+    COMPLETED: "Hazır",
+    FAILED: "Başarısız",
+    EXPIRED: "Süresi Doldu",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+    PENDING: "text-yellow-400",
+    PROCESSING: "text-blue-400",
+    COMPLETED: "text-emerald-400",
+    FAILED: "text-red-400",
+    EXPIRED: "text-white/40",
+};
+
+function formatDate(date: Date | string) {
+    return new Intl.DateTimeFormat("tr-TR", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" }).format(new Date(date));
+}
+
+function formatSize(bytes: number | null) {
+    if (!bytes) return "-";
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function ExportsView() {
+    const [exports, setExports] = useState<ExportItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        try {
+            const data = await getExports();
+            setExports(data);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Dışa aktarmalar yüklenemedi.");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    // Keep polling while a file is still being built
+    const hasActive = exports.some(e => e.status === "PENDING" || e.status === "PROCESSING");
+    useEffect(() => {
+        if (!hasActive) return;
+        const interval = setInterval(load, 3000);
+        return () => clearInterval(interval);
+    }, [hasActive, load]);
+
+    const withBusy = async (id: string, action: () => Promise<unknown>) => {
+        setBusyId(id);
+        setError(null);
+        try {
+            await action();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "İşlem başarısız.");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDownload = (id: string) => withBusy(id, async () => {
+        window.location.href = await getExportDownloadUrl(id);
+    });
+
+    const handleDelete = (id: string) => withBusy(id, async () => {
+        await deleteExport(id);
+        await load();
+    });
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-24">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="animate-in fade-in slide-in-from-right-4 duration-500 space-y-6">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold text-white flex items-center gap-3"><FileDown className="w-8 h-8 text-primary" /> Dışa Aktarmalar</h2>
+                    <p className="text-muted-foreground">Hazırlanan dosyalar belirli bir süre saklanır; indirme bağlantıları kısa sürelidir.</p>
+                </div>
+                <button onClick={load} className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm border bg-white/5 text-white border-white/10 hover:bg-white/10">
+                    <RefreshCw className="w-4 h-4" /> Yenile
+                </button>
+            </div>
+
+            <ExportTemplatesEditor />
+
+            {error && <div className="p-4 bg-red-500/10 border border-red-500/20 text-red-200 rounded-xl text-sm">{error}</div>}
+
+            {exports.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-24 bg-white/5 rounded-3xl border border-dashed border-white/10">
+                    <FileDown className="w-12 h-12 text-white/20 mb-4" />
+                    <h4 className="text-white font-medium">Henüz bir dışa aktarma yok.</h4>
+                    <p className="text-muted-foreground text-sm">Arama sonuçlarını dilediğiniz biçimde dışa aktarın.</p>
+                </div>
+            ) : (
+                <div className="bg-white/5 border border-white/10 rounded-2xl overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="text-[10px] uppercase tracking-wider text-muted-foreground border-b border-white/10">
+                            <tr>
+                                <th className="text-left px-4 py-3">Tarih</th>
+                                <th className="text-left px-4 py-3">Biçim</th>
+                                <th className="text-left px-4 py-3">Durum</th>
+                                <th className="text-right px-4 py-3">Satır</th>
+                                <th className="text-right px-4 py-3">Boyut</th>
+                                <th className="text-left px-4 py-3">Saklama</th>
+                                <th className="px-4 py-3" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {exports.map(item => (
+                                <tr key={item.id} className="border-b border-white/5 last:border-0">
+                                    <td className="px-4 py-3 text-white/80">{formatDate(item.createdAt)}</td>
+                                    <td className="px-4 py-3 text-white uppercase font-bold text-xs">{item.format}</td>
+                                    <td className="px-4 py-3">
+                                        <span className={cn("text-xs font-bold", STATUS_STYLES[item.status])} title={item.error || undefined}>
+                                            {STATUS_LABELS[item.status] || item.status}
+                                        </span>
+                                    </td>
+                                    <td className="px-4 py-3 text-right text-white/70">{item.rowCount ?? "-"}</td>
+                                    <td className="px-4 py-3 text-right text-white/70">{formatSize(item.size)}</td>
+                                    <td className="px-4 py-3 text-white/50 text-xs">{item.status === "EXPIRED" ? "-" : formatDate(item.expiresAt)}</td>
+                                    <td className="px-4 py-3">
+                                        <div className="flex items-center justify-end gap-1">
+                                            {item.status === "COMPLETED" && (
+                                                <button
+                                                    onClick={() => handleDownload(item.id)}
+                                                    disabled={busyId === item.id}
+                                                    title="İndir"
+                                                    className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-50"
+                                                >
+                                                    <Download className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                            {item.status !== "PENDING" && item.status !== "PROCESSING" && (
+                                                <button
+                                                    onClick={() => handleDelete(item.id)}
+                                                    disabled={busyId === item.id}
+                                                    title="Sil"
+                                                    className="p-2 rounded-lg text-red-400/70 hover:text-red-400 hover:bg-red-500/10 disabled:opacity-50"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
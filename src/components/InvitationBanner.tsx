@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Users, Check, X } from "lucide-react";
+import { acceptInvitation, getMyInvitations } from "@/app/actions/organization";
+import { roleLabel } from "@/lib/org/roles";
+
+type MyInvitation = Awaited<ReturnType<typeof getMyInvitations>>[number];
+
+interface InvitationBannerProps {
+    onAccepted: () => void;
+}
+
+export function InvitationBanner({ onAccepted }: InvitationBannerProps) {
+    const [invitations, setInvitations] = useState<MyInvitation[]>([]);
+    const [dismissed, setDismissed] = useState<string[]>([]);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getMyInvitations()
+            .then(data => { if (!cancelled) setInvitations(data); })
+            .catch(() => { if (!cancelled) setInvitations([]); });
+        return () => { cancelled = true; };
+    }, []);
+
+    const invitation = invitations.find(i => !dismissed.includes(i.id));
+    if (!invitation) return null;
+
+    const handleAccept = async () => {
+        setBusy(true);
+        setError(null);
+        try {
+            await acceptInvitation(invitation.id);
+            setInvitations([]);
+            onAccepted();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Davet kabul edilemedi.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="mb-8 p-4 rounded-2xl bg-primary/10 border border-primary/20 flex flex-wrap items-center gap-4 animate-in fade-in slide-in-from-top-2">
+            <Users className="w-5 h-5 text-primary shrink-0" />
+            <div className="flex-1 min-w-[200px] text-sm text-white">
+                <span className="font-bold">{invitation.invitedBy.name || invitation.invitedBy.email}</span> sizi{" "}
+                <span className="font-bold">{invitation.organization.name}</span> ekibine {roleLabel(invitation.role).toLocaleLowerCase("tr-TR")} olarak davet etti.
+                {error && <div className="text-xs text-red-300 mt-1">{error}</div>}
+            </div>
+            <button
+                onClick={handleAccept}
+                disabled={busy}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-primary text-white text-xs font-bold disabled:opacity-50"
+            >
+                <Check className="w-4 h-4" /> Katıl
+            </button>
+            <button
+                onClick={() => setDismissed(prev => [...prev, invitation.id])}
+                className="p-2 rounded-lg text-white/50 hover:text-white hover:bg-white/10"
+            >
+                <X className="w-4 h-4" />
+            </button>
+        </div>
+    );
+}
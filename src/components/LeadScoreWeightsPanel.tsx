@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, RotateCcw, Save } from "lucide-react";
+import { saveLeadScoreWeights } from "@/app/actions/lead-score";
+import { DEFAULT_LEAD_SCORE_WEIGHTS, LEAD_SCORE_FACTORS, MAX_LEAD_SCORE_WEIGHT, type LeadScoreWeights } from "@/lib/analysis/lead-score";
+
+interface LeadScoreWeightsPanelProps {
+    weights: LeadScoreWeights;
+    canEdit: boolean;
+    onSaved: (weights: LeadScoreWeights) => void;
+    onClose: () => void;
+}
+
+// Sliders for the workspace's lead score weights; saving also rescores the stored leads
+export function LeadScoreWeightsPanel({ weights, canEdit, onSaved, onClose }: LeadScoreWeightsPanelProps) {
+    const [draft, setDraft] = useState<LeadScoreWeights>(weights);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const total = LEAD_SCORE_FACTORS.reduce((sum, f) => sum + draft[f.key], 0);
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            const res = await saveLeadScoreWeights(draft);
+            onSaved(res.weights);
+            onClose();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Ağırlıklar kaydedilemedi.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="absolute right-0 mt-2 w-80 bg-background border border-white/10 rounded-xl shadow-2xl z-50 p-4 space-y-3 animate-in fade-in zoom-in-95 duration-200">
+            <div>
+                <div className="text-sm font-bold text-white">Aday Skoru Ağırlıkları</div>
+                <p className="text-[10px] text-muted-foreground">Her ölçütün skora katkısı, toplam ağırlığa oranıyla belirlenir.</p>
+            </div>
+
+            {error && <div className="p-2 bg-red-500/10 border border-red-500/20 text-red-200 rounded-lg text-xs">{error}</div>}
+
+            <div className="space-y-2">
+                {LEAD_SCORE_FACTORS.map(factor => (
+                    <div key={factor.key}>
+                        <div className="flex items-center justify-between text-xs">
+                            <span className="text-white/80" title={factor.description}>{factor.label}</span>
+                            <span className="text-white/50 font-mono">{total > 0 ? Math.round((draft[factor.key] / total) * 100) : 0}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={0}
+                            max={MAX_LEAD_SCORE_WEIGHT}
+                            value={draft[factor.key]}
+                            disabled={!canEdit}
+                            onChange={(e) => setDraft({ ...draft, [factor.key]: Number(e.target.value) })}
+                            className="w-full accent-primary disabled:opacity-50"
+                        />
+                    </div>
+                ))}
+            </div>
+
+            {canEdit ? (
+                <div className="flex items-center justify-between gap-2 pt-2 border-t border-white/5">
+                    <button onClick={() => setDraft(DEFAULT_LEAD_SCORE_WEIGHTS)} className="flex items-center gap-1 text-xs text-white/60 hover:text-white">
+                        <RotateCcw className="w-3 h-3" /> Varsayılan
+                    </button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs text-white/70 hover:text-white">Vazgeç</button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving || total === 0}
+                            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold disabled:opacity-50"
+                        >
+                            {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Kaydet
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-[10px] text-white/40 pt-2 border-t border-white/5">Ağırlıkları yalnızca ekip yöneticileri değiştirebilir.</p>
+            )}
+        </div>
+    );
+}
@@ -1,7 +1,8 @@
 "use client";
 
-import { X, Globe, Phone, MapPin, Star, Clock, MessageSquare } from "lucide-react";
-import { PlaceResult } from "./ResultsTable";
+import { X, Globe, Phone, MapPin, Star, Clock, MessageSquare, Radar } from "lucide-react";
+import { PlaceResult, formatDistance } from "./ResultsTable";
+import { PlaceHistoryTimeline } from "./PlaceHistoryTimeline";
 import { cn } from "@/lib/utils";
 import { useEffect } from "react";
 
@@ -9,9 +10,10 @@ interface PlaceDetailModalProps {
     isOpen: boolean;
     onClose: () => void;
     place: PlaceResult | null;
+    onSearchNearby?: (place: PlaceResult) => void;
 }
 
-export function PlaceDetailModal({ isOpen, onClose, place }: PlaceDetailModalProps) {
+export function PlaceDetailModal({ isOpen, onClose, place, onSearchNearby }: PlaceDetailModalProps) {
 
     // Close on escape key
     useEffect(() => {
@@ -78,7 +80,12 @@ export function PlaceDetailModal({ isOpen, onClose, place }: PlaceDetailModalPro
 
                             <div className="flex items-start gap-3 text-sm text-white/90">
                                 <MapPin className="w-4 h-4 text-primary shrink-0 mt-0.5" />
-                                <span>{place.formatted_address}</span>
+                                <span>
+                                    {place.formatted_address}
+                                    {place.distance_meters !== undefined && (
+                                        <span className="block text-xs text-muted-foreground mt-0.5">Arama merkezine {formatDistance(place.distance_meters)}</span>
+                                    )}
+                                </span>
                             </div>
 
                             {place.formatted_phone_number ? (
@@ -152,6 +159,8 @@ export function PlaceDetailModal({ isOpen, onClose, place }: PlaceDetailModalPro
                         </div>
                     </div>
 
+                    <PlaceHistoryTimeline key={place.place_id} placeId={place.place_id} />
+
                     {/* Action Footer */}
                     <div className="flex gap-3 pt-6 border-t border-white/10">
                         {place.location && (
@@ -164,6 +173,14 @@ export function PlaceDetailModal({ isOpen, onClose, place }: PlaceDetailModalPro
                                 <MapPin className="w-4 h-4" /> Google Maps'te Aç
                             </a>
                         )}
+                        {onSearchNearby && place.location && (
+                            <button
+                                onClick={() => onSearchNearby(place)}
+                                className="flex-1 bg-primary/10 hover:bg-primary/20 border border-primary/30 text-primary py-3 rounded-xl flex items-center justify-center gap-2 transition-all font-medium"
+                            >
+                                <Radar className="w-4 h-4" /> Yakınında Ara
+                            </button>
+                        )}
                     </div>
 
                 </div>
@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { History, Loader2 } from "lucide-react";
+import type { PlaceHistorySummary } from "@/lib/places/place-changes";
+
+interface PlaceHistoryChange {
+    id: string;
+    field: string;
+    oldValue: unknown;
+    newValue: unknown;
+    source: string;
+    createdAt: string;
+}
+
+interface PlaceHistoryResponse {
+    summary: PlaceHistorySummary;
+    changes: PlaceHistoryChange[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    name: "İsim",
+    address: "Adres",
+    phone: "Telefon",
+    website: "Web Sitesi",
+    rating: "Puan",
+    userRatingsTotal: "Yorum Sayısı",
+    businessStatus: "Durum",
+    openingHours: "Çalışma Saatleri",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+    OPERATIONAL: "Faal",
+    CLOSED_TEMPORARILY: "Geçici Kapalı",
+    CLOSED_PERMANENTLY: "Kalıcı Kapalı",
+    NOT_FOUND: "Bulunamadı",
+};
+
+function formatValue(field: string, value: unknown) {
+    if (value === null || value === undefined || value === "") return "—";
+    if (field === "businessStatus" && typeof value === "string") return STATUS_LABELS[value] || value;
+    if (field === "openingHours") return "güncellendi";
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+}
+
+function formatDate(value: string, options: Intl.DateTimeFormatOptions) {
+    return new Date(value).toLocaleDateString("tr-TR", options);
+}
+
+function summaryText(summary: PlaceHistorySummary) {
+    const parts: string[] = [];
+    if (summary.rating) parts.push(`Puan ${summary.rating.from} → ${summary.rating.to}`);
+    if (summary.reviewsDelta) parts.push(`${summary.reviewsDelta > 0 ? "+" : ""}${summary.reviewsDelta} yorum`);
+    if (summary.statusChanged) parts.push("durum değişti");
+    if (parts.length === 0 || !summary.since) return null;
+    return `${parts.join(", ")} (${formatDate(summary.since, { month: "long", year: "numeric" })} tarihinden beri)`;
+}
+
+export function PlaceHistoryTimeline({ placeId }: { placeId: string }) {
+    const [history, setHistory] = useState<PlaceHistoryResponse | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(`/api/places/${encodeURIComponent(placeId)}/history`)
+            .then(async res => {
+                const data = await res.json();
+                if (!res.ok) throw new Error(data.error || "Geçmiş alınamadı.");
+                if (!cancelled) setHistory(data);
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) setError(err instanceof Error ? err.message : "Geçmiş alınamadı.");
+            });
+        return () => { cancelled = true; };
+    }, [placeId]);
+
+    const headline = history ? summaryText(history.summary) : null;
+
+    return (
+        <div className="mb-8">
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider mb-3 flex items-center gap-2">
+                <History className="w-4 h-4" /> Değişim Geçmişi
+            </h3>
+
+            {error ? (
+                <p className="text-sm text-muted-foreground">{error}</p>
+            ) : !history ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" /> Yükleniyor...
+                </div>
+            ) : history.changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Henüz kayıtlı bir değişiklik yok.</p>
+            ) : (
+                <>
+                    {headline && (
+                        <p className="text-sm text-white/90 mb-3 px-3 py-2 rounded-lg bg-primary/10 border border-primary/20">{headline}</p>
+                    )}
+                    <ol className="relative border-l border-white/10 ml-2 space-y-3 max-h-56 overflow-y-auto pr-2">
+                        {history.changes.map(change => (
+                            <li key={change.id} className="ml-4">
+                                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary/60 border-2 border-[#121212]" />
+                                <div className="text-xs text-muted-foreground">
+                                    {formatDate(change.createdAt, { day: "numeric", month: "short", year: "numeric" })}
+                                    {change.source === "refresh" ? " · otomatik yenileme" : " · arama"}
+                                </div>
+                                <div className="text-sm text-white/90">
+                                    <span className="font-medium">{FIELD_LABELS[change.field] || change.field}:</span>{" "}
+                                    <span className="text-muted-foreground line-through">{formatValue(change.field, change.oldValue)}</span>
+                                    {" → "}
+                                    <span>{formatValue(change.field, change.newValue)}</span>
+                                </div>
+                            </li>
+                        ))}
+                    </ol>
+                </>
+            )}
+        </div>
+    );
+}
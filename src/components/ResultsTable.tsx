@@ -1,12 +1,18 @@
 "use client";
 
-import { Phone, MapPin, Star, Globe, Copy, TrendingUp, Search, Navigation, ImageIcon, ArrowUpDown, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, FileSpreadsheet, Download, Loader2, Mail, Facebook, Instagram, Linkedin, Twitter, Youtube } from "lucide-react";
+import { Phone, MapPin, Star, Globe, Copy, TrendingUp, Search, Navigation, ImageIcon, ArrowUpDown, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, FileSpreadsheet, Download, Loader2, Mail, Facebook, Instagram, Linkedin, Twitter, Youtube, Braces, Contact, Map as MapIcon, Lock, Gauge } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { AnalyticsSheet } from "./AnalyticsSlot";
 import { PlaceDetailModal } from "./PlaceDetailModal";
 import { startExport } from "@/app/actions/start-export";
+import { getExportTemplates } from "@/app/actions/export-templates";
+import { getLeadScoreSettings } from "@/app/actions/lead-score";
+import { calculateLeadScore, DEFAULT_LEAD_SCORE_WEIGHTS, leadScoreInputFromResult, leadScoreLevel, type LeadScoreWeights } from "@/lib/analysis/lead-score";
+import { LeadScoreWeightsPanel } from "./LeadScoreWeightsPanel";
+import { BulkActionsBar } from "./BulkActionsBar";
 import { PLANS, SubscriptionTier } from "@/lib/plans";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/exports/formats/types";
 
 export interface PlaceResult {
     place_id: string;
@@ -17,10 +23,14 @@ export interface PlaceResult {
     formatted_phone_number?: string;
     website?: string;
     types?: string[];
+    primary_type?: string;
+    primary_type_display_name?: string;
     location?: {
         latitude: number;
         longitude: number;
     };
+    distance_meters?: number; // Set by radius searches (distance from the search center)
+    matched_keywords?: string[]; // Keywords of a multi-keyword search that returned this place
     emails?: string[];
     emailScores?: { [email: string]: number }; // Email reliability scores (0-100)
     phones?: string[];
@@ -67,12 +77,42 @@ interface ResultsTableProps {
     onLoadMore?: () => void;
     isLoadingMore?: boolean;
     hasMore?: boolean;
+    onSearchNearby?: (place: PlaceResult) => void;
+    onExclude?: (placeIds: string[]) => void;
 }
 
-type SortField = "name" | "rating" | "user_ratings_total";
+type SortField = "name" | "rating" | "user_ratings_total" | "distance_meters" | "lead_score";
 type SortDirection = "asc" | "desc";
 
-export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore = false, hasMore = false }: ResultsTableProps) {
+const EXPORT_FORMAT_ICONS: Record<ExportFormat, typeof Copy> = {
+    csv: Copy,
+    xlsx: FileSpreadsheet,
+    ods: FileSpreadsheet,
+    vcf: Contact,
+    jsonl: Braces,
+    geojson: MapIcon,
+    kml: MapPin,
+};
+
+const SCORE_STYLES: Record<ReturnType<typeof leadScoreLevel>, string> = {
+    HIGH: "bg-emerald-500/10 text-emerald-400 border-emerald-500/20",
+    MEDIUM: "bg-yellow-500/10 text-yellow-400 border-yellow-500/20",
+    LOW: "bg-white/5 text-white/50 border-white/10",
+};
+
+// Sort Icon Helper
+function SortIcon({ field, sortField, sortDirection }: { field: SortField; sortField: SortField; sortDirection: SortDirection }) {
+    if (sortField !== field) return <ArrowUpDown className="w-3 h-3 text-muted-foreground/30" />;
+    return sortDirection === "asc" ?
+        <ChevronUp className="w-3 h-3 text-primary" /> :
+        <ChevronDown className="w-3 h-3 text-primary" />;
+}
+
+export function formatDistance(meters: number) {
+    return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+}
+
+export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore = false, hasMore = false, onSearchNearby, onExclude }: ResultsTableProps) {
     const isProOrHigher = ["PRO", "BUSINESS"].includes(tier);
     const [isAnalyticsOpen, setIsAnalyticsOpen] = useState(false);
     const [filterText, setFilterText] = useState("");
@@ -81,6 +121,12 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
     const [exportJobId, setExportJobId] = useState<string | null>(null);
     const [exportStatus, setExportStatus] = useState<string | null>(null);
     const [showExportMenu, setShowExportMenu] = useState(false);
+    const [exportTemplates, setExportTemplates] = useState<{ id: string; name: string }[]>([]);
+    const [exportTemplateId, setExportTemplateId] = useState("");
+    const [scoreWeights, setScoreWeights] = useState<LeadScoreWeights>(DEFAULT_LEAD_SCORE_WEIGHTS);
+    const [canEditScoreWeights, setCanEditScoreWeights] = useState(false);
+    const [showScoreWeights, setShowScoreWeights] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
     // Sorting State
     const [sortField, setSortField] = useState<SortField>("rating"); // Default sort by rating
@@ -90,6 +136,44 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
     const [currentPage, setCurrentPage] = useState(1);
     const itemsPerPage = PLANS[tier]?.resultsPerSearch || 20; // Tier-based page size
 
+    useEffect(() => {
+        let cancelled = false;
+        getLeadScoreSettings()
+            .then(settings => {
+                if (cancelled) return;
+                setScoreWeights(settings.weights);
+                setCanEditScoreWeights(settings.canEdit);
+            })
+            .catch(() => { });
+        return () => { cancelled = true; };
+    }, []);
+
+    // Selection survives paging and filtering but never points at rows that are gone
+    const selectedPlaceIds = useMemo(
+        () => results.filter(place => selectedIds.has(place.place_id)).map(place => place.place_id),
+        [results, selectedIds]
+    );
+
+    // Scored client-side so enrichment updates streaming in are reflected immediately
+    const leadScores = useMemo(
+        () => new Map(results.map(place => [place.place_id, calculateLeadScore(leadScoreInputFromResult(place), scoreWeights)])),
+        [results, scoreWeights]
+    );
+
+    // Saved column templates, refreshed whenever the export menu opens
+    useEffect(() => {
+        if (!showExportMenu || tier === "FREE") return;
+        let cancelled = false;
+        getExportTemplates()
+            .then(templates => {
+                if (cancelled) return;
+                setExportTemplates(templates.map(t => ({ id: t.id, name: t.name })));
+                setExportTemplateId(current => (templates.some(t => t.id === current) ? current : ""));
+            })
+            .catch(() => { });
+        return () => { cancelled = true; };
+    }, [showExportMenu, tier]);
+
     // Export Polling
     useEffect(() => {
         if (!exportJobId) return;
@@ -100,8 +184,8 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
                 const data = await res.json();
                 setExportStatus(data.status);
 
-                if (data.status === "completed") {
-                    window.location.href = `/api/exports/${exportJobId}?download=true`;
+                if (data.status === "completed" && data.downloadUrl) {
+                    window.location.href = data.downloadUrl;
                     setExportJobId(null);
                     setIsExporting(false);
                 } else if (data.status === "failed") {
@@ -117,6 +201,17 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
         return () => clearInterval(interval);
     }, [exportJobId]);
 
+    // Radius searches come back nearest-first; keep that order by default
+    const hasDistances = results.some(place => place.distance_meters !== undefined);
+    const [distanceSortApplied, setDistanceSortApplied] = useState(false);
+    if (hasDistances !== distanceSortApplied) {
+        setDistanceSortApplied(hasDistances);
+        if (hasDistances) {
+            setSortField("distance_meters");
+            setSortDirection("asc");
+        }
+    }
+
     // Reset page when filter or results change (must be before early return)
     useEffect(() => {
         setCurrentPage(1);
@@ -131,10 +226,13 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
         (place.types?.join(" ") || "").toLowerCase().includes(filterText.toLowerCase())
     );
 
+    // Keyword badges only make sense when the search used more than one keyword
+    const showMatchedKeywords = new Set(results.flatMap(place => place.matched_keywords || [])).size > 1;
+
     // Sort Logic
     const sortedResults = [...filteredResults].sort((a, b) => {
-        let valA: any = a[sortField];
-        let valB: any = b[sortField];
+        let valA: any = sortField === "lead_score" ? leadScores.get(a.place_id) : a[sortField];
+        let valB: any = sortField === "lead_score" ? leadScores.get(b.place_id) : b[sortField];
 
         // Handle string comparison (case-insensitive)
         if (typeof valA === "string") valA = valA.toLowerCase();
@@ -164,7 +262,34 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
         }
     };
 
-    const handleExport = async (format: "csv" | "xlsx") => {
+    const toggleSelected = (placeId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(placeId)) next.delete(placeId);
+            else next.add(placeId);
+            return next;
+        });
+    };
+
+    // Header checkbox covers every row matching the current filter, not just the visible page
+    const allFilteredSelected = sortedResults.length > 0 && sortedResults.every(place => selectedIds.has(place.place_id));
+    const toggleAllFiltered = () => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            for (const place of sortedResults) {
+                if (allFilteredSelected) next.delete(place.place_id);
+                else next.add(place.place_id);
+            }
+            return next;
+        });
+    };
+
+    const handleExcluded = (placeIds: string[]) => {
+        setSelectedIds(new Set());
+        onExclude?.(placeIds);
+    };
+
+    const handleExport = async (format: ExportFormat) => {
         const plan = PLANS[tier] || PLANS.FREE;
         if (!plan.features.export.includes(format)) {
             alert(`${format.toUpperCase()} dışa aktarma özelliği planınızda bulunmuyor. Lütfen planınızı yükseltin.`);
@@ -176,8 +301,10 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
         setShowExportMenu(false);
 
         try {
+            // A selection exports just those rows
             const dataToExport = sortedResults.length > 0 ? sortedResults : results;
-            const res = await startExport(dataToExport, format);
+            const ids = selectedPlaceIds.length > 0 ? selectedPlaceIds : dataToExport.map(place => place.place_id);
+            const res = await startExport(ids, format, exportTemplateId || null);
             setExportJobId(res.jobId);
         } catch (err: any) {
             alert(err.message);
@@ -210,14 +337,6 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
         return translations[type] || type.replace(/_/g, " ");
     };
 
-    // Sort Icon Helper
-    const SortIcon = ({ field }: { field: SortField }) => {
-        if (sortField !== field) return <ArrowUpDown className="w-3 h-3 text-muted-foreground/30" />;
-        return sortDirection === "asc" ?
-            <ChevronUp className="w-3 h-3 text-primary" /> :
-            <ChevronDown className="w-3 h-3 text-primary" />;
-    }
-
     return (
         <>
             <div className="w-full max-w-7xl mx-auto mt-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -262,26 +381,46 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
                                         )}
                                     >
                                         <Download className="w-4 h-4" />
-                                        Dışa Aktar {tier === "FREE" && "🔒"}
+                                        {selectedPlaceIds.length > 0 ? `Seçilenleri Dışa Aktar (${selectedPlaceIds.length})` : "Dışa Aktar"} {tier === "FREE" && "🔒"}
                                         <ChevronDown className={cn("w-3 h-3 transition-transform", showExportMenu && "rotate-180")} />
                                     </button>
 
                                     {showExportMenu && (
-                                        <div className="absolute right-0 mt-2 w-48 bg-background border border-white/10 rounded-xl shadow-2xl z-50 overflow-hidden animate-in fade-in zoom-in-95 duration-200">
-                                            <button
-                                                onClick={() => handleExport("csv")}
-                                                className="w-full px-4 py-3 text-left text-sm hover:bg-white/5 flex items-center gap-3 transition-colors border-b border-white/5"
-                                            >
-                                                <Copy className="w-4 h-4 text-blue-400" />
-                                                CSV Olarak İndir
-                                            </button>
-                                            <button
-                                                onClick={() => handleExport("xlsx")}
-                                                className="w-full px-4 py-3 text-left text-sm hover:bg-white/5 flex items-center gap-3 transition-colors"
-                                            >
-                                                <FileSpreadsheet className="w-4 h-4 text-emerald-400" />
-                                                Excel (XLSX) İndir
-                                            </button>
+                                        <div className="absolute right-0 mt-2 w-64 bg-background border border-white/10 rounded-xl shadow-2xl z-50 overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+                                            {exportTemplates.length > 0 && (
+                                                <div className="px-4 py-3 border-b border-white/10">
+                                                    <label className="block text-[10px] uppercase tracking-wider text-muted-foreground mb-1">Sütun Şablonu</label>
+                                                    <select
+                                                        value={exportTemplateId}
+                                                        onChange={(e) => setExportTemplateId(e.target.value)}
+                                                        className="w-full bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white"
+                                                    >
+                                                        <option value="">Varsayılan sütunlar</option>
+                                                        {exportTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                                    </select>
+                                                </div>
+                                            )}
+                                            {EXPORT_FORMATS.map(({ value, label, description }) => {
+                                                const Icon = EXPORT_FORMAT_ICONS[value];
+                                                const allowed = (PLANS[tier] || PLANS.FREE).features.export.includes(value);
+                                                return (
+                                                    <button
+                                                        key={value}
+                                                        onClick={() => handleExport(value)}
+                                                        className={cn(
+                                                            "w-full px-4 py-3 text-left text-sm hover:bg-white/5 flex items-center gap-3 transition-colors border-b border-white/5 last:border-0",
+                                                            !allowed && "opacity-50"
+                                                        )}
+                                                    >
+                                                        <Icon className="w-4 h-4 text-blue-400 shrink-0" />
+                                                        <span className="flex-1 min-w-0">
+                                                            <span className="block">{label}</span>
+                                                            <span className="block text-[10px] text-muted-foreground">{description}</span>
+                                                        </span>
+                                                        {!allowed && <Lock className="w-3 h-3 text-white/40" />}
+                                                    </button>
+                                                );
+                                            })}
                                         </div>
                                     )}
                                 </div>
@@ -289,25 +428,70 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
                         </div>
                     </div>
 
+                    {selectedPlaceIds.length > 0 && (
+                        <BulkActionsBar
+                            selectedIds={selectedPlaceIds}
+                            onClear={() => setSelectedIds(new Set())}
+                            onExcluded={handleExcluded}
+                        />
+                    )}
+
                     <div className="overflow-x-auto">
                         <table className="w-full text-left text-sm">
                             <thead>
                                 <tr className="border-b border-white/5 bg-white/5">
+                                    <th className="pl-4 w-8">
+                                        <input
+                                            type="checkbox"
+                                            checked={allFilteredSelected}
+                                            onChange={toggleAllFiltered}
+                                            title="Filtreye uyan tüm sonuçları seç"
+                                            className="accent-primary"
+                                        />
+                                    </th>
                                     <th className="p-4 font-medium text-muted-foreground w-[300px] cursor-pointer hover:bg-white/5 transition-colors select-none group" onClick={() => handleSort("name")}>
                                         <div className="flex items-center gap-2">
-                                            İşletme <SortIcon field="name" />
+                                            İşletme <SortIcon field="name" sortField={sortField} sortDirection={sortDirection} />
                                         </div>
                                     </th>
                                     <th className="p-4 font-medium text-muted-foreground hidden md:table-cell">Kategori</th>
                                     <th className="p-4 font-medium text-muted-foreground cursor-pointer hover:bg-white/5 transition-colors select-none group" onClick={() => handleSort("rating")}>
                                         <div className="flex items-center gap-2">
-                                            Puan <SortIcon field="rating" />
+                                            Puan <SortIcon field="rating" sortField={sortField} sortDirection={sortDirection} />
+                                        </div>
+                                    </th>
+                                    <th className="p-4 font-medium text-muted-foreground">
+                                        <div className="flex items-center gap-2 relative">
+                                            <button onClick={() => handleSort("lead_score")} className="flex items-center gap-2 hover:text-white transition-colors">
+                                                Skor <SortIcon field="lead_score" sortField={sortField} sortDirection={sortDirection} />
+                                            </button>
+                                            <button onClick={() => setShowScoreWeights(v => !v)} title="Skor ağırlıkları" className="text-muted-foreground/60 hover:text-white transition-colors">
+                                                <Gauge className="w-3.5 h-3.5" />
+                                            </button>
+                                            {showScoreWeights && (
+                                                <div className="absolute left-0 top-full">
+                                                    <LeadScoreWeightsPanel
+                                                        weights={scoreWeights}
+                                                        canEdit={canEditScoreWeights}
+                                                        onSaved={setScoreWeights}
+                                                        onClose={() => setShowScoreWeights(false)}
+                                                    />
+                                                </div>
+                                            )}
                                         </div>
                                     </th>
                                     <th className="p-4 font-medium text-muted-foreground">İletişim</th>
                                     <th className="p-4 font-medium text-muted-foreground hidden md:table-cell">E-Posta</th>
                                     <th className="p-4 font-medium text-muted-foreground hidden lg:table-cell">Dijital Varlık</th>
-                                    <th className="p-4 font-medium text-muted-foreground">Konum</th>
+                                    {hasDistances ? (
+                                        <th className="p-4 font-medium text-muted-foreground cursor-pointer hover:bg-white/5 transition-colors select-none group" onClick={() => handleSort("distance_meters")}>
+                                            <div className="flex items-center gap-2">
+                                                Konum <SortIcon field="distance_meters" sortField={sortField} sortDirection={sortDirection} />
+                                            </div>
+                                        </th>
+                                    ) : (
+                                        <th className="p-4 font-medium text-muted-foreground">Konum</th>
+                                    )}
                                     <th className="p-4 font-medium text-muted-foreground text-center">Durum</th>
                                 </tr>
                             </thead>
@@ -317,13 +501,17 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
                                         <ResultRow
                                             key={place.place_id}
                                             place={place}
+                                            score={leadScores.get(place.place_id) ?? 0}
+                                            selected={selectedIds.has(place.place_id)}
+                                            onToggleSelected={toggleSelected}
                                             formatType={formatType}
                                             onSelect={setSelectedPlace}
+                                            showMatchedKeywords={showMatchedKeywords}
                                         />
                                     ))
                                 ) : (
                                     <tr>
-                                        <td colSpan={6} className="p-8 text-center text-muted-foreground">
+                                        <td colSpan={10} className="p-8 text-center text-muted-foreground">
                                             Aramanızla eşleşen sonuç bulunamadı.
                                         </td>
                                     </tr>
@@ -449,6 +637,10 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
                 isOpen={!!selectedPlace}
                 onClose={() => setSelectedPlace(null)}
                 place={selectedPlace}
+                onSearchNearby={onSearchNearby ? (place) => {
+                    setSelectedPlace(null);
+                    onSearchNearby(place);
+                } : undefined}
             />
         </>
     );
@@ -456,18 +648,30 @@ export function ResultsTable({ results, tier = "FREE", onLoadMore, isLoadingMore
 
 interface ResultRowProps {
     place: PlaceResult;
+    score: number;
+    selected: boolean;
+    onToggleSelected: (placeId: string) => void;
     formatType: (type: string) => string;
     onSelect: (place: PlaceResult) => void;
+    showMatchedKeywords?: boolean;
 }
 
 import React from "react";
 
-const ResultRow = React.memo(function ResultRow({ place, formatType, onSelect }: ResultRowProps) {
+const ResultRow = React.memo(function ResultRow({ place, score, selected, onToggleSelected, formatType, onSelect, showMatchedKeywords }: ResultRowProps) {
     return (
         <tr
-            className="hover:bg-white/5 transition-colors group cursor-pointer"
+            className={cn("hover:bg-white/5 transition-colors group cursor-pointer", selected && "bg-primary/5")}
             onClick={() => onSelect(place)}
         >
+            <td className="pl-4" onClick={(e) => e.stopPropagation()}>
+                <input
+                    type="checkbox"
+                    checked={selected}
+                    onChange={() => onToggleSelected(place.place_id)}
+                    className="accent-primary"
+                />
+            </td>
             <td className="p-4">
                 <div className="flex items-start gap-4">
                     {/* Image Placeholder/Icon */}
@@ -480,6 +684,15 @@ const ResultRow = React.memo(function ResultRow({ place, formatType, onSelect }:
                     </div>
                     <div>
                         <div className="font-medium text-white text-base">{place.name}</div>
+                        {showMatchedKeywords && place.matched_keywords && place.matched_keywords.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                                {place.matched_keywords.map(k => (
+                                    <span key={k} className="px-1.5 py-0.5 rounded text-[10px] bg-primary/10 text-primary border border-primary/20">
+                                        {k}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
                         <div className="flex items-center gap-3 mt-1.5 sort-ignore" onClick={(e) => e.stopPropagation()}>
                             {place.website && (
                                 <a
@@ -525,6 +738,14 @@ const ResultRow = React.memo(function ResultRow({ place, formatType, onSelect }:
                     <span className="text-muted-foreground text-xs">-</span>
                 )}
             </td>
+            <td className="p-4">
+                <span className={cn(
+                    "inline-flex min-w-[2.5rem] justify-center px-2 py-0.5 rounded font-bold text-xs border",
+                    SCORE_STYLES[leadScoreLevel(score)]
+                )}>
+                    {score}
+                </span>
+            </td>
             <td className="p-4 text-muted-foreground">
                 <div className="flex flex-col gap-1.5">
                     {place.formatted_phone_number ? (
@@ -615,6 +836,9 @@ const ResultRow = React.memo(function ResultRow({ place, formatType, onSelect }:
             </td>
             <td className="p-4 text-muted-foreground max-w-[200px] sort-ignore" onClick={(e) => e.stopPropagation()}>
                 <div className="flex flex-col gap-1">
+                    {place.distance_meters !== undefined && (
+                        <span className="text-xs font-medium text-primary">{formatDistance(place.distance_meters)} uzaklıkta</span>
+                    )}
                     <div className="text-xs truncate" title={place.formatted_address}>{place.formatted_address}</div>
                     {place.location && (
                         <a
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { BookmarkPlus, Check, Loader2 } from "lucide-react";
+import { createSavedSearch } from "@/app/actions/saved-searches";
+import { SAVED_SEARCH_SCHEDULES, type SavedSearchSchedule } from "@/lib/search/saved-search-schedule";
+import type { SearchOptions } from "@/lib/search/options";
+
+interface SaveSearchButtonProps {
+    city: string;
+    keyword: string;
+    deepSearch: boolean;
+    options: SearchOptions;
+    enabled: boolean; // plan has saved searches
+}
+
+export function SaveSearchButton({ city, keyword, deepSearch, options, enabled }: SaveSearchButtonProps) {
+    const [open, setOpen] = useState(false);
+    const [name, setName] = useState("");
+    const [schedule, setSchedule] = useState<SavedSearchSchedule>("weekly");
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleOpen = () => {
+        setName(`${keyword} · ${city}`.slice(0, 60));
+        setSaved(false);
+        setError(null);
+        setOpen(true);
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            await createSavedSearch({ name, city, keyword, deepSearch, schedule, options });
+            setSaved(true);
+            setOpen(false);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Arama kaydedilemedi.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (saved) {
+        return (
+            <span className="flex items-center gap-2 text-xs text-emerald-400 font-medium">
+                <Check className="w-4 h-4" /> Arama kaydedildi
+            </span>
+        );
+    }
+
+    if (!open) {
+        return (
+            <button
+                onClick={handleOpen}
+                disabled={!enabled}
+                title={enabled ? "Bu aramayı düzenli olarak yeniden çalıştır" : "Kayıtlı aramalar planınızda bulunmuyor"}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                <BookmarkPlus className="w-4 h-4" /> Aramayı Kaydet
+            </button>
+        );
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 bg-white/5 border border-white/10 rounded-xl p-2">
+            <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={60}
+                placeholder="Arama adı"
+                className="bg-black/30 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white w-48"
+            />
+            <select
+                value={schedule}
+                onChange={(e) => setSchedule(e.target.value as SavedSearchSchedule)}
+                className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white"
+            >
+                {SAVED_SEARCH_SCHEDULES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+            </select>
+            <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold disabled:opacity-50"
+            >
+                {saving && <Loader2 className="w-3 h-3 animate-spin" />} Kaydet
+            </button>
+            <button onClick={() => setOpen(false)} className="px-2 py-1.5 text-xs text-white/60 hover:text-white">İptal</button>
+            {error && <span className="w-full text-xs text-red-300">{error}</span>}
+        </div>
+    );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Bell, BellRing, CalendarClock, Loader2, Pause, Play, Search, Trash2, Zap, RefreshCw, Store, DoorClosed } from "lucide-react";
+import { deleteSavedSearch, getSavedSearches, runSavedSearchNow, updateSavedSearch } from "@/app/actions/saved-searches";
+import { getNotifications, markNotificationsRead } from "@/app/actions/notifications";
+import { SAVED_SEARCH_SCHEDULES, type SavedSearchSchedule } from "@/lib/search/saved-search-schedule";
+import type { SearchOptions } from "@/lib/search/options";
+import { PLANS, SubscriptionTier } from "@/lib/plans";
+import { cn } from "@/lib/utils";
+
+type SavedSearchItem = Awaited<ReturnType<typeof getSavedSearches>>[number];
+type NotificationItem = Awaited<ReturnType<typeof getNotifications>>["notifications"][number];
+
+interface SavedSearchesViewProps {
+    tier: SubscriptionTier;
+    onOpenSearch: (city: string, keyword: string, deepSearch: boolean, options: SearchOptions) => void;
+    onNotificationsRead?: () => void;
+}
+
+function formatDate(date: Date | string) {
+    return new Intl.DateTimeFormat("tr-TR", {
+        day: "2-digit",
+        month: "short",
+        hour: "2-digit",
+        minute: "2-digit"
+    }).format(new Date(date));
+}
+
+export function SavedSearchesView({ tier, onOpenSearch, onNotificationsRead }: SavedSearchesViewProps) {
+    const [searches, setSearches] = useState<SavedSearchItem[]>([]);
+    const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const allowed = PLANS[tier]?.features.savedSearches;
+
+    const load = useCallback(async () => {
+        try {
+            const [searchData, notificationData] = await Promise.all([getSavedSearches(), getNotifications(20)]);
+            setSearches(searchData);
+            setNotifications(notificationData.notifications);
+            setUnreadCount(notificationData.unreadCount);
+        } catch (e) {
+            console.error("Failed to load saved searches:", e);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const withBusy = async (id: string, action: () => Promise<unknown>) => {
+        setBusyId(id);
+        setError(null);
+        try {
+            await action();
+            await load();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "İşlem başarısız.");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleMarkAllRead = async () => {
+        await markNotificationsRead();
+        await load();
+        onNotificationsRead?.();
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-24">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="animate-in fade-in slide-in-from-right-4 duration-500 space-y-10">
+            <div>
+                <h2 className="text-3xl font-bold text-white">Kayıtlı Aramalar</h2>
+                <p className="text-muted-foreground">Bölgenizi takip edin: aramalar düzenli olarak yeniden çalışır, yeni açılan ve kapanan işletmeler size bildirilir.</p>
+            </div>
+
+            {!allowed && (
+                <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 text-yellow-200 rounded-xl text-sm">
+                    Kayıtlı aramalar {PLANS.STARTER.name} ve üzeri planlarda kullanılabilir.
+                </div>
+            )}
+
+            {error && (
+                <div className="p-4 bg-red-500/10 border border-red-500/20 text-red-200 rounded-xl text-sm">{error}</div>
+            )}
+
+            {/* Notifications */}
+            <div className="bg-white/5 border border-white/10 rounded-3xl p-6">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                        {unreadCount > 0 ? <BellRing className="w-5 h-5 text-primary" /> : <Bell className="w-5 h-5 text-white/40" />}
+                        Bildirimler
+                        {unreadCount > 0 && <span className="text-xs bg-primary text-white px-2 py-0.5 rounded-full">{unreadCount}</span>}
+                    </h3>
+                    {unreadCount > 0 && (
+                        <button onClick={handleMarkAllRead} className="text-xs text-primary hover:underline">Tümünü okundu işaretle</button>
+                    )}
+                </div>
+                {notifications.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Henüz bildirim yok.</p>
+                ) : (
+                    <ul className="space-y-2 max-h-64 overflow-y-auto pr-2">
+                        {notifications.map(n => (
+                            <li key={n.id} className={cn("p-3 rounded-xl border text-sm", n.readAt ? "border-white/5 bg-black/10 text-white/60" : "border-primary/30 bg-primary/5 text-white")}>
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-semibold">{n.title}</span>
+                                    <span className="text-[10px] text-white/40 shrink-0">{formatDate(n.createdAt)}</span>
+                                </div>
+                                <p className={cn("mt-1", n.type === "SAVED_SEARCH_FAILED" && "text-red-300")}>{n.body}</p>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            {/* Saved searches */}
+            {searches.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-24 bg-white/5 rounded-3xl border border-dashed border-white/10">
+                    <CalendarClock className="w-12 h-12 text-white/20 mb-4" />
+                    <h4 className="text-white font-medium">Henüz kayıtlı aramanız yok.</h4>
+                    <p className="text-muted-foreground text-sm">Bir arama yaptıktan sonra sonuçların üstündeki &quot;Aramayı Kaydet&quot; ile ekleyebilirsiniz.</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {searches.map(search => {
+                        const latest = search.runs[0];
+                        const busy = busyId === search.id;
+                        return (
+                            <div key={search.id} className={cn("p-6 bg-white/5 rounded-3xl border border-white/10 space-y-4", !search.active && "opacity-70")}>
+                                <div className="flex items-start justify-between gap-4">
+                                    <div>
+                                        <h4 className="text-white font-bold text-lg flex items-center gap-2">
+                                            {search.name}
+                                            {search.deepSearch && <Zap className="w-4 h-4 text-purple-400" />}
+                                        </h4>
+                                        <p className="text-muted-foreground text-sm capitalize">{search.keyword} · {search.city}</p>
+                                    </div>
+                                    <select
+                                        value={search.schedule}
+                                        disabled={busy}
+                                        onChange={(e) => withBusy(search.id, () => updateSavedSearch(search.id, { schedule: e.target.value as SavedSearchSchedule }))}
+                                        className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-xs text-white"
+                                    >
+                                        {SAVED_SEARCH_SCHEDULES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                                    </select>
+                                </div>
+
+                                <div className="text-xs text-white/50 space-y-1">
+                                    <div>Son çalışma: {search.lastRunAt ? formatDate(search.lastRunAt) : "Henüz çalışmadı"}{latest ? ` · ${latest.resultCount} işletme` : ""}</div>
+                                    {search.lastError && <div className="text-red-300">{search.lastError}</div>}
+                                </div>
+
+                                {(search.latestOpened.length > 0 || search.latestClosed.length > 0) && (
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs">
+                                        {search.latestOpened.length > 0 && (
+                                            <div className="p-3 rounded-xl bg-emerald-500/10 border border-emerald-500/20">
+                                                <div className="flex items-center gap-1 font-bold text-emerald-300 mb-1"><Store className="w-3 h-3" /> Yeni ({search.latestOpened.length})</div>
+                                                {search.latestOpened.slice(0, 5).map(p => <div key={p.googleId} className="text-white/80 truncate">{p.name}</div>)}
+                                            </div>
+                                        )}
+                                        {search.latestClosed.length > 0 && (
+                                            <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20">
+                                                <div className="flex items-center gap-1 font-bold text-red-300 mb-1"><DoorClosed className="w-3 h-3" /> Kapanan ({search.latestClosed.length})</div>
+                                                {search.latestClosed.slice(0, 5).map(p => <div key={p.googleId} className="text-white/80 truncate">{p.name}</div>)}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                <label className="flex items-center gap-2 text-xs text-white/70">
+                                    <input
+                                        type="checkbox"
+                                        checked={search.notifyEmail}
+                                        disabled={busy}
+                                        onChange={(e) => withBusy(search.id, () => updateSavedSearch(search.id, { notifyEmail: e.target.checked }))}
+                                    />
+                                    E-posta ile bildir
+                                </label>
+
+                                <div className="flex flex-wrap gap-2 pt-4 border-t border-white/5">
+                                    <button
+                                        onClick={() => onOpenSearch(search.city, search.keyword, search.deepSearch, (search.options || {}) as SearchOptions)}
+                                        className="flex items-center gap-1 px-3 py-2 rounded-lg bg-primary/10 text-primary text-xs font-bold hover:bg-primary/20"
+                                    >
+                                        <Search className="w-3 h-3" /> Sonuçları Aç
+                                    </button>
+                                    <button
+                                        onClick={() => withBusy(search.id, () => runSavedSearchNow(search.id))}
+                                        disabled={busy || !search.active}
+                                        className="flex items-center gap-1 px-3 py-2 rounded-lg bg-white/5 text-white text-xs hover:bg-white/10 disabled:opacity-50"
+                                    >
+                                        {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />} Şimdi Çalıştır
+                                    </button>
+                                    <button
+                                        onClick={() => withBusy(search.id, () => updateSavedSearch(search.id, { active: !search.active }))}
+                                        disabled={busy}
+                                        className="flex items-center gap-1 px-3 py-2 rounded-lg bg-white/5 text-white text-xs hover:bg-white/10 disabled:opacity-50"
+                                    >
+                                        {search.active ? <><Pause className="w-3 h-3" /> Duraklat</> : <><Play className="w-3 h-3" /> Devam Et</>}
+                                    </button>
+                                    <button
+                                        onClick={() => {
+                                            if (confirm("Bu kayıtlı arama silinsin mi?")) withBusy(search.id, () => deleteSavedSearch(search.id));
+                                        }}
+                                        disabled={busy}
+                                        className="flex items-center gap-1 px-3 py-2 rounded-lg bg-red-500/10 text-red-300 text-xs hover:bg-red-500/20 disabled:opacity-50 ml-auto"
+                                    >
+                                        <Trash2 className="w-3 h-3" /> Sil
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,13 +1,22 @@
 "use client";
 
-import { Search, Loader2, History, X } from "lucide-react";
+import { Search, Loader2, History, X, Map as MapIcon, Upload, LocateFixed, Layers, Save } from "lucide-react";
 import { useState, useMemo, useEffect } from "react";
 import { cn } from "@/lib/utils";
 import { Country, State, City, type ICountry, type IState, type ICity } from 'country-state-city';
 import { CONTINENTS, COUNTRY_CONTINENT_MAP } from "@/lib/continents";
+import { BOUNDARY_PRESETS, getBoundaryPreset } from "@/lib/geo/boundaries";
+import { parseSearchArea, type Position, type SearchArea } from "@/lib/geo/polygon";
+import type { SearchOptions } from "@/lib/search/options";
+import { getSynonymGroups, saveSynonymGroup } from "@/app/actions/synonym-groups";
+import { PLACE_TYPE_OPTIONS } from "@/lib/places/place-types";
+import { PLACES_PROVIDER_LABELS, type PlacesProviderId } from "@/lib/gateway/types";
+import { AreaDrawMap } from "./AreaDrawMap";
+
+type AreaMode = "city" | "preset" | "upload" | "draw" | "nearby";
 
 interface SearchFormProps {
-    onSearch: (city: string, keyword: string, deepSearch?: boolean) => void;
+    onSearch: (city: string, keyword: string, deepSearch?: boolean, options?: SearchOptions) => void;
     isLoading: boolean;
     defaultDeepSearch?: boolean;
 }
@@ -32,8 +41,34 @@ export function SearchForm({ onSearch, isLoading, defaultDeepSearch }: SearchFor
     const [isDeepSearch, setIsDeepSearch] = useState(defaultDeepSearch ?? false);
     const [deepSearchManuallySet, setDeepSearchManuallySet] = useState(false);
 
+    // Search Area (polygon) State
+    const [areaMode, setAreaMode] = useState<AreaMode>("city");
+    const [presetId, setPresetId] = useState(BOUNDARY_PRESETS[0]?.id || "");
+    const [uploadedArea, setUploadedArea] = useState<{ name: string; area: SearchArea } | null>(null);
+    const [drawnVertices, setDrawnVertices] = useState<Position[]>([]);
+    const [areaError, setAreaError] = useState<string | null>(null);
+    const [nearbyLat, setNearbyLat] = useState("");
+    const [nearbyLng, setNearbyLng] = useState("");
+    const [nearbyRadius, setNearbyRadius] = useState("1000");
+    const [isLocating, setIsLocating] = useState(false);
+
+    // Extra keywords / synonyms searched in the same job
+    const [synonymInput, setSynonymInput] = useState("");
+    const [synonymGroups, setSynonymGroups] = useState<{ id: string; name: string; keywords: string[] }[]>([]);
+
+    // Google place type filter
+    const [includedType, setIncludedType] = useState("");
+    const [strictTypeFiltering, setStrictTypeFiltering] = useState(true);
+
+    // Data source ("" = plan default)
+    const [provider, setProvider] = useState<PlacesProviderId | "">("");
+
     const [history, setHistory] = useState<SearchHistoryItem[]>([]);
 
+    useEffect(() => {
+        getSynonymGroups().then(setSynonymGroups).catch(err => console.error("Failed to load synonym groups", err));
+    }, []);
+
     useEffect(() => {
         const saved = localStorage.getItem("search_history");
         if (saved) {
@@ -93,8 +128,110 @@ export function SearchForm({ onSearch, isLoading, defaultDeepSearch }: SearchFor
         localStorage.setItem("search_history", JSON.stringify(newHistory));
     }
 
+    const handleAreaUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setAreaError(null);
+        try {
+            const area = parseSearchArea(JSON.parse(await file.text()));
+            if (!area) throw new Error("invalid");
+            setUploadedArea({ name: file.name.replace(/\.(geo)?json$/i, ""), area });
+        } catch {
+            setUploadedArea(null);
+            setAreaError("Dosya geçerli bir GeoJSON Polygon/MultiPolygon içermiyor.");
+        }
+    };
+
+    const handleUseMyLocation = () => {
+        if (!navigator.geolocation) {
+            setAreaError("Tarayıcınız konum paylaşımını desteklemiyor.");
+            return;
+        }
+        setIsLocating(true);
+        navigator.geolocation.getCurrentPosition(
+            (position) => {
+                setNearbyLat(position.coords.latitude.toFixed(6));
+                setNearbyLng(position.coords.longitude.toFixed(6));
+                setAreaError(null);
+                setIsLocating(false);
+            },
+            () => {
+                setAreaError("Konum alınamadı. Koordinatları elle girebilirsiniz.");
+                setIsLocating(false);
+            },
+            { enableHighAccuracy: false, timeout: 10000 }
+        );
+    };
+
+    // Resolves the selected area / radius and a label to show as the search location
+    const resolveArea = (): { label: string; options: SearchOptions } | null => {
+        if (areaMode === "preset") {
+            const preset = getBoundaryPreset(presetId);
+            return preset ? { label: `${preset.name}, ${preset.region}`, options: { area: preset.area } } : null;
+        }
+        if (areaMode === "upload") {
+            return uploadedArea ? { label: uploadedArea.name, options: { area: uploadedArea.area } } : null;
+        }
+        if (areaMode === "draw") {
+            if (drawnVertices.length < 3) return null;
+            const ring = [...drawnVertices, drawnVertices[0]];
+            return { label: "Çizilen Alan", options: { area: { type: "Polygon", coordinates: [ring] } } };
+        }
+        if (areaMode === "nearby") {
+            const lat = parseFloat(nearbyLat);
+            const lng = parseFloat(nearbyLng);
+            const radius = parseInt(nearbyRadius, 10);
+            if (!Number.isFinite(lat) || !Number.isFinite(lng) || !Number.isFinite(radius)) return null;
+            return { label: `Yakın: ${lat.toFixed(4)}, ${lng.toFixed(4)}`, options: { nearby: { lat, lng, radius } } };
+        }
+        return null;
+    };
+
+    const extraKeywords = () => synonymInput.split(",").map(k => k.trim()).filter(Boolean);
+
+    const handleSynonymGroupSelect = (groupId: string) => {
+        const group = synonymGroups.find(g => g.id === groupId);
+        if (!group) return;
+        const [first, ...rest] = group.keywords;
+        if (!keyword.trim()) {
+            setKeyword(first);
+            setSynonymInput(rest.join(", "));
+        } else {
+            setSynonymInput(group.keywords.filter(k => k !== keyword.trim().toLowerCase()).join(", "));
+        }
+    };
+
+    const handleSaveSynonymGroup = async () => {
+        const keywords = [keyword, ...extraKeywords()].map(k => k.trim()).filter(Boolean);
+        const name = window.prompt("Kelime grubu adı:");
+        if (!name) return;
+        try {
+            const saved = await saveSynonymGroup(name, keywords);
+            setSynonymGroups(prev => [...prev.filter(g => g.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Kelime grubu kaydedilemedi.");
+        }
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
+        const keywordOptions: SearchOptions = {
+            ...(extraKeywords().length > 0 ? { keywords: extraKeywords() } : {}),
+            ...(includedType ? { includedType, strictTypeFiltering } : {}),
+            ...(provider ? { provider } : {}),
+        };
+        if (areaMode !== "city") {
+            const resolved = resolveArea();
+            if (!resolved) {
+                setAreaError("Lütfen geçerli bir arama alanı seçin veya çizin.");
+                return;
+            }
+            if (keyword.trim()) {
+                setAreaError(null);
+                onSearch(resolved.label, keyword, isDeepSearch, { ...resolved.options, ...keywordOptions });
+            }
+            return;
+        }
         if (keyword.trim() && selectedCountryCode) {
             // Construct location string based on what is selected
             const country = countries.find(c => c.isoCode === selectedCountryCode);
@@ -117,7 +254,7 @@ export function SearchForm({ onSearch, isLoading, defaultDeepSearch }: SearchFor
                 displayLocation = `${actualCountry?.name}`;
             }
 
-            onSearch(location, keyword, isDeepSearch);
+            onSearch(location, keyword, isDeepSearch, keywordOptions);
             saveToHistory(displayLocation, keyword);
         }
     };
@@ -185,7 +322,7 @@ export function SearchForm({ onSearch, isLoading, defaultDeepSearch }: SearchFor
                                 setSelectedCityName("");
                             }}
                             className="w-full bg-white/5 border border-white/10 text-foreground focus:ring-1 focus:ring-primary h-12 rounded-xl outline-none px-3 appearance-none"
-                            required
+                            required={areaMode === "city"}
                         >
                             <option value="" className="bg-neutral-900">Ülke Seç</option>
                             {countries.map(country => (
@@ -250,6 +387,183 @@ export function SearchForm({ onSearch, isLoading, defaultDeepSearch }: SearchFor
                         />
                     </div>
 
+                    {/* Synonyms / keyword set */}
+                    <div className="w-full flex flex-col md:flex-row gap-2 pt-2">
+                        <div className="relative flex-1">
+                            <Layers className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                            <input
+                                type="text"
+                                placeholder="Eş anlamlılar (virgülle ayırın): kahveci, coffee shop"
+                                value={synonymInput}
+                                onChange={(e) => setSynonymInput(e.target.value)}
+                                className="w-full bg-white/5 border border-white/10 text-foreground placeholder:text-muted-foreground focus:ring-1 focus:ring-primary h-10 rounded-xl outline-none pl-10 pr-3 text-sm"
+                            />
+                        </div>
+                        {synonymGroups.length > 0 && (
+                            <select
+                                value=""
+                                onChange={(e) => handleSynonymGroupSelect(e.target.value)}
+                                className="md:w-56 bg-white/5 border border-white/10 text-foreground focus:ring-1 focus:ring-primary h-10 rounded-xl outline-none px-3 appearance-none text-sm"
+                            >
+                                <option value="" className="bg-neutral-900">Kayıtlı Kelime Grubu</option>
+                                {synonymGroups.map(group => (
+                                    <option key={group.id} value={group.id} className="bg-neutral-900">
+                                        {group.name} ({group.keywords.length})
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+                        <button
+                            type="button"
+                            onClick={handleSaveSynonymGroup}
+                            disabled={!keyword.trim() || extraKeywords().length === 0}
+                            className="flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl px-4 h-10 text-sm text-white/80 disabled:opacity-40"
+                        >
+                            <Save className="w-4 h-4" /> Grubu Kaydet
+                        </button>
+                    </div>
+
+                    {/* Place type filter & data source */}
+                    <div className="w-full flex flex-wrap items-center gap-3">
+                        <select
+                            value={provider}
+                            onChange={(e) => setProvider(e.target.value as PlacesProviderId | "")}
+                            className="w-full md:w-48 bg-white/5 border border-white/10 text-foreground focus:ring-1 focus:ring-primary h-10 rounded-xl outline-none px-3 appearance-none text-sm"
+                        >
+                            <option value="" className="bg-neutral-900">Varsayılan Kaynak</option>
+                            {(Object.keys(PLACES_PROVIDER_LABELS) as PlacesProviderId[]).map(id => (
+                                <option key={id} value={id} className="bg-neutral-900">
+                                    {PLACES_PROVIDER_LABELS[id]}
+                                </option>
+                            ))}
+                        </select>
+                        <select
+                            value={includedType}
+                            onChange={(e) => setIncludedType(e.target.value)}
+                            className="w-full md:w-64 bg-white/5 border border-white/10 text-foreground focus:ring-1 focus:ring-primary h-10 rounded-xl outline-none px-3 appearance-none text-sm"
+                        >
+                            <option value="" className="bg-neutral-900">Tüm İşletme Türleri</option>
+                            {PLACE_TYPE_OPTIONS.map(type => (
+                                <option key={type.value} value={type.value} className="bg-neutral-900">
+                                    {type.label}
+                                </option>
+                            ))}
+                        </select>
+                        {includedType && (
+                            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer select-none">
+                                <input
+                                    type="checkbox"
+                                    checked={strictTypeFiltering}
+                                    onChange={(e) => setStrictTypeFiltering(e.target.checked)}
+                                    className="accent-primary"
+                                />
+                                Sadece bu türdeki işletmeler (katı filtre)
+                            </label>
+                        )}
+                    </div>
+
+                    {/* Search Area (polygon) */}
+                    <div className="w-full flex flex-col gap-3 pt-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-xs text-muted-foreground ml-3 flex items-center gap-1">
+                                <MapIcon className="w-3 h-3" /> Arama Alanı
+                            </span>
+                            {([
+                                { id: "city", label: "Şehir Sınırı" },
+                                { id: "preset", label: "Hazır Sınır" },
+                                { id: "upload", label: "GeoJSON Yükle" },
+                                { id: "draw", label: "Haritada Çiz" },
+                                { id: "nearby", label: "Yakınımda" },
+                            ] as { id: AreaMode; label: string }[]).map(mode => (
+                                <button
+                                    key={mode.id}
+                                    type="button"
+                                    onClick={() => {
+                                        setAreaMode(mode.id);
+                                        setAreaError(null);
+                                    }}
+                                    className={cn(
+                                        "px-3 py-1.5 rounded-full text-xs border transition-colors",
+                                        areaMode === mode.id
+                                            ? "bg-primary/20 border-primary/40 text-primary"
+                                            : "bg-white/5 border-white/10 text-white/60 hover:text-white"
+                                    )}
+                                >
+                                    {mode.label}
+                                </button>
+                            ))}
+                        </div>
+
+                        {areaMode === "preset" && (
+                            <select
+                                value={presetId}
+                                onChange={(e) => setPresetId(e.target.value)}
+                                className="w-full md:w-72 bg-white/5 border border-white/10 text-foreground focus:ring-1 focus:ring-primary h-10 rounded-xl outline-none px-3 appearance-none text-sm"
+                            >
+                                {BOUNDARY_PRESETS.map(preset => (
+                                    <option key={preset.id} value={preset.id} className="bg-neutral-900">
+                                        {preset.name} ({preset.region})
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+
+                        {areaMode === "upload" && (
+                            <label className="flex items-center gap-2 w-fit cursor-pointer bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl px-4 h-10 text-sm text-white/80">
+                                <Upload className="w-4 h-4" />
+                                {uploadedArea ? uploadedArea.name : "GeoJSON dosyası seç"}
+                                <input type="file" accept=".json,.geojson,application/geo+json,application/json" className="hidden" onChange={handleAreaUpload} />
+                            </label>
+                        )}
+
+                        {areaMode === "draw" && (
+                            <AreaDrawMap vertices={drawnVertices} onChange={setDrawnVertices} />
+                        )}
+
+                        {areaMode === "nearby" && (
+                            <div className="flex flex-wrap items-center gap-2">
+                                <input
+                                    type="number"
+                                    step="any"
+                                    placeholder="Enlem"
+                                    value={nearbyLat}
+                                    onChange={(e) => setNearbyLat(e.target.value)}
+                                    className="w-32 bg-white/5 border border-white/10 text-foreground focus:ring-1 focus:ring-primary h-10 rounded-xl outline-none px-3 text-sm"
+                                />
+                                <input
+                                    type="number"
+                                    step="any"
+                                    placeholder="Boylam"
+                                    value={nearbyLng}
+                                    onChange={(e) => setNearbyLng(e.target.value)}
+                                    className="w-32 bg-white/5 border border-white/10 text-foreground focus:ring-1 focus:ring-primary h-10 rounded-xl outline-none px-3 text-sm"
+                                />
+                                <select
+                                    value={nearbyRadius}
+                                    onChange={(e) => setNearbyRadius(e.target.value)}
+                                    className="w-28 bg-white/5 border border-white/10 text-foreground focus:ring-1 focus:ring-primary h-10 rounded-xl outline-none px-3 appearance-none text-sm"
+                                >
+                                    {[250, 500, 1000, 2000, 5000, 10000, 25000].map(r => (
+                                        <option key={r} value={r} className="bg-neutral-900">
+                                            {r >= 1000 ? `${r / 1000} km` : `${r} m`}
+                                        </option>
+                                    ))}
+                                </select>
+                                <button
+                                    type="button"
+                                    onClick={handleUseMyLocation}
+                                    disabled={isLocating}
+                                    className="flex items-center gap-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl px-4 h-10 text-sm text-white/80 disabled:opacity-50"
+                                >
+                                    {isLocating ? <Loader2 className="w-4 h-4 animate-spin" /> : <LocateFixed className="w-4 h-4" />}
+                                    Konumumu Kullan
+                                </button>
+                            </div>
+                        )}
+
+                        {areaError && <span className="text-xs text-red-400 ml-3">{areaError}</span>}
+                    </div>
+
                     {/* Deep Search Toggle & Submit Button Row */}
                     <div className="w-full flex items-center justify-between mt-4 pt-4 border-t border-white/5">
                         <div
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Link2, RefreshCw } from "lucide-react";
+import { getLeadCrmSyncs, syncLeadsToCrm } from "@/app/actions/crm-sync";
+import { CRM_PROVIDER_LABELS, isCrmProviderId } from "@/lib/crm/connectors/types";
+import { cn } from "@/lib/utils";
+
+type ConnectionSync = Awaited<ReturnType<typeof getLeadCrmSyncs>>[number];
+
+const STATUS_STYLES: Record<string, string> = {
+    SYNCED: "text-emerald-400",
+    FAILED: "text-red-400",
+    PENDING: "text-yellow-400",
+    SUPPRESSED: "text-white/40",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+    SYNCED: "Senkronize",
+    FAILED: "Hatalı",
+    PENDING: "Kuyrukta",
+    SUPPRESSED: "Engellendi",
+};
+
+function formatDateTime(date: Date | string) {
+    return new Intl.DateTimeFormat("tr-TR", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" }).format(new Date(date));
+}
+
+// Per-connection sync state of one lead; renders nothing until a CRM is connected
+export function LeadCrmStatus({ leadId }: { leadId: string }) {
+    const [connections, setConnections] = useState<ConnectionSync[]>([]);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getLeadCrmSyncs(leadId)
+            .then(data => { if (!cancelled) setConnections(data); })
+            .catch(() => { if (!cancelled) setConnections([]); });
+        return () => { cancelled = true; };
+    }, [leadId]);
+
+    const handleSync = async (connectionId: string) => {
+        setBusyId(connectionId);
+        setError(null);
+        try {
+            await syncLeadsToCrm(connectionId, { leadIds: [leadId] });
+            const data = await getLeadCrmSyncs(leadId);
+            setConnections(data);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Senkronizasyon başlatılamadı.");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (connections.length === 0) return null;
+
+    return (
+        <div className="space-y-2">
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+                <Link2 className="w-4 h-4" /> CRM
+            </h4>
+            {error && <p className="text-red-400 text-xs">{error}</p>}
+            {connections.map(connection => {
+                const { sync } = connection;
+                const label = isCrmProviderId(connection.provider) ? CRM_PROVIDER_LABELS[connection.provider] : connection.provider;
+                return (
+                    <div key={connection.id} className="p-3 rounded-xl bg-white/5 border border-white/5 text-xs">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="font-bold text-white">{label}</span>
+                            <span className={cn("font-bold", sync ? STATUS_STYLES[sync.status] : "text-white/40")}>
+                                {sync ? STATUS_LABELS[sync.status] || sync.status : "Aktarılmadı"}
+                            </span>
+                            <button
+                                onClick={() => handleSync(connection.id)}
+                                disabled={!connection.active || busyId === connection.id || sync?.status === "PENDING"}
+                                title={connection.active ? "Şimdi aktar" : "Bağlantı devre dışı"}
+                                className="ml-auto text-white/50 hover:text-white disabled:opacity-30"
+                            >
+                                <RefreshCw className={cn("w-3 h-3", busyId === connection.id && "animate-spin")} />
+                            </button>
+                        </div>
+                        {sync?.syncedAt && (
+                            <p className="text-[10px] text-white/40 mt-1">
+                                {sync.lastAction === "created" ? "Oluşturuldu" : "Güncellendi"} · {formatDateTime(sync.syncedAt)}
+                                {sync.externalCompanyId && <> · Firma #{sync.externalCompanyId}</>}
+                                {sync.externalContactId && <> · Kişi #{sync.externalContactId}</>}
+                            </p>
+                        )}
+                        {sync?.status === "FAILED" && sync.error && <p className="text-[10px] text-red-300 mt-1 break-words">{sync.error}</p>}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,300 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Ban, Check, FileDown, ListChecks, Loader2, Pencil, Plus, RotateCcw, ShieldOff, Trash2, X } from "lucide-react";
+import { getLeads, type LeadRow } from "@/app/actions/get-leads";
+import { createLeadList, deleteLeadList, getLeadLists, removeLeadsFromList, renameLeadList } from "@/app/actions/lead-lists";
+import { bulkSetLeadsExcluded } from "@/app/actions/bulk-leads";
+import { startLeadsExport } from "@/app/actions/start-export";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/exports/formats/types";
+import { PLANS, type SubscriptionTier } from "@/lib/plans";
+import { SuppressionListSection } from "./SuppressionListSection";
+import { cn } from "@/lib/utils";
+
+type LeadListItem = Awaited<ReturnType<typeof getLeadLists>>[number];
+
+const PAGE_SIZE = 50;
+
+interface LeadListsViewProps {
+    tier: SubscriptionTier;
+}
+
+// Named lead lists with their members, plus the workspace's do-not-contact list
+export function LeadListsView({ tier }: LeadListsViewProps) {
+    const [lists, setLists] = useState<LeadListItem[]>([]);
+    const [activeListId, setActiveListId] = useState<string | null>(null);
+    const [leads, setLeads] = useState<LeadRow[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [total, setTotal] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [newListName, setNewListName] = useState("");
+    const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+    const allowedFormats = EXPORT_FORMATS.filter(f => (PLANS[tier] || PLANS.FREE).features.export.includes(f.value));
+    const [exportFormat, setExportFormat] = useState<ExportFormat>(allowedFormats[0]?.value ?? "csv");
+
+    const loadLists = useCallback(async () => {
+        try {
+            setLists(await getLeadLists());
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Listeler yüklenemedi.");
+        }
+    }, []);
+
+    const loadLeads = useCallback(async () => {
+        try {
+            const res = await getLeads({ listId: activeListId, take: PAGE_SIZE });
+            setLeads(res.leads);
+            setNextCursor(res.nextCursor);
+            setTotal(res.total);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Adaylar yüklenemedi.");
+        } finally {
+            setLoading(false);
+        }
+    }, [activeListId]);
+
+    useEffect(() => {
+        loadLists();
+    }, [loadLists]);
+
+    useEffect(() => {
+        loadLeads();
+    }, [loadLeads]);
+
+    const selectList = (listId: string | null) => {
+        if (listId === activeListId) return;
+        setLoading(true);
+        setError(null);
+        setNotice(null);
+        setActiveListId(listId);
+    };
+
+    const loadMore = async () => {
+        if (!nextCursor) return;
+        setLoadingMore(true);
+        try {
+            const res = await getLeads({ listId: activeListId, cursor: nextCursor, take: PAGE_SIZE });
+            setLeads(prev => [...prev, ...res.leads]);
+            setNextCursor(res.nextCursor);
+            setTotal(res.total);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Adaylar yüklenemedi.");
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    const run = async (action: () => Promise<unknown>) => {
+        setBusy(true);
+        setError(null);
+        setNotice(null);
+        try {
+            await action();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "İşlem başarısız.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = () => run(async () => {
+        const list = await createLeadList(newListName);
+        setNewListName("");
+        await loadLists();
+        selectList(list.id);
+    });
+
+    const handleRename = () => run(async () => {
+        if (!editing) return;
+        await renameLeadList(editing.id, editing.name);
+        setEditing(null);
+        await loadLists();
+    });
+
+    const handleDelete = (list: LeadListItem) => {
+        if (!confirm(`"${list.name}" listesi silinsin mi? Listedeki adaylar silinmez.`)) return;
+        run(async () => {
+            await deleteLeadList(list.id);
+            if (activeListId === list.id) selectList(null);
+            await loadLists();
+        });
+    };
+
+    const handleRemove = (lead: LeadRow) => run(async () => {
+        if (!activeListId) return;
+        await removeLeadsFromList(activeListId, [lead.lead_id]);
+        await Promise.all([loadLeads(), loadLists()]);
+    });
+
+    const handleRestore = (lead: LeadRow) => run(async () => {
+        await bulkSetLeadsExcluded([lead.place_id], false);
+        setLeads(prev => prev.map(l => l.lead_id === lead.lead_id ? { ...l, excluded: false } : l));
+    });
+
+    const handleExport = () => run(async () => {
+        const { rows } = await startLeadsExport(activeListId, exportFormat);
+        setNotice(`${rows} aday dışa aktarma için sıraya alındı. Dosyayı Dışa Aktarmalar sayfasından indirebilirsiniz.`);
+    });
+
+    const activeList = lists.find(l => l.id === activeListId);
+    const inputClass = "bg-black/30 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white";
+
+    return (
+        <div className="animate-in fade-in slide-in-from-right-4 duration-500 space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold text-white flex items-center gap-3"><ListChecks className="w-8 h-8 text-primary" /> Listeler</h2>
+                <p className="text-muted-foreground">Adaylarınızı listelerde toplayın, dışa aktarın ve iletişim kurulmayacak kişileri engelleyin.</p>
+            </div>
+
+            {error && <div className="p-4 bg-red-500/10 border border-red-500/20 text-red-200 rounded-xl text-sm">{error}</div>}
+            {notice && <div className="p-4 bg-emerald-500/10 border border-emerald-500/20 text-emerald-200 rounded-xl text-sm">{notice}</div>}
+
+            <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6">
+                <div className="bg-white/5 border border-white/10 rounded-2xl p-3 space-y-1 h-fit">
+                    <button
+                        onClick={() => selectList(null)}
+                        className={cn("w-full text-left px-3 py-2 rounded-lg text-sm", activeListId === null ? "bg-primary text-white" : "text-white/70 hover:bg-white/5")}
+                    >
+                        Tüm Adaylar
+                    </button>
+                    {lists.map(list => editing?.id === list.id ? (
+                        <div key={list.id} className="flex items-center gap-1 px-1 py-1">
+                            <input
+                                value={editing.name}
+                                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                                onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                                className={cn(inputClass, "flex-1 min-w-0")}
+                                autoFocus
+                            />
+                            <button onClick={handleRename} disabled={busy} className="p-1 text-emerald-400 hover:text-emerald-300"><Check className="w-4 h-4" /></button>
+                            <button onClick={() => setEditing(null)} className="p-1 text-white/50 hover:text-white"><X className="w-4 h-4" /></button>
+                        </div>
+                    ) : (
+                        <div
+                            key={list.id}
+                            className={cn("group flex items-center gap-2 px-3 py-2 rounded-lg text-sm", activeListId === list.id ? "bg-primary text-white" : "text-white/70 hover:bg-white/5")}
+                        >
+                            <button onClick={() => selectList(list.id)} className="flex-1 min-w-0 text-left truncate">{list.name}</button>
+                            <span className="text-[10px] opacity-60">{list._count.items}</span>
+                            <button onClick={() => setEditing({ id: list.id, name: list.name })} className="opacity-0 group-hover:opacity-100" title="Yeniden adlandır">
+                                <Pencil className="w-3 h-3" />
+                            </button>
+                            <button onClick={() => handleDelete(list)} className="opacity-0 group-hover:opacity-100 hover:text-red-300" title="Sil">
+                                <Trash2 className="w-3 h-3" />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex items-center gap-1 pt-2 border-t border-white/5">
+                        <input
+                            value={newListName}
+                            onChange={(e) => setNewListName(e.target.value)}
+                            onKeyDown={(e) => e.key === "Enter" && newListName.trim().length >= 2 && handleCreate()}
+                            placeholder="Yeni liste"
+                            className={cn(inputClass, "flex-1 min-w-0")}
+                        />
+                        <button
+                            onClick={handleCreate}
+                            disabled={busy || newListName.trim().length < 2}
+                            className="p-1.5 rounded-lg bg-primary text-white disabled:opacity-50"
+                        >
+                            <Plus className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="bg-white/5 border border-white/10 rounded-2xl overflow-hidden">
+                    <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-white/10">
+                        <div className="text-sm font-bold text-white">
+                            {activeList ? activeList.name : "Tüm Adaylar"} <span className="text-muted-foreground font-normal">({total})</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)} className={inputClass}>
+                                {allowedFormats.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                            </select>
+                            <button
+                                onClick={handleExport}
+                                disabled={busy || total === 0 || allowedFormats.length === 0}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold disabled:opacity-50"
+                            >
+                                <FileDown className="w-3.5 h-3.5" /> Dışa Aktar
+                            </button>
+                        </div>
+                    </div>
+
+                    {loading ? (
+                        <div className="flex items-center justify-center py-16">
+                            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                        </div>
+                    ) : leads.length === 0 ? (
+                        <div className="py-16 text-center text-sm text-muted-foreground">
+                            {activeListId ? "Bu listede henüz aday yok. Arama sonuçlarından seçerek ekleyebilirsiniz." : "Henüz kayıtlı aday yok."}
+                        </div>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead className="text-[10px] uppercase tracking-wider text-muted-foreground border-b border-white/10">
+                                <tr>
+                                    <th className="text-left px-4 py-2">İşletme</th>
+                                    <th className="text-left px-4 py-2">İletişim</th>
+                                    <th className="text-left px-4 py-2">Skor</th>
+                                    <th className="text-left px-4 py-2">Aşama</th>
+                                    <th className="px-4 py-2" />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {leads.map(lead => (
+                                    <tr key={lead.lead_id} className={cn("border-b border-white/5 last:border-0", (lead.excluded || lead.suppressed) && "opacity-60")}>
+                                        <td className="px-4 py-2">
+                                            <div className="text-white font-medium">{lead.name}</div>
+                                            <div className="text-[10px] text-muted-foreground truncate max-w-xs">{lead.formatted_address}</div>
+                                            <div className="flex gap-1 mt-1">
+                                                {lead.excluded && (
+                                                    <span className="inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded bg-white/10 text-white/60"><Ban className="w-2.5 h-2.5" /> Hariç tutuldu</span>
+                                                )}
+                                                {lead.suppressed && (
+                                                    <span className="inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded bg-red-500/10 text-red-300"><ShieldOff className="w-2.5 h-2.5" /> Engellendi</span>
+                                                )}
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-2 text-xs text-white/70">
+                                            <div>{lead.emails?.[0] || "-"}</div>
+                                            <div className="text-muted-foreground">{lead.formatted_phone_number || ""}</div>
+                                        </td>
+                                        <td className="px-4 py-2 text-white/80 font-mono">{lead.lead_score ?? "-"}</td>
+                                        <td className="px-4 py-2 text-xs text-white/70">{lead.lead_status}</td>
+                                        <td className="px-4 py-2 text-right whitespace-nowrap">
+                                            {lead.excluded && (
+                                                <button onClick={() => handleRestore(lead)} disabled={busy} className="p-1 text-white/50 hover:text-white" title="Aramalarda yeniden göster">
+                                                    <RotateCcw className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                            {activeListId && (
+                                                <button onClick={() => handleRemove(lead)} disabled={busy} className="p-1 text-white/50 hover:text-red-300" title="Listeden çıkar">
+                                                    <X className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    {nextCursor && !loading && (
+                        <div className="p-3 text-center border-t border-white/5">
+                            <button onClick={loadMore} disabled={loadingMore} className="text-xs text-primary hover:underline disabled:opacity-50">
+                                {loadingMore ? "Yükleniyor..." : `Daha fazla göster (${leads.length}/${total})`}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <SuppressionListSection />
+        </div>
+    );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, Phone, Mail, Globe, CalendarClock, Loader2, Trash2, PhoneCall, Users, StickyNote, ArrowRightLeft, UserCheck } from "lucide-react";
+import { addLeadActivity, assignLead, deleteLeadActivity, getAssignableMembers, getLeadActivities, setLeadFollowUp, updateLeadNotes } from "@/app/actions/pipeline";
+import { LEAD_ACTIVITY_TYPES, activityTypeLabel, isFollowUpOverdue } from "@/lib/crm/pipeline";
+import { cn } from "@/lib/utils";
+import { LeadCrmStatus } from "./LeadCrmStatus";
+
+type Activity = Awaited<ReturnType<typeof getLeadActivities>>[number];
+export type AssignableTeam = NonNullable<Awaited<ReturnType<typeof getAssignableMembers>>>;
+
+export interface PipelineLead {
+    id: string;
+    status: string;
+    notes: string | null;
+    followUpAt: Date | string | null;
+    assignee: { id: string; name: string | null; email: string | null } | null;
+    place: {
+        googleId: string;
+        name: string;
+        address: string | null;
+        phone: string | null;
+        website: string | null;
+        emails: string[];
+        rating: number | null;
+    };
+}
+
+interface LeadPanelProps {
+    lead: PipelineLead;
+    stageNames: Record<string, string>;
+    team: AssignableTeam | null;
+    onClose: () => void;
+    onChanged: () => void;
+}
+
+const ACTIVITY_ICONS: Record<string, typeof PhoneCall> = {
+    CALL: PhoneCall,
+    EMAIL: Mail,
+    MEETING: Users,
+    NOTE: StickyNote,
+    STAGE_CHANGE: ArrowRightLeft,
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toLocalInputValue(date: Date | string | null) {
+    if (!date) return "";
+    const d = new Date(date);
+    const offset = d.getTimezoneOffset() * 60000;
+    return new Date(d.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function formatDateTime(date: Date | string) {
+    return new Intl.DateTimeFormat("tr-TR", { day: "2-digit", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" }).format(new Date(date));
+}
+
+export function LeadPanel({ lead, stageNames, team, onClose, onChanged }: LeadPanelProps) {
+    const [activities, setActivities] = useState<Activity[] | null>(null);
+    const [notes, setNotes] = useState(lead.notes || "");
+    const [followUp, setFollowUp] = useState(toLocalInputValue(lead.followUpAt));
+    const [activityType, setActivityType] = useState<string>("CALL");
+    const [activityNote, setActivityNote] = useState("");
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getLeadActivities(lead.id)
+            .then(data => { if (!cancelled) setActivities(data); })
+            .catch(() => { if (!cancelled) setActivities([]); });
+        return () => { cancelled = true; };
+    }, [lead.id]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setSaving(true);
+        setError(null);
+        try {
+            await action();
+            onChanged();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "İşlem başarısız.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleAddActivity = () => run(async () => {
+        const created = await addLeadActivity(lead.id, { type: activityType, note: activityNote });
+        setActivities(prev => [created, ...(prev || [])]);
+        setActivityNote("");
+    });
+
+    const handleDeleteActivity = (id: string) => run(async () => {
+        await deleteLeadActivity(id);
+        setActivities(prev => (prev || []).filter(a => a.id !== id));
+    });
+
+    const describeActivity = (activity: Activity) => {
+        if (activity.type === "STAGE_CHANGE") {
+            const meta = (activity.metadata || {}) as { from?: string; to?: string };
+            return `${stageNames[meta.from || ""] || meta.from || "?"} → ${stageNames[meta.to || ""] || meta.to || "?"}`;
+        }
+        return activity.note;
+    };
+
+    const overdue = isFollowUpOverdue(lead.followUpAt);
+    // Members can only pick themselves or release a lead they hold
+    const assignOptions = team
+        ? team.members.filter(m => team.canAssignOthers || m.id === team.myUserId || m.id === lead.assignee?.id)
+        : [];
+    const canUnassign = !!team && (team.canAssignOthers || lead.assignee?.id === team.myUserId);
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+            <div className="relative w-full max-w-md h-full overflow-y-auto bg-[#121212] border-l border-white/10 p-6 space-y-6 animate-in slide-in-from-right-8 duration-300">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h3 className="text-xl font-bold text-white">{lead.place.name}</h3>
+                        <p className="text-xs text-muted-foreground">{lead.place.address}</p>
+                        <span className="inline-block mt-2 text-[10px] font-bold uppercase tracking-widest text-primary">{stageNames[lead.status] || lead.status}</span>
+                    </div>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 text-white"><X className="w-5 h-5" /></button>
+                </div>
+
+                <div className="space-y-2 text-sm text-white/80">
+                    {lead.place.phone && <div className="flex items-center gap-2"><Phone className="w-4 h-4 text-primary" />{lead.place.phone}</div>}
+                    {lead.place.emails.slice(0, 3).map(email => (
+                        <div key={email} className="flex items-center gap-2"><Mail className="w-4 h-4 text-primary" />{email}</div>
+                    ))}
+                    {lead.place.website && (
+                        <a href={lead.place.website} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-blue-400 hover:text-blue-300">
+                            <Globe className="w-4 h-4" /><span className="truncate">{lead.place.website.replace(/^https?:\/\//, "")}</span>
+                        </a>
+                    )}
+                </div>
+
+                {error && <div className="p-3 bg-red-500/10 border border-red-500/20 text-red-200 rounded-xl text-xs">{error}</div>}
+
+                {team && (
+                    <div className="space-y-2">
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+                            <UserCheck className="w-4 h-4" /> Sorumlu
+                        </h4>
+                        <select
+                            value={lead.assignee?.id || ""}
+                            onChange={(e) => run(() => assignLead(lead.id, e.target.value || null))}
+                            disabled={saving}
+                            className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white disabled:opacity-50"
+                        >
+                            <option value="" disabled={!canUnassign && !!lead.assignee}>Atanmamış</option>
+                            {assignOptions.map(m => (
+                                <option key={m.id} value={m.id}>{m.name || m.email}{m.id === team.myUserId ? " (siz)" : ""}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                <LeadCrmStatus leadId={lead.id} />
+
+                {/* Follow-up */}
+                <div className="space-y-2">
+                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+                        <CalendarClock className="w-4 h-4" /> Takip Tarihi
+                        {overdue && <span className="text-red-400 normal-case tracking-normal">(gecikmiş)</span>}
+                    </h4>
+                    <div className="flex gap-2">
+                        <input
+                            type="datetime-local"
+                            value={followUp}
+                            onChange={(e) => setFollowUp(e.target.value)}
+                            className="flex-1 bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+                        />
+                        <button
+                            onClick={() => run(() => setLeadFollowUp(lead.id, followUp ? new Date(followUp) : null))}
+                            disabled={saving}
+                            className="px-3 py-2 rounded-lg bg-primary text-white text-xs font-bold disabled:opacity-50"
+                        >
+                            Kaydet
+                        </button>
+                        {lead.followUpAt && (
+                            <button
+                                onClick={() => run(async () => { await setLeadFollowUp(lead.id, null); setFollowUp(""); })}
+                                disabled={saving}
+                                className="px-3 py-2 rounded-lg bg-white/5 text-white/70 text-xs disabled:opacity-50"
+                            >
+                                Temizle
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {/* Notes */}
+                <div className="space-y-2">
+                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Notlar</h4>
+                    <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        rows={3}
+                        className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+                    />
+                    <button
+                        onClick={() => run(() => updateLeadNotes(lead.id, notes))}
+                        disabled={saving || notes === (lead.notes || "")}
+                        className="px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white text-xs disabled:opacity-50"
+                    >
+                        Notu Kaydet
+                    </button>
+                </div>
+
+                {/* Activity log */}
+                <div className="space-y-3">
+                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Aktiviteler</h4>
+                    <div className="flex gap-2">
+                        <select
+                            value={activityType}
+                            onChange={(e) => setActivityType(e.target.value)}
+                            className="bg-black/30 border border-white/10 rounded-lg px-2 py-2 text-xs text-white"
+                        >
+                            {LEAD_ACTIVITY_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                        </select>
+                        <input
+                            value={activityNote}
+                            onChange={(e) => setActivityNote(e.target.value)}
+                            placeholder="Kısa not (opsiyonel)"
+                            className="flex-1 bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-xs text-white"
+                        />
+                        <button
+                            onClick={handleAddActivity}
+                            disabled={saving}
+                            className="px-3 py-2 rounded-lg bg-primary text-white text-xs font-bold disabled:opacity-50"
+                        >
+                            Ekle
+                        </button>
+                    </div>
+
+                    {activities === null ? (
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground"><Loader2 className="w-4 h-4 animate-spin" /> Yükleniyor...</div>
+                    ) : activities.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">Henüz aktivite yok.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {activities.map(activity => {
+                                const Icon = ACTIVITY_ICONS[activity.type] || StickyNote;
+                                return (
+                                    <li key={activity.id} className="flex items-start gap-3 p-3 rounded-xl bg-white/5 border border-white/5">
+                                        <Icon className={cn("w-4 h-4 mt-0.5 shrink-0", activity.type === "STAGE_CHANGE" ? "text-white/40" : "text-primary")} />
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="text-xs font-bold text-white">{activityTypeLabel(activity.type)}</span>
+                                                <span className="text-[10px] text-white/40">{formatDateTime(activity.occurredAt)}</span>
+                                            </div>
+                                            {describeActivity(activity) && <p className="text-xs text-white/70 mt-1 break-words">{describeActivity(activity)}</p>}
+                                        </div>
+                                        {activity.type !== "STAGE_CHANGE" && (
+                                            <button onClick={() => handleDeleteActivity(activity.id)} className="text-white/30 hover:text-red-400">
+                                                <Trash2 className="w-3 h-3" />
+                                            </button>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
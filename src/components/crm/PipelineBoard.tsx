@@ -0,0 +1,260 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2, Settings2, CalendarClock, Star, ArrowUp, ArrowDown, Trash2, Plus, KanbanSquare, UserCheck } from "lucide-react";
+import {
+    createPipelineStage,
+    deletePipelineStage,
+    getAssignableMembers,
+    getPipeline,
+    moveLeadToStage,
+    reorderPipelineStages,
+    updatePipelineStage,
+} from "@/app/actions/pipeline";
+import { PIPELINE_STAGE_KINDS, activityTypeLabel, isFollowUpOverdue } from "@/lib/crm/pipeline";
+import { LeadPanel, type AssignableTeam } from "./LeadPanel";
+import { cn } from "@/lib/utils";
+
+type PipelineColumn = Awaited<ReturnType<typeof getPipeline>>[number];
+
+function formatShortDate(date: Date | string) {
+    return new Intl.DateTimeFormat("tr-TR", { day: "2-digit", month: "short" }).format(new Date(date));
+}
+
+export function PipelineBoard() {
+    const [columns, setColumns] = useState<PipelineColumn[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const [selectedLeadId, setSelectedLeadId] = useState<string | null>(null);
+    const [editingStages, setEditingStages] = useState(false);
+    const [newStageName, setNewStageName] = useState("");
+    const [team, setTeam] = useState<AssignableTeam | null>(null);
+    const [assignedToMe, setAssignedToMe] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            const [pipeline, members] = await Promise.all([getPipeline({ assignedToMe }), getAssignableMembers()]);
+            setColumns(pipeline);
+            setTeam(members);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Satış hattı yüklenemedi.");
+        } finally {
+            setLoading(false);
+        }
+    }, [assignedToMe]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const stageNames = useMemo(() => Object.fromEntries(columns.map(c => [c.key, c.name])), [columns]);
+    const selectedLead = useMemo(
+        () => columns.flatMap(c => c.leads).find(l => l.id === selectedLeadId) || null,
+        [columns, selectedLeadId]
+    );
+
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "İşlem başarısız.");
+        }
+        await load();
+    };
+
+    const handleDrop = async (stageKey: string) => {
+        const leadId = draggingId;
+        setDraggingId(null);
+        setDropTarget(null);
+        if (!leadId) return;
+
+        const source = columns.find(c => c.leads.some(l => l.id === leadId));
+        if (!source || source.key === stageKey) return;
+
+        // Optimistic move; the reload in run() reconciles with the server
+        setColumns(prev => {
+            const lead = source.leads.find(l => l.id === leadId)!;
+            return prev.map(c => {
+                if (c.key === source.key) return { ...c, leads: c.leads.filter(l => l.id !== leadId), total: c.total - 1 };
+                if (c.key === stageKey) return { ...c, leads: [{ ...lead, status: stageKey }, ...c.leads], total: c.total + 1 };
+                return c;
+            });
+        });
+        await run(() => moveLeadToStage(leadId, stageKey));
+    };
+
+    const moveStage = (index: number, delta: number) => {
+        const ids = columns.map(c => c.id);
+        const target = index + delta;
+        if (target < 0 || target >= ids.length) return;
+        [ids[index], ids[target]] = [ids[target], ids[index]];
+        run(() => reorderPipelineStages(ids));
+    };
+
+    const removeStage = (column: PipelineColumn) => {
+        const fallback = columns.find(c => c.id !== column.id);
+        if (!fallback) return;
+        if (column.total > 0 && !confirm(`"${column.name}" aşamasındaki ${column.total} aday "${fallback.name}" aşamasına taşınacak. Devam edilsin mi?`)) return;
+        run(() => deletePipelineStage(column.id, fallback.key));
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-24">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="animate-in fade-in slide-in-from-right-4 duration-500 space-y-6">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold text-white flex items-center gap-3"><KanbanSquare className="w-8 h-8 text-primary" /> Satış Hattı</h2>
+                    <p className="text-muted-foreground">Adayları aşamalar arasında sürükleyin, aktiviteleri ve takip tarihlerini kaydedin.</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    {team && (
+                        <button
+                            onClick={() => setAssignedToMe(v => !v)}
+                            className={cn("flex items-center gap-2 px-4 py-2 rounded-xl text-sm border transition-colors", assignedToMe ? "bg-primary text-white border-primary" : "bg-white/5 text-white border-white/10 hover:bg-white/10")}
+                        >
+                            <UserCheck className="w-4 h-4" /> Bana Atananlar
+                        </button>
+                    )}
+                    {(!team || team.canAssignOthers) && (
+                        <button
+                            onClick={() => setEditingStages(v => !v)}
+                            className={cn("flex items-center gap-2 px-4 py-2 rounded-xl text-sm border transition-colors", editingStages ? "bg-primary text-white border-primary" : "bg-white/5 text-white border-white/10 hover:bg-white/10")}
+                        >
+                            <Settings2 className="w-4 h-4" /> Aşamaları Düzenle
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {error && <div className="p-4 bg-red-500/10 border border-red-500/20 text-red-200 rounded-xl text-sm">{error}</div>}
+
+            {editingStages && (
+                <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-2">
+                    {columns.map((column, index) => (
+                        <div key={column.id} className="flex flex-wrap items-center gap-2">
+                            <input
+                                type="color"
+                                defaultValue={column.color}
+                                onBlur={(e) => e.target.value !== column.color && run(() => updatePipelineStage(column.id, { color: e.target.value }))}
+                                className="w-8 h-8 bg-transparent border-0"
+                            />
+                            <input
+                                defaultValue={column.name}
+                                onBlur={(e) => e.target.value.trim() !== column.name && run(() => updatePipelineStage(column.id, { name: e.target.value }))}
+                                className="flex-1 min-w-[140px] bg-black/30 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white"
+                            />
+                            <select
+                                value={column.kind}
+                                onChange={(e) => run(() => updatePipelineStage(column.id, { kind: e.target.value }))}
+                                className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white"
+                            >
+                                {PIPELINE_STAGE_KINDS.map(k => <option key={k.value} value={k.value}>{k.label}</option>)}
+                            </select>
+                            <button onClick={() => moveStage(index, -1)} disabled={index === 0} className="p-1.5 text-white/60 hover:text-white disabled:opacity-30"><ArrowUp className="w-4 h-4" /></button>
+                            <button onClick={() => moveStage(index, 1)} disabled={index === columns.length - 1} className="p-1.5 text-white/60 hover:text-white disabled:opacity-30"><ArrowDown className="w-4 h-4" /></button>
+                            <button onClick={() => removeStage(column)} disabled={columns.length <= 1} className="p-1.5 text-red-400/70 hover:text-red-400 disabled:opacity-30"><Trash2 className="w-4 h-4" /></button>
+                        </div>
+                    ))}
+                    <div className="flex gap-2 pt-2 border-t border-white/5">
+                        <input
+                            value={newStageName}
+                            onChange={(e) => setNewStageName(e.target.value)}
+                            placeholder="Yeni aşama adı (ör. Teklif Verildi)"
+                            className="flex-1 bg-black/30 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white"
+                        />
+                        <button
+                            onClick={() => run(async () => { await createPipelineStage({ name: newStageName }); setNewStageName(""); })}
+                            disabled={newStageName.trim().length < 2}
+                            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold disabled:opacity-50"
+                        >
+                            <Plus className="w-3 h-3" /> Ekle
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex gap-4 overflow-x-auto pb-4">
+                {columns.map(column => (
+                    <div
+                        key={column.id}
+                        onDragOver={(e) => { e.preventDefault(); setDropTarget(column.key); }}
+                        onDragLeave={() => setDropTarget(t => (t === column.key ? null : t))}
+                        onDrop={() => handleDrop(column.key)}
+                        className={cn(
+                            "w-72 shrink-0 bg-white/5 border rounded-2xl p-3 flex flex-col max-h-[70vh] transition-colors",
+                            dropTarget === column.key ? "border-primary/60 bg-primary/5" : "border-white/10"
+                        )}
+                    >
+                        <div className="flex items-center justify-between mb-3 px-1">
+                            <div className="flex items-center gap-2">
+                                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: column.color }} />
+                                <span className="text-sm font-bold text-white">{column.name}</span>
+                            </div>
+                            <span className="text-xs text-white/40">{column.total}</span>
+                        </div>
+
+                        <div className="space-y-2 overflow-y-auto flex-1 pr-1">
+                            {column.leads.map(lead => {
+                                const overdue = column.kind === "OPEN" && isFollowUpOverdue(lead.followUpAt);
+                                const lastActivity = lead.activities[0];
+                                return (
+                                    <div
+                                        key={lead.id}
+                                        draggable
+                                        onDragStart={() => setDraggingId(lead.id)}
+                                        onDragEnd={() => { setDraggingId(null); setDropTarget(null); }}
+                                        onClick={() => setSelectedLeadId(lead.id)}
+                                        className={cn(
+                                            "p-3 rounded-xl bg-[#161616] border border-white/5 hover:border-white/20 cursor-grab active:cursor-grabbing transition-all",
+                                            draggingId === lead.id && "opacity-40"
+                                        )}
+                                    >
+                                        <div className="text-sm font-medium text-white line-clamp-1">{lead.place.name}</div>
+                                        <div className="text-[11px] text-white/40 line-clamp-1">{lead.place.address}</div>
+                                        <div className="flex items-center gap-3 mt-2 text-[10px] text-white/50">
+                                            {lead.place.rating ? <span className="flex items-center gap-0.5"><Star className="w-3 h-3 text-yellow-500 fill-current" />{lead.place.rating}</span> : null}
+                                            {lead.score !== null && <span title="Aday skoru" className="font-bold text-primary">{lead.score}</span>}
+                                            {lastActivity && <span>{activityTypeLabel(lastActivity.type)} · {formatShortDate(lastActivity.occurredAt)}</span>}
+                                            {lead.assignee && (
+                                                <span className="truncate max-w-[80px]" title={lead.assignee.email || undefined}>{lead.assignee.name || lead.assignee.email}</span>
+                                            )}
+                                            {lead.followUpAt && (
+                                                <span className={cn("flex items-center gap-0.5 ml-auto", overdue ? "text-red-400 font-bold" : "text-primary")}>
+                                                    <CalendarClock className="w-3 h-3" />{formatShortDate(lead.followUpAt)}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                            {column.total > column.leads.length && (
+                                <div className="text-center text-[10px] text-white/30 py-2">+{column.total - column.leads.length} aday daha</div>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {selectedLead && (
+                <LeadPanel
+                    key={selectedLead.id}
+                    lead={selectedLead}
+                    stageNames={stageNames}
+                    team={team}
+                    onClose={() => setSelectedLeadId(null)}
+                    onChanged={load}
+                />
+            )}
+        </div>
+    );
+}
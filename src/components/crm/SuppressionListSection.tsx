@@ -0,0 +1,133 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, ShieldOff, Trash2 } from "lucide-react";
+import { addSuppressionEntries, deleteSuppressionEntry, getSuppressionEntries } from "@/app/actions/suppression";
+import { SUPPRESSION_TYPES, type SuppressionType } from "@/lib/crm/suppression";
+
+type SuppressionData = Awaited<ReturnType<typeof getSuppressionEntries>>;
+
+function formatDate(date: Date | string) {
+    return new Intl.DateTimeFormat("tr-TR", { day: "2-digit", month: "short", year: "numeric" }).format(new Date(date));
+}
+
+// Domains, phones and emails that must never be contacted; matching places drop out of searches and exports
+export function SuppressionListSection() {
+    const [data, setData] = useState<SuppressionData | null>(null);
+    const [type, setType] = useState<SuppressionType>("DOMAIN");
+    const [values, setValues] = useState("");
+    const [reason, setReason] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+    const load = useCallback(async () => {
+        try {
+            setData(await getSuppressionEntries());
+        } catch (e: unknown) {
+            setMessage({ type: "error", text: e instanceof Error ? e.message : "Engelleme listesi yüklenemedi." });
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const handleAdd = async () => {
+        setBusy(true);
+        setMessage(null);
+        try {
+            const res = await addSuppressionEntries(type, values.split(/[\n,;]+/), reason);
+            const skipped = res.duplicates + res.invalid;
+            setMessage({ type: "success", text: `${res.added} kayıt eklendi.${skipped > 0 ? ` ${skipped} kayıt zaten listede ya da geçersiz.` : ""}` });
+            setValues("");
+            setReason("");
+            await load();
+        } catch (e: unknown) {
+            setMessage({ type: "error", text: e instanceof Error ? e.message : "Kayıtlar eklenemedi." });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        setMessage(null);
+        try {
+            await deleteSuppressionEntry(id);
+            await load();
+        } catch (e: unknown) {
+            setMessage({ type: "error", text: e instanceof Error ? e.message : "Kayıt silinemedi." });
+        }
+    };
+
+    const typeLabel = (value: string) => SUPPRESSION_TYPES.find(t => t.value === value)?.label || value;
+    const placeholder = SUPPRESSION_TYPES.find(t => t.value === type)?.placeholder;
+
+    return (
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-6 space-y-4">
+            <div>
+                <h3 className="text-lg font-bold text-white flex items-center gap-2"><ShieldOff className="w-5 h-5 text-red-400" /> Engelleme Listesi</h3>
+                <p className="text-xs text-muted-foreground">
+                    Buradaki alan adları, telefonlar ve e-postalarla eşleşen işletmeler arama sonuçlarında ve dışa aktarmalarda gösterilmez, CRM&apos;e gönderilmez.
+                </p>
+            </div>
+
+            {message && (
+                <div className={message.type === "success" ? "text-xs text-emerald-400" : "text-xs text-red-300"}>{message.text}</div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-[140px_1fr_200px_auto] gap-2 items-start">
+                <select value={type} onChange={(e) => setType(e.target.value as SuppressionType)} className="bg-black/30 border border-white/10 rounded-lg px-2 py-2 text-xs text-white">
+                    {SUPPRESSION_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                </select>
+                <textarea
+                    value={values}
+                    onChange={(e) => setValues(e.target.value)}
+                    placeholder={`${placeholder} (her satıra bir tane)`}
+                    rows={3}
+                    className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-xs text-white resize-y"
+                />
+                <input
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Sebep (isteğe bağlı)"
+                    className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-xs text-white"
+                />
+                <button
+                    onClick={handleAdd}
+                    disabled={busy || values.trim().length === 0}
+                    className="flex items-center justify-center gap-1.5 px-4 py-2 rounded-lg bg-primary text-white text-xs font-bold disabled:opacity-50"
+                >
+                    {busy && <Loader2 className="w-3 h-3 animate-spin" />} Ekle
+                </button>
+            </div>
+
+            {!data ? (
+                <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            ) : data.entries.length === 0 ? (
+                <p className="text-xs text-white/40">Engelleme listesi boş.</p>
+            ) : (
+                <div className="max-h-80 overflow-y-auto border border-white/5 rounded-xl">
+                    <table className="w-full text-xs">
+                        <tbody>
+                            {data.entries.map(entry => (
+                                <tr key={entry.id} className="border-b border-white/5 last:border-0">
+                                    <td className="px-3 py-2 text-white/50 w-24">{typeLabel(entry.type)}</td>
+                                    <td className="px-3 py-2 text-white font-mono">{entry.value}</td>
+                                    <td className="px-3 py-2 text-white/50">{entry.reason || ""}</td>
+                                    <td className="px-3 py-2 text-white/40 whitespace-nowrap">{entry.user.name || entry.user.email} · {formatDate(entry.createdAt)}</td>
+                                    <td className="px-3 py-2 text-right">
+                                        {data.canDelete && (
+                                            <button onClick={() => handleDelete(entry.id)} className="p-1 text-white/40 hover:text-red-300" title="Kaldır">
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Code2, Copy, Check, Trash2 } from "lucide-react";
+
+interface ApiKeySummary {
+    id: string;
+    name: string;
+    prefix: string;
+    lastUsedAt: string | null;
+    createdAt: string;
+}
+
+function formatDate(date: string | null) {
+    if (!date) return "Hiç kullanılmadı";
+    return new Intl.DateTimeFormat("tr-TR", { day: "2-digit", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" }).format(new Date(date));
+}
+
+export default function ApiKeysSection() {
+    const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+    const [apiAccess, setApiAccess] = useState(false);
+    const [name, setName] = useState("");
+    const [createdKey, setCreatedKey] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState("");
+
+    const load = useCallback(async () => {
+        try {
+            const res = await fetch("/api/account/api-keys", { cache: "no-store" });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.message || "API anahtarları yüklenemedi.");
+            setKeys(data.keys);
+            setApiAccess(data.apiAccess);
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : "API anahtarları yüklenemedi.");
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError("");
+        setCopied(false);
+        try {
+            const res = await fetch("/api/account/api-keys", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ name }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.message || "Anahtar oluşturulamadı.");
+            setCreatedKey(data.key);
+            setName("");
+            await load();
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : "Anahtar oluşturulamadı.");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRevoke = async (key: ApiKeySummary) => {
+        if (!confirm(`"${key.name}" anahtarı iptal edilsin mi? Bu anahtarı kullanan entegrasyonlar çalışmayı durdurur.`)) return;
+        setError("");
+        try {
+            const res = await fetch(`/api/account/api-keys/${key.id}`, { method: "DELETE" });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.message || "Anahtar iptal edilemedi.");
+            await load();
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : "Anahtar iptal edilemedi.");
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!createdKey) return;
+        await navigator.clipboard.writeText(createdKey);
+        setCopied(true);
+    };
+
+    return (
+        <div className="glass-card rounded-3xl p-8 border border-white/10 bg-white/5">
+            <div className="flex items-center gap-4 mb-6">
+                <div className="p-3 bg-blue-500/10 rounded-xl text-blue-400"><Code2 className="w-6 h-6" /></div>
+                <div>
+                    <h3 className="text-xl font-bold text-white">API Anahtarları</h3>
+                    <p className="text-sm text-white/50">
+                        <code className="text-white/70">/api/v1</code> uç noktalarına <code className="text-white/70">Authorization: Bearer &lt;anahtar&gt;</code> başlığıyla erişin.
+                    </p>
+                </div>
+            </div>
+
+            {createdKey && (
+                <div className="mb-6 p-4 rounded-2xl bg-emerald-500/10 border border-emerald-500/20 space-y-2">
+                    <p className="text-xs text-emerald-200">Anahtarınız oluşturuldu. Güvenliğiniz için yalnızca bir kez gösterilir.</p>
+                    <div className="flex items-center gap-2">
+                        <code className="flex-1 text-xs text-white bg-black/30 rounded-lg px-3 py-2 break-all">{createdKey}</code>
+                        <button onClick={handleCopy} className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-white">
+                            {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {apiAccess ? (
+                <form onSubmit={handleCreate} className="flex gap-3 max-w-xl mb-6">
+                    <input
+                        placeholder="Anahtar adı (ör. CRM entegrasyonu)"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        maxLength={60}
+                        className="flex-1 h-12 rounded-xl bg-white/5 border border-white/10 px-4 text-white placeholder:text-white/30 focus:border-primary focus:outline-none"
+                    />
+                    <button
+                        type="submit"
+                        disabled={loading || name.trim().length < 2}
+                        className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl font-bold transition-all disabled:opacity-50"
+                    >
+                        {loading ? "Oluşturuluyor..." : "Anahtar Oluştur"}
+                    </button>
+                </form>
+            ) : (
+                <p className="text-sm text-white/40 mb-6">API erişimi Başlangıç ve üzeri planlarda kullanılabilir.</p>
+            )}
+
+            {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+            {keys.length > 0 && (
+                <ul className="space-y-2">
+                    {keys.map(key => (
+                        <li key={key.id} className="flex items-center justify-between gap-4 p-4 rounded-2xl border border-white/5 bg-white/5">
+                            <div className="min-w-0">
+                                <div className="text-sm font-bold text-white truncate">{key.name}</div>
+                                <div className="text-xs text-white/40">
+                                    <code>{key.prefix}…</code> · Son kullanım: {formatDate(key.lastUsedAt)}
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => handleRevoke(key)}
+                                className="p-2 rounded-lg text-red-400/70 hover:text-red-400 hover:bg-red-500/10"
+                                title="İptal et"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
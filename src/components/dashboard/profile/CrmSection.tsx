@@ -0,0 +1,254 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Link2, RefreshCw, Trash2, Settings2, PlugZap } from "lucide-react";
+import {
+    deleteCrmConnection,
+    getCrmConnections,
+    saveCrmConnection,
+    syncLeadsToCrm,
+    testCrmConnection,
+} from "@/app/actions/crm-sync";
+import {
+    CRM_PROVIDER_IDS,
+    CRM_PROVIDER_LABELS,
+    DEFAULT_FIELD_MAPPINGS,
+    LEAD_FIELDS,
+    type CrmProviderId,
+    type FieldMapping,
+} from "@/lib/crm/connectors/types";
+import { cn } from "@/lib/utils";
+
+type Connection = Awaited<ReturnType<typeof getCrmConnections>>[number];
+
+const TOKEN_HINTS: Record<CrmProviderId, string> = {
+    hubspot: "Private app erişim anahtarı (crm.objects.companies / contacts yazma izniyle)",
+    pipedrive: "Kişisel API anahtarı (Ayarlar > Kişisel tercihler > API)",
+};
+
+function formatDateTime(date: Date | string | null) {
+    if (!date) return "-";
+    return new Intl.DateTimeFormat("tr-TR", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" }).format(new Date(date));
+}
+
+function MappingEditor({ provider, initial, busy, onSave }: {
+    provider: CrmProviderId;
+    initial: FieldMapping;
+    busy: boolean;
+    onSave: (mapping: FieldMapping) => void;
+}) {
+    const [mapping, setMapping] = useState<FieldMapping>(initial);
+
+    const setProperty = (target: keyof FieldMapping, field: string, value: string) => {
+        setMapping(prev => ({ ...prev, [target]: { ...prev[target], [field]: value } }));
+    };
+
+    return (
+        <div className="mt-4 space-y-3">
+            <div className="grid grid-cols-[1fr_1fr_1fr] gap-2 text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+                <span>Aday alanı</span>
+                <span>Firma özelliği</span>
+                <span>Kişi özelliği</span>
+            </div>
+            <div className="space-y-1 max-h-80 overflow-y-auto pr-1">
+                {LEAD_FIELDS.map(field => (
+                    <div key={field.key} className="grid grid-cols-[1fr_1fr_1fr] gap-2 items-center">
+                        <span className="text-xs text-white/70">{field.label}</span>
+                        {(["company", "contact"] as const).map(target => (
+                            <input
+                                key={target}
+                                value={mapping[target][field.key] ?? ""}
+                                onChange={(e) => setProperty(target, field.key, e.target.value)}
+                                placeholder="-"
+                                className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-xs text-white placeholder:text-white/20"
+                            />
+                        ))}
+                    </div>
+                ))}
+            </div>
+            <p className="text-[10px] text-white/40">
+                Firmalar alan adı, ardından telefon ile eşleştirilir; kişiler yalnızca e-postası olan adaylar için yazılır.
+                {provider === "pipedrive" && " Pipedrive özel alanları için alanın 40 karakterlik anahtarını girin."}
+            </p>
+            <div className="flex gap-2">
+                <button onClick={() => onSave(mapping)} disabled={busy} className="px-4 py-2 rounded-lg bg-primary text-white text-xs font-bold disabled:opacity-50">
+                    Eşleştirmeyi Kaydet
+                </button>
+                <button onClick={() => setMapping(DEFAULT_FIELD_MAPPINGS[provider])} disabled={busy} className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white text-xs">
+                    Varsayılana Dön
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default function CrmSection() {
+    const [connections, setConnections] = useState<Connection[]>([]);
+    const [tokens, setTokens] = useState<Partial<Record<CrmProviderId, string>>>({});
+    const [mappingOpen, setMappingOpen] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState("");
+    const [success, setSuccess] = useState("");
+
+    const load = useCallback(async () => {
+        try {
+            const data = await getCrmConnections();
+            setConnections(data);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "CRM bağlantıları yüklenemedi.");
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const run = async (action: () => Promise<string | undefined>) => {
+        setBusy(true);
+        setError("");
+        setSuccess("");
+        try {
+            const message = await action();
+            if (message) setSuccess(message);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "İşlem başarısız.");
+        } finally {
+            setBusy(false);
+        }
+        await load();
+    };
+
+    const handleConnect = (provider: CrmProviderId) => run(async () => {
+        await saveCrmConnection({ provider, accessToken: tokens[provider] });
+        setTokens(prev => ({ ...prev, [provider]: "" }));
+        return `${CRM_PROVIDER_LABELS[provider]} bağlandı.`;
+    });
+
+    const handleTest = (connection: Connection) => run(async () => {
+        const result = await testCrmConnection(connection.id);
+        if (!result.success) throw new Error(result.message);
+        return "Bağlantı çalışıyor.";
+    });
+
+    const handleSync = (connection: Connection, onlyUnsynced: boolean) => run(async () => {
+        const result = await syncLeadsToCrm(connection.id, { onlyUnsynced });
+        return result.queued > 0 ? `${result.queued} aday senkronizasyon kuyruğuna alındı.` : "Senkronize edilecek aday yok.";
+    });
+
+    return (
+        <div className="glass-card rounded-3xl p-8 border border-white/10 bg-white/5">
+            <div className="flex items-center gap-4 mb-6">
+                <div className="p-3 bg-orange-500/10 rounded-xl text-orange-400"><Link2 className="w-6 h-6" /></div>
+                <div>
+                    <h3 className="text-xl font-bold text-white">CRM Senkronizasyonu</h3>
+                    <p className="text-sm text-white/50">Adaylarınızı HubSpot veya Pipedrive&apos;a firma ve kişi olarak aktarın; mevcut kayıtlar güncellenir.</p>
+                </div>
+            </div>
+
+            {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+            {success && <p className="text-emerald-400 text-sm mb-4">{success}</p>}
+
+            <div className="space-y-3">
+                {CRM_PROVIDER_IDS.map(provider => {
+                    const connection = connections.find(c => c.provider === provider);
+                    return (
+                        <div key={provider} className="p-4 rounded-2xl border border-white/5 bg-white/5">
+                            <div className="flex flex-wrap items-start justify-between gap-4">
+                                <div className="min-w-0">
+                                    <div className="text-sm font-bold text-white">{CRM_PROVIDER_LABELS[provider]}</div>
+                                    {connection ? (
+                                        <div className="text-[11px] text-white/50 mt-1 space-x-3">
+                                            <span>Anahtar: <code className="text-white/70">{connection.tokenHint}</code></span>
+                                            <span>Son senkronizasyon: {formatDateTime(connection.lastSyncAt)}</span>
+                                        </div>
+                                    ) : (
+                                        <div className="text-[11px] text-white/40 mt-1">{TOKEN_HINTS[provider]}</div>
+                                    )}
+                                    {connection && (
+                                        <div className="flex gap-3 mt-2 text-[11px]">
+                                            <span className="text-emerald-400">{connection.counts.SYNCED ?? 0} senkronize</span>
+                                            <span className="text-yellow-400">{connection.counts.PENDING ?? 0} bekliyor</span>
+                                            <span className="text-red-400">{connection.counts.FAILED ?? 0} hatalı</span>
+                                        </div>
+                                    )}
+                                </div>
+                                {connection && (
+                                    <div className="flex items-center gap-1">
+                                        <button
+                                            onClick={() => run(async () => { await saveCrmConnection({ provider, active: !connection.active }); return undefined; })}
+                                            disabled={busy}
+                                            className={cn(
+                                                "px-3 py-1.5 rounded-lg text-xs font-bold ring-1 transition-all mr-1",
+                                                connection.active ? "bg-emerald-500/10 ring-emerald-500/30 text-emerald-400" : "bg-white/5 ring-white/10 text-white/50"
+                                            )}
+                                        >
+                                            {connection.active ? "Aktif" : "Pasif"}
+                                        </button>
+                                        <button onClick={() => handleTest(connection)} disabled={busy} title="Bağlantıyı test et" className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10">
+                                            <PlugZap className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={() => setMappingOpen(id => (id === connection.id ? null : connection.id))} title="Alan eşleştirme" className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10">
+                                            <Settings2 className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => confirm(`${CRM_PROVIDER_LABELS[provider]} bağlantısı ve senkronizasyon durumu silinsin mi? CRM'deki kayıtlar silinmez.`) && run(async () => { await deleteCrmConnection(connection.id); return "Bağlantı kaldırıldı."; })}
+                                            disabled={busy}
+                                            className="p-2 rounded-lg text-red-400/70 hover:text-red-400 hover:bg-red-500/10"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="flex flex-wrap gap-2 mt-3">
+                                <input
+                                    type="password"
+                                    value={tokens[provider] ?? ""}
+                                    onChange={(e) => setTokens(prev => ({ ...prev, [provider]: e.target.value }))}
+                                    placeholder={connection ? "Yeni erişim anahtarı" : "Erişim anahtarı"}
+                                    autoComplete="off"
+                                    className="flex-1 min-w-[220px] h-10 rounded-xl bg-white/5 border border-white/10 px-4 text-sm text-white placeholder:text-white/30 focus:border-primary focus:outline-none"
+                                />
+                                <button
+                                    onClick={() => handleConnect(provider)}
+                                    disabled={busy || !tokens[provider]}
+                                    className="px-4 h-10 bg-white/10 hover:bg-white/20 text-white rounded-xl text-sm font-bold transition-all disabled:opacity-50"
+                                >
+                                    {connection ? "Anahtarı Güncelle" : "Bağlan"}
+                                </button>
+                                {connection && (
+                                    <>
+                                        <button
+                                            onClick={() => handleSync(connection, true)}
+                                            disabled={busy || !connection.active}
+                                            className="flex items-center gap-2 px-4 h-10 bg-primary/20 hover:bg-primary/30 text-white rounded-xl text-sm font-bold transition-all disabled:opacity-50"
+                                        >
+                                            <RefreshCw className="w-4 h-4" /> Yenileri Aktar
+                                        </button>
+                                        <button
+                                            onClick={() => handleSync(connection, false)}
+                                            disabled={busy || !connection.active}
+                                            className="px-4 h-10 bg-white/5 hover:bg-white/10 text-white/70 rounded-xl text-sm transition-all disabled:opacity-50"
+                                        >
+                                            Tümünü Yeniden Aktar
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+
+                            {connection && mappingOpen === connection.id && (
+                                <MappingEditor
+                                    provider={provider}
+                                    initial={connection.fieldMapping}
+                                    busy={busy}
+                                    onSave={(fieldMapping) => run(async () => { await saveCrmConnection({ provider, fieldMapping }); return "Alan eşleştirmesi kaydedildi."; })}
+                                />
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,13 @@
+"use client";
+
+import WebhooksSection from "./WebhooksSection";
+import CrmSection from "./CrmSection";
+
+export default function IntegrationsTab() {
+    return (
+        <div className="space-y-8">
+            <WebhooksSection />
+            <CrmSection />
+        </div>
+    );
+}
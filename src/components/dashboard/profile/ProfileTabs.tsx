@@ -1,11 +1,13 @@
 "use client";
 
 import { useState } from "react";
-import { User, Shield, CreditCard } from "lucide-react";
+import { User, Shield, CreditCard, Users, Plug } from "lucide-react";
 import { cn } from "@/lib/utils";
 import GeneralTab from "./GeneralTab";
 import SecurityTab from "./SecurityTab";
 import BillingTab from "./BillingTab";
+import TeamTab from "./TeamTab";
+import IntegrationsTab from "./IntegrationsTab";
 
 interface ProfileTabsProps {
     userProfile: any;
@@ -22,6 +24,8 @@ export default function ProfileTabs({ userProfile, session, history, onUpdate, i
         { id: "general", label: "Genel Bilgiler", icon: User },
         { id: "security", label: "Güvenlik", icon: Shield },
         { id: "billing", label: "Abonelik ve Kullanım", icon: CreditCard },
+        { id: "team", label: "Ekip", icon: Users },
+        { id: "integrations", label: "Entegrasyonlar", icon: Plug },
     ];
 
     return (
@@ -48,6 +52,8 @@ export default function ProfileTabs({ userProfile, session, history, onUpdate, i
                 {activeTab === "general" && <GeneralTab userProfile={userProfile} onUpdate={onUpdate} />}
                 {activeTab === "security" && <SecurityTab userProfile={userProfile} onUpdate={onUpdate} />}
                 {activeTab === "billing" && <BillingTab userProfile={userProfile} history={history} onUpdate={onUpdate} />}
+                {activeTab === "team" && <TeamTab userProfile={userProfile} onUpdate={onUpdate} />}
+                {activeTab === "integrations" && <IntegrationsTab />}
             </div>
         </div>
     );
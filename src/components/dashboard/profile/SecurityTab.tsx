@@ -4,6 +4,7 @@ import { useState } from "react";
 import { ShieldCheck, KeyRound, Mail, LogOut, Smartphone, Lock, AlertTriangle, CheckCircle2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { signOut } from "next-auth/react";
+import ApiKeysSection from "./ApiKeysSection";
 
 interface SecurityTabProps {
     userProfile: any;
@@ -310,6 +311,9 @@ export default function SecurityTab({ userProfile, onUpdate }: SecurityTabProps)
                 </div>
             </div>
 
+            {/* API Keys */}
+            <ApiKeysSection />
+
             {/* Delete Account */}
             <div className="glass-card rounded-3xl p-8 border border-red-500/20 bg-red-500/5">
                 <div className="flex items-center gap-4 mb-6">
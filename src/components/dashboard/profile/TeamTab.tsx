@@ -0,0 +1,306 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Users, UserPlus, Coins, Loader2, Trash2, LogOut, Mail, Check } from "lucide-react";
+import {
+    acceptInvitation,
+    changeMemberRole,
+    createOrganization,
+    getMyInvitations,
+    getOrganization,
+    inviteMember,
+    leaveOrganization,
+    removeMember,
+    revokeInvitation,
+    transferCreditsToOrganization,
+} from "@/app/actions/organization";
+import { INVITABLE_ROLES, canManageMembers, roleLabel } from "@/lib/org/roles";
+
+type Organization = NonNullable<Awaited<ReturnType<typeof getOrganization>>>;
+type MyInvitation = Awaited<ReturnType<typeof getMyInvitations>>[number];
+
+interface TeamTabProps {
+    userProfile: { credits?: number } | null;
+    onUpdate: () => void;
+}
+
+function formatDate(date: Date | string) {
+    return new Intl.DateTimeFormat("tr-TR", { day: "2-digit", month: "short", year: "numeric" }).format(new Date(date));
+}
+
+export default function TeamTab({ userProfile, onUpdate }: TeamTabProps) {
+    const [organization, setOrganization] = useState<Organization | null>(null);
+    const [invitations, setInvitations] = useState<MyInvitation[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState("");
+    const [success, setSuccess] = useState("");
+
+    const [teamName, setTeamName] = useState("");
+    const [inviteEmail, setInviteEmail] = useState("");
+    const [inviteRole, setInviteRole] = useState("MEMBER");
+    const [transferAmount, setTransferAmount] = useState("");
+
+    const load = useCallback(async () => {
+        try {
+            const [org, mine] = await Promise.all([getOrganization(), getMyInvitations()]);
+            setOrganization(org);
+            setInvitations(mine);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Ekip bilgileri yüklenemedi.");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const run = async (action: () => Promise<unknown>, message?: string) => {
+        setBusy(true);
+        setError("");
+        setSuccess("");
+        try {
+            await action();
+            if (message) setSuccess(message);
+            await load();
+            onUpdate();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "İşlem başarısız.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-24">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    const isManager = !!organization && canManageMembers(organization.myRole);
+    const isOwner = organization?.myRole === "OWNER";
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2 glass-card rounded-3xl p-8 border border-white/10 bg-white/5 space-y-8">
+                <div className="flex items-center gap-4 border-b border-white/5 pb-6">
+                    <div className="w-12 h-12 rounded-2xl bg-primary/20 flex items-center justify-center text-primary">
+                        <Users className="w-6 h-6" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-white">{organization ? organization.name : "Ekip Çalışma Alanı"}</h3>
+                        <p className="text-sm text-white/50">
+                            {organization
+                                ? `${roleLabel(organization.myRole)} · ${organization.memberships.length} üye`
+                                : "Ekibinizle adayları, satış hattını ve kredi havuzunu paylaşın."}
+                        </p>
+                    </div>
+                </div>
+
+                {error && <div className="p-4 bg-red-500/10 border border-red-500/20 text-red-200 rounded-xl text-sm">{error}</div>}
+                {success && <div className="p-4 bg-emerald-500/10 border border-emerald-500/20 text-emerald-200 rounded-xl text-sm">{success}</div>}
+
+                {!organization ? (
+                    <div className="space-y-6">
+                        {invitations.length > 0 && (
+                            <div className="space-y-3">
+                                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Bekleyen Davetler</h4>
+                                {invitations.map(invitation => (
+                                    <div key={invitation.id} className="flex items-center justify-between gap-4 p-4 rounded-2xl bg-white/5 border border-white/10">
+                                        <div>
+                                            <div className="text-sm font-bold text-white">{invitation.organization.name}</div>
+                                            <div className="text-xs text-white/50">
+                                                {invitation.invitedBy.name || invitation.invitedBy.email} · {roleLabel(invitation.role)}
+                                            </div>
+                                        </div>
+                                        <button
+                                            onClick={() => run(() => acceptInvitation(invitation.id), "Ekibe katıldınız.")}
+                                            disabled={busy}
+                                            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-primary text-white text-xs font-bold disabled:opacity-50"
+                                        >
+                                            <Check className="w-4 h-4" /> Kabul Et
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <form
+                            onSubmit={(e) => { e.preventDefault(); run(() => createOrganization(teamName), "Ekip oluşturuldu."); }}
+                            className="space-y-3"
+                        >
+                            <label className="text-sm font-medium text-white/70">Yeni ekip oluştur</label>
+                            <div className="flex gap-3">
+                                <input
+                                    value={teamName}
+                                    onChange={(e) => setTeamName(e.target.value)}
+                                    placeholder="Ekip adı"
+                                    maxLength={60}
+                                    className="flex-1 bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-primary/50"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={busy || teamName.trim().length < 2}
+                                    className="px-6 py-3 rounded-xl bg-primary text-white text-sm font-bold disabled:opacity-50"
+                                >
+                                    Oluştur
+                                </button>
+                            </div>
+                            <p className="text-xs text-white/40">Mevcut adaylarınız ekibin ortak çalışma alanına taşınır.</p>
+                        </form>
+                    </div>
+                ) : (
+                    <div className="space-y-8">
+                        <div className="space-y-3">
+                            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Üyeler</h4>
+                            {organization.memberships.map(member => {
+                                const isSelf = member.user.id === organization.myUserId;
+                                const canRemove = isManager && !isSelf && member.role !== "OWNER" && (isOwner || member.role === "MEMBER");
+                                return (
+                                    <div key={member.id} className="flex items-center justify-between gap-4 p-3 rounded-xl bg-white/5 border border-white/5">
+                                        <div className="min-w-0">
+                                            <div className="text-sm font-medium text-white truncate">
+                                                {member.user.name || member.user.email}{isSelf && <span className="text-white/40"> (siz)</span>}
+                                            </div>
+                                            <div className="text-xs text-white/40 truncate">{member.user.email}</div>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            {isOwner && member.role !== "OWNER" ? (
+                                                <select
+                                                    value={member.role}
+                                                    onChange={(e) => run(() => changeMemberRole(member.id, e.target.value), "Rol güncellendi.")}
+                                                    disabled={busy}
+                                                    className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white"
+                                                >
+                                                    {INVITABLE_ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                                                </select>
+                                            ) : (
+                                                <span className="text-xs font-bold text-primary">{roleLabel(member.role)}</span>
+                                            )}
+                                            {canRemove && (
+                                                <button
+                                                    onClick={() => confirm(`${member.user.name || member.user.email} ekipten çıkarılsın mı?`) && run(() => removeMember(member.id), "Üye çıkarıldı.")}
+                                                    disabled={busy}
+                                                    className="p-1.5 text-red-400/70 hover:text-red-400 disabled:opacity-30"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        {isManager && (
+                            <form
+                                onSubmit={(e) => {
+                                    e.preventDefault();
+                                    run(async () => { await inviteMember(inviteEmail, inviteRole); setInviteEmail(""); }, "Davet gönderildi.");
+                                }}
+                                className="space-y-3"
+                            >
+                                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Üye Davet Et</h4>
+                                <div className="flex flex-wrap gap-3">
+                                    <input
+                                        type="email"
+                                        value={inviteEmail}
+                                        onChange={(e) => setInviteEmail(e.target.value)}
+                                        placeholder="ornek@firma.com"
+                                        className="flex-1 min-w-[200px] bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-primary/50"
+                                    />
+                                    <select
+                                        value={inviteRole}
+                                        onChange={(e) => setInviteRole(e.target.value)}
+                                        className="bg-black/20 border border-white/10 rounded-xl px-3 py-3 text-sm text-white"
+                                    >
+                                        {INVITABLE_ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                                    </select>
+                                    <button
+                                        type="submit"
+                                        disabled={busy || !inviteEmail}
+                                        className="flex items-center gap-2 px-6 py-3 rounded-xl bg-primary text-white text-sm font-bold disabled:opacity-50"
+                                    >
+                                        <UserPlus className="w-4 h-4" /> Davet Et
+                                    </button>
+                                </div>
+
+                                {organization.invitations.length > 0 && (
+                                    <ul className="space-y-2">
+                                        {organization.invitations.map(invitation => (
+                                            <li key={invitation.id} className="flex items-center justify-between gap-4 text-xs text-white/60">
+                                                <span className="flex items-center gap-2 truncate">
+                                                    <Mail className="w-3 h-3" /> {invitation.email} · {roleLabel(invitation.role)} · {formatDate(invitation.expires)} tarihine kadar
+                                                </span>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => run(() => revokeInvitation(invitation.id), "Davet iptal edildi.")}
+                                                    disabled={busy}
+                                                    className="text-red-400/70 hover:text-red-400"
+                                                >
+                                                    İptal
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </form>
+                        )}
+
+                        <button
+                            onClick={() => confirm("Ekipten ayrılmak istediğinize emin misiniz?") && run(leaveOrganization, "Ekipten ayrıldınız.")}
+                            disabled={busy}
+                            className="flex items-center gap-2 px-4 py-2 text-xs font-medium text-red-400 hover:bg-red-500/10 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            <LogOut className="w-3 h-3" /> Ekipten Ayrıl
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {organization && (
+                <div className="glass-card rounded-3xl p-8 border border-white/10 bg-white/5 space-y-6 h-fit">
+                    <div className="flex items-center gap-3">
+                        <Coins className="w-6 h-6 text-yellow-500" />
+                        <h3 className="text-lg font-bold text-white">Kredi Havuzu</h3>
+                    </div>
+                    <div>
+                        <div className="text-4xl font-black text-white">{organization.credits.toLocaleString("tr-TR")}</div>
+                        <p className="text-xs text-white/40 mt-1">Tüm üyelerin aramaları bu havuzdan düşülür.</p>
+                    </div>
+                    {isManager && (
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                run(async () => { await transferCreditsToOrganization(Number(transferAmount)); setTransferAmount(""); }, "Krediler havuza aktarıldı.");
+                            }}
+                            className="space-y-2"
+                        >
+                            <label className="text-xs text-white/60">Kişisel bakiyenizden aktar ({userProfile?.credits ?? 0} kredi)</label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={transferAmount}
+                                    onChange={(e) => setTransferAmount(e.target.value)}
+                                    className="flex-1 bg-black/20 border border-white/10 rounded-xl px-3 py-2 text-white"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={busy || !(Number(transferAmount) > 0)}
+                                    className="px-4 py-2 rounded-xl bg-primary text-white text-xs font-bold disabled:opacity-50"
+                                >
+                                    Aktar
+                                </button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
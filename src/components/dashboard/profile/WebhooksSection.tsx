@@ -0,0 +1,297 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Webhook, Send, RotateCcw, Trash2, Eye, EyeOff, History, Loader2, KeyRound } from "lucide-react";
+import {
+    createWebhookEndpoint,
+    deleteWebhookEndpoint,
+    getWebhookDeliveries,
+    getWebhookEndpoints,
+    redeliverWebhook,
+    rotateWebhookSecret,
+    sendTestWebhook,
+    updateWebhookEndpoint,
+} from "@/app/actions/webhooks";
+import { WEBHOOK_EVENTS, webhookEventLabel } from "@/lib/webhooks/events";
+import { cn } from "@/lib/utils";
+
+type Endpoint = Awaited<ReturnType<typeof getWebhookEndpoints>>[number];
+type Delivery = Awaited<ReturnType<typeof getWebhookDeliveries>>[number];
+
+const STATUS_STYLES: Record<string, string> = {
+    SUCCESS: "text-emerald-400",
+    FAILED: "text-red-400",
+    PENDING: "text-yellow-400",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+    SUCCESS: "Başarılı",
+    FAILED: "Başarısız",
+    PENDING: "Bekliyor",
+};
+
+function formatDateTime(date: Date | string | null) {
+    if (!date) return "-";
+    return new Intl.DateTimeFormat("tr-TR", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit", second: "2-digit" }).format(new Date(date));
+}
+
+function DeliveryLog({ endpointId }: { endpointId: string }) {
+    const [deliveries, setDeliveries] = useState<Delivery[] | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        try {
+            const data = await getWebhookDeliveries(endpointId);
+            setDeliveries(data);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Gönderimler yüklenemedi.");
+        }
+    }, [endpointId]);
+
+    useEffect(() => {
+        let cancelled = false;
+        getWebhookDeliveries(endpointId)
+            .then(data => { if (!cancelled) setDeliveries(data); })
+            .catch(() => { if (!cancelled) setDeliveries([]); });
+        return () => { cancelled = true; };
+    }, [endpointId]);
+
+    const handleRedeliver = async (id: string) => {
+        setError(null);
+        try {
+            await redeliverWebhook(id);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Yeniden gönderilemedi.");
+        }
+        await load();
+    };
+
+    if (deliveries === null) {
+        return <div className="flex items-center gap-2 text-xs text-white/40 py-3"><Loader2 className="w-4 h-4 animate-spin" /> Yükleniyor...</div>;
+    }
+
+    return (
+        <div className="mt-4 space-y-2">
+            <div className="flex items-center justify-between">
+                <h5 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Son Gönderimler</h5>
+                <button onClick={load} className="text-[10px] text-white/40 hover:text-white">Yenile</button>
+            </div>
+            {error && <p className="text-red-400 text-xs">{error}</p>}
+            {deliveries.length === 0 ? (
+                <p className="text-xs text-white/40">Henüz gönderim yok.</p>
+            ) : (
+                <ul className="space-y-1">
+                    {deliveries.map(delivery => (
+                        <li key={delivery.id} className="rounded-xl bg-black/20 border border-white/5">
+                            <div className="flex items-center gap-3 px-3 py-2 text-xs">
+                                <button onClick={() => setExpandedId(id => (id === delivery.id ? null : delivery.id))} className="flex-1 flex items-center gap-3 text-left min-w-0">
+                                    <span className={cn("font-bold w-16 shrink-0", STATUS_STYLES[delivery.status])}>{STATUS_LABELS[delivery.status] || delivery.status}</span>
+                                    <span className="text-white truncate">{webhookEventLabel(delivery.event)}</span>
+                                    <span className="text-white/40 shrink-0">{delivery.responseStatus ?? "-"}</span>
+                                    <span className="text-white/40 shrink-0">{delivery.attempts} deneme</span>
+                                    <span className="text-white/40 ml-auto shrink-0">{formatDateTime(delivery.createdAt)}</span>
+                                </button>
+                                {delivery.status !== "PENDING" && (
+                                    <button onClick={() => handleRedeliver(delivery.id)} title="Yeniden gönder" className="text-white/40 hover:text-white">
+                                        <RotateCcw className="w-3 h-3" />
+                                    </button>
+                                )}
+                            </div>
+                            {expandedId === delivery.id && (
+                                <div className="px-3 pb-3 space-y-2 text-[11px]">
+                                    {delivery.error && <p className="text-red-300">{delivery.error}</p>}
+                                    <pre className="bg-black/40 rounded-lg p-2 text-white/70 overflow-x-auto max-h-48">{JSON.stringify(delivery.payload, null, 2)}</pre>
+                                    {delivery.responseBody && (
+                                        <pre className="bg-black/40 rounded-lg p-2 text-white/50 overflow-x-auto max-h-24">{delivery.responseBody}</pre>
+                                    )}
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+export default function WebhooksSection() {
+    const [endpoints, setEndpoints] = useState<Endpoint[]>([]);
+    const [url, setUrl] = useState("");
+    const [description, setDescription] = useState("");
+    const [events, setEvents] = useState<string[]>(WEBHOOK_EVENTS.map(e => e.value));
+    const [revealedId, setRevealedId] = useState<string | null>(null);
+    const [logId, setLogId] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState("");
+    const [success, setSuccess] = useState("");
+
+    const load = useCallback(async () => {
+        try {
+            const data = await getWebhookEndpoints();
+            setEndpoints(data);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Webhook'lar yüklenemedi.");
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const run = async (action: () => Promise<unknown>, message?: string) => {
+        setBusy(true);
+        setError("");
+        setSuccess("");
+        try {
+            await action();
+            if (message) setSuccess(message);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "İşlem başarısız.");
+        } finally {
+            setBusy(false);
+        }
+        await load();
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            await createWebhookEndpoint({ url, description, events });
+            setUrl("");
+            setDescription("");
+        }, "Webhook eklendi.");
+    };
+
+    const toggleEvent = (value: string) => {
+        setEvents(prev => (prev.includes(value) ? prev.filter(v => v !== value) : [...prev, value]));
+    };
+
+    return (
+        <div className="glass-card rounded-3xl p-8 border border-white/10 bg-white/5">
+            <div className="flex items-center gap-4 mb-6">
+                <div className="p-3 bg-purple-500/10 rounded-xl text-purple-400"><Webhook className="w-6 h-6" /></div>
+                <div>
+                    <h3 className="text-xl font-bold text-white">Webhook&apos;lar</h3>
+                    <p className="text-sm text-white/50">
+                        Olaylar imzalı POST istekleriyle gönderilir. <code className="text-white/70">X-Zakrom-Signature</code> başlığını HMAC-SHA256 ile doğrulayın.
+                    </p>
+                </div>
+            </div>
+
+            <form onSubmit={handleCreate} className="space-y-3 mb-8 max-w-2xl">
+                <div className="flex flex-wrap gap-3">
+                    <input
+                        type="url"
+                        placeholder="https://ornek.com/webhooks/zakrom"
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                        className="flex-1 min-w-[240px] h-12 rounded-xl bg-white/5 border border-white/10 px-4 text-white placeholder:text-white/30 focus:border-primary focus:outline-none"
+                    />
+                    <input
+                        placeholder="Açıklama (opsiyonel)"
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        maxLength={100}
+                        className="w-56 h-12 rounded-xl bg-white/5 border border-white/10 px-4 text-white placeholder:text-white/30 focus:border-primary focus:outline-none"
+                    />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {WEBHOOK_EVENTS.map(event => (
+                        <label
+                            key={event.value}
+                            title={event.description}
+                            className={cn(
+                                "flex items-center gap-2 px-3 py-1.5 rounded-lg border text-xs cursor-pointer transition-colors",
+                                events.includes(event.value) ? "border-primary/50 bg-primary/10 text-white" : "border-white/10 text-white/50"
+                            )}
+                        >
+                            <input type="checkbox" checked={events.includes(event.value)} onChange={() => toggleEvent(event.value)} className="hidden" />
+                            {event.label}
+                        </label>
+                    ))}
+                </div>
+                <button
+                    type="submit"
+                    disabled={busy || !url || events.length === 0}
+                    className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl font-bold transition-all disabled:opacity-50"
+                >
+                    Webhook Ekle
+                </button>
+            </form>
+
+            {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+            {success && <p className="text-emerald-400 text-sm mb-4">{success}</p>}
+
+            <div className="space-y-3">
+                {endpoints.map(endpoint => {
+                    const last = endpoint.deliveries[0];
+                    return (
+                        <div key={endpoint.id} className="p-4 rounded-2xl border border-white/5 bg-white/5">
+                            <div className="flex flex-wrap items-start justify-between gap-4">
+                                <div className="min-w-0 flex-1">
+                                    <div className="text-sm font-bold text-white break-all">{endpoint.url}</div>
+                                    {endpoint.description && <div className="text-xs text-white/50">{endpoint.description}</div>}
+                                    <div className="flex flex-wrap gap-1 mt-2">
+                                        {endpoint.events.map(event => (
+                                            <span key={event} className="px-2 py-0.5 rounded-md bg-white/5 text-[10px] text-white/60">{webhookEventLabel(event)}</span>
+                                        ))}
+                                    </div>
+                                    {last && (
+                                        <div className="text-[10px] text-white/40 mt-2">
+                                            Son gönderim: <span className={STATUS_STYLES[last.status]}>{STATUS_LABELS[last.status] || last.status}</span> · {formatDateTime(last.createdAt)}
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <button
+                                        onClick={() => run(() => updateWebhookEndpoint(endpoint.id, { active: !endpoint.active }))}
+                                        disabled={busy}
+                                        className={cn(
+                                            "px-3 py-1.5 rounded-lg text-xs font-bold ring-1 transition-all mr-1",
+                                            endpoint.active ? "bg-emerald-500/10 ring-emerald-500/30 text-emerald-400" : "bg-white/5 ring-white/10 text-white/50"
+                                        )}
+                                    >
+                                        {endpoint.active ? "Aktif" : "Pasif"}
+                                    </button>
+                                    <button onClick={() => run(() => sendTestWebhook(endpoint.id), "Test olayı kuyruğa alındı.")} disabled={busy} title="Test gönder" className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10">
+                                        <Send className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => setLogId(id => (id === endpoint.id ? null : endpoint.id))} title="Gönderim geçmişi" className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10">
+                                        <History className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => setRevealedId(id => (id === endpoint.id ? null : endpoint.id))} title="İmza anahtarı" className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10">
+                                        {revealedId === endpoint.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                                    </button>
+                                    <button
+                                        onClick={() => confirm("Webhook ve gönderim geçmişi silinsin mi?") && run(() => deleteWebhookEndpoint(endpoint.id), "Webhook silindi.")}
+                                        disabled={busy}
+                                        className="p-2 rounded-lg text-red-400/70 hover:text-red-400 hover:bg-red-500/10"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+
+                            {revealedId === endpoint.id && (
+                                <div className="mt-3 flex items-center gap-2">
+                                    <KeyRound className="w-4 h-4 text-white/40 shrink-0" />
+                                    <code className="flex-1 text-xs text-white bg-black/30 rounded-lg px-3 py-2 break-all">{endpoint.secret}</code>
+                                    <button
+                                        onClick={() => confirm("Yeni imza anahtarı oluşturulsun mu? Eski anahtar hemen geçersiz olur.") && run(() => rotateWebhookSecret(endpoint.id), "İmza anahtarı yenilendi.")}
+                                        disabled={busy}
+                                        className="px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white text-xs"
+                                    >
+                                        Yenile
+                                    </button>
+                                </div>
+                            )}
+
+                            {logId === endpoint.id && <DeliveryLog endpointId={endpoint.id} />}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,123 @@
+import type { PlaceResult } from "@/components/ResultsTable";
+
+export type LeadScoreFactor = "rating" | "reviews" | "website" | "socials" | "email" | "status" | "distance";
+
+export type LeadScoreWeights = Record<LeadScoreFactor, number>;
+
+export const LEAD_SCORE_FACTORS: { key: LeadScoreFactor; label: string; description: string }[] = [
+    { key: "rating", label: "Puan", description: "Google puanı (1-5)" },
+    { key: "reviews", label: "Yorum Sayısı", description: "Yorum hacmi, 500 yorumda tavan" },
+    { key: "website", label: "Web Sitesi", description: "Web sitesi olan işletmeler" },
+    { key: "socials", label: "Sosyal Medya", description: "Bulunan sosyal profil sayısı" },
+    { key: "email", label: "E-posta Güvenilirliği", description: "En güvenilir e-postanın skoru" },
+    { key: "status", label: "İşletme Durumu", description: "Açık işletmeler öne çıkar" },
+    { key: "distance", label: "Mesafe", description: "Arama merkezine yakınlık (yalnızca yarıçaplı aramalar)" },
+];
+
+export const DEFAULT_LEAD_SCORE_WEIGHTS: LeadScoreWeights = {
+    rating: 20,
+    reviews: 15,
+    website: 15,
+    socials: 10,
+    email: 25,
+    status: 10,
+    distance: 5,
+};
+
+export const MAX_LEAD_SCORE_WEIGHT = 100;
+
+const REVIEW_CAP = 500;
+const DISTANCE_FALLOFF_METERS = 25000;
+const SOCIAL_CAP = 3;
+
+// Everything the score looks at, in a shape both Place rows and search results map onto
+export interface LeadScoreInput {
+    rating?: number | null;
+    reviewCount?: number | null;
+    website?: string | null;
+    socials?: unknown;
+    emails?: string[] | null;
+    emailScores?: unknown;
+    businessStatus?: string | null;
+    distanceMeters?: number | null;
+}
+
+export function normalizeLeadScoreWeights(value: unknown): LeadScoreWeights {
+    const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+    const weights = { ...DEFAULT_LEAD_SCORE_WEIGHTS };
+    for (const { key } of LEAD_SCORE_FACTORS) {
+        const weight = Number(raw[key]);
+        if (raw[key] !== undefined && raw[key] !== null && Number.isFinite(weight)) {
+            weights[key] = Math.min(MAX_LEAD_SCORE_WEIGHT, Math.max(0, Math.round(weight)));
+        }
+    }
+    return weights;
+}
+
+function clamp01(value: number) {
+    return Math.min(1, Math.max(0, value));
+}
+
+// Each factor as 0..1, or null when there's nothing to judge it by (it then drops out of the average)
+export function leadScoreFactors(input: LeadScoreInput): Record<LeadScoreFactor, number | null> {
+    const socials = input.socials && typeof input.socials === "object"
+        ? Object.values(input.socials as Record<string, unknown>).filter(v => typeof v === "string" && v).length
+        : 0;
+    const emailScores = input.emailScores && typeof input.emailScores === "object"
+        ? Object.values(input.emailScores as Record<string, unknown>).filter((v): v is number => typeof v === "number")
+        : [];
+    const hasEmails = (input.emails?.length ?? 0) > 0;
+
+    let status: number | null = null;
+    if (input.businessStatus === "OPERATIONAL") status = 1;
+    else if (input.businessStatus === "CLOSED_TEMPORARILY") status = 0.3;
+    else if (input.businessStatus === "CLOSED_PERMANENTLY" || input.businessStatus === "NOT_FOUND") status = 0;
+
+    return {
+        rating: input.rating ? clamp01((input.rating - 1) / 4) : 0,
+        reviews: clamp01(Math.log10(1 + (input.reviewCount || 0)) / Math.log10(1 + REVIEW_CAP)),
+        website: input.website ? 1 : 0,
+        socials: clamp01(socials / SOCIAL_CAP),
+        // Unscored emails (older enrichments) count as half as reliable
+        email: emailScores.length > 0 ? clamp01(Math.max(...emailScores) / 100) : hasEmails ? 0.5 : 0,
+        status,
+        distance: typeof input.distanceMeters === "number" ? clamp01(1 - input.distanceMeters / DISTANCE_FALLOFF_METERS) : null,
+    };
+}
+
+/**
+ * Weighted average of the available factors, 0-100.
+ * A permanently closed business is capped at 10 whatever its other signals.
+ */
+export function calculateLeadScore(input: LeadScoreInput, weights: LeadScoreWeights = DEFAULT_LEAD_SCORE_WEIGHTS): number {
+    const factors = leadScoreFactors(input);
+    let total = 0;
+    let weightSum = 0;
+    for (const { key } of LEAD_SCORE_FACTORS) {
+        const factor = factors[key];
+        if (factor === null || weights[key] <= 0) continue;
+        total += factor * weights[key];
+        weightSum += weights[key];
+    }
+    const score = weightSum > 0 ? Math.round((total / weightSum) * 100) : 0;
+    return input.businessStatus === "CLOSED_PERMANENTLY" ? Math.min(score, 10) : score;
+}
+
+export function leadScoreLevel(score: number): "HIGH" | "MEDIUM" | "LOW" {
+    if (score >= 70) return "HIGH";
+    if (score >= 40) return "MEDIUM";
+    return "LOW";
+}
+
+export function leadScoreInputFromResult(place: PlaceResult): LeadScoreInput {
+    return {
+        rating: place.rating,
+        reviewCount: place.user_ratings_total,
+        website: place.website,
+        socials: place.socials,
+        emails: place.emails,
+        emailScores: place.emailScores,
+        businessStatus: place.business_status,
+        distanceMeters: place.distance_meters,
+    };
+}
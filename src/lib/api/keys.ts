@@ -0,0 +1,42 @@
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { hashToken } from "@/lib/auth/tokens";
+import { PLANS, type SubscriptionTier } from "@/lib/plans";
+
+const KEY_PREFIX = "zk_";
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+// lastUsedAt is informational; avoid a write on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60_000;
+
+export const MAX_API_KEYS_PER_USER = 10;
+
+/**
+ * Creates a new random key. The plain key is returned once to show the user; only its
+ * hash is persisted.
+ */
+export function generateApiKey() {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString("hex")}`;
+    return { key, keyHash: hashToken(key), prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export async function resolveApiKey(key: string) {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+
+    const apiKey = await prisma.apiKey.findUnique({
+        where: { keyHash: hashToken(key) },
+        select: { id: true, userId: true, revokedAt: true, lastUsedAt: true }
+    });
+    if (!apiKey || apiKey.revokedAt) return null;
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+        await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } }).catch(() => undefined);
+    }
+    return { apiKeyId: apiKey.id, userId: apiKey.userId };
+}
+
+// Keys outlive plan changes, so the plan is checked on every call rather than at creation only
+export async function hasApiAccess(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { subscriptionTier: true } });
+    const plan = PLANS[(user?.subscriptionTier as SubscriptionTier) || "FREE"] || PLANS.FREE;
+    return plan.features.apiAccess;
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { rateLimitSlidingWindow } from "@/lib/traffic-control";
+import { hasApiAccess, resolveApiKey } from "./keys";
+
+const RATE_LIMIT_PER_MINUTE = Number(process.env.API_RATE_LIMIT_PER_MINUTE || 60);
+
+export interface ApiCaller {
+    apiKeyId: string;
+    userId: string;
+}
+
+export function apiError(status: number, code: string, message: string, headers?: Record<string, string>) {
+    return NextResponse.json({ error: { code, message } }, { status, headers });
+}
+
+function readApiKey(request: Request) {
+    const authorization = request.headers.get("authorization");
+    if (authorization?.toLowerCase().startsWith("bearer ")) return authorization.slice(7).trim();
+    return request.headers.get("x-api-key")?.trim() || null;
+}
+
+/**
+ * Authenticates a /api/v1 request by its API key and applies the per-key rate limit.
+ * Returns either the caller or the error response to send back as-is.
+ */
+export async function authenticateApiRequest(request: Request): Promise<{ caller: ApiCaller } | { response: NextResponse }> {
+    const key = readApiKey(request);
+    if (!key) {
+        return { response: apiError(401, "unauthorized", "API anahtarı gerekli. Authorization: Bearer <anahtar> başlığını gönderin.") };
+    }
+
+    const caller = await resolveApiKey(key);
+    if (!caller) {
+        return { response: apiError(401, "unauthorized", "Geçersiz veya iptal edilmiş API anahtarı.") };
+    }
+
+    const { allowed } = await rateLimitSlidingWindow(`ratelimit:api:${caller.apiKeyId}`, RATE_LIMIT_PER_MINUTE, 60);
+    if (!allowed) {
+        return { response: apiError(429, "rate_limited", "Dakikalık istek limitine ulaşıldı.", { "Retry-After": "60" }) };
+    }
+
+    if (!(await hasApiAccess(caller.userId))) {
+        return { response: apiError(403, "plan_required", "API erişimi planınızda bulunmuyor.") };
+    }
+
+    return { caller };
+}
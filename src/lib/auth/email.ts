@@ -97,3 +97,78 @@ export async function sendEmailChangeEmail(to: string, verifyUrl: string) {
         console.warn("Email change email failed.", error);
     }
 }
+
+export interface SavedSearchAlertPlace {
+    name: string;
+    address?: string | null;
+}
+
+function escapeHtml(value: string) {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function placeLines(places: SavedSearchAlertPlace[]) {
+    return places.map((p) => `- ${p.name}${p.address ? ` (${p.address})` : ""}`).join("\n");
+}
+
+function placeListHtml(places: SavedSearchAlertPlace[]) {
+    const items = places.map((p) => `<li>${escapeHtml(p.name)}${p.address ? ` <span style="color:#666">(${escapeHtml(p.address)})</span>` : ""}</li>`);
+    return `<ul>${items.join("")}</ul>`;
+}
+
+export async function sendSavedSearchAlertEmail(
+    to: string,
+    searchName: string,
+    opened: SavedSearchAlertPlace[],
+    closed: SavedSearchAlertPlace[],
+    dashboardUrl: string
+) {
+    if (!isSmtpConfigured()) {
+        console.warn("SMTP not configured. Saved search alert suppressed.");
+        return;
+    }
+
+    const sections: string[] = [];
+    const htmlSections: string[] = [];
+    if (opened.length > 0) {
+        sections.push(`Yeni acilan isletmeler (${opened.length}):\n${placeLines(opened)}`);
+        htmlSections.push(`<p><strong>Yeni acilan isletmeler (${opened.length}):</strong></p>${placeListHtml(opened)}`);
+    }
+    if (closed.length > 0) {
+        sections.push(`Kapanan isletmeler (${closed.length}):\n${placeLines(closed)}`);
+        htmlSections.push(`<p><strong>Kapanan isletmeler (${closed.length}):</strong></p>${placeListHtml(closed)}`);
+    }
+
+    const transporter = getTransporter();
+    try {
+        await transporter.sendMail({
+            from: smtpFrom,
+            to,
+            subject: `Kayitli arama guncellemesi: ${searchName}`,
+            text: `"${searchName}" aramanizda degisiklik var.\n\n${sections.join("\n\n")}\n\nDetaylar: ${dashboardUrl}`,
+            html: `<p>"${escapeHtml(searchName)}" aramanizda degisiklik var.</p>${htmlSections.join("")}<p><a href="${dashboardUrl}">Panele git</a></p>`,
+        });
+    } catch (error) {
+        console.warn("Saved search alert email failed.", error);
+    }
+}
+
+export async function sendOrganizationInvitationEmail(to: string, organizationName: string, inviterName: string, acceptUrl: string) {
+    if (!isSmtpConfigured()) {
+        console.warn("SMTP not configured. Team invitation email suppressed.");
+        return;
+    }
+
+    const transporter = getTransporter();
+    try {
+        await transporter.sendMail({
+            from: smtpFrom,
+            to,
+            subject: `${organizationName} ekibine davet edildiniz`,
+            text: `${inviterName} sizi ${organizationName} ekibine davet etti. Bu e-posta adresiyle giris yapip daveti kabul edin: ${acceptUrl}`,
+            html: `<p>${escapeHtml(inviterName)} sizi <strong>${escapeHtml(organizationName)}</strong> ekibine davet etti.</p><p>Bu e-posta adresiyle giris yapip daveti kabul edin:</p><p><a href="${acceptUrl}">${acceptUrl}</a></p>`,
+        });
+    } catch (error) {
+        console.warn("Team invitation email failed.", error);
+    }
+}
@@ -0,0 +1,32 @@
+const FETCH_TIMEOUT_MS = Number(process.env.CRM_FETCH_TIMEOUT_MS || 15000);
+
+export class CrmApiError extends Error {
+    constructor(public provider: string, public status: number, body: string) {
+        super(`${provider} API Error: ${status} - ${body.slice(0, 300)}`);
+        this.name = "CrmApiError";
+    }
+}
+
+export async function crmFetchJson<T>(provider: string, url: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(url, {
+        ...init,
+        headers: { Accept: "application/json", "Content-Type": "application/json", ...(init.headers || {}) },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+        throw new CrmApiError(provider, response.status, await response.text().catch(() => ""));
+    }
+    if (response.status === 204) return undefined as T;
+    return await response.json() as T;
+}
+
+// Maps lead values through a field map, dropping empty values so CRM data is never blanked out
+export function mapProperties(values: Record<string, string | number | undefined>, map: Record<string, string | undefined>) {
+    const properties: Record<string, string | number> = {};
+    for (const [field, property] of Object.entries(map)) {
+        const value = values[field];
+        if (!property || value === undefined || value === "") continue;
+        properties[property] = value;
+    }
+    return properties;
+}
@@ -0,0 +1,92 @@
+import { crmFetchJson, mapProperties } from "./http";
+import type { CrmConnector, CrmPushResult, FieldMapping, LeadFieldValues } from "./types";
+
+// Point at `scripts/mock-crm-server.mjs` (e.g. http://localhost:8090/hubspot) for local testing
+const HUBSPOT_API_URL = (process.env.HUBSPOT_API_URL || "https://api.hubapi.com").replace(/\/$/, "");
+// HubSpot-defined association type "contact to company"
+const CONTACT_TO_COMPANY = 279;
+
+interface SearchResponse {
+    results: { id: string }[];
+}
+
+class HubSpotConnector implements CrmConnector {
+    readonly id = "hubspot" as const;
+
+    private request<T>(accessToken: string, path: string, init: RequestInit = {}) {
+        return crmFetchJson<T>("HubSpot", `${HUBSPOT_API_URL}${path}`, {
+            ...init,
+            headers: { Authorization: `Bearer ${accessToken}` },
+        });
+    }
+
+    private async findOne(accessToken: string, objectType: "companies" | "contacts", propertyName: string, value: string | number | undefined) {
+        if (value === undefined || value === "") return null;
+        const data = await this.request<SearchResponse>(accessToken, `/crm/v3/objects/${objectType}/search`, {
+            method: "POST",
+            body: JSON.stringify({
+                filterGroups: [{ filters: [{ propertyName, operator: "EQ", value: String(value) }] }],
+                limit: 1,
+            }),
+        });
+        return data.results[0]?.id ?? null;
+    }
+
+    async testConnection(accessToken: string) {
+        await this.request(accessToken, "/crm/v3/objects/companies?limit=1");
+    }
+
+    async pushLead(values: LeadFieldValues, mapping: FieldMapping, accessToken: string): Promise<CrmPushResult> {
+        const companyProperties = mapProperties(values, mapping.company);
+
+        // Dedupe on the properties the domain/phone fields are mapped to
+        const existingId =
+            (mapping.company.domain ? await this.findOne(accessToken, "companies", mapping.company.domain, values.domain) : null) ??
+            (mapping.company.phone ? await this.findOne(accessToken, "companies", mapping.company.phone, values.phone) : null);
+
+        let companyId: string;
+        if (existingId) {
+            await this.request(accessToken, `/crm/v3/objects/companies/${existingId}`, {
+                method: "PATCH",
+                body: JSON.stringify({ properties: companyProperties }),
+            });
+            companyId = existingId;
+        } else {
+            const created = await this.request<{ id: string }>(accessToken, "/crm/v3/objects/companies", {
+                method: "POST",
+                body: JSON.stringify({ properties: companyProperties }),
+            });
+            companyId = created.id;
+        }
+
+        let contactId: string | undefined;
+        const contactProperties = mapProperties(values, mapping.contact);
+        if (values.email && mapping.contact.email) {
+            const existingContactId = await this.findOne(accessToken, "contacts", mapping.contact.email, values.email);
+            if (existingContactId) {
+                await this.request(accessToken, `/crm/v3/objects/contacts/${existingContactId}`, {
+                    method: "PATCH",
+                    body: JSON.stringify({ properties: contactProperties }),
+                });
+                await this.request(accessToken, `/crm/v4/objects/contacts/${existingContactId}/associations/default/companies/${companyId}`, { method: "PUT" });
+                contactId = existingContactId;
+            } else {
+                const created = await this.request<{ id: string }>(accessToken, "/crm/v3/objects/contacts", {
+                    method: "POST",
+                    body: JSON.stringify({
+                        properties: contactProperties,
+                        associations: [{
+                            to: { id: companyId },
+                            types: [{ associationCategory: "HUBSPOT_DEFINED", associationTypeId: CONTACT_TO_COMPANY }],
+                        }],
+                    }),
+                });
+                contactId = created.id;
+            }
+        }
+
+        return { companyId, contactId, action: existingId ? "updated" : "created" };
+    }
+}
+
+export const hubSpotConnector = new HubSpotConnector();
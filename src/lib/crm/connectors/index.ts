@@ -0,0 +1,12 @@
+import { hubSpotConnector } from "./hubspot";
+import { pipedriveConnector } from "./pipedrive";
+import type { CrmConnector, CrmProviderId } from "./types";
+
+const CONNECTORS: Record<CrmProviderId, CrmConnector> = {
+    hubspot: hubSpotConnector,
+    pipedrive: pipedriveConnector,
+};
+
+export function getCrmConnector(id: CrmProviderId): CrmConnector {
+    return CONNECTORS[id];
+}
@@ -0,0 +1,87 @@
+import { crmFetchJson, mapProperties } from "./http";
+import type { CrmConnector, CrmPushResult, FieldMapping, LeadFieldValues } from "./types";
+
+// Point at `scripts/mock-crm-server.mjs` (e.g. http://localhost:8090/pipedrive) for local testing
+const PIPEDRIVE_API_URL = (process.env.PIPEDRIVE_API_URL || "https://api.pipedrive.com").replace(/\/$/, "");
+
+interface PipedriveResponse<T> {
+    success: boolean;
+    data: T;
+}
+
+interface SearchData {
+    items: { item: { id: number } }[];
+}
+
+class PipedriveConnector implements CrmConnector {
+    readonly id = "pipedrive" as const;
+
+    private request<T>(accessToken: string, path: string, init: RequestInit = {}, query: Record<string, string> = {}) {
+        const params = new URLSearchParams({ ...query, api_token: accessToken });
+        return crmFetchJson<PipedriveResponse<T>>("Pipedrive", `${PIPEDRIVE_API_URL}/v1${path}?${params}`, init)
+            .then(response => response.data);
+    }
+
+    // Pipedrive search covers name, address and custom fields, so domain/phone lookups work once they are mapped
+    private async search(accessToken: string, entity: "organizations" | "persons", term: string | number | undefined, fields?: string) {
+        if (term === undefined || String(term).length < 2) return null;
+        const data = await this.request<SearchData>(accessToken, `/${entity}/search`, {}, {
+            term: String(term),
+            exact_match: "true",
+            limit: "1",
+            ...(fields ? { fields } : {}),
+        });
+        return data.items[0]?.item.id ?? null;
+    }
+
+    async testConnection(accessToken: string) {
+        await this.request(accessToken, "/users/me");
+    }
+
+    async pushLead(values: LeadFieldValues, mapping: FieldMapping, accessToken: string): Promise<CrmPushResult> {
+        const orgFields = mapProperties(values, mapping.company);
+
+        const existingId =
+            (mapping.company.domain ? await this.search(accessToken, "organizations", values.domain) : null) ??
+            (mapping.company.phone ? await this.search(accessToken, "organizations", values.phone) : null) ??
+            // Without domain/phone custom fields the exact organization name is the only stable key
+            await this.search(accessToken, "organizations", values.name, "name");
+
+        let companyId: number;
+        if (existingId) {
+            await this.request(accessToken, `/organizations/${existingId}`, { method: "PUT", body: JSON.stringify(orgFields) });
+            companyId = existingId;
+        } else {
+            const created = await this.request<{ id: number }>(accessToken, "/organizations", {
+                method: "POST",
+                body: JSON.stringify({ name: values.name, ...orgFields }),
+            });
+            companyId = created.id;
+        }
+
+        let contactId: number | undefined;
+        if (values.email && mapping.contact.email) {
+            const personFields = { ...mapProperties(values, mapping.contact), org_id: companyId };
+            const existingPersonId = await this.search(accessToken, "persons", values.email, "email");
+            if (existingPersonId) {
+                await this.request(accessToken, `/persons/${existingPersonId}`, { method: "PUT", body: JSON.stringify(personFields) });
+                contactId = existingPersonId;
+            } else {
+                const created = await this.request<{ id: number }>(accessToken, "/persons", {
+                    method: "POST",
+                    // Persons require a name; the business name is the best we have
+                    body: JSON.stringify({ name: values.name, ...personFields }),
+                });
+                contactId = created.id;
+            }
+        }
+
+        return {
+            companyId: String(companyId),
+            contactId: contactId !== undefined ? String(contactId) : undefined,
+            action: existingId ? "updated" : "created",
+        };
+    }
+}
+
+export const pipedriveConnector = new PipedriveConnector();
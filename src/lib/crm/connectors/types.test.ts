@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FIELD_MAPPINGS, normalizeFieldMapping } from "./types";
+
+describe("normalizeFieldMapping", () => {
+    it("keeps known lead fields and trims property names", () => {
+        expect(normalizeFieldMapping({
+            company: { name: " name ", website: "website" },
+            contact: { email: "email" },
+        })).toEqual({
+            company: { name: "name", website: "website" },
+            contact: { email: "email" },
+        });
+    });
+
+    it("drops unknown fields, blank and non-string properties", () => {
+        expect(normalizeFieldMapping({
+            company: { name: "name", password: "pw", phone: "  ", address: 42 },
+            contact: "email",
+        })).toEqual({ company: { name: "name" }, contact: {} });
+    });
+
+    it("caps property names at 100 characters", () => {
+        const { company } = normalizeFieldMapping({ company: { notes: "x".repeat(150) } });
+        expect(company.notes).toHaveLength(100);
+    });
+
+    it("returns empty maps for anything that isn't an object", () => {
+        for (const value of [null, undefined, "mapping", 7, []]) {
+            expect(normalizeFieldMapping(value)).toEqual({ company: {}, contact: {} });
+        }
+    });
+
+    it("leaves the default mappings unchanged", () => {
+        for (const mapping of Object.values(DEFAULT_FIELD_MAPPINGS)) {
+            expect(normalizeFieldMapping(mapping)).toEqual(mapping);
+        }
+    });
+});
@@ -0,0 +1,90 @@
+export type CrmProviderId = "hubspot" | "pipedrive";
+
+// Safe to import from client components (no connector implementation attached)
+export const CRM_PROVIDER_LABELS: Record<CrmProviderId, string> = {
+    hubspot: "HubSpot",
+    pipedrive: "Pipedrive",
+};
+
+export const CRM_PROVIDER_IDS = Object.keys(CRM_PROVIDER_LABELS) as CrmProviderId[];
+
+export function isCrmProviderId(value: unknown): value is CrmProviderId {
+    return typeof value === "string" && value in CRM_PROVIDER_LABELS;
+}
+
+// Lead + Place values that can be mapped onto CRM properties
+export type LeadField =
+    | "name" | "domain" | "website" | "phone" | "address" | "email" | "rating" | "reviewCount"
+    | "category" | "stage" | "notes" | "instagram" | "facebook" | "linkedin" | "googleMapsUrl";
+
+export const LEAD_FIELDS: { key: LeadField; label: string }[] = [
+    { key: "name", label: "İşletme adı" },
+    { key: "domain", label: "Alan adı" },
+    { key: "website", label: "Web sitesi" },
+    { key: "phone", label: "Telefon" },
+    { key: "address", label: "Adres" },
+    { key: "email", label: "E-posta (birincil)" },
+    { key: "rating", label: "Puan" },
+    { key: "reviewCount", label: "Yorum sayısı" },
+    { key: "category", label: "Kategori" },
+    { key: "stage", label: "Satış aşaması" },
+    { key: "notes", label: "Notlar" },
+    { key: "instagram", label: "Instagram" },
+    { key: "facebook", label: "Facebook" },
+    { key: "linkedin", label: "LinkedIn" },
+    { key: "googleMapsUrl", label: "Google Maps bağlantısı" },
+];
+
+export type FieldMap = Partial<Record<LeadField, string>>;
+
+export interface FieldMapping {
+    company: FieldMap;
+    contact: FieldMap; // a contact is only written when the lead has an email
+}
+
+export const DEFAULT_FIELD_MAPPINGS: Record<CrmProviderId, FieldMapping> = {
+    hubspot: {
+        company: { name: "name", domain: "domain", website: "website", phone: "phone", address: "address", notes: "description" },
+        contact: { email: "email", phone: "phone", website: "website" },
+    },
+    // Pipedrive stores anything beyond name/address in custom fields, addressed by their 40-char keys
+    pipedrive: {
+        company: { name: "name", address: "address" },
+        contact: { email: "email", phone: "phone" },
+    },
+};
+
+export type LeadFieldValues = Partial<Record<LeadField, string | number>>;
+
+export interface CrmPushResult {
+    companyId: string;
+    contactId?: string;
+    action: "created" | "updated";
+}
+
+export interface CrmConnector {
+    id: CrmProviderId;
+    // Throws when the token is rejected
+    testConnection(accessToken: string): Promise<void>;
+    // Create or update the company keyed on domain, then phone; upsert the contact keyed on email
+    pushLead(values: LeadFieldValues, mapping: FieldMapping, accessToken: string): Promise<CrmPushResult>;
+}
+
+const LEAD_FIELD_KEYS = new Set<string>(LEAD_FIELDS.map(f => f.key));
+
+function normalizeFieldMap(value: unknown): FieldMap {
+    const map: FieldMap = {};
+    if (!value || typeof value !== "object") return map;
+    for (const [field, property] of Object.entries(value)) {
+        if (!LEAD_FIELD_KEYS.has(field) || typeof property !== "string") continue;
+        const trimmed = property.trim().slice(0, 100);
+        if (trimmed) map[field as LeadField] = trimmed;
+    }
+    return map;
+}
+
+// Drops unknown lead fields and blank properties from a stored or submitted mapping
+export function normalizeFieldMapping(value: unknown): FieldMapping {
+    const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+    return { company: normalizeFieldMap(raw.company), contact: normalizeFieldMap(raw.contact) };
+}
@@ -0,0 +1,54 @@
+import { prisma } from "@/lib/prisma";
+import { getWorkspace, leadScope, suppressionScope, type Workspace } from "@/lib/org/workspace";
+import { buildSuppressionMatcher } from "./suppression";
+
+// Google/OSM ids among `placeIds` the workspace has excluded from its results
+export async function getExcludedPlaceIds(workspace: Workspace, placeIds: string[]) {
+    if (placeIds.length === 0) return new Set<string>();
+    const leads = await prisma.lead.findMany({
+        where: { ...leadScope(workspace), excludedAt: { not: null }, place: { googleId: { in: placeIds } } },
+        select: { place: { select: { googleId: true } } },
+    });
+    return new Set(leads.map(l => l.place.googleId));
+}
+
+// The workspace's do-not-contact list, ready to test places against
+export async function loadSuppressionMatcher(workspace: Workspace) {
+    const entries = await prisma.suppressionEntry.findMany({ where: suppressionScope(workspace), select: { type: true, value: true } });
+    return buildSuppressionMatcher(entries);
+}
+
+type SearchResultPlace = {
+    place_id: string;
+    website?: string | null;
+    formatted_phone_number?: string | null;
+    phones?: string[] | null;
+    emails?: string[] | null;
+};
+
+/**
+ * Drops the user's excluded and suppressed places from search output. Search caches are shared
+ * between users, so this runs where results are handed to a user, never before caching.
+ */
+export async function withoutExcludedPlaces<T extends SearchResultPlace>(userId: string, places: T[]) {
+    if (!Array.isArray(places) || places.length === 0) return places;
+    const workspace = await getWorkspace(userId);
+    const [excluded, suppression] = await Promise.all([
+        getExcludedPlaceIds(workspace, places.map(p => p.place_id)),
+        loadSuppressionMatcher(workspace),
+    ]);
+    if (excluded.size === 0 && suppression.size === 0) return places;
+    return places.filter(p => !excluded.has(p.place_id) && !suppression.matches({
+        website: p.website,
+        phone: p.formatted_phone_number,
+        phones: p.phones,
+        emails: p.emails,
+    }));
+}
+
+// Same for a `{ places, ... }` search result; anything else passes through untouched
+export async function filterSearchResultForUser<R>(userId: string, result: R): Promise<R> {
+    const places = (result as { places?: unknown } | null)?.places;
+    if (!Array.isArray(places)) return result;
+    return { ...result, places: await withoutExcludedPlaces(userId, places as SearchResultPlace[]) };
+}
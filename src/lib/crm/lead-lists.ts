@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { leadListScope, type Workspace } from "@/lib/org/workspace";
+
+export const MAX_LEAD_LISTS = 100;
+
+export const LeadListNameSchema = z.string().trim().min(2, "Liste adı en az 2 karakter olmalıdır.").max(60, "Liste adı çok uzun.");
+
+// List names are unique per workspace, ignoring case
+export async function findOrCreateLeadList(workspace: Workspace, rawName: string) {
+    const parsed = LeadListNameSchema.safeParse(rawName);
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+
+    const existing = await prisma.leadList.findFirst({
+        where: { ...leadListScope(workspace), name: { equals: parsed.data, mode: "insensitive" } },
+        select: { id: true, name: true },
+    });
+    if (existing) return existing;
+
+    const count = await prisma.leadList.count({ where: leadListScope(workspace) });
+    if (count >= MAX_LEAD_LISTS) throw new Error(`En fazla ${MAX_LEAD_LISTS} liste oluşturabilirsiniz.`);
+    return prisma.leadList.create({
+        data: { userId: workspace.userId, organizationId: workspace.organizationId, name: parsed.data },
+        select: { id: true, name: true },
+    });
+}
@@ -0,0 +1,55 @@
+export type PipelineStageKind = "OPEN" | "WON" | "LOST";
+export type LeadActivityType = "CALL" | "EMAIL" | "MEETING" | "NOTE" | "STAGE_CHANGE";
+
+export interface PipelineStageConfig {
+    key: string;
+    name: string;
+    color: string;
+    kind: PipelineStageKind;
+}
+
+// Seeded for every user on first use; keys match the legacy Lead.status values
+export const DEFAULT_PIPELINE_STAGES: PipelineStageConfig[] = [
+    { key: "NEW", name: "Yeni", color: "#3b82f6", kind: "OPEN" },
+    { key: "CONTACTED", name: "İletişime Geçildi", color: "#f59e0b", kind: "OPEN" },
+    { key: "CONVERTED", name: "Kazanıldı", color: "#10b981", kind: "WON" },
+    { key: "CLOSED", name: "Kaybedildi", color: "#ef4444", kind: "LOST" },
+];
+
+export const PIPELINE_STAGE_KINDS: { value: PipelineStageKind; label: string }[] = [
+    { value: "OPEN", label: "Açık" },
+    { value: "WON", label: "Kazanıldı" },
+    { value: "LOST", label: "Kaybedildi" },
+];
+
+// Activities a user can log by hand (STAGE_CHANGE is written by moveLeadToStage)
+export const LEAD_ACTIVITY_TYPES: { value: Exclude<LeadActivityType, "STAGE_CHANGE">; label: string }[] = [
+    { value: "CALL", label: "Arama" },
+    { value: "EMAIL", label: "E-posta" },
+    { value: "MEETING", label: "Toplantı" },
+    { value: "NOTE", label: "Not" },
+];
+
+export const MAX_PIPELINE_STAGES = 12;
+
+export function activityTypeLabel(type: string) {
+    if (type === "STAGE_CHANGE") return "Aşama Değişikliği";
+    return LEAD_ACTIVITY_TYPES.find(t => t.value === type)?.label || type;
+}
+
+const TURKISH_ASCII: Record<string, string> = { ç: "c", ğ: "g", ı: "i", İ: "i", ö: "o", ş: "s", ü: "u" };
+
+/**
+ * Stage key derived from its name ("Teklif Verildi" -> "TEKLIF_VERILDI").
+ * Keys are stored on Lead.status, so they never change after creation.
+ */
+export function stageKeyFromName(name: string) {
+    const ascii = name.replace(/[çğıİöşü]/gi, ch => TURKISH_ASCII[ch.toLowerCase()] || TURKISH_ASCII[ch] || ch);
+    const key = ascii.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 32);
+    return key || "STAGE";
+}
+
+// A follow-up is overdue once its due date has passed
+export function isFollowUpOverdue(followUpAt: Date | string | null | undefined, now = new Date()) {
+    return !!followUpAt && new Date(followUpAt).getTime() < now.getTime();
+}
@@ -0,0 +1,57 @@
+import type { Lead, Place } from "@prisma/client";
+import type { LeadFieldValues } from "./connectors/types";
+
+type LeadWithPlace = Pick<Lead, "status" | "notes"> & {
+    place: Pick<Place, "googleId" | "name" | "address" | "phone" | "website" | "rating" | "userRatingsTotal"
+        | "primaryType" | "types" | "emails" | "emailScores" | "phones" | "socials">;
+};
+
+// "https://www.example.com/tr" -> "example.com"
+export function domainFromWebsite(website: string | null | undefined) {
+    if (!website) return undefined;
+    try {
+        const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+        return url.hostname.replace(/^www\./i, "").toLowerCase() || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Highest-scored scraped email, falling back to the first one found
+function primaryEmail(emails: string[], scores: unknown) {
+    if (emails.length === 0) return undefined;
+    const scoreMap = (scores && typeof scores === "object" ? scores : {}) as Record<string, number>;
+    return [...emails].sort((a, b) => (scoreMap[b] ?? 0) - (scoreMap[a] ?? 0))[0];
+}
+
+function googleMapsUrl(googleId: string) {
+    if (googleId.startsWith("osm:")) return undefined;
+    return `https://www.google.com/maps/place/?q=place_id:${googleId}`;
+}
+
+/**
+ * Flattens a lead and its place into the values a CRM field mapping can refer to.
+ * Missing values are left out so a sync never clears data already in the CRM.
+ */
+export function buildLeadFieldValues(lead: LeadWithPlace, stageName?: string): LeadFieldValues {
+    const { place } = lead;
+    const socials = (place.socials && typeof place.socials === "object" ? place.socials : {}) as Record<string, string | undefined>;
+    const values: LeadFieldValues = {
+        name: place.name,
+        domain: domainFromWebsite(place.website),
+        website: place.website ?? undefined,
+        phone: place.phone ?? place.phones[0],
+        address: place.address ?? undefined,
+        email: primaryEmail(place.emails, place.emailScores),
+        rating: place.rating ?? undefined,
+        reviewCount: place.userRatingsTotal ?? undefined,
+        category: place.primaryType ?? place.types[0],
+        stage: stageName ?? lead.status,
+        notes: lead.notes ?? undefined,
+        instagram: socials.instagram,
+        facebook: socials.facebook,
+        linkedin: socials.linkedin,
+        googleMapsUrl: googleMapsUrl(place.googleId),
+    };
+    return Object.fromEntries(Object.entries(values).filter(([, v]) => v !== undefined && v !== null && v !== "")) as LeadFieldValues;
+}
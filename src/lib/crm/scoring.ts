@@ -0,0 +1,92 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { calculateLeadScore, normalizeLeadScoreWeights, type LeadScoreWeights } from "@/lib/analysis/lead-score";
+import { leadScope, type Workspace } from "@/lib/org/workspace";
+
+const RESCORE_BATCH_SIZE = 500;
+
+const SCORED_PLACE_SELECT = {
+    rating: true,
+    userRatingsTotal: true,
+    website: true,
+    socials: true,
+    emails: true,
+    emailScores: true,
+    businessStatus: true,
+} satisfies Prisma.PlaceSelect;
+
+type ScoredPlace = Prisma.PlaceGetPayload<{ select: typeof SCORED_PLACE_SELECT }>;
+
+export function scoreLead(place: ScoredPlace, distanceMeters: number | null, weights: LeadScoreWeights) {
+    return calculateLeadScore({
+        rating: place.rating,
+        reviewCount: place.userRatingsTotal,
+        website: place.website,
+        socials: place.socials,
+        emails: place.emails,
+        emailScores: place.emailScores,
+        businessStatus: place.businessStatus,
+        distanceMeters,
+    }, weights);
+}
+
+export async function getLeadScoreWeights(workspace: Workspace): Promise<LeadScoreWeights> {
+    const owner = workspace.organizationId
+        ? await prisma.organization.findUnique({ where: { id: workspace.organizationId }, select: { leadScoreWeights: true } })
+        : await prisma.user.findUnique({ where: { id: workspace.userId }, select: { leadScoreWeights: true } });
+    return normalizeLeadScoreWeights(owner?.leadScoreWeights);
+}
+
+/**
+ * Recomputes every lead in the workspace (or those matching `filter`), e.g. after the weights change.
+ * Walks the leads by id so large workspaces never load at once.
+ */
+export async function rescoreWorkspaceLeads(workspace: Workspace, weights?: LeadScoreWeights, filter: Prisma.LeadWhereInput = {}) {
+    const effectiveWeights = weights ?? await getLeadScoreWeights(workspace);
+    let cursor: string | undefined;
+    let updated = 0;
+
+    while (true) {
+        const leads = await prisma.lead.findMany({
+            where: { ...filter, ...leadScope(workspace) },
+            select: { id: true, distanceMeters: true, place: { select: SCORED_PLACE_SELECT } },
+            orderBy: { id: "asc" },
+            take: RESCORE_BATCH_SIZE,
+            ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+        });
+        if (leads.length === 0) break;
+
+        const scoredAt = new Date();
+        await prisma.$transaction(leads.map(lead => prisma.lead.update({
+            where: { id: lead.id },
+            data: { score: scoreLead(lead.place, lead.distanceMeters, effectiveWeights), scoredAt },
+        })));
+        updated += leads.length;
+        cursor = leads[leads.length - 1].id;
+    }
+
+    return updated;
+}
+
+// A place's data changed (enrichment, refresh): rescore every workspace's lead on it
+export async function rescorePlaceLeads(placeId: string) {
+    const leads = await prisma.lead.findMany({
+        where: { placeId },
+        select: { id: true, userId: true, organizationId: true, distanceMeters: true, place: { select: SCORED_PLACE_SELECT } },
+    });
+    const weightsByWorkspace = new Map<string, LeadScoreWeights>();
+    const scoredAt = new Date();
+
+    for (const lead of leads) {
+        const key = lead.organizationId ?? `user:${lead.userId}`;
+        let weights = weightsByWorkspace.get(key);
+        if (!weights) {
+            weights = await getLeadScoreWeights({ userId: lead.userId, organizationId: lead.organizationId, role: null });
+            weightsByWorkspace.set(key, weights);
+        }
+        await prisma.lead.update({
+            where: { id: lead.id },
+            data: { score: scoreLead(lead.place, lead.distanceMeters, weights), scoredAt },
+        });
+    }
+}
@@ -0,0 +1,81 @@
+import { domainFromWebsite } from "./record";
+
+export type SuppressionType = "DOMAIN" | "PHONE" | "EMAIL";
+
+export const SUPPRESSION_TYPES: { value: SuppressionType; label: string; placeholder: string }[] = [
+    { value: "DOMAIN", label: "Alan adı", placeholder: "ornek.com" },
+    { value: "PHONE", label: "Telefon", placeholder: "+90 212 555 00 00" },
+    { value: "EMAIL", label: "E-posta", placeholder: "info@ornek.com" },
+];
+
+// Phones compare on their trailing digits so "+90 212 ..." and "0212 ..." are the same number
+const PHONE_MATCH_DIGITS = 10;
+const MIN_PHONE_DIGITS = 7;
+
+export function isSuppressionType(value: unknown): value is SuppressionType {
+    return SUPPRESSION_TYPES.some(t => t.value === value);
+}
+
+/**
+ * Canonical form an entry is stored and matched in; null when the input isn't a valid value of its type.
+ * A full email or URL given as a domain is reduced to its domain.
+ */
+export function normalizeSuppressionValue(type: SuppressionType, raw: string): string | null {
+    const value = raw.trim().toLowerCase();
+    if (!value) return null;
+    if (type === "EMAIL") return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? value : null;
+    if (type === "DOMAIN") {
+        const domain = domainFromWebsite(value.includes("@") ? value.split("@").pop() : value);
+        return domain && domain.includes(".") ? domain : null;
+    }
+    const digits = value.replace(/\D/g, "");
+    return digits.length >= MIN_PHONE_DIGITS ? digits.slice(-PHONE_MATCH_DIGITS) : null;
+}
+
+// The contact details of a place that an opt-out can refer to
+export interface SuppressionContact {
+    website?: string | null;
+    phone?: string | null;
+    phones?: string[] | null;
+    emails?: string[] | null;
+}
+
+export interface SuppressionMatcher {
+    size: number;
+    matches(contact: SuppressionContact): boolean;
+}
+
+export function buildSuppressionMatcher(entries: { type: string; value: string }[]): SuppressionMatcher {
+    const domains = new Set(entries.filter(e => e.type === "DOMAIN").map(e => e.value));
+    const phones = new Set(entries.filter(e => e.type === "PHONE").map(e => e.value));
+    const emails = new Set(entries.filter(e => e.type === "EMAIL").map(e => e.value));
+
+    // Subdomains are covered by their parent: "shop.example.com" matches "example.com"
+    const domainSuppressed = (domain: string | undefined) => {
+        if (!domain) return false;
+        const labels = domain.split(".");
+        for (let i = 0; i < labels.length - 1; i++) {
+            if (domains.has(labels.slice(i).join("."))) return true;
+        }
+        return false;
+    };
+
+    return {
+        size: entries.length,
+        matches(contact) {
+            if (entries.length === 0) return false;
+            if (domains.size > 0 && domainSuppressed(domainFromWebsite(contact.website))) return true;
+            for (const email of contact.emails || []) {
+                const normalized = email.trim().toLowerCase();
+                if (emails.has(normalized) || domainSuppressed(normalized.split("@")[1])) return true;
+            }
+            if (phones.size > 0) {
+                for (const phone of [contact.phone, ...(contact.phones || [])]) {
+                    const normalized = phone ? normalizeSuppressionValue("PHONE", phone) : null;
+                    if (normalized && phones.has(normalized)) return true;
+                }
+            }
+            return false;
+        },
+    };
+}
@@ -0,0 +1,84 @@
+import { prisma } from "@/lib/prisma";
+import { decryptSecret } from "@/lib/auth/encryption";
+import { getWorkspace, leadScope, stageScope } from "@/lib/org/workspace";
+import { getCrmConnector } from "./connectors";
+import { isCrmProviderId, normalizeFieldMapping } from "./connectors/types";
+import { buildLeadFieldValues } from "./record";
+import { loadSuppressionMatcher } from "./exclusions";
+
+const MAX_STORED_ERROR_LENGTH = 500;
+
+/**
+ * Pushes one lead to a CRM connection and records the outcome on LeadCrmSync.
+ * Errors are recorded and rethrown so the queue can retry.
+ */
+export async function syncLeadToCrm(connectionId: string, leadId: string) {
+    const connection = await prisma.crmConnection.findUnique({ where: { id: connectionId } });
+    if (!connection || !connection.active) return null;
+    if (!isCrmProviderId(connection.provider)) throw new Error(`Unknown CRM provider: ${connection.provider}`);
+
+    // The connection owner may only push leads from their own workspace
+    const workspace = await getWorkspace(connection.userId);
+    const lead = await prisma.lead.findFirst({
+        where: { id: leadId, ...leadScope(workspace) },
+        select: {
+            id: true,
+            status: true,
+            notes: true,
+            place: {
+                select: {
+                    googleId: true, name: true, address: true, phone: true, website: true, rating: true, userRatingsTotal: true,
+                    primaryType: true, types: true, emails: true, emailScores: true, phones: true, socials: true,
+                }
+            }
+        }
+    });
+    if (!lead) return null;
+
+    // Opted-out contacts are never pushed; the status tells the user why
+    if ((await loadSuppressionMatcher(workspace)).matches(lead.place)) {
+        const suppressed = { status: "SUPPRESSED", error: "Engelleme listesinde." };
+        await prisma.leadCrmSync.upsert({
+            where: { leadId_connectionId: { leadId, connectionId } },
+            create: { leadId, connectionId, ...suppressed },
+            update: suppressed,
+        });
+        return null;
+    }
+
+    const stage = await prisma.pipelineStage.findFirst({
+        where: { ...stageScope(workspace), key: lead.status },
+        select: { name: true }
+    });
+
+    try {
+        const result = await getCrmConnector(connection.provider).pushLead(
+            buildLeadFieldValues(lead, stage?.name),
+            normalizeFieldMapping(connection.fieldMapping),
+            decryptSecret(connection.accessToken)
+        );
+        const synced = {
+            status: "SYNCED",
+            externalCompanyId: result.companyId,
+            externalContactId: result.contactId ?? null,
+            lastAction: result.action,
+            error: null,
+            syncedAt: new Date(),
+        };
+        await prisma.leadCrmSync.upsert({
+            where: { leadId_connectionId: { leadId, connectionId } },
+            create: { leadId, connectionId, ...synced },
+            update: synced,
+        });
+        await prisma.crmConnection.update({ where: { id: connectionId }, data: { lastSyncAt: new Date() } });
+        return result;
+    } catch (error: unknown) {
+        const message = (error instanceof Error ? error.message : String(error)).slice(0, MAX_STORED_ERROR_LENGTH);
+        await prisma.leadCrmSync.upsert({
+            where: { leadId_connectionId: { leadId, connectionId } },
+            create: { leadId, connectionId, status: "FAILED", error: message },
+            update: { status: "FAILED", error: message },
+        });
+        throw error;
+    }
+}
@@ -0,0 +1,111 @@
+import type { Prisma } from "@prisma/client";
+
+// Place fields read for every exported row
+export const EXPORT_PLACE_SELECT = {
+    id: true,
+    googleId: true,
+    name: true,
+    address: true,
+    phone: true,
+    website: true,
+    rating: true,
+    userRatingsTotal: true,
+    latitude: true,
+    longitude: true,
+    primaryType: true,
+    types: true,
+    emails: true,
+    emailScores: true,
+    phones: true,
+    socials: true,
+} satisfies Prisma.PlaceSelect;
+
+// The exporting user's lead for the place, when they track it
+export interface ExportLeadInfo {
+    status: string;
+    stageName: string | null;
+    notes: string | null;
+}
+
+export type ExportPlace = Prisma.PlaceGetPayload<{ select: typeof EXPORT_PLACE_SELECT }> & { lead: ExportLeadInfo | null };
+
+export interface ExportColumn {
+    key: string;
+    header: string;
+    width: number; // XLSX column width
+    value: (place: ExportPlace) => string | number;
+}
+
+function socialsOf(place: ExportPlace) {
+    return (place.socials && typeof place.socials === "object" ? place.socials : {}) as Record<string, string | undefined>;
+}
+
+function social(place: ExportPlace, network: string) {
+    return socialsOf(place)[network] || "-";
+}
+
+function emailScoresOf(place: ExportPlace) {
+    return (place.emailScores && typeof place.emailScores === "object" ? place.emailScores : {}) as Record<string, number | undefined>;
+}
+
+function emailsByScore(place: ExportPlace) {
+    const scores = emailScoresOf(place);
+    return [...place.emails].sort((a, b) => (scores[b] ?? 0) - (scores[a] ?? 0));
+}
+
+// Every column a template can pick; the first twelve form the default layout
+export const EXPORT_COLUMNS: ExportColumn[] = [
+    { key: "name", header: "İşletme Adı", width: 30, value: p => p.name },
+    { key: "address", header: "Adres", width: 50, value: p => p.address || "-" },
+    { key: "phone", header: "Telefon", width: 20, value: p => p.phone || "-" },
+    { key: "website", header: "Web Sitesi", width: 30, value: p => p.website || "-" },
+    { key: "emails", header: "E-postalar", width: 40, value: p => p.emails.join(", ") || "-" },
+    { key: "scraped_phones", header: "Bulunan Telefonlar", width: 30, value: p => p.phones.join(", ") || "-" },
+    { key: "instagram", header: "Instagram", width: 30, value: p => social(p, "instagram") },
+    { key: "facebook", header: "Facebook", width: 30, value: p => social(p, "facebook") },
+    { key: "linkedin", header: "LinkedIn", width: 30, value: p => social(p, "linkedin") },
+    { key: "rating", header: "Puan", width: 10, value: p => p.rating ?? "-" },
+    { key: "reviews", header: "Yorum Sayısı", width: 15, value: p => p.userRatingsTotal ?? 0 },
+    { key: "category", header: "Kategori", width: 20, value: p => p.primaryType || p.types[0] || "-" },
+    { key: "best_email", header: "En Güvenilir E-posta", width: 30, value: p => emailsByScore(p)[0] || "-" },
+    {
+        key: "email_scores", header: "E-posta Skorları", width: 45,
+        value: p => emailsByScore(p).map(e => `${e} (${emailScoresOf(p)[e] ?? "?"})`).join(", ") || "-",
+    },
+    { key: "twitter", header: "Twitter / X", width: 30, value: p => social(p, "twitter") },
+    { key: "youtube", header: "YouTube", width: 30, value: p => social(p, "youtube") },
+    { key: "tiktok", header: "TikTok", width: 30, value: p => social(p, "tiktok") },
+    { key: "latitude", header: "Enlem", width: 12, value: p => p.latitude ?? "-" },
+    { key: "longitude", header: "Boylam", width: 12, value: p => p.longitude ?? "-" },
+    {
+        key: "coordinates", header: "Koordinatlar", width: 24,
+        value: p => (p.latitude !== null && p.longitude !== null ? `${p.latitude},${p.longitude}` : "-"),
+    },
+    { key: "lead_status", header: "Aday Durumu", width: 20, value: p => p.lead?.stageName || p.lead?.status || "-" },
+    { key: "lead_notes", header: "Notlar", width: 40, value: p => p.lead?.notes || "-" },
+];
+
+export const DEFAULT_EXPORT_COLUMN_KEYS = EXPORT_COLUMNS.slice(0, 12).map(c => c.key);
+
+// Structured form of a row for the JSON-based formats (JSON Lines, GeoJSON properties)
+export function toExportRecord(place: ExportPlace) {
+    return {
+        id: place.googleId,
+        name: place.name,
+        address: place.address,
+        phone: place.phone,
+        website: place.website,
+        emails: place.emails,
+        emailScores: emailScoresOf(place),
+        phones: place.phones,
+        socials: socialsOf(place),
+        rating: place.rating,
+        reviewCount: place.userRatingsTotal,
+        category: place.primaryType || place.types[0] || null,
+        types: place.types,
+        latitude: place.latitude,
+        longitude: place.longitude,
+        leadStatus: place.lead?.stageName || place.lead?.status || null,
+        leadNotes: place.lead?.notes ?? null,
+    };
+}
@@ -0,0 +1,63 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ExportColumn, ExportPlace } from "../columns";
+import type { ExportLayout } from "../layout";
+import { csvExporter } from "./csv";
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "csv-export-"));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function column(header: string, index: number): ExportColumn {
+    return { key: header, header, width: 10, value: place => (place as unknown as (string | number)[])[index] };
+}
+
+async function* rowsOf(values: (string | number)[][]) {
+    for (const row of values) yield row as unknown as ExportPlace;
+}
+
+async function writeCsv(values: (string | number)[][], layout: Partial<ExportLayout> = {}) {
+    const filePath = path.join(dir, "out.csv");
+    const count = await csvExporter.write(rowsOf(values), {
+        columns: [column("Ad", 0), column("Not", 1)],
+        delimiter: ",",
+        encoding: "utf8",
+        ...layout,
+    }, filePath);
+    return { count, buffer: fs.readFileSync(filePath) };
+}
+
+describe("csvExporter", () => {
+    it("writes a header row and CRLF line endings", async () => {
+        const { count, buffer } = await writeCsv([["Acme", 4.5]]);
+        expect(count).toBe(1);
+        expect(buffer.toString("utf8")).toBe("Ad,Not\r\nAcme,4.5\r\n");
+    });
+
+    it("quotes fields with the delimiter, quotes or line breaks and doubles inner quotes", async () => {
+        const { buffer } = await writeCsv([["Acme, Ltd.", 'the "best"'], ["line\nbreak", "plain"]]);
+        expect(buffer.toString("utf8")).toBe('Ad,Not\r\n"Acme, Ltd.","the ""best"""\r\n"line\nbreak",plain\r\n');
+    });
+
+    it("only quotes for the chosen delimiter", async () => {
+        const { buffer } = await writeCsv([["a,b", "c;d"]], { delimiter: ";" });
+        expect(buffer.toString("utf8")).toBe('Ad;Not\r\na,b;"c;d"\r\n');
+    });
+
+    it("adds a byte order mark for UTF-8 BOM and UTF-16", async () => {
+        const bom = await writeCsv([], { encoding: "utf8-bom" });
+        expect(bom.buffer.subarray(0, 3)).toEqual(Buffer.from([0xef, 0xbb, 0xbf]));
+
+        const utf16 = await writeCsv([["Şişli", ""]], { encoding: "utf16le" });
+        expect(utf16.buffer.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xfe]));
+        expect(utf16.buffer.toString("utf16le")).toBe("\uFEFFAd,Not\r\nŞişli,\r\n");
+    });
+});
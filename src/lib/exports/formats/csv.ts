@@ -0,0 +1,34 @@
+import { createFileWriter } from "./file-writer";
+import type { Exporter } from "./types";
+
+const BOM = "\uFEFF";
+
+// Quotes a field when it contains the delimiter, a quote or a line break; inner quotes are doubled
+function escapeCsv(value: string | number, delimiter: string) {
+    const text = String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const csvExporter: Exporter = {
+    format: "csv",
+    extension: "csv",
+    contentType: "text/csv", // no charset: the template may pick UTF-16
+
+    async write(rows, { columns, delimiter, encoding }, filePath) {
+        const out = createFileWriter(filePath, encoding === "utf16le" ? "utf16le" : "utf8");
+        const line = (values: (string | number)[]) => values.map(v => escapeCsv(v, delimiter)).join(delimiter) + "\r\n";
+        let count = 0;
+        try {
+            // Excel only detects UTF-8/UTF-16 reliably with a byte order mark
+            if (encoding !== "utf8") await out.write(BOM);
+            await out.write(line(columns.map(c => c.header)));
+            for await (const place of rows) {
+                await out.write(line(columns.map(c => c.value(place))));
+                count++;
+            }
+        } finally {
+            await out.close();
+        }
+        return count;
+    },
+};
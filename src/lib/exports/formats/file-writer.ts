@@ -0,0 +1,19 @@
+import fs from "fs";
+import { once } from "events";
+
+/**
+ * Thin wrapper over a write stream that waits on backpressure, so exporters can
+ * write row by row without buffering the file in memory.
+ */
+export function createFileWriter(filePath: string, encoding: "utf8" | "utf16le" = "utf8") {
+    const out = fs.createWriteStream(filePath, { encoding });
+    return {
+        async write(text: string) {
+            if (!out.write(text, encoding)) await once(out, "drain");
+        },
+        async close() {
+            out.end();
+            await once(out, "close");
+        },
+    };
+}
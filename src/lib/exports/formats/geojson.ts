@@ -0,0 +1,33 @@
+import { toExportRecord } from "../columns";
+import { createFileWriter } from "./file-writer";
+import type { Exporter } from "./types";
+
+// FeatureCollection of points; places without coordinates are skipped
+export const geojsonExporter: Exporter = {
+    format: "geojson",
+    extension: "geojson",
+    contentType: "application/geo+json; charset=utf-8",
+
+    async write(rows, _layout, filePath) {
+        const out = createFileWriter(filePath);
+        let count = 0;
+        try {
+            await out.write('{"type":"FeatureCollection","features":[\n');
+            for await (const place of rows) {
+                if (place.latitude === null || place.longitude === null) continue;
+                const { latitude, longitude, ...properties } = toExportRecord(place);
+                const feature = {
+                    type: "Feature",
+                    geometry: { type: "Point", coordinates: [longitude, latitude] },
+                    properties,
+                };
+                await out.write((count > 0 ? ",\n" : "") + JSON.stringify(feature));
+                count++;
+            }
+            await out.write("\n]}\n");
+        } finally {
+            await out.close();
+        }
+        return count;
+    },
+};
@@ -0,0 +1,25 @@
+import { csvExporter } from "./csv";
+import { xlsxExporter } from "./xlsx";
+import { odsExporter } from "./ods";
+import { vcardExporter } from "./vcard";
+import { jsonlExporter } from "./jsonl";
+import { geojsonExporter } from "./geojson";
+import { kmlExporter } from "./kml";
+import type { ExportFormat, Exporter } from "./types";
+
+export { EXPORT_FORMATS, isExportFormat } from "./types";
+export type { ExportFormat, Exporter } from "./types";
+
+const EXPORTERS: Record<ExportFormat, Exporter> = {
+    csv: csvExporter,
+    xlsx: xlsxExporter,
+    ods: odsExporter,
+    vcf: vcardExporter,
+    jsonl: jsonlExporter,
+    geojson: geojsonExporter,
+    kml: kmlExporter,
+};
+
+export function getExporter(format: ExportFormat): Exporter {
+    return EXPORTERS[format];
+}
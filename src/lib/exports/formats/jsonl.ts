@@ -0,0 +1,24 @@
+import { toExportRecord } from "../columns";
+import { createFileWriter } from "./file-writer";
+import type { Exporter } from "./types";
+
+// One JSON object per line; columns don't apply, every field is included
+export const jsonlExporter: Exporter = {
+    format: "jsonl",
+    extension: "jsonl",
+    contentType: "application/x-ndjson; charset=utf-8",
+
+    async write(rows, _layout, filePath) {
+        const out = createFileWriter(filePath);
+        let count = 0;
+        try {
+            for await (const place of rows) {
+                await out.write(JSON.stringify(toExportRecord(place)) + "\n");
+                count++;
+            }
+        } finally {
+            await out.close();
+        }
+        return count;
+    },
+};
@@ -0,0 +1,37 @@
+import { createFileWriter } from "./file-writer";
+import { escapeXml } from "./xml";
+import type { Exporter } from "./types";
+
+// One placemark per place; the description carries the selected columns
+export const kmlExporter: Exporter = {
+    format: "kml",
+    extension: "kml",
+    contentType: "application/vnd.google-earth.kml+xml; charset=utf-8",
+
+    async write(rows, { columns }, filePath) {
+        const out = createFileWriter(filePath);
+        const detailColumns = columns.filter(c => c.key !== "name");
+        let count = 0;
+        try {
+            await out.write('<?xml version="1.0" encoding="UTF-8"?>\n<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Zakrom</name>\n');
+            for await (const place of rows) {
+                if (place.latitude === null || place.longitude === null) continue;
+                const description = detailColumns
+                    .map(c => [c.header, c.value(place)] as const)
+                    .filter(([, value]) => value !== "-" && value !== "")
+                    .map(([header, value]) => `${header}: ${value}`)
+                    .join("\n");
+                await out.write(
+                    `<Placemark><name>${escapeXml(place.name)}</name>` +
+                    `<description>${escapeXml(description)}</description>` +
+                    `<Point><coordinates>${place.longitude},${place.latitude},0</coordinates></Point></Placemark>\n`
+                );
+                count++;
+            }
+            await out.write("</Document></kml>\n");
+        } finally {
+            await out.close();
+        }
+        return count;
+    },
+};
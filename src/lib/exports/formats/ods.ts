@@ -0,0 +1,63 @@
+import fs from "fs";
+import { createFileWriter } from "./file-writer";
+import { createZipWriter } from "./zip";
+import { escapeXml } from "./xml";
+import type { Exporter } from "./types";
+
+const MIMETYPE = "application/vnd.oasis.opendocument.spreadsheet";
+
+const MANIFEST = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+ <manifest:file-entry manifest:full-path="/" manifest:media-type="${MIMETYPE}"/>
+ <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>
+`;
+
+const CONTENT_HEAD = `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0" xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" office:version="1.2">
+<office:body><office:spreadsheet><table:table table:name="Arama Sonuçları">
+`;
+
+const CONTENT_TAIL = "</table:table></office:spreadsheet></office:body></office:document-content>\n";
+
+function cell(value: string | number) {
+    if (typeof value === "number") {
+        return `<table:table-cell office:value-type="float" office:value="${value}"><text:p>${value}</text:p></table:table-cell>`;
+    }
+    return `<table:table-cell office:value-type="string"><text:p>${escapeXml(value)}</text:p></table:table-cell>`;
+}
+
+// OpenDocument spreadsheet: content.xml is streamed to a temp file, then zipped
+export const odsExporter: Exporter = {
+    format: "ods",
+    extension: "ods",
+    contentType: MIMETYPE,
+
+    async write(rows, { columns }, filePath) {
+        const contentPath = `${filePath}.content.xml`;
+        const content = createFileWriter(contentPath);
+        let count = 0;
+        try {
+            try {
+                await content.write(CONTENT_HEAD);
+                await content.write(`<table:table-row>${columns.map(c => cell(c.header)).join("")}</table:table-row>\n`);
+                for await (const place of rows) {
+                    await content.write(`<table:table-row>${columns.map(c => cell(c.value(place))).join("")}</table:table-row>\n`);
+                    count++;
+                }
+                await content.write(CONTENT_TAIL);
+            } finally {
+                await content.close();
+            }
+
+            const zip = createZipWriter(filePath);
+            await zip.addStored("mimetype", MIMETYPE); // must be first and uncompressed
+            await zip.addStored("META-INF/manifest.xml", MANIFEST);
+            await zip.addFile("content.xml", contentPath);
+            await zip.close();
+        } finally {
+            await fs.promises.rm(contentPath, { force: true });
+        }
+        return count;
+    },
+};
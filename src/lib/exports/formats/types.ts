@@ -0,0 +1,28 @@
+import type { ExportPlace } from "../columns";
+import type { ExportLayout } from "../layout";
+
+export type ExportFormat = "csv" | "xlsx" | "ods" | "vcf" | "jsonl" | "geojson" | "kml";
+
+// Safe to import from client components (menus, plan gating)
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+    { value: "csv", label: "CSV", description: "Her tablo programıyla açılır" },
+    { value: "xlsx", label: "Excel (XLSX)", description: "Microsoft Excel" },
+    { value: "ods", label: "OpenDocument (ODS)", description: "LibreOffice ve Google E-Tablolar" },
+    { value: "vcf", label: "vCard (VCF)", description: "Telefon rehberine kişi olarak aktarın" },
+    { value: "jsonl", label: "JSON Lines", description: "Veri hatları ve entegrasyonlar için" },
+    { value: "geojson", label: "GeoJSON", description: "Harita uygulamaları ve GIS araçları" },
+    { value: "kml", label: "KML", description: "Google Earth ve Google My Maps" },
+];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+    return typeof value === "string" && EXPORT_FORMATS.some(f => f.value === value);
+}
+
+export interface Exporter {
+    format: ExportFormat;
+    extension: string;
+    contentType: string;
+    // Streams rows into filePath and resolves with the number of rows written.
+    // Tabular formats follow layout.columns; the others write every field.
+    write(rows: AsyncIterable<ExportPlace>, layout: ExportLayout, filePath: string): Promise<number>;
+}
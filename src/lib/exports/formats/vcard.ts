@@ -0,0 +1,75 @@
+import type { ExportPlace } from "../columns";
+import { createFileWriter } from "./file-writer";
+import type { Exporter } from "./types";
+
+const MAX_LINE_OCTETS = 75;
+
+// RFC 6350 §3.4 text escaping
+function escapeText(value: string) {
+    return value.replace(/\\/g, "\\\\").replace(/\r?\n/g, "\\n").replace(/,/g, "\\,").replace(/;/g, "\\;");
+}
+
+// Lines longer than 75 octets are folded with CRLF + space, without splitting a UTF-8 character
+function foldLine(line: string) {
+    const parts: string[] = [];
+    let current = "";
+    let octets = 0;
+    for (const ch of line) {
+        const size = Buffer.byteLength(ch);
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = "";
+            octets = 0;
+        }
+        current += ch;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
+
+function toVCard(place: ExportPlace) {
+    const socials = (place.socials && typeof place.socials === "object" ? place.socials : {}) as Record<string, string | undefined>;
+    const phones = Array.from(new Set([place.phone, ...place.phones].filter((p): p is string => !!p)));
+    const note = [place.primaryType || place.types[0], place.rating ? `Puan: ${place.rating}` : null].filter(Boolean).join(" · ");
+
+    const lines = [
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        `FN:${escapeText(place.name)}`,
+        `ORG:${escapeText(place.name)}`,
+        ...phones.map((phone, i) => `TEL;TYPE=WORK${i === 0 ? ",VOICE,PREF" : ""}:${escapeText(phone)}`),
+        ...place.emails.map((email, i) => `EMAIL;TYPE=INTERNET${i === 0 ? ",PREF" : ""}:${escapeText(email)}`),
+        place.website ? `URL:${escapeText(place.website)}` : null,
+        place.address ? `ADR;TYPE=WORK:;;${escapeText(place.address)};;;;` : null,
+        place.latitude !== null && place.longitude !== null ? `GEO:${place.latitude};${place.longitude}` : null,
+        ...Object.entries(socials)
+            .filter(([, url]) => typeof url === "string" && url)
+            .map(([network, url]) => `X-SOCIALPROFILE;TYPE=${network}:${escapeText(url!)}`),
+        note ? `NOTE:${escapeText(note)}` : null,
+        "END:VCARD",
+    ];
+    return lines.filter((l): l is string => l !== null).map(foldLine).join("\r\n") + "\r\n";
+}
+
+// One contact card per place, importable into phone and mail address books
+export const vcardExporter: Exporter = {
+    format: "vcf",
+    extension: "vcf",
+    contentType: "text/vcard; charset=utf-8",
+
+    async write(rows, _layout, filePath) {
+        const out = createFileWriter(filePath);
+        let count = 0;
+        try {
+            for await (const place of rows) {
+                await out.write(toVCard(place));
+                count++;
+            }
+        } finally {
+            await out.close();
+        }
+        return count;
+    },
+};
@@ -0,0 +1,24 @@
+import ExcelJS from "exceljs";
+import type { Exporter } from "./types";
+
+export const xlsxExporter: Exporter = {
+    format: "xlsx",
+    extension: "xlsx",
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+
+    async write(rows, { columns }, filePath) {
+        // Streaming writer: committed rows are flushed to disk instead of kept in the workbook
+        const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ filename: filePath, useStyles: false, useSharedStrings: false });
+        const sheet = workbook.addWorksheet("Arama Sonuçları");
+        sheet.columns = columns.map(c => ({ header: c.header, key: c.key, width: c.width }));
+
+        let count = 0;
+        for await (const place of rows) {
+            sheet.addRow(Object.fromEntries(columns.map(c => [c.key, c.value(place)]))).commit();
+            count++;
+        }
+        sheet.commit();
+        await workbook.commit();
+        return count;
+    },
+};
@@ -0,0 +1,134 @@
+import fs from "fs";
+import zlib from "zlib";
+import { once } from "events";
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(buf: Buffer, crc = 0) {
+    let c = crc ^ 0xffffffff;
+    for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date = new Date()) {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+interface CentralEntry {
+    name: Buffer;
+    method: number;
+    flags: number;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    offset: number;
+}
+
+const UTF8_NAMES = 0x0800;
+const DATA_DESCRIPTOR = 0x0008;
+
+/**
+ * Minimal streaming ZIP writer (no ZIP64, so entries stay under 4 GB). Enough for
+ * OpenDocument packages, which need a stored `mimetype` entry first.
+ */
+export function createZipWriter(filePath: string) {
+    const out = fs.createWriteStream(filePath);
+    const entries: CentralEntry[] = [];
+    const stamp = dosDateTime();
+    let position = 0;
+
+    const write = async (chunk: Buffer) => {
+        position += chunk.length;
+        if (!out.write(chunk)) await once(out, "drain");
+    };
+
+    const localHeader = (entry: Omit<CentralEntry, "offset">) => {
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(20, 4);
+        header.writeUInt16LE(entry.flags, 6);
+        header.writeUInt16LE(entry.method, 8);
+        header.writeUInt16LE(stamp.time, 10);
+        header.writeUInt16LE(stamp.date, 12);
+        header.writeUInt32LE(entry.crc, 14);
+        header.writeUInt32LE(entry.compressedSize, 18);
+        header.writeUInt32LE(entry.size, 22);
+        header.writeUInt16LE(entry.name.length, 26);
+        header.writeUInt16LE(0, 28);
+        return Buffer.concat([header, entry.name]);
+    };
+
+    return {
+        // Uncompressed entry with known content
+        async addStored(name: string, content: string) {
+            const data = Buffer.from(content, "utf8");
+            const entry = { name: Buffer.from(name, "utf8"), method: 0, flags: UTF8_NAMES, crc: crc32(data), compressedSize: data.length, size: data.length };
+            entries.push({ ...entry, offset: position });
+            await write(localHeader(entry));
+            await write(data);
+        },
+
+        // Deflates a file from disk chunk by chunk; sizes and CRC follow in a data descriptor
+        async addFile(name: string, sourcePath: string) {
+            const entry: CentralEntry = { name: Buffer.from(name, "utf8"), method: 8, flags: UTF8_NAMES | DATA_DESCRIPTOR, crc: 0, compressedSize: 0, size: 0, offset: position };
+            await write(localHeader(entry));
+
+            const deflate = zlib.createDeflateRaw();
+            const source = fs.createReadStream(sourcePath);
+            source.on("data", (chunk) => {
+                const buf = chunk as Buffer;
+                entry.crc = crc32(buf, entry.crc);
+                entry.size += buf.length;
+            });
+            source.pipe(deflate);
+            for await (const chunk of deflate) {
+                entry.compressedSize += (chunk as Buffer).length;
+                await write(chunk as Buffer);
+            }
+
+            const descriptor = Buffer.alloc(16);
+            descriptor.writeUInt32LE(0x08074b50, 0);
+            descriptor.writeUInt32LE(entry.crc, 4);
+            descriptor.writeUInt32LE(entry.compressedSize, 8);
+            descriptor.writeUInt32LE(entry.size, 12);
+            await write(descriptor);
+            entries.push(entry);
+        },
+
+        async close() {
+            const centralOffset = position;
+            for (const entry of entries) {
+                const header = Buffer.alloc(46);
+                header.writeUInt32LE(0x02014b50, 0);
+                header.writeUInt16LE(20, 4);
+                header.writeUInt16LE(20, 6);
+                header.writeUInt16LE(entry.flags, 8);
+                header.writeUInt16LE(entry.method, 10);
+                header.writeUInt16LE(stamp.time, 12);
+                header.writeUInt16LE(stamp.date, 14);
+                header.writeUInt32LE(entry.crc, 16);
+                header.writeUInt32LE(entry.compressedSize, 20);
+                header.writeUInt32LE(entry.size, 24);
+                header.writeUInt16LE(entry.name.length, 28);
+                header.writeUInt32LE(entry.offset, 42);
+                await write(Buffer.concat([header, entry.name]));
+            }
+            const end = Buffer.alloc(22);
+            end.writeUInt32LE(0x06054b50, 0);
+            end.writeUInt16LE(entries.length, 8);
+            end.writeUInt16LE(entries.length, 10);
+            end.writeUInt32LE(position - centralOffset, 12);
+            end.writeUInt32LE(centralOffset, 16);
+            await write(end);
+            out.end();
+            await once(out, "close");
+        },
+    };
+}
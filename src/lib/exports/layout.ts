@@ -0,0 +1,75 @@
+import { DEFAULT_EXPORT_COLUMN_KEYS, EXPORT_COLUMNS, type ExportColumn } from "./columns";
+
+export type ExportDelimiter = "," | ";" | "\t";
+export type ExportEncoding = "utf8" | "utf8-bom" | "utf16le";
+
+export const EXPORT_DELIMITERS: { value: ExportDelimiter; label: string }[] = [
+    { value: ",", label: "Virgül (,)" },
+    { value: ";", label: "Noktalı virgül (;)" },
+    { value: "\t", label: "Sekme" },
+];
+
+export const EXPORT_ENCODINGS: { value: ExportEncoding; label: string }[] = [
+    { value: "utf8", label: "UTF-8" },
+    { value: "utf8-bom", label: "UTF-8 BOM (Excel)" },
+    { value: "utf16le", label: "UTF-16 LE" },
+];
+
+export const MAX_HEADER_LENGTH = 60;
+
+// Stored form (ExportTemplate / Export.layout); headers are optional overrides
+export interface ExportLayoutConfig {
+    columns: { key: string; header?: string }[];
+    delimiter: ExportDelimiter;
+    encoding: ExportEncoding;
+}
+
+// What exporters receive
+export interface ExportLayout {
+    columns: ExportColumn[];
+    delimiter: ExportDelimiter;
+    encoding: ExportEncoding;
+}
+
+export const DEFAULT_EXPORT_LAYOUT: ExportLayoutConfig = {
+    columns: DEFAULT_EXPORT_COLUMN_KEYS.map(key => ({ key })),
+    delimiter: ",",
+    encoding: "utf8",
+};
+
+const COLUMNS_BY_KEY = new Map(EXPORT_COLUMNS.map(c => [c.key, c]));
+
+/**
+ * Drops unknown and duplicate columns and blank headers from a stored or submitted layout.
+ * Unknown delimiters/encodings fall back to the defaults.
+ */
+export function normalizeExportLayout(value: unknown): ExportLayoutConfig {
+    const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+    const seen = new Set<string>();
+    const columns: ExportLayoutConfig["columns"] = [];
+    for (const entry of Array.isArray(raw.columns) ? raw.columns : []) {
+        const item = (typeof entry === "string" ? { key: entry } : entry || {}) as { key?: unknown; header?: unknown };
+        const key = item.key;
+        if (typeof key !== "string" || !COLUMNS_BY_KEY.has(key) || seen.has(key)) continue;
+        seen.add(key);
+        const header = typeof item.header === "string" ? item.header.trim().slice(0, MAX_HEADER_LENGTH) : "";
+        columns.push(header ? { key, header } : { key });
+    }
+    const delimiter = EXPORT_DELIMITERS.find(d => d.value === raw.delimiter)?.value ?? DEFAULT_EXPORT_LAYOUT.delimiter;
+    const encoding = EXPORT_ENCODINGS.find(e => e.value === raw.encoding)?.value ?? DEFAULT_EXPORT_LAYOUT.encoding;
+    return { columns, delimiter, encoding };
+}
+
+export function resolveExportLayout(config: ExportLayoutConfig | null | undefined): ExportLayout {
+    const { columns, delimiter, encoding } = config && config.columns.length > 0 ? config : DEFAULT_EXPORT_LAYOUT;
+    return {
+        columns: columns
+            .filter(c => COLUMNS_BY_KEY.has(c.key))
+            .map(c => {
+                const column = COLUMNS_BY_KEY.get(c.key)!;
+                return c.header ? { ...column, header: c.header } : column;
+            }),
+        delimiter,
+        encoding,
+    };
+}
@@ -0,0 +1,34 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { getAppUrl } from "@/lib/auth/request";
+
+export const EXPORT_LINK_TTL_SECONDS = Number(process.env.EXPORT_LINK_TTL_SECONDS || 3600);
+
+function getSigningSecret() {
+    const secret = process.env.EXPORT_SIGNING_SECRET || process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
+    if (!secret) throw new Error("EXPORT_SIGNING_SECRET (or AUTH_SECRET) is not set");
+    return secret;
+}
+
+function sign(exportId: string, expires: number) {
+    return createHmac("sha256", getSigningSecret()).update(`${exportId}.${expires}`).digest("hex");
+}
+
+/**
+ * Download link that works without a session (e.g. from a webhook receiver) until it expires.
+ * Links never outlive the file itself.
+ */
+export function buildExportDownloadUrl(exportId: string, fileExpiresAt: Date, ttlSeconds = EXPORT_LINK_TTL_SECONDS) {
+    const expires = Math.floor(Math.min(Date.now() + ttlSeconds * 1000, fileExpiresAt.getTime()) / 1000);
+    return {
+        url: `${getAppUrl()}/api/exports/${exportId}/download?expires=${expires}&signature=${sign(exportId, expires)}`,
+        expiresAt: new Date(expires * 1000),
+    };
+}
+
+export function verifyExportSignature(exportId: string, expires: string | null, signature: string | null) {
+    const expiresAt = Number(expires);
+    if (!signature || !Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) return false;
+    const expected = Buffer.from(sign(exportId, expiresAt));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+}
@@ -0,0 +1,94 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getWorkspace, leadScope, stageScope, type Workspace } from "@/lib/org/workspace";
+import { loadSuppressionMatcher } from "@/lib/crm/exclusions";
+import type { SuppressionMatcher } from "@/lib/crm/suppression";
+import { EXPORT_PLACE_SELECT, type ExportLeadInfo, type ExportPlace } from "./columns";
+
+const BATCH_SIZE = 500;
+
+export const MAX_EXPORT_ROWS = Number(process.env.EXPORT_MAX_ROWS || 50000);
+
+// What an export contains; stored on Export.source and re-read by the worker.
+// "places" is a selection of result rows; "leads" is resolved by the worker from the workspace's leads.
+export type ExportSource =
+    | { type: "places"; placeIds: string[] }
+    | { type: "leads"; listId: string | null };
+
+export function isExportSource(value: unknown): value is ExportSource {
+    const source = value as ExportSource | null;
+    if (!source) return false;
+    if (source.type === "places") return Array.isArray(source.placeIds);
+    return source.type === "leads" && (source.listId === null || typeof source.listId === "string");
+}
+
+// The workspace's leads, or only those on one of its lists
+export function leadsExportWhere(workspace: Workspace, listId: string | null): Prisma.LeadWhereInput {
+    return { ...leadScope(workspace), ...(listId ? { listItems: { some: { listId } } } : {}) };
+}
+
+/**
+ * Yields the places of an export in the requested order, one DB batch at a time,
+ * so writers never hold the whole result set in memory. Each row carries the
+ * exporting user's lead (status/notes) for the place, if any. Places on the
+ * workspace's suppression list are always left out.
+ */
+export async function* iterateExportPlaces(source: ExportSource, userId: string): AsyncGenerator<ExportPlace> {
+    const workspace = await getWorkspace(userId);
+    const stages = await prisma.pipelineStage.findMany({ where: stageScope(workspace), select: { key: true, name: true } });
+    const stageNames = new Map(stages.map(s => [s.key, s.name]));
+    const suppression = await loadSuppressionMatcher(workspace);
+
+    if (source.type === "leads") {
+        yield* iterateLeadPlaces(leadsExportWhere(workspace, source.listId), stageNames, suppression);
+        return;
+    }
+
+    for (let i = 0; i < source.placeIds.length; i += BATCH_SIZE) {
+        const ids = source.placeIds.slice(i, i + BATCH_SIZE);
+        const places = await prisma.place.findMany({ where: { googleId: { in: ids } }, select: EXPORT_PLACE_SELECT });
+        const leads = await prisma.lead.findMany({
+            where: { ...leadScope(workspace), placeId: { in: places.map(p => p.id) } },
+            select: { placeId: true, status: true, notes: true }
+        });
+        const leadsByPlace = new Map<string, ExportLeadInfo>(leads.map(l => [
+            l.placeId,
+            { status: l.status, stageName: stageNames.get(l.status) ?? null, notes: l.notes },
+        ]));
+        const byId = new Map(places.map(p => [p.googleId, p]));
+        for (const id of ids) {
+            const place = byId.get(id);
+            if (!place || suppression.matches(place)) continue;
+            yield { ...place, lead: leadsByPlace.get(place.id) ?? null };
+        }
+    }
+}
+
+// The lead order is fixed up front (ids only), then rows are loaded a batch at a time, so scores
+// changing mid-export can't skip or repeat leads and the export never holds more than one batch of rows
+async function* iterateLeadPlaces(
+    where: Prisma.LeadWhereInput,
+    stageNames: Map<string, string>,
+    suppression: SuppressionMatcher
+): AsyncGenerator<ExportPlace> {
+    const ordered = await prisma.lead.findMany({
+        where,
+        orderBy: [{ score: { sort: "desc", nulls: "last" } }, { id: "asc" }],
+        take: MAX_EXPORT_ROWS,
+        select: { id: true },
+    });
+
+    for (let i = 0; i < ordered.length; i += BATCH_SIZE) {
+        const ids = ordered.slice(i, i + BATCH_SIZE).map(lead => lead.id);
+        const leads = await prisma.lead.findMany({
+            where: { ...where, id: { in: ids } },
+            select: { id: true, status: true, notes: true, place: { select: EXPORT_PLACE_SELECT } },
+        });
+        const byId = new Map(leads.map(lead => [lead.id, lead]));
+        for (const id of ids) {
+            const lead = byId.get(id);
+            if (!lead || suppression.matches(lead.place)) continue;
+            yield { ...lead.place, lead: { status: lead.status, stageName: stageNames.get(lead.status) ?? null, notes: lead.notes } };
+        }
+    }
+}
@@ -1,17 +1,51 @@
 import { withCircuitBreaker, withInflightLimiter, sleep } from "@/lib/traffic-control";
-import { GridGenerator, Viewport } from "@/lib/grid-generator";
+import { GridGenerator, GridCell, Viewport } from "@/lib/grid-generator";
+import { cellIntersectsArea, type SearchArea } from "@/lib/geo/polygon";
+import { circleBounds, haversineMeters } from "@/lib/geo/distance";
+import type { AdaptiveScanOptions, AdaptiveScanResult, GatewayResponse, LatLng, LocationBias, LocationRestriction, PlacesProvider, ProviderPhoto, ProviderPlace, SearchTextOptions, TypeFilter } from "./types";
 
 const GOOGLE_API_KEYS = (process.env.GOOGLE_API_KEYS || process.env.GOOGLE_MAPS_API_KEY || "").split(",").filter(Boolean);
 const FETCH_TIMEOUT_MS = Number(process.env.GOOGLE_PLACES_FETCH_TIMEOUT_MS || 10000);
 const MAX_CONCURRENCY = 100; // Increased for deep country-wide scans
 
-export interface GatewayResponse {
-    places: any[];
-    nextPageToken?: string;
+export type { GatewayResponse, LocationRestriction, TypeFilter, AdaptiveScanOptions, AdaptiveScanResult, ProviderPlace } from "./types";
+
+const FIELD_MASK_FIELDS = "id,displayName,formattedAddress,nationalPhoneNumber,websiteUri,rating,userRatingCount,regularOpeningHours,businessStatus,location,viewport,photos,types,primaryType,primaryTypeDisplayName";
+
+// Places API (New) place resource, limited to FIELD_MASK_FIELDS
+interface GooglePlace {
+    id: string;
+    displayName?: { text: string };
+    formattedAddress?: string;
+    nationalPhoneNumber?: string;
+    websiteUri?: string;
+    rating?: number;
+    userRatingCount?: number;
+    regularOpeningHours?: { openNow?: boolean; weekdayDescriptions?: string[] };
+    businessStatus?: string;
+    location?: LatLng;
+    viewport?: { low: LatLng; high: LatLng };
+    photos?: ProviderPhoto[];
+    types?: string[];
+    primaryType?: string;
+    primaryTypeDisplayName?: { text: string };
+}
+
+interface SearchTextRequest {
+    textQuery: string;
+    languageCode: string;
+    pageSize: number;
+    pageToken?: string;
+    locationRestriction?: LocationRestriction;
+    locationBias?: LocationBias;
+    rankPreference?: "DISTANCE";
+    includedType?: string;
+    strictTypeFiltering?: boolean;
 }
 
-class GooglePlacesGateway {
+class GooglePlacesGateway implements PlacesProvider {
     private static instance: GooglePlacesGateway;
+    public readonly id = "google" as const;
     private currentKeyIndex = 0;
 
     private constructor() { }
@@ -40,10 +74,8 @@ class GooglePlacesGateway {
         }
     }
 
-    public async scanCity(query: string, viewport: Viewport, options: { gridSize?: number; maxPagesPerGrid?: number } = {}): Promise<any[]> {
-        const gridPoints = options.gridSize
-            ? GridGenerator.generateGrid(viewport, options.gridSize)
-            : GridGenerator.generate3x3Grid(viewport);
+    public async scanCity(query: string, viewport: Viewport, options: { gridSize?: number; maxPagesPerGrid?: number; area?: SearchArea } & TypeFilter = {}): Promise<ProviderPlace[]> {
+        const gridPoints = GridGenerator.generateGrid(viewport, options.gridSize || 3, options.area);
         const MAX_PAGES_PER_GRID = options.maxPagesPerGrid || 3; // Fetch up to 60 results per grid cell
 
         // Execute parallel requests for each grid sector
@@ -53,14 +85,14 @@ class GooglePlacesGateway {
         const results = await Promise.all(gridPoints.map(async (point, index) => {
             console.log(`[Grid Scan] Processing point ${index + 1}/${gridPoints.length}: ${point.lat},${point.lng}`);
             // We use locationBias to focus the search on this specific grid cell
-            const locationBias = {
+            const locationBias: LocationBias = {
                 circle: {
                     center: { latitude: point.lat, longitude: point.lng },
                     radius: point.radius
                 }
             };
 
-            let allGridPlaces: any[] = [];
+            const allGridPlaces: ProviderPlace[] = [];
             let nextPageToken: string | undefined = undefined;
             let pageCount = 0;
 
@@ -71,7 +103,9 @@ class GooglePlacesGateway {
 
                     const response: GatewayResponse = await this.searchText(query, {
                         locationBias,
-                        pageToken: nextPageToken
+                        pageToken: nextPageToken,
+                        includedType: options.includedType,
+                        strictTypeFiltering: options.strictTypeFiltering
                     });
 
                     if (response.places && response.places.length > 0) {
@@ -97,9 +131,125 @@ class GooglePlacesGateway {
         return results.flat();
     }
 
-    public async searchText(query: string, options: { pageToken?: string; pageSize?: number; locationBias?: any } = {}): Promise<GatewayResponse> {
+    /**
+     * Adaptive quadtree scan. Starts from a coarse grid and splits a cell into four
+     * whenever it saturates (page cap reached while Google still returns a nextPageToken).
+     * Sparse cells stop after their last page, so empty areas cost a single request.
+     * Every page request is charged against `requestBudget`; the scan stops when it runs out.
+     */
+    public async scanAdaptive(query: string, viewport: Viewport, options: AdaptiveScanOptions): Promise<AdaptiveScanResult> {
+        const maxDepth = options.maxDepth ?? 5;
+        const maxPagesPerCell = options.maxPagesPerCell || 3;
+        const concurrency = Math.max(1, options.concurrency || 8);
+        const queue: GridCell[] = GridGenerator.generateCells(viewport, options.initialGridSize || 2, options.area);
+
+        let budget = Math.max(0, Math.floor(options.requestBudget));
+        const stats = { requestsUsed: 0, cellsScanned: 0, cellsSplit: 0, saturatedLeaves: 0 };
+        const places: ProviderPlace[] = [];
+
+        console.log(`[Adaptive Scan] Starting. Initial cells: ${queue.length}, budget: ${budget}, maxDepth: ${maxDepth}`);
+
+        const scanCell = async (cell: GridCell) => {
+            const locationRestriction: LocationRestriction = {
+                rectangle: {
+                    low: { latitude: cell.bounds.southwest.lat, longitude: cell.bounds.southwest.lng },
+                    high: { latitude: cell.bounds.northeast.lat, longitude: cell.bounds.northeast.lng },
+                }
+            };
+
+            let nextPageToken: string | undefined = undefined;
+            let pageCount = 0;
+
+            try {
+                do {
+                    if (budget <= 0) break;
+                    if (pageCount > 0) await sleep(2000);
+
+                    budget--;
+                    stats.requestsUsed++;
+                    const response: GatewayResponse = await this.searchText(query, {
+                        locationRestriction,
+                        pageToken: nextPageToken,
+                        includedType: options.includedType,
+                        strictTypeFiltering: options.strictTypeFiltering
+                    });
+                    places.push(...response.places);
+
+                    nextPageToken = response.nextPageToken;
+                    pageCount++;
+                } while (nextPageToken && pageCount < maxPagesPerCell);
+            } catch (e) {
+                console.error(`[Adaptive Scan] Failed for cell at depth ${cell.depth}:`, e);
+                return;
+            }
+
+            stats.cellsScanned++;
+            const saturated = pageCount >= maxPagesPerCell && !!nextPageToken;
+            if (!saturated) return;
+
+            // Only split when each child can get at least one request
+            if (cell.depth < maxDepth && budget >= 4) {
+                stats.cellsSplit++;
+                const children = GridGenerator.subdivide(cell);
+                queue.push(...(options.area ? children.filter(c => cellIntersectsArea(c.bounds, options.area!)) : children));
+            } else {
+                stats.saturatedLeaves++;
+            }
+        };
+
+        // Worker pool: each runner keeps pulling cells (including freshly split ones) until the queue drains
+        let active = 0;
+        await new Promise<void>((resolve) => {
+            const pump = () => {
+                while (active < concurrency && queue.length > 0 && budget > 0) {
+                    const cell = queue.shift()!;
+                    active++;
+                    scanCell(cell).finally(() => {
+                        active--;
+                        pump();
+                    });
+                }
+                if (active === 0) resolve();
+            };
+            pump();
+        });
+
+        console.log(`[Adaptive Scan] Done. Requests: ${stats.requestsUsed}, cells: ${stats.cellsScanned}, splits: ${stats.cellsSplit}, saturated leaves: ${stats.saturatedLeaves}, places: ${places.length}`);
+
+        return { places, ...stats };
+    }
+
+    public searchArea(query: string, viewport: Viewport, options: AdaptiveScanOptions): Promise<AdaptiveScanResult> {
+        return this.scanAdaptive(query, viewport, options);
+    }
+
+    public async getDetails(placeId: string): Promise<ProviderPlace | null> {
+        const url = `https://places.googleapis.com/v1/places/${encodeURIComponent(placeId)}?languageCode=tr`;
+
+        return withCircuitBreaker("google-places", { resetTimeoutSec: 60 }, async () => {
+            return withInflightLimiter("google-places:inflight", MAX_CONCURRENCY, 30, async () => {
+                const response = await this.fetchWithTimeout(
+                    url,
+                    {
+                        headers: {
+                            "X-Goog-Api-Key": this.getNextApiKey(),
+                            "X-Goog-FieldMask": FIELD_MASK_FIELDS,
+                        },
+                    },
+                    FETCH_TIMEOUT_MS
+                );
+                if (response.status === 404) return null;
+                if (!response.ok) {
+                    throw new Error(`Google Places API Error: ${response.status} - ${await response.text()}`);
+                }
+                return this.transformPlace(await response.json() as GooglePlace);
+            });
+        });
+    }
+
+    public async searchText(query: string, options: SearchTextOptions = {}): Promise<GatewayResponse> {
         const url = "https://places.googleapis.com/v1/places:searchText";
-        const fieldMask = "places.id,places.displayName,places.formattedAddress,places.nationalPhoneNumber,places.websiteUri,places.rating,places.userRatingCount,places.regularOpeningHours,places.businessStatus,places.location,places.viewport,places.photos,nextPageToken";
+        const fieldMask = `${FIELD_MASK_FIELDS.split(",").map(f => `places.${f}`).join(",")},nextPageToken`;
 
         return withCircuitBreaker("google-places", { resetTimeoutSec: 60 }, async () => {
             return withInflightLimiter("google-places:inflight", MAX_CONCURRENCY, 30, async () => {
@@ -109,17 +259,38 @@ class GooglePlacesGateway {
                 while (attempt < maxAttempts) {
                     const apiKey = this.getNextApiKey();
                     try {
-                        const body: any = {
+                        const body: SearchTextRequest = {
                             textQuery: query,
                             languageCode: "tr",
                             pageSize: options.pageSize || 20,
                             pageToken: options.pageToken,
                         };
 
-                        if (options.locationBias) {
+                        if (options.locationRestriction && "circle" in options.locationRestriction) {
+                            // Text Search only restricts by rectangle: send the circle's bounds, trim by distance below
+                            const { center, radius } = options.locationRestriction.circle;
+                            const bounds = circleBounds(center.latitude, center.longitude, radius);
+                            body.locationRestriction = {
+                                rectangle: {
+                                    low: { latitude: bounds.southwest.lat, longitude: bounds.southwest.lng },
+                                    high: { latitude: bounds.northeast.lat, longitude: bounds.northeast.lng },
+                                }
+                            };
+                        } else if (options.locationRestriction) {
+                            body.locationRestriction = options.locationRestriction;
+                        } else if (options.locationBias) {
                             body.locationBias = options.locationBias;
                         }
 
+                        if (options.rankByDistance) {
+                            body.rankPreference = "DISTANCE";
+                        }
+
+                        if (options.includedType) {
+                            body.includedType = options.includedType;
+                            body.strictTypeFiltering = !!options.strictTypeFiltering;
+                        }
+
                         const response = await this.fetchWithTimeout(
                             url,
                             {
@@ -147,13 +318,28 @@ class GooglePlacesGateway {
                             throw new Error(`Google Places API Error: ${response.status} - ${errorText}`);
                         }
 
-                        const data = await response.json();
+                        const data = await response.json() as { places?: GooglePlace[]; nextPageToken?: string };
+                        let places = (data.places || []).map(this.transformPlace);
+
+                        if (options.locationRestriction && "circle" in options.locationRestriction) {
+                            const { center, radius } = options.locationRestriction.circle;
+                            places = places
+                                .map(p => ({
+                                    ...p,
+                                    distance_meters: p.location
+                                        ? Math.round(haversineMeters(center.latitude, center.longitude, p.location.latitude, p.location.longitude))
+                                        : undefined,
+                                }))
+                                .filter(p => p.distance_meters !== undefined && p.distance_meters <= radius)
+                                .sort((a, b) => (a.distance_meters ?? 0) - (b.distance_meters ?? 0));
+                        }
+
                         return {
-                            places: (data.places || []).map(this.transformPlace),
+                            places,
                             nextPageToken: data.nextPageToken
                         };
-                    } catch (error: any) {
-                        if (error.name === 'AbortError' && attempt < maxAttempts - 1) {
+                    } catch (error) {
+                        if (error instanceof Error && error.name === 'AbortError' && attempt < maxAttempts - 1) {
                             attempt++;
                             continue;
                         }
@@ -165,7 +351,7 @@ class GooglePlacesGateway {
         });
     }
 
-    private transformPlace(place: any) {
+    private transformPlace(place: GooglePlace): ProviderPlace {
         return {
             place_id: place.id,
             name: place.displayName?.text || "",
@@ -175,11 +361,15 @@ class GooglePlacesGateway {
             formatted_phone_number: place.nationalPhoneNumber,
             website: place.websiteUri,
             business_status: place.businessStatus,
+            types: place.types || [],
+            primary_type: place.primaryType,
+            primary_type_display_name: place.primaryTypeDisplayName?.text,
             location: place.location,
             viewport: place.viewport,
             photos: place.photos || [],
             opening_hours: {
-                open_now: place.regularOpeningHours?.openNow
+                open_now: place.regularOpeningHours?.openNow,
+                weekday_text: place.regularOpeningHours?.weekdayDescriptions
             }
         };
     }
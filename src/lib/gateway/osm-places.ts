@@ -0,0 +1,354 @@
+import { withCircuitBreaker, withInflightLimiter, sleep } from "@/lib/traffic-control";
+import { GridGenerator, Viewport } from "@/lib/grid-generator";
+import { circleBounds, haversineMeters } from "@/lib/geo/distance";
+import { PLACE_TYPE_OPTIONS } from "@/lib/places/place-types";
+import type { AdaptiveScanOptions, AdaptiveScanResult, GatewayResponse, PlacesProvider, ProviderPlace, SearchTextOptions } from "./types";
+
+// Public endpoints by default; point both at `scripts/mock-overpass-server.mjs` for offline development
+const OVERPASS_URL = (process.env.OVERPASS_URL || "https://overpass-api.de").replace(/\/$/, "");
+const NOMINATIM_URL = (process.env.NOMINATIM_URL || "https://nominatim.openstreetmap.org").replace(/\/$/, "");
+const OSM_USER_AGENT = process.env.OSM_USER_AGENT || "PazarlamaMaps/1.0 (places search)";
+const FETCH_TIMEOUT_MS = Number(process.env.OSM_FETCH_TIMEOUT_MS || 30000);
+const MAX_CONCURRENCY = Number(process.env.OSM_MAX_CONCURRENCY || 2); // Public Overpass allows ~2 slots per IP
+const MAX_CELL_AREA_DEG2 = 0.04; // ~20x20 km per Overpass request
+const MAX_RESULTS_PER_CELL = 2000;
+
+// Google type -> OSM tags (key=value). Used for includedType and for keywords that name a known type.
+const OSM_TAGS_BY_TYPE: Record<string, string[]> = {
+    restaurant: ["amenity=restaurant"],
+    cafe: ["amenity=cafe"],
+    coffee_shop: ["amenity=cafe", "shop=coffee"],
+    bakery: ["shop=bakery"],
+    bar: ["amenity=bar", "amenity=pub"],
+    gym: ["leisure=fitness_centre"],
+    sporting_goods_store: ["shop=sports"],
+    beauty_salon: ["shop=beauty"],
+    hair_salon: ["shop=hairdresser"],
+    spa: ["amenity=spa", "shop=massage"],
+    dentist: ["amenity=dentist"],
+    doctor: ["amenity=doctors", "amenity=clinic"],
+    hospital: ["amenity=hospital"],
+    pharmacy: ["amenity=pharmacy"],
+    veterinary_care: ["amenity=veterinary"],
+    lawyer: ["office=lawyer"],
+    accounting: ["office=accountant"],
+    real_estate_agency: ["office=estate_agent"],
+    insurance_agency: ["office=insurance"],
+    car_repair: ["shop=car_repair"],
+    car_dealer: ["shop=car"],
+    lodging: ["tourism=hotel", "tourism=guest_house", "tourism=hostel"],
+    hotel: ["tourism=hotel"],
+    clothing_store: ["shop=clothes"],
+    furniture_store: ["shop=furniture"],
+    electronics_store: ["shop=electronics"],
+    supermarket: ["shop=supermarket"],
+    school: ["amenity=school"],
+    travel_agency: ["shop=travel_agency"],
+};
+
+const TYPE_BY_OSM_TAG = new Map<string, string>();
+for (const [type, tags] of Object.entries(OSM_TAGS_BY_TYPE)) {
+    for (const tag of tags) if (!TYPE_BY_OSM_TAG.has(tag)) TYPE_BY_OSM_TAG.set(tag, type);
+}
+
+const TYPED_TAG_KEYS = ["amenity", "shop", "office", "leisure", "tourism", "craft", "healthcare"];
+
+// "spor salonu" / "gym" / "gyms" -> "gym"
+function typeForKeyword(keyword: string) {
+    const normalized = keyword.trim().toLocaleLowerCase("tr-TR");
+    const match = PLACE_TYPE_OPTIONS.find(o =>
+        o.label.toLocaleLowerCase("tr-TR") === normalized
+        || o.value.replace(/_/g, " ") === normalized
+        || `${o.value.replace(/_/g, " ")}s` === normalized
+    );
+    return match?.value;
+}
+
+function escapeOverpassRegex(value: string) {
+    return value.replace(/[\\.*+?^${}()|[\]"]/g, "\\$&");
+}
+
+function tagSelector(tag: string) {
+    const [key, value] = tag.split("=");
+    return `["${key}"="${value}"]`;
+}
+
+type Bbox = { south: number; west: number; north: number; east: number };
+
+interface OsmElement {
+    type: "node" | "way" | "relation";
+    id: number;
+    lat?: number;
+    lon?: number;
+    center?: { lat: number; lon: number };
+    tags?: Record<string, string>;
+}
+
+interface NominatimResult {
+    osm_type: string;
+    osm_id: number;
+    lat: string;
+    lon: string;
+    name?: string;
+    display_name?: string;
+    category?: string;
+    type?: string;
+    boundingbox?: string[];
+    extratags?: Record<string, string> | null;
+}
+
+function viewportToBbox(viewport: Viewport): Bbox {
+    return {
+        south: viewport.southwest.lat,
+        west: viewport.southwest.lng,
+        north: viewport.northeast.lat,
+        east: viewport.northeast.lng,
+    };
+}
+
+/**
+ * Overpass QL for a keyword inside a bbox: known types become tag filters,
+ * anything else (and non-strict type searches) also matches on the name.
+ */
+function buildOverpassQuery(keyword: string, bbox: Bbox, options: SearchTextOptions, limit: number) {
+    const box = `(${bbox.south},${bbox.west},${bbox.north},${bbox.east})`;
+    const type = options.includedType || typeForKeyword(keyword);
+    const tags = type ? OSM_TAGS_BY_TYPE[type] || [] : [];
+    const statements = tags.map(tag => `nwr${tagSelector(tag)}${box};`);
+
+    const strict = !!options.includedType && !!options.strictTypeFiltering && tags.length > 0;
+    if (!strict && keyword.trim()) {
+        const nameFilter = `["name"~"${escapeOverpassRegex(keyword.trim())}",i]`;
+        statements.push(`nwr${nameFilter}${box};`);
+    }
+
+    return `[out:json][timeout:25];(${statements.join("")});out center tags ${limit};`;
+}
+
+function formatAddress(tags: Record<string, string>) {
+    const street = [tags["addr:street"], tags["addr:housenumber"]].filter(Boolean).join(" ");
+    return [street, tags["addr:suburb"] || tags["addr:district"], tags["addr:city"], tags["addr:postcode"]]
+        .filter(Boolean)
+        .join(", ");
+}
+
+function typesFromTags(tags: Record<string, string>) {
+    const types: string[] = [];
+    for (const key of TYPED_TAG_KEYS) {
+        const value = tags[key];
+        if (!value) continue;
+        types.push(TYPE_BY_OSM_TAG.get(`${key}=${value}`) || value);
+    }
+    return types;
+}
+
+function transformElement(element: OsmElement): ProviderPlace {
+    const tags: Record<string, string> = element.tags || {};
+    const lat = element.lat ?? element.center?.lat;
+    const lon = element.lon ?? element.center?.lon;
+    const types = typesFromTags(tags);
+    const closed = Object.keys(tags).some(k => k.startsWith("disused:") || k.startsWith("was:"));
+
+    return {
+        place_id: `osm:${element.type}/${element.id}`,
+        name: tags.name || tags.brand || "",
+        rating: undefined,
+        user_ratings_total: undefined,
+        formatted_address: formatAddress(tags),
+        formatted_phone_number: tags.phone || tags["contact:phone"],
+        website: tags.website || tags["contact:website"],
+        business_status: closed ? "CLOSED_PERMANENTLY" : "OPERATIONAL",
+        types,
+        primary_type: types[0],
+        location: typeof lat === "number" && typeof lon === "number" ? { latitude: lat, longitude: lon } : undefined,
+        photos: [],
+        opening_hours: { open_now: undefined, weekday_text: tags.opening_hours ? [tags.opening_hours] : undefined },
+    };
+}
+
+function transformNominatim(result: NominatimResult): ProviderPlace {
+    const [south, north, west, east] = (result.boundingbox || []).map(Number);
+    const extratags: Record<string, string> = result.extratags || {};
+    const mappedType = TYPE_BY_OSM_TAG.get(`${result.category}=${result.type}`);
+
+    return {
+        place_id: `osm:${result.osm_type}/${result.osm_id}`,
+        name: result.name || String(result.display_name || "").split(",")[0],
+        rating: undefined,
+        user_ratings_total: undefined,
+        formatted_address: result.display_name,
+        formatted_phone_number: extratags.phone || extratags["contact:phone"],
+        website: extratags.website || extratags["contact:website"],
+        business_status: "OPERATIONAL",
+        types: [mappedType || result.type].filter((type): type is string => !!type),
+        primary_type: mappedType || result.type,
+        location: { latitude: Number(result.lat), longitude: Number(result.lon) },
+        viewport: Number.isFinite(south) ? {
+            low: { latitude: south, longitude: west },
+            high: { latitude: north, longitude: east },
+        } : undefined,
+        photos: [],
+        opening_hours: { open_now: undefined },
+    };
+}
+
+function dedupe(places: ProviderPlace[]) {
+    const seen = new Set<string>();
+    return places.filter(p => {
+        if (!p.name || !p.location || seen.has(p.place_id)) return false;
+        seen.add(p.place_id);
+        return true;
+    });
+}
+
+/**
+ * OpenStreetMap provider: Overpass for area/keyword searches, Nominatim for free-text
+ * geocoding. Page tokens are plain offsets since neither API paginates.
+ */
+class OsmPlacesProvider implements PlacesProvider {
+    private static instance: OsmPlacesProvider;
+    public readonly id = "osm" as const;
+
+    private constructor() { }
+
+    public static getInstance() {
+        if (!OsmPlacesProvider.instance) {
+            OsmPlacesProvider.instance = new OsmPlacesProvider();
+        }
+        return OsmPlacesProvider.instance;
+    }
+
+    private async fetchJson(url: string, init: RequestInit = {}) {
+        return withCircuitBreaker("osm-places", { resetTimeoutSec: 60 }, async () => {
+            return withInflightLimiter("osm-places:inflight", MAX_CONCURRENCY, 60, async () => {
+                let attempt = 0;
+                const maxAttempts = 3;
+
+                while (attempt < maxAttempts) {
+                    const controller = new AbortController();
+                    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+                    try {
+                        const response = await fetch(url, {
+                            ...init,
+                            headers: { "User-Agent": OSM_USER_AGENT, Accept: "application/json", ...(init.headers || {}) },
+                            signal: controller.signal,
+                        });
+
+                        if (!response.ok) {
+                            const isRetryable = [429, 502, 503, 504].includes(response.status);
+                            if (isRetryable && attempt < maxAttempts - 1) {
+                                await sleep(Math.min(2000 * 2 ** attempt, 8000));
+                                attempt++;
+                                continue;
+                            }
+                            throw new Error(`OSM API Error: ${response.status} - ${await response.text()}`);
+                        }
+                        return await response.json();
+                    } catch (error) {
+                        if (error instanceof Error && error.name === "AbortError" && attempt < maxAttempts - 1) {
+                            attempt++;
+                            continue;
+                        }
+                        throw error;
+                    } finally {
+                        clearTimeout(timeout);
+                    }
+                }
+                throw new Error("OSM API: Max retries exceeded.");
+            });
+        });
+    }
+
+    private async overpass(query: string): Promise<ProviderPlace[]> {
+        const data = await this.fetchJson(`${OVERPASS_URL}/api/interpreter`, {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            body: `data=${encodeURIComponent(query)}`,
+        });
+        return ((data.elements || []) as OsmElement[]).map(transformElement);
+    }
+
+    private async nominatim(query: string, limit: number): Promise<ProviderPlace[]> {
+        const params = new URLSearchParams({
+            q: query,
+            format: "jsonv2",
+            limit: String(Math.min(limit, 40)),
+            extratags: "1",
+            "accept-language": "tr",
+        });
+        const data = await this.fetchJson(`${NOMINATIM_URL}/search?${params.toString()}`);
+        return ((Array.isArray(data) ? data : []) as NominatimResult[]).map(transformNominatim);
+    }
+
+    private async searchBbox(keyword: string, bbox: Bbox, options: SearchTextOptions): Promise<GatewayResponse> {
+        const pageSize = options.pageSize || 20;
+        const offset = Math.max(0, parseInt(options.pageToken || "0", 10) || 0);
+        const places = dedupe(await this.overpass(buildOverpassQuery(keyword, bbox, options, offset + pageSize + 1)));
+        return {
+            places: places.slice(offset, offset + pageSize),
+            nextPageToken: places.length > offset + pageSize ? String(offset + pageSize) : undefined,
+        };
+    }
+
+    public async searchText(query: string, options: SearchTextOptions = {}): Promise<GatewayResponse> {
+        const restriction = options.locationRestriction;
+
+        if (restriction && "circle" in restriction) {
+            const { center, radius } = restriction.circle;
+            const result = await this.searchBbox(query, viewportToBbox(circleBounds(center.latitude, center.longitude, radius)), options);
+            const places = result.places
+                .flatMap(p => p.location ? [{ ...p, distance_meters: Math.round(haversineMeters(center.latitude, center.longitude, p.location.latitude, p.location.longitude)) }] : [])
+                .filter(p => p.distance_meters <= radius)
+                .sort((a, b) => a.distance_meters - b.distance_meters);
+            return { places, nextPageToken: result.nextPageToken };
+        }
+
+        if (restriction) {
+            const { low, high } = restriction.rectangle;
+            return this.searchBbox(query, { south: low.latitude, west: low.longitude, north: high.latitude, east: high.longitude }, options);
+        }
+
+        // Google-style "<keyword> in <city>": geocode the city, then search the keyword inside its bounding box
+        const match = query.match(/^(.+) in (.+)$/i);
+        if (match) {
+            const [city] = await this.nominatim(match[2], 1);
+            if (!city?.viewport) return { places: [] };
+            const { low, high } = city.viewport;
+            return this.searchBbox(match[1], { south: low.latitude, west: low.longitude, north: high.latitude, east: high.longitude }, options);
+        }
+
+        return { places: await this.nominatim(query, options.pageSize || 20) };
+    }
+
+    public async searchArea(query: string, viewport: Viewport, options: AdaptiveScanOptions): Promise<AdaptiveScanResult> {
+        const latSpan = viewport.northeast.lat - viewport.southwest.lat;
+        const lngSpan = viewport.northeast.lng - viewport.southwest.lng;
+        const gridSize = Math.min(8, Math.max(1, Math.ceil(Math.sqrt((latSpan * lngSpan) / MAX_CELL_AREA_DEG2))));
+        const cells = GridGenerator.generateCells(viewport, gridSize, options.area);
+
+        const places: ProviderPlace[] = [];
+        let requestsUsed = 0;
+        for (const cell of cells) {
+            if (requestsUsed >= options.requestBudget) break;
+            requestsUsed++;
+            try {
+                places.push(...await this.overpass(buildOverpassQuery(query, viewportToBbox(cell.bounds), options, MAX_RESULTS_PER_CELL)));
+            } catch (e) {
+                console.error(`[OSM Scan] Failed for cell ${JSON.stringify(cell.bounds)}:`, e);
+            }
+        }
+
+        const unique = dedupe(places);
+        console.log(`[OSM Scan] Done. Requests: ${requestsUsed}/${cells.length} cells, places: ${unique.length}`);
+        return { places: unique, requestsUsed, cellsScanned: requestsUsed, cellsSplit: 0, saturatedLeaves: 0 };
+    }
+
+    public async getDetails(placeId: string): Promise<ProviderPlace | null> {
+        const match = placeId.match(/^osm:(node|way|relation)\/(\d+)$/);
+        if (!match) return null;
+        const [place] = await this.overpass(`[out:json][timeout:25];${match[1]}(${match[2]});out center tags;`);
+        return place || null;
+    }
+}
+
+export const osmPlacesProvider = OsmPlacesProvider.getInstance();
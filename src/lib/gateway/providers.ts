@@ -0,0 +1,21 @@
+import { googlePlacesGateway } from "./google-places";
+import { osmPlacesProvider } from "./osm-places";
+import type { PlacesProvider, PlacesProviderId } from "./types";
+
+const PROVIDERS: Record<PlacesProviderId, PlacesProvider> = {
+    google: googlePlacesGateway,
+    osm: osmPlacesProvider,
+};
+
+export function isPlacesProviderId(value: unknown): value is PlacesProviderId {
+    return typeof value === "string" && value in PROVIDERS;
+}
+
+export function getPlacesProvider(id: PlacesProviderId = "google"): PlacesProvider {
+    return PROVIDERS[id] || PROVIDERS.google;
+}
+
+// Provider that produced a stored place id ("osm:node/123" vs Google ids)
+export function providerForPlaceId(placeId: string): PlacesProviderId {
+    return placeId.startsWith("osm:") ? "osm" : "google";
+}
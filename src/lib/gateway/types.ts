@@ -0,0 +1,111 @@
+import type { Viewport } from "@/lib/grid-generator";
+import type { SearchArea } from "@/lib/geo/polygon";
+
+export type PlacesProviderId = "google" | "osm";
+
+// Safe to import from client components (no provider implementation attached)
+export const PLACES_PROVIDER_LABELS: Record<PlacesProviderId, string> = {
+    google: "Google Maps",
+    osm: "OpenStreetMap",
+};
+
+export interface LatLng {
+    latitude: number;
+    longitude: number;
+}
+
+// Places API photo reference; providers without photos return an empty list
+export interface ProviderPhoto {
+    name: string;
+    widthPx: number;
+    heightPx: number;
+    authorAttributions: { displayName: string; uri: string; photoUri: string }[];
+}
+
+/**
+ * A business listing as every provider returns it: the Google-shaped object the rest of the app
+ * consumes. `viewport` is only set for areas (cities, districts); `distance_meters` only by radius searches.
+ */
+export interface ProviderPlace {
+    place_id: string;
+    name: string;
+    rating?: number;
+    user_ratings_total?: number;
+    formatted_address?: string;
+    formatted_phone_number?: string;
+    website?: string;
+    business_status?: string;
+    types: string[];
+    primary_type?: string;
+    primary_type_display_name?: string;
+    location?: LatLng;
+    viewport?: { low: LatLng; high: LatLng };
+    photos: ProviderPhoto[];
+    opening_hours?: { open_now?: boolean; weekday_text?: string[] };
+    distance_meters?: number;
+}
+
+export interface GatewayResponse {
+    places: ProviderPlace[];
+    nextPageToken?: string;
+}
+
+export type LocationRestriction =
+    | {
+        rectangle: {
+            low: { latitude: number; longitude: number };
+            high: { latitude: number; longitude: number };
+        };
+    }
+    | {
+        circle: {
+            center: { latitude: number; longitude: number };
+            radius: number; // meters
+        };
+    };
+
+// Text Search only prefers results inside the bias area; it accepts the same shapes as a restriction
+export type LocationBias = LocationRestriction;
+
+// Google place type filter (Table A type, e.g. "gym"); strict mode drops results whose types do not include it
+export interface TypeFilter {
+    includedType?: string;
+    strictTypeFiltering?: boolean;
+}
+
+export interface SearchTextOptions extends TypeFilter {
+    pageToken?: string;
+    pageSize?: number;
+    locationBias?: LocationBias;
+    locationRestriction?: LocationRestriction;
+    rankByDistance?: boolean;
+}
+
+export interface AdaptiveScanOptions extends TypeFilter {
+    initialGridSize?: number;
+    maxDepth?: number;
+    maxPagesPerCell?: number;
+    requestBudget: number;
+    concurrency?: number;
+    area?: SearchArea; // only cells overlapping this polygon are scanned
+}
+
+export interface AdaptiveScanResult {
+    places: ProviderPlace[];
+    requestsUsed: number;
+    cellsScanned: number;
+    cellsSplit: number;
+    saturatedLeaves: number; // cells that were still saturated but could not be split (depth or budget)
+}
+
+/**
+ * A source of business listings. Results use the Google-shaped ProviderPlace
+ * the rest of the app already consumes (place_id, name, formatted_address, location, types, ...).
+ */
+export interface PlacesProvider {
+    readonly id: PlacesProviderId;
+    searchText(query: string, options?: SearchTextOptions): Promise<GatewayResponse>;
+    // Exhaustive scan of a viewport (deep search), bounded by `requestBudget`
+    searchArea(query: string, viewport: Viewport, options: AdaptiveScanOptions): Promise<AdaptiveScanResult>;
+    getDetails(placeId: string): Promise<ProviderPlace | null>;
+}
@@ -0,0 +1,80 @@
+import type { SearchArea } from "./polygon";
+
+export interface BoundaryPreset {
+    id: string;
+    name: string;
+    region: string;
+    area: SearchArea;
+}
+
+/**
+ * Bundled district boundaries for the area picker.
+ * Simplified outlines (a handful of vertices each) meant for search scoping,
+ * not for cadastral accuracy. Exact territories should be uploaded as GeoJSON.
+ */
+export const BOUNDARY_PRESETS: BoundaryPreset[] = [
+    {
+        id: "tr-istanbul-kadikoy",
+        name: "Kadıköy",
+        region: "İstanbul",
+        area: {
+            type: "Polygon",
+            coordinates: [[
+                [29.015, 41.005], [29.035, 41.012], [29.06, 41.005], [29.085, 40.985],
+                [29.1, 40.965], [29.07, 40.955], [29.04, 40.965], [29.02, 40.98], [29.015, 41.005],
+            ]],
+        },
+    },
+    {
+        id: "tr-istanbul-besiktas",
+        name: "Beşiktaş",
+        region: "İstanbul",
+        area: {
+            type: "Polygon",
+            coordinates: [[
+                [28.99, 41.04], [29.0, 41.07], [29.03, 41.09], [29.05, 41.085],
+                [29.035, 41.055], [29.01, 41.04], [28.99, 41.04],
+            ]],
+        },
+    },
+    {
+        id: "tr-istanbul-uskudar",
+        name: "Üsküdar",
+        region: "İstanbul",
+        area: {
+            type: "Polygon",
+            coordinates: [[
+                [29.005, 41.02], [29.03, 41.05], [29.06, 41.06], [29.09, 41.04],
+                [29.08, 41.01], [29.04, 41.0], [29.005, 41.02],
+            ]],
+        },
+    },
+    {
+        id: "tr-istanbul-sisli",
+        name: "Şişli",
+        region: "İstanbul",
+        area: {
+            type: "Polygon",
+            coordinates: [[
+                [28.97, 41.05], [28.98, 41.09], [29.0, 41.1], [29.02, 41.08],
+                [28.995, 41.045], [28.97, 41.05],
+            ]],
+        },
+    },
+    {
+        id: "tr-istanbul-fatih",
+        name: "Fatih",
+        region: "İstanbul",
+        area: {
+            type: "Polygon",
+            coordinates: [[
+                [28.92, 41.0], [28.93, 41.03], [28.96, 41.03], [28.985, 41.02],
+                [28.98, 41.005], [28.95, 40.995], [28.92, 41.0],
+            ]],
+        },
+    },
+];
+
+export function getBoundaryPreset(id: string) {
+    return BOUNDARY_PRESETS.find(b => b.id === id) || null;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { circleBounds, circleToPolygon, haversineMeters } from "./distance";
+import { pointInArea } from "./polygon";
+
+describe("haversineMeters", () => {
+    it("is zero for the same point", () => {
+        expect(haversineMeters(41.0082, 28.9784, 41.0082, 28.9784)).toBe(0);
+    });
+
+    it("measures one degree of latitude as about 111 km", () => {
+        expect(haversineMeters(0, 0, 1, 0)).toBeCloseTo(111195, -1);
+    });
+
+    it("matches a known city distance", () => {
+        // Istanbul (Sultanahmet) to Ankara (Kızılay), about 350 km
+        const meters = haversineMeters(41.0054, 28.9768, 39.9208, 32.8541);
+        expect(meters).toBeGreaterThan(345000);
+        expect(meters).toBeLessThan(355000);
+    });
+});
+
+describe("circleBounds", () => {
+    it("contains the circle and is wider in longitude away from the equator", () => {
+        const bounds = circleBounds(41, 29, 1000);
+        expect(haversineMeters(41, 29, bounds.northeast.lat, 29)).toBeCloseTo(1000, 0);
+        expect(haversineMeters(41, 29, 41, bounds.northeast.lng)).toBeCloseTo(1000, -1);
+        expect(bounds.northeast.lng - 29).toBeGreaterThan(bounds.northeast.lat - 41);
+        expect(bounds.southwest.lat).toBeCloseTo(41 - (bounds.northeast.lat - 41), 10);
+    });
+});
+
+describe("circleToPolygon", () => {
+    it("builds a closed ring of `segments` points on the circle", () => {
+        const polygon = circleToPolygon(41, 29, 500, 16);
+        const [ring] = polygon.coordinates;
+        expect(ring).toHaveLength(17);
+        expect(ring[16]).toEqual(ring[0]);
+        for (const [lng, lat] of ring) {
+            expect(haversineMeters(41, 29, lat, lng)).toBeCloseTo(500, -1);
+        }
+        expect(pointInArea(41, 29, polygon)).toBe(true);
+    });
+});
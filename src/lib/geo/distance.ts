@@ -0,0 +1,39 @@
+import type { Viewport } from "@/lib/grid-generator";
+import type { PolygonGeometry, Position } from "./polygon";
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRad = (deg: number) => deg * (Math.PI / 180);
+
+export function haversineMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const dLat = toRad(lat2 - lat1);
+    const dLng = toRad(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Bounding box of a circle. Text Search only accepts rectangles as a hard restriction,
+ * so circles are sent as their bounds and trimmed afterwards by distance.
+ */
+export function circleBounds(lat: number, lng: number, radiusMeters: number): Viewport {
+    const latDelta = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+    const lngDelta = latDelta / Math.max(0.01, Math.cos(toRad(lat)));
+    return {
+        southwest: { lat: lat - latDelta, lng: lng - lngDelta },
+        northeast: { lat: lat + latDelta, lng: lng + lngDelta },
+    };
+}
+
+// Approximates a circle as a polygon so radius searches can reuse the polygon deep scan
+export function circleToPolygon(lat: number, lng: number, radiusMeters: number, segments = 32): PolygonGeometry {
+    const latDelta = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+    const lngDelta = latDelta / Math.max(0.01, Math.cos(toRad(lat)));
+    const ring: Position[] = [];
+    for (let i = 0; i < segments; i++) {
+        const angle = (2 * Math.PI * i) / segments;
+        ring.push([lng + lngDelta * Math.cos(angle), lat + latDelta * Math.sin(angle)]);
+    }
+    ring.push(ring[0]);
+    return { type: "Polygon", coordinates: [ring] };
+}
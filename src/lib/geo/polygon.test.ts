@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { areaBounds, cellIntersectsArea, parseSearchArea, pointInArea, type Position, type SearchArea } from "./polygon";
+
+// 10x10 square around (lat 0..10, lng 0..10) with a 2x2 hole in the middle
+const square: Position[] = [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]];
+const hole: Position[] = [[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]];
+const area: SearchArea = { type: "Polygon", coordinates: [square, hole] };
+
+describe("parseSearchArea", () => {
+    it("accepts a bare Polygon geometry", () => {
+        expect(parseSearchArea({ type: "Polygon", coordinates: [square] })).toEqual({ type: "Polygon", coordinates: [square] });
+    });
+
+    it("unwraps a Feature and merges a FeatureCollection into a MultiPolygon", () => {
+        const feature = { type: "Feature", geometry: { type: "Polygon", coordinates: [square] } };
+        expect(parseSearchArea(feature)).toEqual({ type: "Polygon", coordinates: [square] });
+
+        const collection = {
+            type: "FeatureCollection",
+            features: [feature, { type: "Feature", geometry: { type: "Point", coordinates: [1, 1] } }, { type: "Feature", geometry: { type: "Polygon", coordinates: [hole] } }],
+        };
+        expect(parseSearchArea(collection)).toEqual({ type: "MultiPolygon", coordinates: [[square], [hole]] });
+    });
+
+    it("drops extra coordinate dimensions", () => {
+        const ring = square.map(([lng, lat]) => [lng, lat, 100]);
+        expect(parseSearchArea({ type: "Polygon", coordinates: [ring] })).toEqual({ type: "Polygon", coordinates: [square] });
+    });
+
+    it("rejects non-polygons, short rings and out-of-range coordinates", () => {
+        expect(parseSearchArea(null)).toBeNull();
+        expect(parseSearchArea({ type: "Point", coordinates: [1, 1] })).toBeNull();
+        expect(parseSearchArea({ type: "Polygon", coordinates: [[[0, 0], [1, 1], [0, 0]]] })).toBeNull();
+        expect(parseSearchArea({ type: "Polygon", coordinates: [[[0, 0], [200, 0], [0, 10], [0, 0]]] })).toBeNull();
+        expect(parseSearchArea({ type: "FeatureCollection", features: [] })).toBeNull();
+    });
+
+    it("rejects areas with too many vertices", () => {
+        const ring: Position[] = Array.from({ length: 5001 }, (_, i) => [Math.cos(i) * 0.1, Math.sin(i) * 0.1]);
+        ring.push(ring[0]);
+        expect(parseSearchArea({ type: "Polygon", coordinates: [ring] })).toBeNull();
+    });
+});
+
+describe("areaBounds", () => {
+    it("spans the outer rings of every polygon", () => {
+        const multi: SearchArea = { type: "MultiPolygon", coordinates: [[square], [[[20, -5], [21, -5], [21, -4], [20, -5]]]] };
+        expect(areaBounds(multi)).toEqual({ southwest: { lat: -5, lng: 0 }, northeast: { lat: 10, lng: 21 } });
+    });
+});
+
+describe("pointInArea", () => {
+    it("is true inside the outer ring and false inside holes or outside", () => {
+        expect(pointInArea(2, 2, area)).toBe(true);
+        expect(pointInArea(5, 5, area)).toBe(false);
+        expect(pointInArea(11, 5, area)).toBe(false);
+    });
+});
+
+describe("cellIntersectsArea", () => {
+    it("detects a cell corner inside the area", () => {
+        expect(cellIntersectsArea({ southwest: { lat: 9, lng: 9 }, northeast: { lat: 12, lng: 12 } }, area)).toBe(true);
+    });
+
+    it("detects an area that lies entirely inside the cell", () => {
+        expect(cellIntersectsArea({ southwest: { lat: -1, lng: -1 }, northeast: { lat: 11, lng: 11 } }, area)).toBe(true);
+    });
+
+    it("detects edges crossing without any vertex inside", () => {
+        const cross: SearchArea = { type: "Polygon", coordinates: [[[-1, 4], [11, 4], [11, 6], [-1, 6], [-1, 4]]] };
+        expect(cellIntersectsArea({ southwest: { lat: 0, lng: 4 }, northeast: { lat: 10, lng: 6 } }, cross)).toBe(true);
+    });
+
+    it("is false for a cell apart from the area", () => {
+        expect(cellIntersectsArea({ southwest: { lat: 20, lng: 20 }, northeast: { lat: 21, lng: 21 } }, area)).toBe(false);
+    });
+});
@@ -0,0 +1,158 @@
+import type { Viewport } from "@/lib/grid-generator";
+
+// GeoJSON positions are [longitude, latitude]
+export type Position = [number, number];
+
+export interface PolygonGeometry {
+    type: "Polygon";
+    coordinates: Position[][];
+}
+
+export interface MultiPolygonGeometry {
+    type: "MultiPolygon";
+    coordinates: Position[][][];
+}
+
+export type SearchArea = PolygonGeometry | MultiPolygonGeometry;
+
+const MAX_AREA_VERTICES = 5000;
+
+function isPosition(value: unknown): value is Position {
+    return Array.isArray(value)
+        && value.length >= 2
+        && typeof value[0] === "number" && Number.isFinite(value[0]) && Math.abs(value[0]) <= 180
+        && typeof value[1] === "number" && Number.isFinite(value[1]) && Math.abs(value[1]) <= 90;
+}
+
+function parseRing(value: unknown): Position[] | null {
+    if (!Array.isArray(value) || value.length < 4) return null;
+    if (!value.every(isPosition)) return null;
+    return value.map((p: Position) => [p[0], p[1]] as Position);
+}
+
+function parsePolygonRings(value: unknown): Position[][] | null {
+    if (!Array.isArray(value) || value.length === 0) return null;
+    const rings = value.map(parseRing);
+    if (rings.some(r => r === null)) return null;
+    return rings as Position[][];
+}
+
+function toPolygonList(geometry: unknown): Position[][][] | null {
+    if (!geometry || typeof geometry !== "object") return null;
+    const { type, coordinates } = geometry as { type?: string; coordinates?: unknown };
+
+    if (type === "Polygon") {
+        const rings = parsePolygonRings(coordinates);
+        return rings ? [rings] : null;
+    }
+    if (type === "MultiPolygon" && Array.isArray(coordinates)) {
+        const polygons = coordinates.map(parsePolygonRings);
+        if (polygons.length === 0 || polygons.some(p => p === null)) return null;
+        return polygons as Position[][][];
+    }
+    return null;
+}
+
+/**
+ * Accepts a GeoJSON Polygon/MultiPolygon geometry, Feature or FeatureCollection
+ * (uploaded file, map drawing or bundled boundary) and normalizes it to a single geometry.
+ * Returns null when the input is not a usable polygon.
+ */
+export function parseSearchArea(input: unknown): SearchArea | null {
+    if (!input || typeof input !== "object") return null;
+    const obj = input as { type?: string; geometry?: unknown; features?: unknown };
+
+    let polygons: Position[][][] | null = null;
+    if (obj.type === "FeatureCollection" && Array.isArray(obj.features)) {
+        const collected = obj.features
+            .map((f: { geometry?: unknown }) => toPolygonList(f?.geometry))
+            .filter((p): p is Position[][][] => p !== null)
+            .flat();
+        polygons = collected.length > 0 ? collected : null;
+    } else if (obj.type === "Feature") {
+        polygons = toPolygonList(obj.geometry);
+    } else {
+        polygons = toPolygonList(obj);
+    }
+
+    if (!polygons) return null;
+
+    const vertexCount = polygons.reduce((sum, rings) => sum + rings.reduce((s, r) => s + r.length, 0), 0);
+    if (vertexCount > MAX_AREA_VERTICES) return null;
+
+    return polygons.length === 1
+        ? { type: "Polygon", coordinates: polygons[0] }
+        : { type: "MultiPolygon", coordinates: polygons };
+}
+
+function polygonsOf(area: SearchArea): Position[][][] {
+    return area.type === "Polygon" ? [area.coordinates] : area.coordinates;
+}
+
+export function areaBounds(area: SearchArea): Viewport {
+    let minLat = Infinity, minLng = Infinity, maxLat = -Infinity, maxLng = -Infinity;
+    for (const rings of polygonsOf(area)) {
+        for (const [lng, lat] of rings[0]) {
+            if (lat < minLat) minLat = lat;
+            if (lat > maxLat) maxLat = lat;
+            if (lng < minLng) minLng = lng;
+            if (lng > maxLng) maxLng = lng;
+        }
+    }
+    return {
+        southwest: { lat: minLat, lng: minLng },
+        northeast: { lat: maxLat, lng: maxLng },
+    };
+}
+
+// Ray casting on a single ring
+function pointInRing(lng: number, lat: number, ring: Position[]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        const intersects = (yi > lat) !== (yj > lat)
+            && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+        if (intersects) inside = !inside;
+    }
+    return inside;
+}
+
+export function pointInArea(lat: number, lng: number, area: SearchArea): boolean {
+    return polygonsOf(area).some(([outer, ...holes]) =>
+        pointInRing(lng, lat, outer) && !holes.some(hole => pointInRing(lng, lat, hole))
+    );
+}
+
+function segmentsIntersect(a: Position, b: Position, c: Position, d: Position): boolean {
+    const cross = (p: Position, q: Position, r: Position) => (q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]);
+    const d1 = cross(c, d, a);
+    const d2 = cross(c, d, b);
+    const d3 = cross(a, b, c);
+    const d4 = cross(a, b, d);
+    return ((d1 > 0) !== (d2 > 0)) && ((d3 > 0) !== (d4 > 0));
+}
+
+/**
+ * True when the rectangular cell overlaps the area at all: a cell corner lies inside
+ * the polygon, a polygon vertex lies inside the cell, or their edges cross.
+ */
+export function cellIntersectsArea(bounds: Viewport, area: SearchArea): boolean {
+    const { southwest: sw, northeast: ne } = bounds;
+    const corners: Position[] = [[sw.lng, sw.lat], [ne.lng, sw.lat], [ne.lng, ne.lat], [sw.lng, ne.lat]];
+
+    if (corners.some(([lng, lat]) => pointInArea(lat, lng, area))) return true;
+
+    for (const rings of polygonsOf(area)) {
+        const outer = rings[0];
+        const vertexInside = outer.some(([lng, lat]) => lat >= sw.lat && lat <= ne.lat && lng >= sw.lng && lng <= ne.lng);
+        if (vertexInside) return true;
+
+        for (let i = 0; i < outer.length - 1; i++) {
+            for (let k = 0; k < 4; k++) {
+                if (segmentsIntersect(outer[i], outer[i + 1], corners[k], corners[(k + 1) % 4])) return true;
+            }
+        }
+    }
+    return false;
+}
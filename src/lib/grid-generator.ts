@@ -1,3 +1,5 @@
+import { cellIntersectsArea, type SearchArea } from "@/lib/geo/polygon";
+
 
 export interface Viewport {
     northeast: { lat: number; lng: number };
@@ -10,6 +12,11 @@ export interface GridPoint {
     radius: number; // approximate radius in meters to cover the sub-grid
 }
 
+export interface GridCell {
+    bounds: Viewport;
+    depth: number; // 0 for the initial grid, +1 for every quadtree split
+}
+
 export class GridGenerator {
     /**
      * Divides a viewport into a 3x3 grid (9 sectors) and returns the center point of each sector.
@@ -24,8 +31,9 @@ export class GridGenerator {
      * Divides a viewport into an NxN grid and returns the center point of each sector.
      * @param viewport The bounding box of the city
      * @param gridSize Number of cells per side (N)
+     * @param area Optional polygon; cells that do not overlap it are skipped
      */
-    static generateGrid(viewport: Viewport, gridSize: number): GridPoint[] {
+    static generateGrid(viewport: Viewport, gridSize: number, area?: SearchArea): GridPoint[] {
         const size = Math.max(1, Math.min(20, Math.floor(gridSize)));
         const latSpan = viewport.northeast.lat - viewport.southwest.lat;
         const lngSpan = viewport.northeast.lng - viewport.southwest.lng;
@@ -46,6 +54,14 @@ export class GridGenerator {
                 const centerLat = viewport.southwest.lat + (row * cellLatSize) + (cellLatSize / 2);
                 const centerLng = viewport.southwest.lng + (col * cellLngSize) + (cellLngSize / 2);
 
+                if (area) {
+                    const cellBounds = {
+                        southwest: { lat: centerLat - cellLatSize / 2, lng: centerLng - cellLngSize / 2 },
+                        northeast: { lat: centerLat + cellLatSize / 2, lng: centerLng + cellLngSize / 2 },
+                    };
+                    if (!cellIntersectsArea(cellBounds, area)) continue;
+                }
+
                 points.push({
                     lat: centerLat,
                     lng: centerLng,
@@ -57,6 +73,60 @@ export class GridGenerator {
         return points;
     }
 
+    /**
+     * Divides a viewport into an NxN grid of cells (bounds instead of center points).
+     * Used as the starting level of the adaptive quadtree scan.
+     */
+    static generateCells(viewport: Viewport, gridSize: number, area?: SearchArea): GridCell[] {
+        const size = Math.max(1, Math.min(20, Math.floor(gridSize)));
+        const cellLatSize = (viewport.northeast.lat - viewport.southwest.lat) / size;
+        const cellLngSize = (viewport.northeast.lng - viewport.southwest.lng) / size;
+
+        const cells: GridCell[] = [];
+        for (let row = 0; row < size; row++) {
+            for (let col = 0; col < size; col++) {
+                const south = viewport.southwest.lat + row * cellLatSize;
+                const west = viewport.southwest.lng + col * cellLngSize;
+                const bounds = {
+                    southwest: { lat: south, lng: west },
+                    northeast: { lat: south + cellLatSize, lng: west + cellLngSize },
+                };
+                if (area && !cellIntersectsArea(bounds, area)) continue;
+                cells.push({ bounds, depth: 0 });
+            }
+        }
+        return cells;
+    }
+
+    /**
+     * Splits a cell into its four quadrants (SW, SE, NW, NE) one level deeper.
+     */
+    static subdivide(cell: GridCell): GridCell[] {
+        const { southwest, northeast } = cell.bounds;
+        const midLat = (southwest.lat + northeast.lat) / 2;
+        const midLng = (southwest.lng + northeast.lng) / 2;
+        const depth = cell.depth + 1;
+
+        return [
+            { bounds: { southwest, northeast: { lat: midLat, lng: midLng } }, depth },
+            { bounds: { southwest: { lat: southwest.lat, lng: midLng }, northeast: { lat: midLat, lng: northeast.lng } }, depth },
+            { bounds: { southwest: { lat: midLat, lng: southwest.lng }, northeast: { lat: northeast.lat, lng: midLng } }, depth },
+            { bounds: { southwest: { lat: midLat, lng: midLng }, northeast }, depth },
+        ];
+    }
+
+    /**
+     * Center point and covering radius of a cell, for APIs that take a circle.
+     */
+    static cellCenter(cell: GridCell): GridPoint {
+        const { southwest, northeast } = cell.bounds;
+        return {
+            lat: (southwest.lat + northeast.lat) / 2,
+            lng: (southwest.lng + northeast.lng) / 2,
+            radius: this.calculateRadius(northeast.lat - southwest.lat, northeast.lng - southwest.lng, southwest.lat),
+        };
+    }
+
     private static calculateRadius(latSize: number, lngSize: number, baseLat: number): number {
         // Haversine-ish approximation or simple conversion
         // 1 deg lat = 111,000 meters
@@ -0,0 +1,37 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Credits a user spends from: the team pool for members, their own balance otherwise.
+ */
+export async function getCreditBalance(userId: string, client: Prisma.TransactionClient = prisma) {
+    const membership = await client.membership.findUnique({
+        where: { userId },
+        select: { organization: { select: { id: true, credits: true } } }
+    });
+    if (membership) {
+        return { balance: membership.organization.credits, organizationId: membership.organization.id };
+    }
+    const user = await client.user.findUnique({ where: { id: userId }, select: { credits: true } });
+    return { balance: user?.credits ?? 0, organizationId: null };
+}
+
+/**
+ * Atomically debits `amount` from the account returned by getCreditBalance.
+ * Throws "Yetersiz bakiye." when the balance does not cover it. Returns the organizationId
+ * that was charged (null for personal balances) so it can be stored on the CreditTransaction.
+ */
+export async function debitCredits(tx: Prisma.TransactionClient, userId: string, amount: number) {
+    const { organizationId } = await getCreditBalance(userId, tx);
+    const updated = organizationId
+        ? await tx.organization.updateMany({
+            where: { id: organizationId, credits: { gte: amount } },
+            data: { credits: { decrement: amount } }
+        })
+        : await tx.user.updateMany({
+            where: { id: userId, credits: { gte: amount } },
+            data: { credits: { decrement: amount } }
+        });
+    if (updated.count === 0) throw new Error("Yetersiz bakiye.");
+    return organizationId;
+}
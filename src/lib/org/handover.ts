@@ -0,0 +1,50 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * Runs before a user account is deleted. Team leads, lists, stages and do-not-contact entries are keyed to
+ * the member who created them, so they are handed to each team's owner instead of being deleted with the
+ * account. An owner leaving members behind is succeeded by the longest-serving admin (or member); a team
+ * whose only member is leaving is deleted along with its leads and credit pool.
+ */
+export async function handOverTeamRecords(tx: Prisma.TransactionClient, userId: string) {
+    const membership = await tx.membership.findUnique({ where: { userId }, select: { organizationId: true, role: true } });
+    if (membership) {
+        const others = await tx.membership.findMany({
+            where: { organizationId: membership.organizationId, userId: { not: userId } },
+            orderBy: { createdAt: "asc" },
+            select: { id: true, role: true },
+        });
+        if (others.length === 0) {
+            await tx.organization.delete({ where: { id: membership.organizationId } });
+        } else if (membership.role === "OWNER") {
+            const successor = others.find(m => m.role === "ADMIN") ?? others[0];
+            await tx.membership.update({ where: { id: successor.id }, data: { role: "OWNER" } });
+        }
+    }
+
+    // Includes teams the user left earlier: what they created there still belongs to the team
+    const teamRecords = { userId, organizationId: { not: null } };
+    const organizationIds = new Set<string>();
+    for (const rows of await Promise.all([
+        tx.lead.findMany({ where: teamRecords, distinct: ["organizationId"], select: { organizationId: true } }),
+        tx.leadList.findMany({ where: teamRecords, distinct: ["organizationId"], select: { organizationId: true } }),
+        tx.pipelineStage.findMany({ where: teamRecords, distinct: ["organizationId"], select: { organizationId: true } }),
+        tx.suppressionEntry.findMany({ where: teamRecords, distinct: ["organizationId"], select: { organizationId: true } }),
+    ])) {
+        rows.forEach(row => row.organizationId && organizationIds.add(row.organizationId));
+    }
+
+    for (const organizationId of organizationIds) {
+        const owner = await tx.membership.findFirst({
+            where: { organizationId, role: "OWNER", userId: { not: userId } },
+            select: { userId: true },
+        });
+        if (!owner) continue;
+        const where = { userId, organizationId };
+        const data = { userId: owner.userId };
+        await tx.lead.updateMany({ where, data });
+        await tx.leadList.updateMany({ where, data });
+        await tx.pipelineStage.updateMany({ where, data });
+        await tx.suppressionEntry.updateMany({ where, data });
+    }
+}
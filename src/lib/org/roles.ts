@@ -0,0 +1,23 @@
+export type MembershipRole = "OWNER" | "ADMIN" | "MEMBER";
+
+export const MEMBERSHIP_ROLES: { value: MembershipRole; label: string }[] = [
+    { value: "OWNER", label: "Sahip" },
+    { value: "ADMIN", label: "Yönetici" },
+    { value: "MEMBER", label: "Üye" },
+];
+
+// Roles an invitation can grant; ownership is never handed out by invite
+export const INVITABLE_ROLES = MEMBERSHIP_ROLES.filter(r => r.value !== "OWNER");
+
+export function roleLabel(role: string) {
+    return MEMBERSHIP_ROLES.find(r => r.value === role)?.label || role;
+}
+
+// Invite/remove members, change roles below their own, assign any lead
+export function canManageMembers(role: string | null | undefined) {
+    return role === "OWNER" || role === "ADMIN";
+}
+
+export function isMembershipRole(value: unknown): value is MembershipRole {
+    return MEMBERSHIP_ROLES.some(r => r.value === value);
+}
@@ -0,0 +1,49 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { MembershipRole } from "./roles";
+
+/**
+ * Where a user's leads, pipeline and credits live: their team when they belong to one,
+ * otherwise their personal account.
+ */
+export interface Workspace {
+    userId: string;
+    organizationId: string | null;
+    role: MembershipRole | null;
+}
+
+export async function getWorkspace(userId: string, client: Prisma.TransactionClient = prisma): Promise<Workspace> {
+    const membership = await client.membership.findUnique({
+        where: { userId },
+        select: { organizationId: true, role: true }
+    });
+    return {
+        userId,
+        organizationId: membership?.organizationId ?? null,
+        role: (membership?.role as MembershipRole) ?? null,
+    };
+}
+
+export function leadScope(workspace: Workspace): Prisma.LeadWhereInput {
+    return workspace.organizationId
+        ? { organizationId: workspace.organizationId }
+        : { userId: workspace.userId, organizationId: null };
+}
+
+export function stageScope(workspace: Workspace): Prisma.PipelineStageWhereInput {
+    return workspace.organizationId
+        ? { organizationId: workspace.organizationId }
+        : { userId: workspace.userId, organizationId: null };
+}
+
+export function leadListScope(workspace: Workspace): Prisma.LeadListWhereInput {
+    return workspace.organizationId
+        ? { organizationId: workspace.organizationId }
+        : { userId: workspace.userId, organizationId: null };
+}
+
+export function suppressionScope(workspace: Workspace): Prisma.SuppressionEntryWhereInput {
+    return workspace.organizationId
+        ? { organizationId: workspace.organizationId }
+        : { userId: workspace.userId, organizationId: null };
+}
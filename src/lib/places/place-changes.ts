@@ -0,0 +1,111 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// Place columns whose history we keep
+export const TRACKED_PLACE_FIELDS = [
+    "name",
+    "address",
+    "phone",
+    "website",
+    "rating",
+    "userRatingsTotal",
+    "businessStatus",
+    "openingHours",
+] as const;
+
+export type TrackedPlaceField = typeof TRACKED_PLACE_FIELDS[number];
+export type PlaceSnapshot = Partial<Record<TrackedPlaceField, unknown>>;
+export type PlaceChangeSource = "refresh" | "search";
+
+export interface PlaceFieldChange {
+    field: TrackedPlaceField;
+    oldValue: unknown;
+    newValue: unknown;
+}
+
+function normalize(value: unknown) {
+    if (value === undefined || value === "") return null;
+    return value;
+}
+
+/**
+ * Compares the tracked fields of two snapshots. Fields missing from `after` are
+ * treated as "not reported" and skipped, so partial API responses never wipe data.
+ */
+export function diffPlace(before: PlaceSnapshot, after: PlaceSnapshot): PlaceFieldChange[] {
+    const changes: PlaceFieldChange[] = [];
+    for (const field of TRACKED_PLACE_FIELDS) {
+        if (!(field in after) || after[field] === undefined) continue;
+        const oldValue = normalize(before[field]);
+        const newValue = normalize(after[field]);
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+        changes.push({ field, oldValue, newValue });
+    }
+    return changes;
+}
+
+export async function recordPlaceChanges(
+    placeId: string,
+    changes: PlaceFieldChange[],
+    source: PlaceChangeSource,
+    client: Prisma.TransactionClient = prisma
+) {
+    if (changes.length === 0) return 0;
+    const result = await client.placeChange.createMany({
+        data: changes.map(change => ({
+            placeId,
+            field: change.field,
+            oldValue: change.oldValue === null ? Prisma.JsonNull : (change.oldValue as Prisma.InputJsonValue),
+            newValue: change.newValue === null ? Prisma.JsonNull : (change.newValue as Prisma.InputJsonValue),
+            source,
+        })),
+    });
+    return result.count;
+}
+
+export interface PlaceHistoryEntry {
+    field: string;
+    oldValue: unknown;
+    newValue: unknown;
+    createdAt: Date | string;
+}
+
+export interface PlaceHistorySummary {
+    since: string | null;
+    rating: { from: number; to: number } | null;
+    reviewsDelta: number | null;
+    statusChanged: boolean;
+}
+
+function asNumber(value: unknown) {
+    return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Condenses a change log into the "rating 4.1 → 4.4, +120 reviews since March" headline.
+ * `entries` may be in any order; the oldest recorded value is used as the baseline.
+ */
+export function summarizePlaceHistory(entries: PlaceHistoryEntry[]): PlaceHistorySummary {
+    const sorted = [...entries].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    const firstOf = (field: TrackedPlaceField) => sorted.find(e => e.field === field);
+    const lastOf = (field: TrackedPlaceField) => [...sorted].reverse().find(e => e.field === field);
+
+    const firstRating = firstOf("rating");
+    const lastRating = lastOf("rating");
+    const ratingFrom = asNumber(firstRating?.oldValue);
+    const ratingTo = asNumber(lastRating?.newValue);
+
+    const firstReviews = firstOf("userRatingsTotal");
+    const lastReviews = lastOf("userRatingsTotal");
+    const reviewsFrom = asNumber(firstReviews?.oldValue);
+    const reviewsTo = asNumber(lastReviews?.newValue);
+
+    const since = sorted[0] ? new Date(sorted[0].createdAt).toISOString() : null;
+
+    return {
+        since,
+        rating: ratingFrom !== null && ratingTo !== null && ratingFrom !== ratingTo ? { from: ratingFrom, to: ratingTo } : null,
+        reviewsDelta: reviewsFrom !== null && reviewsTo !== null && reviewsTo !== reviewsFrom ? reviewsTo - reviewsFrom : null,
+        statusChanged: sorted.some(e => e.field === "businessStatus"),
+    };
+}
@@ -0,0 +1,74 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getPlacesProvider, providerForPlaceId } from "@/lib/gateway/providers";
+import { rescorePlaceLeads } from "@/lib/crm/scoring";
+import { domainEnrichmentKey } from "@/lib/scraping/domain-enrichment";
+import { diffPlace, recordPlaceChanges, type PlaceSnapshot } from "./place-changes";
+
+export const PLACE_REFRESH_MAX_AGE_DAYS = Number(process.env.PLACE_REFRESH_MAX_AGE_DAYS || 30);
+export const PLACE_REFRESH_BATCH_SIZE = Number(process.env.PLACE_REFRESH_BATCH_SIZE || 200);
+
+/**
+ * Places not refreshed within the max age, most-held first (number of users with a Lead on them).
+ */
+export async function findStalePlaces(limit = PLACE_REFRESH_BATCH_SIZE, maxAgeDays = PLACE_REFRESH_MAX_AGE_DAYS) {
+    const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000);
+    const places = await prisma.place.findMany({
+        where: {
+            OR: [
+                { lastRefreshedAt: { lt: cutoff } },
+                { lastRefreshedAt: null, updatedAt: { lt: cutoff } },
+            ],
+        },
+        orderBy: [{ leads: { _count: "desc" } }, { lastRefreshedAt: { sort: "asc", nulls: "first" } }],
+        take: limit,
+        select: { id: true, _count: { select: { leads: true } } },
+    });
+    return places.map(p => ({ placeId: p.id, leadCount: p._count.leads }));
+}
+
+/**
+ * Pulls fresh Place Details for one Place, updates the row and records what changed.
+ * A place the provider no longer knows is marked NOT_FOUND rather than deleted.
+ */
+export async function refreshPlace(placeId: string) {
+    const place = await prisma.place.findUnique({ where: { id: placeId } });
+    if (!place) return { updated: false, changes: 0 };
+
+    const provider = getPlacesProvider(providerForPlaceId(place.googleId));
+    const details = await provider.getDetails(place.googleId);
+
+    const fresh: PlaceSnapshot = details ? {
+        name: details.name || undefined,
+        address: details.formatted_address,
+        phone: details.formatted_phone_number,
+        website: details.website,
+        rating: details.rating,
+        userRatingsTotal: details.user_ratings_total,
+        businessStatus: details.business_status,
+        openingHours: details.opening_hours?.weekday_text,
+    } : { businessStatus: "NOT_FOUND" };
+
+    const changes = diffPlace(place, fresh);
+    const data = Object.fromEntries(changes.map(c => [
+        c.field,
+        c.field === "openingHours" && c.newValue === null ? Prisma.DbNull : c.newValue,
+    ]));
+
+    await prisma.$transaction(async (tx) => {
+        await tx.place.update({
+            where: { id: placeId },
+            data: {
+                ...data,
+                ...("website" in data ? { websiteDomain: domainEnrichmentKey(data.website as string | null) } : {}),
+                ...(details?.types?.length ? { types: details.types } : {}),
+                ...(details?.primary_type ? { primaryType: details.primary_type } : {}),
+                lastRefreshedAt: new Date(),
+            },
+        });
+        await recordPlaceChanges(placeId, changes, "refresh", tx);
+    });
+    if (changes.length > 0) await rescorePlaceLeads(placeId);
+
+    return { updated: true, changes: changes.length };
+}
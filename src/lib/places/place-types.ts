@@ -0,0 +1,59 @@
+/**
+ * Google Places (New) "Table A" types offered in the search form's type filter.
+ * Any other valid Table A identifier is accepted by the API as well.
+ */
+export const PLACE_TYPE_OPTIONS: { value: string; label: string }[] = [
+    { value: "restaurant", label: "Restoran" },
+    { value: "cafe", label: "Kafe" },
+    { value: "coffee_shop", label: "Kahveci" },
+    { value: "bakery", label: "Fırın" },
+    { value: "bar", label: "Bar" },
+    { value: "gym", label: "Spor Salonu" },
+    { value: "sporting_goods_store", label: "Spor Mağazası" },
+    { value: "beauty_salon", label: "Güzellik Salonu" },
+    { value: "hair_salon", label: "Kuaför" },
+    { value: "spa", label: "Spa" },
+    { value: "dentist", label: "Diş Hekimi" },
+    { value: "doctor", label: "Doktor" },
+    { value: "hospital", label: "Hastane" },
+    { value: "pharmacy", label: "Eczane" },
+    { value: "veterinary_care", label: "Veteriner" },
+    { value: "lawyer", label: "Avukat" },
+    { value: "accounting", label: "Muhasebe" },
+    { value: "real_estate_agency", label: "Emlak" },
+    { value: "insurance_agency", label: "Sigorta" },
+    { value: "car_repair", label: "Oto Tamir" },
+    { value: "car_dealer", label: "Oto Galeri" },
+    { value: "lodging", label: "Konaklama" },
+    { value: "hotel", label: "Otel" },
+    { value: "clothing_store", label: "Giyim Mağazası" },
+    { value: "furniture_store", label: "Mobilya Mağazası" },
+    { value: "electronics_store", label: "Elektronik Mağazası" },
+    { value: "supermarket", label: "Süpermarket" },
+    { value: "school", label: "Okul" },
+    { value: "travel_agency", label: "Seyahat Acentesi" },
+];
+
+// Types Google attaches to nearly everything; useless as a category
+export const GENERIC_PLACE_TYPES = new Set(["point_of_interest", "establishment", "store", "food", "health"]);
+
+const PLACE_TYPE_PATTERN = /^[a-z][a-z0-9_]{1,49}$/;
+
+export function isValidPlaceType(value: string) {
+    return PLACE_TYPE_PATTERN.test(value);
+}
+
+export function placeTypeLabel(type: string) {
+    return PLACE_TYPE_OPTIONS.find(o => o.value === type)?.label || type.replace(/_/g, " ");
+}
+
+/**
+ * Best category for a place: Google's localized primary type name, then the primary type,
+ * then the first non-generic entry in `types`.
+ */
+export function placeCategory(place: { primary_type_display_name?: string; primary_type?: string; types?: string[] }) {
+    if (place.primary_type_display_name) return place.primary_type_display_name;
+    if (place.primary_type) return placeTypeLabel(place.primary_type);
+    const specific = place.types?.find(t => !GENERIC_PLACE_TYPES.has(t)) || place.types?.[0];
+    return specific ? placeTypeLabel(specific) : null;
+}
@@ -1,3 +1,6 @@
+import type { PlacesProviderId } from './gateway/types';
+import type { ExportFormat } from './exports/formats/types';
+
 export type SubscriptionTier = 'FREE' | 'STARTER' | 'PRO' | 'BUSINESS';
 
 export interface PlanConfig {
@@ -7,9 +10,11 @@ export interface PlanConfig {
     maxHistoryDays: number;
     features: {
         analytics: 'basic' | 'full' | 'priority';
-        export: ('csv' | 'xlsx')[];
+        export: ExportFormat[];
         backgroundWorker: boolean;
         savedSearches: boolean;
+        apiAccess: boolean; // API keys for the public /api/v1 endpoints
+        placesProviders: PlacesProviderId[]; // first entry is the plan's default data source
     };
 }
 
@@ -24,6 +29,8 @@ export const PLANS: Record<SubscriptionTier, PlanConfig> = {
             export: [],
             backgroundWorker: false,
             savedSearches: false,
+            apiAccess: false,
+            placesProviders: ['google', 'osm'],
         },
     },
     STARTER: {
@@ -33,9 +40,11 @@ export const PLANS: Record<SubscriptionTier, PlanConfig> = {
         maxHistoryDays: 30,
         features: {
             analytics: 'full',
-            export: ['csv'],
+            export: ['csv', 'vcf'],
             backgroundWorker: true,
             savedSearches: true,
+            apiAccess: true,
+            placesProviders: ['google', 'osm'],
         },
     },
     PRO: {
@@ -45,9 +54,11 @@ export const PLANS: Record<SubscriptionTier, PlanConfig> = {
         maxHistoryDays: 90,
         features: {
             analytics: 'full',
-            export: ['csv', 'xlsx'],
+            export: ['csv', 'xlsx', 'ods', 'vcf', 'kml', 'geojson'],
             backgroundWorker: true,
             savedSearches: true,
+            apiAccess: true,
+            placesProviders: ['google', 'osm'],
         },
     },
     BUSINESS: {
@@ -57,9 +68,11 @@ export const PLANS: Record<SubscriptionTier, PlanConfig> = {
         maxHistoryDays: -1, // Unlimited
         features: {
             analytics: 'priority',
-            export: ['csv', 'xlsx'],
+            export: ['csv', 'xlsx', 'ods', 'vcf', 'jsonl', 'geojson', 'kml'],
             backgroundWorker: true,
             savedSearches: true,
+            apiAccess: true,
+            placesProviders: ['google', 'osm'],
         },
     },
 };
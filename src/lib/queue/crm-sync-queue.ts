@@ -0,0 +1,25 @@
+import { Queue } from 'bullmq';
+import { redisConnection } from './config';
+import '@/lib/worker/crm-sync-worker'; // Ensure worker starts
+
+const QUEUE_NAME = 'crm-sync';
+
+export const crmSyncQueue = new Queue(QUEUE_NAME, {
+    connection: redisConnection,
+    defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+            type: 'exponential',
+            delay: 10_000,
+        },
+        removeOnComplete: true,
+        removeOnFail: 100,
+    },
+});
+
+export async function addCrmSyncJobs(connectionId: string, leadIds: string[]) {
+    await crmSyncQueue.addBulk(leadIds.map(leadId => ({
+        name: 'sync-lead',
+        data: { connectionId, leadId },
+    })));
+}
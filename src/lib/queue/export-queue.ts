@@ -1,8 +1,11 @@
 import { Queue } from "bullmq";
 import { redisConnection } from "./config";
-import { redis } from "@/lib/redis";
 
 const EXPORT_QUEUE_NAME = "export-jobs";
+const CLEANUP_INTERVAL_MINUTES = 60;
+
+// How long generated files are kept in storage
+export const EXPORT_RETENTION_HOURS = Number(process.env.EXPORT_RETENTION_HOURS || 168);
 
 export const exportQueue = new Queue(EXPORT_QUEUE_NAME, {
     connection: redisConnection,
@@ -16,9 +19,16 @@ export const exportQueue = new Queue(EXPORT_QUEUE_NAME, {
     },
 });
 
-export async function addExportJob(data: { results: any[], format: string, userId: string }) {
-    const jobId = `export-${Date.now()}-${data.userId}`;
-    await redis.set(`export:${jobId}:format`, data.format, "EX", 3600);
-    await exportQueue.add("process-export", { ...data, jobId });
-    return jobId;
+// The payload is only the Export id; rows are read from the DB by the worker
+export async function addExportJob(exportId: string) {
+    await exportQueue.add("process-export", { exportId }, { jobId: exportId });
+    return exportId;
+}
+
+// Repeatable sweep that deletes files past their retention. Safe to call on every boot.
+export async function scheduleExportCleanup() {
+    await exportQueue.add("cleanup-expired", {}, {
+        repeat: { every: CLEANUP_INTERVAL_MINUTES * 60 * 1000 },
+        jobId: "cleanup-expired",
+    });
 }
@@ -0,0 +1,48 @@
+import { Queue } from 'bullmq';
+import { redisConnection } from './config';
+import '@/lib/worker/place-refresh-worker'; // Ensure worker starts
+
+const QUEUE_NAME = 'place-refresh-jobs';
+const SCAN_INTERVAL_MINUTES = Number(process.env.PLACE_REFRESH_INTERVAL_MINUTES || 60);
+
+export const placeRefreshQueue = new Queue(QUEUE_NAME, {
+    connection: redisConnection,
+    defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+            type: 'exponential',
+            delay: 5000,
+        },
+        removeOnComplete: true,
+        removeOnFail: 20,
+    },
+});
+
+// BullMQ priority: 1 is highest. Places held by more users are refreshed first.
+function priorityForLeadCount(leadCount: number) {
+    return Math.max(1, 1000 - Math.min(leadCount, 999));
+}
+
+export async function addPlaceRefreshJob(placeId: string, leadCount = 0) {
+    const jobId = `refresh-${placeId}`; // De-duplicates while a refresh is already queued
+    // Failed jobs are kept for inspection; one still holding the id would block every later refresh
+    const previous = await placeRefreshQueue.getJob(jobId);
+    if (previous && await previous.isFailed()) await previous.remove();
+    const job = await placeRefreshQueue.add('refresh-place', { placeId }, {
+        jobId,
+        priority: priorityForLeadCount(leadCount),
+    });
+    return job.id;
+}
+
+/**
+ * Registers the repeatable scan that enqueues stale places. Safe to call on every boot:
+ * BullMQ keys repeatable jobs by name + pattern.
+ */
+export async function schedulePlaceRefreshScan() {
+    if (SCAN_INTERVAL_MINUTES <= 0) return;
+    await placeRefreshQueue.add('scan-stale', {}, {
+        repeat: { every: SCAN_INTERVAL_MINUTES * 60 * 1000 },
+        jobId: 'scan-stale',
+    });
+}
@@ -0,0 +1,57 @@
+import { Queue } from 'bullmq';
+import { redisConnection } from './config';
+import { prisma } from '@/lib/prisma';
+import { scheduleIntervalMs, type SavedSearchSchedule } from '@/lib/search/saved-search-schedule';
+import '@/lib/worker/saved-search-worker'; // Ensure worker starts
+
+const QUEUE_NAME = 'saved-search-jobs';
+
+export const savedSearchQueue = new Queue(QUEUE_NAME, {
+    connection: redisConnection,
+    defaultJobOptions: {
+        attempts: 1, // failures are recorded on the SavedSearch and retried on the next scheduled run
+        removeOnComplete: true,
+        removeOnFail: 50,
+    },
+});
+
+function schedulerId(savedSearchId: string) {
+    return `saved-search-${savedSearchId}`;
+}
+
+/**
+ * Creates or updates the repeatable run of a saved search. Keyed by the saved search id,
+ * so changing the schedule replaces the previous one.
+ */
+export async function scheduleSavedSearch(savedSearchId: string, schedule: SavedSearchSchedule) {
+    await savedSearchQueue.upsertJobScheduler(
+        schedulerId(savedSearchId),
+        { every: scheduleIntervalMs(schedule) },
+        { name: 'run-saved-search', data: { savedSearchId } }
+    );
+}
+
+export async function unscheduleSavedSearch(savedSearchId: string) {
+    await savedSearchQueue.removeJobScheduler(schedulerId(savedSearchId));
+}
+
+export async function addSavedSearchRunJob(savedSearchId: string) {
+    const jobId = `saved-search-now-${savedSearchId}`; // one manual run at a time
+    // A retained failed run would hold the id and turn every later request into a no-op
+    const previous = await savedSearchQueue.getJob(jobId);
+    if (previous && await previous.isFailed()) await previous.remove();
+    const job = await savedSearchQueue.add('run-saved-search', { savedSearchId }, { jobId });
+    return job.id;
+}
+
+// Re-registers schedulers for all active saved searches (e.g. after Redis was flushed)
+export async function syncSavedSearchSchedules() {
+    const active = await prisma.savedSearch.findMany({
+        where: { active: true },
+        select: { id: true, schedule: true }
+    });
+    for (const saved of active) {
+        await scheduleSavedSearch(saved.id, saved.schedule as SavedSearchSchedule);
+    }
+    return active.length;
+}
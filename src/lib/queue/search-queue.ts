@@ -1,6 +1,7 @@
 import { Queue } from 'bullmq';
 import { redisConnection } from './config';
 import '@/lib/worker/search-worker'; // Ensure worker starts
+import type { SearchOptions } from '@/lib/search/options';
 
 const QUEUE_NAME = 'search-jobs';
 
@@ -17,7 +18,7 @@ export const searchQueue = new Queue(QUEUE_NAME, {
     },
 });
 
-export async function addSearchJob(data: { city: string; keyword: string; userId: string; initialPageToken?: string; deepSearch?: boolean }) {
+export async function addSearchJob(data: { city: string; keyword: string; userId: string; initialPageToken?: string; deepSearch?: boolean; options?: SearchOptions; apiKeyId?: string }) {
     const job = await searchQueue.add('search-task', data);
     return job.id;
 }
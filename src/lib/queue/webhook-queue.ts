@@ -0,0 +1,25 @@
+import { Queue } from 'bullmq';
+import { redisConnection } from './config';
+import '@/lib/worker/webhook-worker'; // Ensure worker starts
+
+const QUEUE_NAME = 'webhook-deliveries';
+
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6');
+
+export const webhookQueue = new Queue(QUEUE_NAME, {
+    connection: redisConnection,
+    defaultJobOptions: {
+        attempts: WEBHOOK_MAX_ATTEMPTS,
+        backoff: {
+            type: 'exponential',
+            delay: 30_000, // 30s, 1m, 2m, 4m, 8m
+        },
+        removeOnComplete: true,
+        removeOnFail: 100,
+    },
+});
+
+export async function addWebhookDeliveryJob(deliveryId: string) {
+    const job = await webhookQueue.add('deliver', { deliveryId });
+    return job.id;
+}
@@ -1,6 +1,13 @@
 
-import puppeteer, { Browser, Page } from 'puppeteer';
+import type { Page } from 'puppeteer';
 import { validateEmails } from './email-validator';
+import * as cheerio from 'cheerio';
+import { withPooledPage } from './scraping/browser-pool';
+import { fetchHtml, looksClientRendered } from './scraping/http-fetch';
+import { CRAWL_BUDGET_MS, CRAWL_MAX_PAGES, fetchSitemapUrls, rankContactCandidates } from './scraping/site-crawl';
+import { BOT_USER_AGENT, USER_AGENT_MODE, politely, robotsPolicyFor } from './scraping/politeness';
+import type { RobotsPolicy } from './scraping/robots';
+import { DomainBusyError } from './traffic-control';
 
 export interface ScrapedData {
     emails: string[];
@@ -19,6 +26,11 @@ export interface ScrapedData {
         contentLength: number;
         foundEmailsBeforeFilter: number;
         validatedEmails: number;
+        fetchMode: 'http' | 'browser';
+        crawledPages: number; // sub-pages visited besides the homepage
+        blockedByRobots?: boolean; // robots.txt disallowed the site, nothing was fetched
+        robotsUnreachable?: boolean; // robots.txt couldn't be fetched (timeout, DNS, 5xx), nothing was fetched
+        escalationReason?: string; // why the HTTP result wasn't used
     };
 }
 
@@ -56,6 +68,8 @@ const JUNK_PREFIXES = ['u002f', 'u003e', 'ue00', 'name@'];
 
 const pickRandom = <T,>(arr: T[]): T => arr[Math.floor(Math.random() * arr.length)];
 
+const pickUserAgent = () => USER_AGENT_MODE === 'bot' ? BOT_USER_AGENT : pickRandom(HUMAN_USER_AGENTS);
+
 const sleepRandom = async (minMs: number, maxMs: number) => {
     const delay = Math.floor(minMs + Math.random() * (maxMs - minMs));
     return new Promise((resolve) => setTimeout(resolve, delay));
@@ -101,7 +115,7 @@ const parseTel = (href: string) => {
 };
 
 const applyHumanSignals = async (page: Page) => {
-    await page.setUserAgent(pickRandom(HUMAN_USER_AGENTS));
+    await page.setUserAgent(pickUserAgent());
     await page.setViewport(pickRandom(VIEWPORTS));
     await page.setExtraHTTPHeaders({
         'Accept-Language': 'tr-TR,tr;q=0.9,en-US;q=0.8,en;q=0.7'
@@ -121,187 +135,308 @@ const performHumanInteraction = async (page: Page) => {
     }
 };
 
-export async function scrapeWebsite(url: string): Promise<ScrapedData> {
-    let browser: Browser | null = null;
-    const data: ScrapedData = {
-        emails: [],
-        phones: [],
-        socials: {}
-    };
+interface PageLink {
+    href: string;
+    text: string;
+}
 
-    try {
-        // Prepare URL
-        if (!url.startsWith('http')) {
-            url = 'https://' + url;
+// What contact extraction needs from a page, whichever way it was loaded
+interface PageSnapshot {
+    html: string;
+    links: PageLink[];
+    headerFooterText: string;
+    headerFooterLinks: PageLink[];
+}
+
+function snapshotFromHtml(html: string, baseUrl: string): PageSnapshot {
+    const $ = cheerio.load(html);
+    // Same shape as the browser's resolved `a.href`
+    const toLinks = (selector: string) => $(selector).toArray().flatMap(el => {
+        const raw = $(el).attr('href');
+        if (!raw) return [];
+        try {
+            return [{ href: new URL(raw, baseUrl).href, text: $(el).text().trim() }];
+        } catch {
+            return [];
         }
+    });
+    return {
+        html,
+        links: toLinks('a'),
+        headerFooterText: $(HEADER_FOOTER_SELECTOR).toArray().map(el => $(el).text()).join('\n'),
+        headerFooterLinks: toLinks(HEADER_FOOTER_LINK_SELECTOR),
+    };
+}
 
-        browser = await puppeteer.launch({
-            headless: true, // "new" is deprecated, true is the standard now
-            args: ['--no-sandbox', '--disable-setuid-sandbox']
-        });
+async function snapshotFromPage(page: Page): Promise<PageSnapshot> {
+    const html = await page.content();
+    const links = await page.$$eval('a', as => as.map(a => ({ href: a.href, text: a.innerText })));
+    const headerFooterText = await page.$$eval(
+        HEADER_FOOTER_SELECTOR,
+        els => els.map(el => (el as HTMLElement).innerText || '').join('\n')
+    ).catch(() => "");
+    const headerFooterLinks = await page.$$eval(
+        HEADER_FOOTER_LINK_SELECTOR,
+        as => as.map(a => ({ href: (a as HTMLAnchorElement).href, text: (a as HTMLAnchorElement).innerText }))
+    ).catch(() => [] as PageLink[]);
+    return { html, links, headerFooterText, headerFooterLinks };
+}
 
-        const page = await browser.newPage();
-        await applyHumanSignals(page);
-
-        // Block resources to speed up
-        await page.setRequestInterception(true);
-        page.on('request', (req) => {
-            const resourceType = req.resourceType();
-            if (['image', 'stylesheet', 'font', 'media'].includes(resourceType)) {
-                req.abort();
-            } else {
-                req.continue();
-            }
-        });
+// Merges the emails, phones and socials of a loaded page into `data`; returns the raw email match count
+function extractContacts(snapshot: PageSnapshot, data: ScrapedData) {
+    const { html, links, headerFooterText, headerFooterLinks } = snapshot;
+    const foundEmailsBeforeFilter = (html.match(EMAIL_REGEX) || []).length;
+    const hrefs = [...links, ...headerFooterLinks].map(l => l.href);
+    const mailtoEmails = hrefs
+        .filter(h => h.toLowerCase().startsWith('mailto:'))
+        .map(parseMailto)
+        .filter(Boolean);
+    const telPhones = hrefs
+        .filter(h => h.toLowerCase().startsWith('tel:'))
+        .map(parseTel)
+        .filter(Boolean);
+
+    data.emails = [...new Set([
+        ...data.emails,
+        ...extractEmailsFromText(html),
+        ...(headerFooterText ? extractEmailsFromText(headerFooterText) : []),
+        ...mailtoEmails,
+    ])];
+    data.phones = [...new Set([
+        ...data.phones,
+        ...extractPhonesFromText(html),
+        ...(headerFooterText ? extractPhonesFromText(headerFooterText) : []),
+        ...telPhones,
+    ])];
+
+    const pageSocials: ScrapedData["socials"] = {};
+    links.forEach(link => {
+        const href = link.href;
+        if (SOCIAL_PATTERNS.facebook.test(href)) pageSocials.facebook = href;
+        if (SOCIAL_PATTERNS.instagram.test(href)) pageSocials.instagram = href;
+        if (SOCIAL_PATTERNS.twitter.test(href)) pageSocials.twitter = href;
+        if (SOCIAL_PATTERNS.linkedin.test(href)) pageSocials.linkedin = href;
+        if (SOCIAL_PATTERNS.youtube.test(href)) pageSocials.youtube = href;
+    });
+    // Earlier pages (the homepage first) win
+    data.socials = { ...pageSocials, ...data.socials };
+
+    return foundEmailsBeforeFilter;
+}
 
-        // Navigate with timeout
-        const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
-        await performHumanInteraction(page);
-        const httpStatus = response ? response.status() : 0;
-
-        // Get full HTML content
-        const content = await page.content();
-
-        // 1. Extract Emails / Phones from full content
-        const emailMatches = content.match(EMAIL_REGEX) || [];
-        const foundEmailsBeforeFilter = emailMatches.length;
-        data.emails = extractEmailsFromText(content);
-        data.phones = extractPhonesFromText(content);
-
-        // 3. Extract Social Links
-        // Look at all 'a' tags hrefs
-        const links = await page.$$eval('a', as => as.map(a => ({ href: a.href, text: a.innerText })));
-        const headerFooterText = await page.$$eval(
-            HEADER_FOOTER_SELECTOR,
-            els => els.map(el => (el as HTMLElement).innerText || '').join('\n')
-        ).catch(() => "");
-        const headerFooterLinks = await page.$$eval(
-            HEADER_FOOTER_LINK_SELECTOR,
-            as => as.map(a => ({ href: (a as HTMLAnchorElement).href, text: (a as HTMLAnchorElement).innerText }))
-        ).catch(() => []);
-
-        if (headerFooterText) {
-            data.emails = [...new Set([...data.emails, ...extractEmailsFromText(headerFooterText)])];
-            data.phones = [...new Set([...data.phones, ...extractPhonesFromText(headerFooterText)])];
+/**
+ * Visits the best-ranked same-site pages (contact, imprint, about...) found in the homepage's
+ * links and the sitemap, up to CRAWL_MAX_PAGES within CRAWL_BUDGET_MS, merging their contacts.
+ * A site that stays busy ends the crawl early with the pages visited so far.
+ * Returns how many pages were visited and their raw email match count.
+ */
+async function crawlContactPages(
+    homeUrl: string,
+    home: PageSnapshot,
+    data: ScrapedData,
+    robots: RobotsPolicy,
+    loadSnapshot: (url: string) => Promise<PageSnapshot>
+) {
+    const result = { pages: 0, foundEmailsBeforeFilter: 0 };
+    if (CRAWL_MAX_PAGES === 0) return result;
+
+    const deadline = Date.now() + CRAWL_BUDGET_MS;
+    const sitemapUrls = await fetchSitemapUrls(
+        homeUrl,
+        url => politely(url, robots, async () => (await fetchHtml(url, { 'User-Agent': pickUserAgent() })).html),
+        url => robots.isAllowed(url),
+        robots.sitemaps[0]
+    );
+    const candidates = rankContactCandidates(homeUrl, home.links, home.headerFooterLinks, sitemapUrls)
+        .filter(url => robots.isAllowed(url))
+        .slice(0, CRAWL_MAX_PAGES);
+
+    for (const url of candidates) {
+        if (Date.now() >= deadline) {
+            console.log(`[Smart Scraper] Crawl budget used up for ${homeUrl} after ${result.pages} pages`);
+            break;
         }
+        try {
+            result.foundEmailsBeforeFilter += extractContacts(await loadSnapshot(url), data);
+            result.pages++;
+        } catch (subError) {
+            // The homepage already produced a result; keep what was found rather than rescheduling the whole site
+            if (subError instanceof DomainBusyError) {
+                console.log(`[Smart Scraper] ${homeUrl} stayed busy, stopping the crawl after ${result.pages} sub-pages`);
+                break;
+            }
+            console.error(`[Smart Scraper] Failed to visit sub-page ${url}:`, subError);
+        }
+    }
+    if (result.pages > 0) {
+        console.log(`[Smart Scraper] Crawled ${result.pages} sub-pages of ${homeUrl}: ${data.emails.length} emails, ${data.phones.length} phones`);
+    }
+    return result;
+}
 
-        const mailtoEmails = links
-            .map(l => l.href)
-            .filter(h => h.toLowerCase().startsWith('mailto:'))
-            .map(parseMailto)
-            .filter(Boolean);
+const emptyScrapedData = (): ScrapedData => ({ emails: [], phones: [], socials: {} });
 
-        const telPhones = links
-            .map(l => l.href)
-            .filter(h => h.toLowerCase().startsWith('tel:'))
-            .map(parseTel)
-            .filter(Boolean);
+/**
+ * Scrapes a business site for contacts. A plain HTTP fetch is tried first; the pooled headless
+ * browser is only used when that fails, the page looks client-rendered or yields no contacts.
+ * `meta.fetchMode` records which path produced the result.
+ * Sites are only fetched where robots.txt allows it and under the per-domain limits; a busy
+ * domain surfaces as DomainBusyError so the caller can retry later.
+ */
+export async function scrapeWebsite(url: string): Promise<ScrapedData> {
+    // Prepare URL
+    if (!url.startsWith('http')) {
+        url = 'https://' + url;
+    }
 
-        const headerMailtoEmails = (headerFooterLinks as any[])
-            .map(l => l.href)
-            .filter((h: string) => h.toLowerCase().startsWith('mailto:'))
-            .map(parseMailto)
-            .filter(Boolean);
+    let robots: RobotsPolicy;
+    try {
+        robots = await robotsPolicyFor(url);
+    } catch (error) {
+        console.error(`Error scraping ${url}:`, error);
+        return emptyScrapedData();
+    }
+    if (!robots.isAllowed(url)) {
+        console.log(`[Smart Scraper] ${robots.unreachable ? 'robots.txt unreachable for' : 'robots.txt disallows'} ${url}, skipping`);
+        return {
+            ...emptyScrapedData(),
+            meta: {
+                url, status: 0, contentLength: 0, foundEmailsBeforeFilter: 0, validatedEmails: 0, fetchMode: 'http', crawledPages: 0,
+                ...(robots.unreachable ? { robotsUnreachable: true } : { blockedByRobots: true }),
+            },
+        };
+    }
 
-        const headerTelPhones = (headerFooterLinks as any[])
-            .map(l => l.href)
-            .filter((h: string) => h.toLowerCase().startsWith('tel:'))
-            .map(parseTel)
-            .filter(Boolean);
+    const httpData = emptyScrapedData();
+    let escalationReason: string;
+    try {
+        escalationReason = await scrapeOverHttp(url, httpData, robots);
+    } catch (error) {
+        if (error instanceof DomainBusyError) throw error;
+        escalationReason = `http failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
 
-        data.emails = [...new Set([...data.emails, ...mailtoEmails, ...headerMailtoEmails])];
-        data.phones = [...new Set([...data.phones, ...telPhones, ...headerTelPhones])];
+    if (!escalationReason) {
+        await validateScrapedEmails(httpData, url);
+        return httpData;
+    }
 
-        links.forEach(link => {
-            const href = link.href;
-            if (SOCIAL_PATTERNS.facebook.test(href)) data.socials.facebook = href;
-            if (SOCIAL_PATTERNS.instagram.test(href)) data.socials.instagram = href;
-            if (SOCIAL_PATTERNS.twitter.test(href)) data.socials.twitter = href;
-            if (SOCIAL_PATTERNS.linkedin.test(href)) data.socials.linkedin = href;
-            if (SOCIAL_PATTERNS.youtube.test(href)) data.socials.youtube = href;
-        });
+    console.log(`[Smart Scraper] Using headless browser for ${url} (${escalationReason})`);
+    const data = emptyScrapedData();
+    try {
+        await withPooledPage(page => scrapeWithPage(page, url, data, robots));
+        data.meta = { ...data.meta!, fetchMode: 'browser', escalationReason };
+        await validateScrapedEmails(data, url);
+        return data;
+    } catch (error) {
+        if (error instanceof DomainBusyError) throw error;
+        console.error(`Error scraping ${url}:`, error);
+        // Whatever the HTTP pass found beats nothing
+        const fallback = httpData.meta ? httpData : data;
+        await validateScrapedEmails(fallback, url);
+        return fallback; // Return empty/partial results on error
+    }
+}
 
-        // --- SMART ENRICHMENT: Visit Contact Pages if no email found ---
-        if (data.emails.length === 0) {
-            console.log(`[Smart Scraper] No emails on homepage of ${url}. Looking for contact pages...`);
+// Returns why the browser is needed, or '' when the HTTP result is good enough
+async function scrapeOverHttp(url: string, data: ScrapedData, robots: RobotsPolicy): Promise<string> {
+    const headers = { 'User-Agent': pickUserAgent() };
+    const page = await politely(url, robots, () => fetchHtml(url, headers));
+    if (page.status >= 400) return `http status ${page.status}`;
+    if (looksClientRendered(page.html)) return 'client-rendered page';
+
+    const snapshot = snapshotFromHtml(page.html, page.url);
+    const foundEmailsBeforeFilter = extractContacts(snapshot, data);
+    const siteRobots = await robotsForFinalUrl(page.url, url, robots);
+    const crawl = await crawlContactPages(page.url, snapshot, data, siteRobots, async href => {
+        const subPage = await politely(href, siteRobots, () => fetchHtml(href, headers));
+        if (subPage.status >= 400) throw new Error(`HTTP ${subPage.status}`);
+        return snapshotFromHtml(subPage.html, subPage.url);
+    });
 
-            const CONTACT_KEYWORDS = ['iletişim', 'contact', 'hakkımızda', 'about', 'bize ulaşın', 'künye'];
+    data.meta = {
+        url: page.url,
+        status: page.status,
+        contentLength: page.html.length,
+        foundEmailsBeforeFilter: foundEmailsBeforeFilter + crawl.foundEmailsBeforeFilter,
+        validatedEmails: data.emails.length,
+        fetchMode: 'http',
+        crawledPages: crawl.pages,
+    };
+    return data.emails.length === 0 && data.phones.length === 0 ? 'no contacts over http' : '';
+}
 
-            // Find best candidate link
-            // We look for links that contain keyword in text OR url, and belong to same domain
-            const urlObj = new URL(url);
-            const domain = urlObj.hostname;
+// Redirects (http -> https, bare -> www) can land on another origin with its own robots.txt
+function robotsForFinalUrl(finalUrl: string, requestedUrl: string, robots: RobotsPolicy) {
+    return new URL(finalUrl).origin === new URL(requestedUrl).origin ? robots : robotsPolicyFor(finalUrl);
+}
 
-            const contactLink = links.find(l => {
-                const linkHref = l.href.toLowerCase();
-                const linkText = l.text.toLowerCase();
+// Runs after the page is back in the pool: MX/SMTP checks can be slow and don't need a browser
+async function validateScrapedEmails(data: ScrapedData, url: string) {
+    if (data.emails.length > 0) {
+        console.log(`[Email Validator] Validating ${data.emails.length} emails for ${url}...`);
 
-                // Must be internal (relative or same domain)
-                if (!linkHref.includes(domain) && linkHref.startsWith('http')) return false;
+        try {
+            const validationResults = await validateEmails(data.emails, url, 40);
 
-                return CONTACT_KEYWORDS.some(k => linkHref.includes(k) || linkText.includes(k));
+            // Build score map
+            const emailScores: { [email: string]: number } = {};
+            validationResults.forEach(result => {
+                emailScores[result.email] = result.score;
             });
 
-            if (contactLink) {
-                console.log(`[Smart Scraper] Visiting potential contact page: ${contactLink.href}`);
-                try {
-                    await page.goto(contactLink.href, { waitUntil: 'domcontentloaded', timeout: 15000 });
-                    const subContent = await page.content();
-
-                    const newEmails = extractEmailsFromText(subContent);
-
-                    if (newEmails.length > 0) {
-                        console.log(`[Smart Scraper] Found ${newEmails.length} emails on sub-page!`);
-                        data.emails = [...new Set([...data.emails, ...newEmails])];
-                    }
-                } catch (subError) {
-                    console.error(`[Smart Scraper] Failed to visit sub-page:`, subError);
-                }
-            }
-        }
-
-        // --- EMAIL VALIDATION ---
-        if (data.emails.length > 0) {
-            console.log(`[Email Validator] Validating ${data.emails.length} emails for ${url}...`);
-
-            try {
-                const validationResults = await validateEmails(data.emails, url, 40);
+            // Keep only validated emails (sorted by score)
+            data.emails = validationResults.map(r => r.email);
+            data.emailScores = emailScores;
 
-                // Build score map
-                const emailScores: { [email: string]: number } = {};
-                validationResults.forEach(result => {
-                    emailScores[result.email] = result.score;
-                });
-
-                // Keep only validated emails (sorted by score)
-                data.emails = validationResults.map(r => r.email);
-                data.emailScores = emailScores;
+            console.log(`[Email Validator] ${validationResults.length}/${data.emails.length} emails passed validation`);
+        } catch (validationError) {
+            console.error(`[Email Validator] Validation error:`, validationError);
+            // Keep original emails on validation failure
+        }
+    }
+    if (data.meta) data.meta.validatedEmails = data.emails.length;
+}
 
-                console.log(`[Email Validator] ${validationResults.length}/${data.emails.length} emails passed validation`);
-            } catch (validationError) {
-                console.error(`[Email Validator] Validation error:`, validationError);
-                // Keep original emails on validation failure
-            }
+async function scrapeWithPage(page: Page, url: string, data: ScrapedData, robots: RobotsPolicy): Promise<ScrapedData> {
+    await applyHumanSignals(page);
+
+    // Block resources to speed up
+    await page.setRequestInterception(true);
+    page.on('request', (req) => {
+        const resourceType = req.resourceType();
+        if (['image', 'stylesheet', 'font', 'media'].includes(resourceType)) {
+            req.abort();
+        } else {
+            req.continue();
         }
+    });
 
-        data.meta = {
-            url,
-            status: httpStatus,
-            contentLength: content.length,
-            foundEmailsBeforeFilter,
-            validatedEmails: data.emails.length
-        };
+    // Navigate with timeout
+    const response = await politely(url, robots, () => page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 }));
+    await performHumanInteraction(page);
+    const httpStatus = response ? response.status() : 0;
+
+    const snapshot = await snapshotFromPage(page);
+    const foundEmailsBeforeFilter = extractContacts(snapshot, data);
+    const finalUrl = page.url() || url;
+    const siteRobots = await robotsForFinalUrl(finalUrl, url, robots);
+    const crawl = await crawlContactPages(finalUrl, snapshot, data, siteRobots, async href => {
+        await politely(href, siteRobots, () => page.goto(href, { waitUntil: 'domcontentloaded', timeout: 15000 }));
+        return snapshotFromPage(page);
+    });
 
-        return data;
+    data.meta = {
+        url,
+        status: httpStatus,
+        contentLength: snapshot.html.length,
+        foundEmailsBeforeFilter: foundEmailsBeforeFilter + crawl.foundEmailsBeforeFilter,
+        validatedEmails: data.emails.length,
+        fetchMode: 'browser',
+        crawledPages: crawl.pages,
+    };
 
-    } catch (error) {
-        console.error(`Error scraping ${url}:`, error);
-        return data; // Return empty/partial results on error
-    } finally {
-        if (browser) {
-            await browser.close();
-        }
-    }
+    return data;
 }
 
 const decodeDuckDuckGoUrl = (href: string | null) => {
@@ -350,72 +485,66 @@ const mergeSocials = (a: ScrapedData["socials"], b: ScrapedData["socials"]) => (
 });
 
 export async function searchDuckDuckGoTargets(query: string): Promise<{ website: string | null; socials: ScrapedData["socials"] }> {
-    let browser: Browser | null = null;
     try {
         console.log(`[Web Search] Searching for: "${query}" via DuckDuckGo`);
-        browser = await puppeteer.launch({
-            headless: true,
-            args: ['--no-sandbox', '--disable-setuid-sandbox']
-        });
+        return await withPooledPage(page => searchDuckDuckGoWithPage(page, query));
+    } catch (error) {
+        console.error(`[Web Search] Failed for query "${query}":`, error);
+        return { website: null, socials: {} };
+    }
+}
 
-        const page = await browser.newPage();
-        await applyHumanSignals(page);
+async function searchDuckDuckGoWithPage(page: Page, query: string): Promise<{ website: string | null; socials: ScrapedData["socials"] }> {
+    await applyHumanSignals(page);
 
-        // Block heavy resources
-        await page.setRequestInterception(true);
-        page.on('request', (req) => {
-            if (['image', 'media', 'font'].includes(req.resourceType())) {
-                req.abort();
-            } else {
-                req.continue();
-            }
-        });
+    // Block heavy resources
+    await page.setRequestInterception(true);
+    page.on('request', (req) => {
+        if (['image', 'media', 'font'].includes(req.resourceType())) {
+            req.abort();
+        } else {
+            req.continue();
+        }
+    });
 
-        // Use HTML version of DDG
-        await page.goto('https://html.duckduckgo.com/html/', { waitUntil: 'domcontentloaded', timeout: 30000 });
+    // Use HTML version of DDG
+    await page.goto('https://html.duckduckgo.com/html/', { waitUntil: 'domcontentloaded', timeout: 30000 });
 
-        // Type into the form
-        await sleepRandom(200, 500);
-        await page.type('input[name="q"]', query, { delay: Math.floor(30 + Math.random() * 60) });
-        await page.keyboard.press('Enter');
+    // Type into the form
+    await sleepRandom(200, 500);
+    await page.type('input[name="q"]', query, { delay: Math.floor(30 + Math.random() * 60) });
+    await page.keyboard.press('Enter');
 
-        await page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: 30000 });
-        await performHumanInteraction(page);
+    await page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: 30000 });
+    await performHumanInteraction(page);
 
-        // Extract organic results
-        const hrefs = await page.evaluate(() => {
-            return Array.from(document.querySelectorAll('.result__a'))
-                .map(a => (a as HTMLAnchorElement).getAttribute('href'))
-                .filter(Boolean);
-        });
+    // Extract organic results
+    const hrefs = await page.evaluate(() => {
+        return Array.from(document.querySelectorAll('.result__a'))
+            .map(a => (a as HTMLAnchorElement).getAttribute('href'))
+            .filter(Boolean);
+    });
 
-        let website: string | null = null;
-        let socials: ScrapedData["socials"] = {};
+    let website: string | null = null;
+    let socials: ScrapedData["socials"] = {};
 
-        for (const rawHref of hrefs) {
-            const decoded = decodeDuckDuckGoUrl(rawHref);
-            if (!decoded) continue;
+    for (const rawHref of hrefs) {
+        const decoded = decodeDuckDuckGoUrl(rawHref);
+        if (!decoded) continue;
 
-            if (SOCIAL_PATTERNS.facebook.test(decoded)) socials = mergeSocials(socials, { facebook: decoded });
-            if (SOCIAL_PATTERNS.instagram.test(decoded)) socials = mergeSocials(socials, { instagram: decoded });
-            if (SOCIAL_PATTERNS.twitter.test(decoded)) socials = mergeSocials(socials, { twitter: decoded });
-            if (SOCIAL_PATTERNS.linkedin.test(decoded)) socials = mergeSocials(socials, { linkedin: decoded });
-            if (SOCIAL_PATTERNS.youtube.test(decoded)) socials = mergeSocials(socials, { youtube: decoded });
+        if (SOCIAL_PATTERNS.facebook.test(decoded)) socials = mergeSocials(socials, { facebook: decoded });
+        if (SOCIAL_PATTERNS.instagram.test(decoded)) socials = mergeSocials(socials, { instagram: decoded });
+        if (SOCIAL_PATTERNS.twitter.test(decoded)) socials = mergeSocials(socials, { twitter: decoded });
+        if (SOCIAL_PATTERNS.linkedin.test(decoded)) socials = mergeSocials(socials, { linkedin: decoded });
+        if (SOCIAL_PATTERNS.youtube.test(decoded)) socials = mergeSocials(socials, { youtube: decoded });
 
-            if (!website && isLikelyWebsiteUrl(decoded)) {
-                website = decoded;
-            }
+        if (!website && isLikelyWebsiteUrl(decoded)) {
+            website = decoded;
         }
-
-        console.log(`[Web Search] Found Website: ${website}`);
-        return { website, socials };
-
-    } catch (error) {
-        console.error(`[Web Search] Failed for query "${query}":`, error);
-        return { website: null, socials: {} };
-    } finally {
-        if (browser) await browser.close();
     }
+
+    console.log(`[Web Search] Found Website: ${website}`);
+    return { website, socials };
 }
 
 export async function searchGoogle(query: string): Promise<string | null> {
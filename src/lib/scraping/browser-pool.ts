@@ -0,0 +1,282 @@
+import puppeteer, { Browser, BrowserContext, Page } from 'puppeteer';
+
+// Defaults suit a small worker box: 2 Chromium processes serving 4 tabs each
+const POOL_SIZE = Math.max(1, parseInt(process.env.BROWSER_POOL_SIZE || '2'));
+const MAX_PAGES_PER_BROWSER = Math.max(1, parseInt(process.env.BROWSER_POOL_MAX_PAGES || '4'));
+// Chromium slowly leaks memory, so a browser is replaced after this many pages
+const MAX_USES_PER_BROWSER = Math.max(1, parseInt(process.env.BROWSER_POOL_MAX_USES || '200'));
+const MAX_USES_PER_CONTEXT = 25;
+const ACQUIRE_TIMEOUT_MS = parseInt(process.env.BROWSER_POOL_ACQUIRE_TIMEOUT_MS || '120000');
+const METRICS_LOG_INTERVAL_MS = parseInt(process.env.BROWSER_POOL_METRICS_INTERVAL_MS || '60000');
+
+const LAUNCH_ARGS = ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage', '--disable-gpu'];
+
+interface PooledContext {
+    context: BrowserContext;
+    uses: number;
+}
+
+interface PooledBrowser {
+    id: number;
+    browser: Browser;
+    activePages: number;
+    uses: number;
+    idleContexts: PooledContext[];
+    retiring: boolean;
+    closing: boolean;
+}
+
+interface Waiter {
+    resolve: (entry: PooledBrowser) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+export interface BrowserPoolMetrics {
+    size: number;
+    maxPagesPerBrowser: number;
+    browsers: number;
+    launching: number;
+    activePages: number;
+    idleContexts: number;
+    waiting: number;
+    launched: number;
+    recycled: number;
+    crashed: number;
+    pagesServed: number;
+    acquireTimeouts: number;
+    avgWaitMs: number;
+}
+
+/**
+ * A fixed set of headless browsers shared by every scraper entry point. Each page runs in an
+ * incognito context that is reused (cookies cleared) a few times; browsers are recycled after
+ * MAX_USES_PER_BROWSER pages or replaced when they crash.
+ */
+class BrowserPool {
+    private browsers: PooledBrowser[] = [];
+    private waiters: Waiter[] = [];
+    private launching = 0;
+    private nextId = 1;
+    private closed = false;
+    private counters = { launched: 0, recycled: 0, crashed: 0, pagesServed: 0, acquireTimeouts: 0, totalWaitMs: 0 };
+    private servedAtLastLog = 0;
+    private metricsTimer: NodeJS.Timeout | null = null;
+
+    constructor() {
+        if (METRICS_LOG_INTERVAL_MS > 0) {
+            this.metricsTimer = setInterval(() => this.logMetrics(), METRICS_LOG_INTERVAL_MS);
+            this.metricsTimer.unref();
+        }
+    }
+
+    async withPage<T>(work: (page: Page) => Promise<T>): Promise<T> {
+        if (this.closed) throw new Error('Browser pool is closed');
+        const queuedAt = Date.now();
+        const entry = await this.acquire();
+        this.counters.totalWaitMs += Date.now() - queuedAt;
+
+        let pooledContext: PooledContext | null = null;
+        let page: Page | null = null;
+        try {
+            pooledContext = entry.idleContexts.pop() ?? { context: await entry.browser.createBrowserContext(), uses: 0 };
+            page = await pooledContext.context.newPage();
+            return await work(page);
+        } finally {
+            if (page) await page.close().catch(() => { });
+            await this.release(entry, pooledContext);
+        }
+    }
+
+    metrics(): BrowserPoolMetrics {
+        const live = this.browsers.filter(b => !b.closing);
+        return {
+            size: POOL_SIZE,
+            maxPagesPerBrowser: MAX_PAGES_PER_BROWSER,
+            browsers: live.length,
+            launching: this.launching,
+            activePages: live.reduce((sum, b) => sum + b.activePages, 0),
+            idleContexts: live.reduce((sum, b) => sum + b.idleContexts.length, 0),
+            waiting: this.waiters.length,
+            launched: this.counters.launched,
+            recycled: this.counters.recycled,
+            crashed: this.counters.crashed,
+            pagesServed: this.counters.pagesServed,
+            acquireTimeouts: this.counters.acquireTimeouts,
+            avgWaitMs: this.counters.pagesServed > 0 ? Math.round(this.counters.totalWaitMs / this.counters.pagesServed) : 0,
+        };
+    }
+
+    async close() {
+        this.closed = true;
+        if (this.metricsTimer) clearInterval(this.metricsTimer);
+        for (const waiter of this.waiters.splice(0)) {
+            clearTimeout(waiter.timer);
+            waiter.reject(new Error('Browser pool is closed'));
+        }
+        await Promise.all(this.browsers.map(b => this.closeBrowser(b)));
+    }
+
+    private acquire(): Promise<PooledBrowser> {
+        const entry = this.takeSlot();
+        if (entry) return Promise.resolve(entry);
+
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = {
+                resolve,
+                reject,
+                timer: setTimeout(() => {
+                    this.waiters = this.waiters.filter(w => w !== waiter);
+                    this.counters.acquireTimeouts++;
+                    reject(new Error(`Timed out after ${ACQUIRE_TIMEOUT_MS}ms waiting for a browser page`));
+                }, ACQUIRE_TIMEOUT_MS),
+            };
+            this.waiters.push(waiter);
+            this.maybeLaunch();
+        });
+    }
+
+    // Least busy healthy browser with a free tab, if any
+    private takeSlot(): PooledBrowser | null {
+        const candidates = this.browsers
+            .filter(b => !b.retiring && !b.closing && b.activePages < MAX_PAGES_PER_BROWSER)
+            .sort((a, b) => a.activePages - b.activePages);
+        const entry = candidates[0];
+        if (!entry) {
+            this.maybeLaunch();
+            return null;
+        }
+        entry.activePages++;
+        entry.uses++;
+        this.counters.pagesServed++;
+        if (entry.uses >= MAX_USES_PER_BROWSER) entry.retiring = true;
+        return entry;
+    }
+
+    private maybeLaunch() {
+        const healthy = this.browsers.filter(b => !b.retiring && !b.closing).length;
+        if (this.closed || healthy + this.launching >= POOL_SIZE) return;
+        // Only launch when something is actually waiting or no browser exists yet
+        if (this.waiters.length === 0 && healthy > 0) return;
+
+        this.launching++;
+        puppeteer.launch({ headless: true, args: LAUNCH_ARGS })
+            .then(browser => {
+                const entry: PooledBrowser = { id: this.nextId++, browser, activePages: 0, uses: 0, idleContexts: [], retiring: false, closing: false };
+                browser.on('disconnected', () => this.handleDisconnect(entry));
+                this.browsers.push(entry);
+                this.counters.launched++;
+                if (this.closed) void this.closeBrowser(entry);
+            })
+            .catch(error => {
+                console.error('[Browser Pool] Failed to launch browser:', error);
+                // Fail one waiter instead of letting everyone hang until the acquire timeout
+                const waiter = this.waiters.shift();
+                if (waiter) {
+                    clearTimeout(waiter.timer);
+                    waiter.reject(error instanceof Error ? error : new Error(String(error)));
+                }
+            })
+            .finally(() => {
+                this.launching--;
+                this.drain();
+            });
+    }
+
+    private drain() {
+        while (this.waiters.length > 0) {
+            const entry = this.takeSlot();
+            if (!entry) break;
+            const waiter = this.waiters.shift()!;
+            clearTimeout(waiter.timer);
+            waiter.resolve(entry);
+        }
+        if (this.waiters.length > 0) this.maybeLaunch();
+    }
+
+    private async release(entry: PooledBrowser, pooledContext: PooledContext | null) {
+        entry.activePages = Math.max(0, entry.activePages - 1);
+
+        if (pooledContext) {
+            pooledContext.uses++;
+            const reusable = !entry.retiring && !entry.closing && pooledContext.uses < MAX_USES_PER_CONTEXT
+                && await this.resetContext(pooledContext.context);
+            if (reusable) entry.idleContexts.push(pooledContext);
+            else await pooledContext.context.close().catch(() => { });
+        }
+
+        if (entry.retiring && entry.activePages === 0 && !entry.closing) {
+            this.counters.recycled++;
+            await this.closeBrowser(entry);
+        }
+        this.drain();
+    }
+
+    // Clears cookies so one site's session never leaks into the next page of the context
+    private async resetContext(context: BrowserContext) {
+        try {
+            const cookies = await context.cookies();
+            if (cookies.length > 0) await context.deleteCookie(...cookies);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private handleDisconnect(entry: PooledBrowser) {
+        if (!entry.closing) {
+            this.counters.crashed++;
+            console.warn(`[Browser Pool] Browser #${entry.id} disconnected unexpectedly (${entry.activePages} active pages), replacing it`);
+        }
+        entry.closing = true;
+        this.browsers = this.browsers.filter(b => b !== entry);
+        this.drain();
+    }
+
+    private async closeBrowser(entry: PooledBrowser) {
+        entry.closing = true;
+        this.browsers = this.browsers.filter(b => b !== entry);
+        await entry.browser.close().catch(() => { });
+    }
+
+    private logMetrics() {
+        const m = this.metrics();
+        if (m.pagesServed === this.servedAtLastLog && m.activePages === 0) return;
+        this.servedAtLastLog = m.pagesServed;
+        console.log(
+            `[Browser Pool] browsers=${m.browsers}/${m.size} active=${m.activePages} waiting=${m.waiting} served=${m.pagesServed} ` +
+            `avgWait=${m.avgWaitMs}ms launched=${m.launched} recycled=${m.recycled} crashed=${m.crashed} timeouts=${m.acquireTimeouts}`
+        );
+    }
+}
+
+// Global singleton so HMR and multiple importers share one set of browsers
+const globalForBrowserPool = global as unknown as { browserPool: BrowserPool | undefined };
+
+function getBrowserPool() {
+    if (!globalForBrowserPool.browserPool) globalForBrowserPool.browserPool = new BrowserPool();
+    return globalForBrowserPool.browserPool;
+}
+
+/**
+ * Runs `work` with a fresh tab from the shared pool; the tab is closed afterwards whatever happens.
+ * Waits for a free slot when every browser is busy.
+ */
+export function withPooledPage<T>(work: (page: Page) => Promise<T>): Promise<T> {
+    return getBrowserPool().withPage(work);
+}
+
+export function getBrowserPoolMetrics(): BrowserPoolMetrics {
+    return getBrowserPool().metrics();
+}
+
+/**
+ * Closes the shared browsers; the next withPooledPage call starts a new pool. Pass `drained` to let
+ * pages already open on the old browsers finish first (e.g. a worker's close()).
+ */
+export async function closeBrowserPool(drained?: Promise<unknown>) {
+    const pool = globalForBrowserPool.browserPool;
+    globalForBrowserPool.browserPool = undefined;
+    await drained;
+    if (pool) await pool.close();
+}
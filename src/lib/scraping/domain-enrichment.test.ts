@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+
+import { domainEnrichmentKey, normalizeWebsiteUrl, registrableDomain } from './domain-enrichment';
+
+describe('registrableDomain', () => {
+    it('strips subdomains down to the registered name', () => {
+        expect(registrableDomain('https://shop.acme.com/iletisim')).toBe('acme.com');
+        expect(registrableDomain('www.acme.com')).toBe('acme.com');
+    });
+
+    it('keeps three labels under multi-part suffixes', () => {
+        expect(registrableDomain('https://shop.acme.com.tr/iletisim')).toBe('acme.com.tr');
+        expect(registrableDomain('http://www.acme.co.uk')).toBe('acme.co.uk');
+    });
+
+    it('keeps the subdomain on shared site builders', () => {
+        expect(registrableDomain('https://acme.wixsite.com/home')).toBe('acme.wixsite.com');
+    });
+
+    it('returns null for IP addresses and unusable values', () => {
+        expect(registrableDomain('http://192.168.1.10/')).toBeNull();
+        expect(registrableDomain('http://[::1]/')).toBeNull();
+        expect(registrableDomain('localhost')).toBeNull();
+        expect(registrableDomain('')).toBeNull();
+        expect(registrableDomain(null)).toBeNull();
+    });
+});
+
+describe('domainEnrichmentKey', () => {
+    it('skips social profiles and link-in-bio pages', () => {
+        expect(domainEnrichmentKey('https://www.instagram.com/acme')).toBeNull();
+        expect(domainEnrichmentKey('https://m.facebook.com/acme')).toBeNull();
+        expect(domainEnrichmentKey('linktr.ee/acme')).toBeNull();
+    });
+
+    it('uses the registrable domain for business sites', () => {
+        expect(domainEnrichmentKey('https://blog.acme.com.tr')).toBe('acme.com.tr');
+    });
+});
+
+describe('normalizeWebsiteUrl', () => {
+    it('drops scheme, www, query, trailing slashes and index pages', () => {
+        expect(normalizeWebsiteUrl('HTTPS://www.Acme.com/tr/?utm_source=x')).toBe('acme.com/tr');
+        expect(normalizeWebsiteUrl('acme.com/index.html')).toBe('acme.com');
+        expect(normalizeWebsiteUrl('http://acme.com')).toBe('acme.com');
+    });
+
+    it('keeps paths that tell listings on one domain apart', () => {
+        expect(normalizeWebsiteUrl('https://acme.com/kadikoy')).not.toBe(normalizeWebsiteUrl('https://acme.com/besiktas'));
+    });
+
+    it('returns null for empty or unparsable values', () => {
+        expect(normalizeWebsiteUrl(null)).toBeNull();
+        expect(normalizeWebsiteUrl('http://')).toBeNull();
+    });
+});
@@ -0,0 +1,170 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { domainFromWebsite } from '@/lib/crm/record';
+import type { ScrapedData } from '@/lib/scraper';
+import { ROBOTS_UNREACHABLE_TTL_SEC } from './robots';
+
+// One scrape per business site: branches of a chain and duplicate listings share the stored result
+
+export const DOMAIN_ENRICHMENT_TTL_HOURS = Math.max(0, parseFloat(process.env.DOMAIN_ENRICHMENT_TTL_HOURS || '168'));
+// A claim this old belongs to a worker that died mid-scrape
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+const MAX_FANOUT_PLACES = 500;
+
+// Second-level labels that are registered under, so "acme.com.tr" rather than "com.tr" is the site
+const MULTI_PART_SUFFIXES = new Set([
+    'com.tr', 'net.tr', 'org.tr', 'gen.tr', 'web.tr', 'biz.tr', 'info.tr', 'name.tr', 'tv.tr', 'tel.tr',
+    'av.tr', 'dr.tr', 'bel.tr', 'pol.tr', 'k12.tr', 'edu.tr', 'gov.tr',
+    'co.uk', 'org.uk', 'me.uk', 'ltd.uk', 'plc.uk', 'com.au', 'net.au', 'org.au', 'co.nz', 'co.za',
+    'co.jp', 'co.kr', 'co.in', 'co.il', 'com.br', 'com.mx', 'com.ar', 'com.cn', 'com.sg', 'com.cy', 'com.az', 'com.ua',
+]);
+// Site builders where every subdomain is a different business
+const SHARED_HOST_SUFFIXES = [
+    'wixsite.com', 'blogspot.com', 'business.site', 'github.io', 'myshopify.com', 'wordpress.com', 'webflow.io',
+    'netlify.app', 'vercel.app', 'squarespace.com', 'weebly.com', 'godaddysites.com', 'jimdofree.com', 'site123.me', 'ikas.shop',
+];
+
+// Social profiles, link-in-bio pages and path-based site builders host many unrelated businesses under
+// one domain; their results are never cached or shared
+const PROFILE_HOSTS = [
+    'facebook.com', 'fb.com', 'instagram.com', 'twitter.com', 'x.com', 'tiktok.com', 'youtube.com', 'linkedin.com',
+    'pinterest.com', 'wa.me', 'whatsapp.com', 't.me', 'linktr.ee', 'bio.link', 'beacons.ai', 'taplink.cc', 'linkr.bio',
+    'lnk.bio', 'msha.ke', 'carrd.co', 'about.me', 'sites.google.com', 'google.com', 'g.page', 'goo.gl', 'bit.ly',
+];
+
+export type DomainEnrichmentClaim = { status: 'fresh'; data: ScrapedData } | { status: 'claimed' } | { status: 'busy' };
+
+/**
+ * "https://shop.acme.com.tr/iletisim" -> "acme.com.tr". Hosts on shared site builders keep their
+ * subdomain; IP addresses and unparsable values yield null.
+ */
+export function registrableDomain(website: string | null | undefined) {
+    const host = domainFromWebsite(website);
+    if (!host || !host.includes('.') || /^[\d.]+$/.test(host) || host.includes(':')) return null;
+    if (SHARED_HOST_SUFFIXES.some(suffix => host.endsWith(`.${suffix}`))) return host;
+
+    const labels = host.split('.').filter(Boolean);
+    const keep = labels.length >= 3 && MULTI_PART_SUFFIXES.has(labels.slice(-2).join('.')) ? 3 : 2;
+    return labels.slice(-keep).join('.');
+}
+
+/**
+ * The key scrape results are cached and shared under: the registrable domain, or null for sites whose
+ * domain says nothing about the business (social profiles, link-in-bio pages). Stored as Place.websiteDomain.
+ */
+export function domainEnrichmentKey(website: string | null | undefined) {
+    const host = domainFromWebsite(website);
+    if (!host || PROFILE_HOSTS.some(profileHost => host === profileHost || host.endsWith(`.${profileHost}`))) return null;
+    return registrableDomain(website);
+}
+
+// "HTTPS://www.Acme.com/tr/?utm_source=x" -> "acme.com/tr"; places only share a result when these match
+export function normalizeWebsiteUrl(website: string | null | undefined) {
+    if (!website) return null;
+    try {
+        const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+        const path = url.pathname.replace(/\/index\.(html?|php)$/i, '').replace(/\/+$/, '');
+        return `${url.hostname.toLowerCase().replace(/^www\./, '')}${path}`;
+    } catch {
+        return null;
+    }
+}
+
+// Blocked because robots.txt was unreachable is usually transient; retry when the robots cache does
+function isFresh(record: { status: string; scrapedAt: Date | null; meta: Prisma.JsonValue }) {
+    if (!['COMPLETED', 'BLOCKED'].includes(record.status) || !record.scrapedAt) return false;
+    const ttlMs = DOMAIN_ENRICHMENT_TTL_HOURS * 3600 * 1000;
+    const unreachable = (record.meta as ScrapedData['meta'] | null)?.robotsUnreachable;
+    return Date.now() - record.scrapedAt.getTime() < (unreachable ? Math.min(ttlMs, ROBOTS_UNREACHABLE_TTL_SEC * 1000) : ttlMs);
+}
+
+function toScrapedData(record: { emails: string[]; emailScores: Prisma.JsonValue; phones: string[]; socials: Prisma.JsonValue; meta: Prisma.JsonValue }): ScrapedData {
+    return {
+        emails: record.emails,
+        emailScores: (record.emailScores as ScrapedData['emailScores']) ?? {},
+        phones: record.phones,
+        socials: (record.socials as ScrapedData['socials']) ?? {},
+        meta: (record.meta as ScrapedData['meta']) ?? undefined,
+    };
+}
+
+/**
+ * Either hands back a result scraped within DOMAIN_ENRICHMENT_TTL_HOURS (an hour when robots.txt was
+ * unreachable), or marks the domain as being scraped by the caller ("claimed"), or reports that another
+ * job holds that mark ("busy").
+ * A claimed domain must be finished with saveDomainEnrichment or releaseDomainEnrichment.
+ */
+export async function claimDomainEnrichment(domain: string): Promise<DomainEnrichmentClaim> {
+    const existing = await prisma.domainEnrichment.findUnique({ where: { domain } });
+    if (existing && isFresh(existing)) {
+        return { status: 'fresh', data: toScrapedData(existing) };
+    }
+
+    // Conditional update so only one of several concurrent jobs wins the claim
+    const claimed = await prisma.domainEnrichment.updateMany({
+        where: {
+            domain,
+            OR: [
+                { status: { not: 'PROCESSING' } },
+                { updatedAt: { lt: new Date(Date.now() - STALE_CLAIM_MS) } },
+            ],
+        },
+        data: { status: 'PROCESSING', error: null },
+    });
+    if (claimed.count > 0) return { status: 'claimed' };
+
+    try {
+        await prisma.domainEnrichment.create({ data: { domain, status: 'PROCESSING' } });
+        return { status: 'claimed' };
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return { status: 'busy' };
+        }
+        throw error;
+    }
+}
+
+// Stores the result for reuse; a scrape that never got a response is kept as FAILED and retried next time
+export async function saveDomainEnrichment(domain: string, data: ScrapedData) {
+    const status = !data.meta ? 'FAILED' : (data.meta.blockedByRobots || data.meta.robotsUnreachable) ? 'BLOCKED' : 'COMPLETED';
+    const fields = {
+        status,
+        emails: data.emails,
+        emailScores: (data.emailScores ?? {}) as Prisma.InputJsonValue,
+        phones: data.phones,
+        socials: data.socials as Prisma.InputJsonValue,
+        meta: data.meta ? (data.meta as Prisma.InputJsonValue) : Prisma.DbNull,
+        error: data.meta ? null : 'No response from site',
+        scrapedAt: new Date(),
+    };
+    await prisma.domainEnrichment.upsert({
+        where: { domain },
+        create: { domain, ...fields },
+        update: fields,
+    });
+}
+
+// Gives up a claim without a result (job failed or rescheduled) so the next job can scrape
+export async function releaseDomainEnrichment(domain: string, error?: string) {
+    await prisma.domainEnrichment.updateMany({
+        where: { domain, status: 'PROCESSING' },
+        data: error ? { status: 'FAILED', error } : { status: 'PENDING' },
+    });
+}
+
+// Other places listing the same website as `website` (on `domain`) that aren't being enriched right now
+export async function placesSharingWebsite(domain: string, website: string, excludePlaceId: string) {
+    const target = normalizeWebsiteUrl(website);
+    if (!target) return [];
+    const candidates = await prisma.place.findMany({
+        where: {
+            websiteDomain: domain,
+            id: { not: excludePlaceId },
+            scrapeStatus: { not: 'PROCESSING' },
+        },
+        select: { id: true, website: true },
+        take: MAX_FANOUT_PLACES,
+    });
+    // Results are only written unasked for places listing this exact site; the rest of the domain waits for its own job
+    return candidates.filter(place => normalizeWebsiteUrl(place.website) === target).map(place => place.id);
+}
@@ -0,0 +1,135 @@
+// Plain HTTP page fetching for the scraper: most small-business sites are static HTML and don't need a browser
+
+const FETCH_TIMEOUT_MS = parseInt(process.env.SCRAPER_HTTP_TIMEOUT_MS || '15000');
+// Contact details live in the first few hundred KB; anything past this is dropped
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+const CHARSET_SNIFF_BYTES = 4096;
+
+export interface FetchedPage {
+    url: string; // after redirects
+    status: number;
+    contentType: string;
+    charset: string;
+    html: string;
+}
+
+export class HttpFetchError extends Error {
+    constructor(message: string, public readonly status = 0) {
+        super(message);
+        this.name = 'HttpFetchError';
+    }
+}
+
+function charsetFromContentType(contentType: string) {
+    return /charset\s*=\s*["']?([\w:.-]+)/i.exec(contentType)?.[1] ?? null;
+}
+
+// <meta charset="..."> or <meta http-equiv="Content-Type" content="...; charset=...">
+function charsetFromHtmlHead(bytes: Uint8Array) {
+    const head = new TextDecoder('latin1').decode(bytes.subarray(0, CHARSET_SNIFF_BYTES));
+    return /<meta[^>]+charset\s*=\s*["']?([\w:.-]+)/i.exec(head)?.[1] ?? null;
+}
+
+function decodeBody(bytes: Uint8Array, contentType: string) {
+    const candidates = [charsetFromContentType(contentType), charsetFromHtmlHead(bytes), 'utf-8'];
+    for (const charset of candidates) {
+        if (!charset) continue;
+        try {
+            return { charset: charset.toLowerCase(), text: new TextDecoder(charset).decode(bytes) };
+        } catch {
+            // Unknown label, try the next candidate
+        }
+    }
+    return { charset: 'utf-8', text: new TextDecoder().decode(bytes) };
+}
+
+async function readLimited(response: Response, maxBytes: number) {
+    if (!response.body) return new Uint8Array();
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    while (size < maxBytes) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        size += value.byteLength;
+    }
+    await reader.cancel().catch(() => { });
+
+    const bytes = new Uint8Array(Math.min(size, maxBytes));
+    let offset = 0;
+    for (const chunk of chunks) {
+        const part = chunk.subarray(0, bytes.length - offset);
+        bytes.set(part, offset);
+        offset += part.byteLength;
+        if (offset >= bytes.length) break;
+    }
+    return bytes;
+}
+
+/**
+ * GETs an HTML page following redirects; gzip/brotli are decoded by fetch itself and the body is
+ * decoded with the charset from the header or the page's <meta>. Throws HttpFetchError for
+ * network errors, timeouts and non-HTML responses; error statuses are returned to the caller.
+ */
+export function fetchHtml(url: string, headers: Record<string, string> = {}): Promise<FetchedPage> {
+    return fetchDocument(url, headers, true);
+}
+
+// Same for plain text resources such as robots.txt, whatever their content type
+export function fetchText(url: string, headers: Record<string, string> = {}): Promise<FetchedPage> {
+    return fetchDocument(url, headers, false);
+}
+
+async function fetchDocument(url: string, headers: Record<string, string>, htmlOnly: boolean): Promise<FetchedPage> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+        const response = await fetch(url, {
+            redirect: 'follow',
+            signal: controller.signal,
+            headers: {
+                'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+                'Accept-Language': 'tr-TR,tr;q=0.9,en-US;q=0.8,en;q=0.7',
+                ...headers,
+            },
+        });
+
+        const contentType = response.headers.get('content-type') || '';
+        if (htmlOnly && contentType && !/html|xml/i.test(contentType)) {
+            await response.body?.cancel().catch(() => { });
+            throw new HttpFetchError(`Not an HTML page (${contentType})`, response.status);
+        }
+
+        const bytes = await readLimited(response, MAX_HTML_BYTES);
+        const { charset, text } = decodeBody(bytes, contentType);
+        return { url: response.url || url, status: response.status, contentType, charset, html: text };
+    } catch (error) {
+        if (error instanceof HttpFetchError) throw error;
+        const message = controller.signal.aborted ? `Timed out after ${FETCH_TIMEOUT_MS}ms` : (error instanceof Error ? error.message : String(error));
+        throw new HttpFetchError(message);
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+const SPA_ROOT_PATTERN = /<div[^>]+id=["'](root|app|__next|__nuxt|___gatsby)["'][^>]*>\s*<\/div>/i;
+const NOSCRIPT_JS_PATTERN = /<noscript[^>]*>[^<]*(javascript|js)[^<]*(enable|etkinle|aktif)/i;
+
+function visibleTextLength(html: string) {
+    return html
+        .replace(/<(script|style|noscript|template)[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&[a-z#0-9]+;/gi, ' ')
+        .replace(/\s+/g, ' ')
+        .trim().length;
+}
+
+// Heuristic for pages whose content only appears after client-side rendering
+export function looksClientRendered(html: string) {
+    const textLength = visibleTextLength(html);
+    const hasScripts = /<script\b/i.test(html);
+    if (hasScripts && textLength < 400) return true;
+    if (SPA_ROOT_PATTERN.test(html) && textLength < 2000) return true;
+    return NOSCRIPT_JS_PATTERN.test(html) && textLength < 1500;
+}
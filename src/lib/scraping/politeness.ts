@@ -0,0 +1,37 @@
+import { withDomainPoliteness } from '@/lib/traffic-control';
+import { getRobotsPolicy, type RobotsPolicy } from './robots';
+
+// How the scraper identifies itself and how hard it may hit a single site
+
+// Product token matched against robots.txt User-agent lines, whichever user agent is sent
+export const ROBOTS_AGENT_TOKEN = process.env.SCRAPER_ROBOTS_AGENT || 'ZakromBot';
+export const BOT_USER_AGENT = process.env.SCRAPER_USER_AGENT
+    || `Mozilla/5.0 (compatible; ${ROBOTS_AGENT_TOKEN}/1.0; +${process.env.APP_URL ?? process.env.NEXTAUTH_URL ?? 'http://localhost:3000'})`;
+// "bot" sends BOT_USER_AGENT; "browser" keeps rotating regular browser user agents
+export const USER_AGENT_MODE: 'bot' | 'browser' = process.env.SCRAPER_USER_AGENT_MODE === 'bot' ? 'bot' : 'browser';
+
+const DOMAIN_CONCURRENCY = Math.max(1, parseInt(process.env.SCRAPER_DOMAIN_CONCURRENCY || '2'));
+const DOMAIN_DELAY_MS = parseInt(process.env.SCRAPER_DOMAIN_DELAY_MS || '1000');
+const DOMAIN_WAIT_MS = parseInt(process.env.SCRAPER_DOMAIN_WAIT_MS || '15000');
+// A site asking for minutes between requests would stall enrichment; such sites get this much. Kept well
+// under the wait timeout so a site's next page can always get its turn instead of surfacing as busy
+const MAX_CRAWL_DELAY_MS = Math.min(30000, Math.floor(DOMAIN_WAIT_MS / 2));
+
+const domainKey = (url: string) => new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+
+export function robotsPolicyFor(url: string): Promise<RobotsPolicy> {
+    return getRobotsPolicy(url, ROBOTS_AGENT_TOKEN, BOT_USER_AGENT);
+}
+
+/**
+ * Runs one request to `url`'s site under the shared per-domain limits, spacing requests by the
+ * larger of SCRAPER_DOMAIN_DELAY_MS and the site's Crawl-delay. Throws DomainBusyError when the
+ * site stays busy for SCRAPER_DOMAIN_WAIT_MS.
+ */
+export function politely<T>(url: string, policy: RobotsPolicy | null, work: () => Promise<T>): Promise<T> {
+    return withDomainPoliteness(domainKey(url), {
+        maxConcurrent: DOMAIN_CONCURRENCY,
+        minDelayMs: Math.max(DOMAIN_DELAY_MS, Math.min(policy?.crawlDelayMs ?? 0, MAX_CRAWL_DELAY_MS)),
+        waitTimeoutMs: DOMAIN_WAIT_MS,
+    }, work);
+}
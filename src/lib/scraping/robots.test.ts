@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+
+import { crawlDelayFor, isPathAllowed, parseRobotsTxt } from './robots';
+
+const AGENT = 'ZakromBot';
+
+describe('parseRobotsTxt', () => {
+    it('groups consecutive user-agent lines and collects sitemaps', () => {
+        const robots = parseRobotsTxt([
+            'User-agent: a',
+            'User-Agent: B # comment',
+            'Disallow: /private',
+            'Disallow:',
+            '',
+            'User-agent: *',
+            'Allow: /',
+            'Crawl-delay: 2.5',
+            'Sitemap: https://example.com/sitemap.xml',
+        ].join('\r\n'));
+
+        expect(robots.groups).toEqual([
+            { agents: ['a', 'b'], rules: [{ allow: false, pattern: '/private' }] },
+            { agents: ['*'], rules: [{ allow: true, pattern: '/' }], crawlDelaySec: 2.5 },
+        ]);
+        expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+    });
+
+    it('ignores rules that appear before any user-agent line', () => {
+        expect(parseRobotsTxt('Disallow: /\nUser-agent: *').groups).toEqual([{ agents: ['*'], rules: [] }]);
+    });
+});
+
+describe('isPathAllowed', () => {
+    it('allows everything without matching rules', () => {
+        expect(isPathAllowed(parseRobotsTxt(''), AGENT, '/iletisim')).toBe(true);
+    });
+
+    it('lets the longest matching rule win, and Allow win a tie', () => {
+        const robots = parseRobotsTxt('User-agent: *\nDisallow: /shop\nAllow: /shop/contact\nDisallow: /a\nAllow: /a');
+        expect(isPathAllowed(robots, AGENT, '/shop/cart')).toBe(false);
+        expect(isPathAllowed(robots, AGENT, '/shop/contact')).toBe(true);
+        expect(isPathAllowed(robots, AGENT, '/about')).toBe(true);
+    });
+
+    it('supports * wildcards and $ anchors', () => {
+        const robots = parseRobotsTxt('User-agent: *\nDisallow: /*.pdf$\nDisallow: /*?sort=');
+        expect(isPathAllowed(robots, AGENT, '/files/menu.pdf')).toBe(false);
+        expect(isPathAllowed(robots, AGENT, '/files/menu.pdf?v=2')).toBe(true);
+        expect(isPathAllowed(robots, AGENT, '/list?sort=asc')).toBe(false);
+    });
+
+    it('prefers the group naming our product token over *', () => {
+        const robots = parseRobotsTxt('User-agent: *\nDisallow: /\n\nUser-agent: zakrombot\nDisallow: /admin');
+        expect(isPathAllowed(robots, AGENT, '/iletisim')).toBe(true);
+        expect(isPathAllowed(robots, AGENT, '/admin')).toBe(false);
+        expect(isPathAllowed(robots, 'OtherBot', '/iletisim')).toBe(false);
+    });
+
+    it('always allows robots.txt itself', () => {
+        expect(isPathAllowed(parseRobotsTxt('User-agent: *\nDisallow: /'), AGENT, '/robots.txt')).toBe(true);
+    });
+});
+
+describe('crawlDelayFor', () => {
+    it('returns the delay of the applicable group in milliseconds', () => {
+        const robots = parseRobotsTxt('User-agent: *\nCrawl-delay: 1\n\nUser-agent: zakrombot\nCrawl-delay: 3');
+        expect(crawlDelayFor(robots, AGENT)).toBe(3000);
+        expect(crawlDelayFor(robots, 'OtherBot')).toBe(1000);
+        expect(crawlDelayFor(parseRobotsTxt(''), AGENT)).toBe(0);
+    });
+});
@@ -0,0 +1,172 @@
+import { redis } from '@/lib/redis';
+import { fetchText } from './http-fetch';
+
+// robots.txt handling per RFC 9309: the most specific user-agent group applies and the longest matching rule wins
+
+const ROBOTS_CACHE_TTL_SEC = parseInt(process.env.SCRAPER_ROBOTS_CACHE_TTL_SEC || '86400');
+// Unreachable robots.txt means "disallow everything" per the RFC, so retry those sooner
+export const ROBOTS_UNREACHABLE_TTL_SEC = 3600;
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+interface RobotsRule {
+    allow: boolean;
+    pattern: string;
+}
+
+interface RobotsGroup {
+    agents: string[];
+    rules: RobotsRule[];
+    crawlDelaySec?: number;
+}
+
+export interface ParsedRobots {
+    groups: RobotsGroup[];
+    sitemaps: string[];
+}
+
+type CachedRobots = { status: 'ok'; text: string } | { status: 'missing' } | { status: 'unreachable' };
+
+export interface RobotsPolicy {
+    isAllowed(url: string): boolean;
+    crawlDelayMs: number;
+    sitemaps: string[];
+    unreachable: boolean; // robots.txt couldn't be fetched, so everything is disallowed for now
+}
+
+export function parseRobotsTxt(text: string): ParsedRobots {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of text.slice(0, MAX_ROBOTS_BYTES).split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (field === 'user-agent') {
+            // Consecutive user-agent lines share one group
+            if (!current || !lastWasAgent) {
+                current = { agents: [], rules: [] };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+            lastWasAgent = true;
+            continue;
+        }
+        lastWasAgent = false;
+
+        if (field === 'sitemap') {
+            if (value) sitemaps.push(value);
+        } else if (current && (field === 'allow' || field === 'disallow')) {
+            // An empty Disallow allows everything and adds nothing
+            if (value) current.rules.push({ allow: field === 'allow', pattern: value });
+        } else if (current && field === 'crawl-delay') {
+            const delay = parseFloat(value);
+            if (Number.isFinite(delay) && delay >= 0) current.crawlDelaySec = delay;
+        }
+    }
+    return { groups, sitemaps };
+}
+
+function patternMatches(pattern: string, path: string) {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = body.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
+
+// Groups naming our product token win over `*`; the longest matching name is the most specific
+function selectGroups(robots: ParsedRobots, agentToken: string) {
+    const token = agentToken.toLowerCase();
+    let bestLength = 0;
+    let matched: RobotsGroup[] = [];
+    for (const group of robots.groups) {
+        for (const agent of group.agents) {
+            if (agent === '*' || !token.includes(agent)) continue;
+            if (agent.length > bestLength) {
+                bestLength = agent.length;
+                matched = [group];
+            } else if (agent.length === bestLength && !matched.includes(group)) {
+                matched.push(group);
+            }
+        }
+    }
+    return matched.length > 0 ? matched : robots.groups.filter(g => g.agents.includes('*'));
+}
+
+export function isPathAllowed(robots: ParsedRobots, agentToken: string, pathWithQuery: string) {
+    if (pathWithQuery === '/robots.txt') return true;
+    let best: RobotsRule | null = null;
+    for (const group of selectGroups(robots, agentToken)) {
+        for (const rule of group.rules) {
+            if (!patternMatches(rule.pattern, pathWithQuery)) continue;
+            // Longest pattern wins; on a tie Allow wins
+            if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+                best = rule;
+            }
+        }
+    }
+    return best ? best.allow : true;
+}
+
+export function crawlDelayFor(robots: ParsedRobots, agentToken: string) {
+    const delays = selectGroups(robots, agentToken).map(g => g.crawlDelaySec).filter((d): d is number => d !== undefined);
+    return delays.length > 0 ? Math.max(...delays) * 1000 : 0;
+}
+
+async function loadRobots(origin: string, userAgent: string): Promise<CachedRobots> {
+    const cacheKey = `robots:${origin}`;
+    const cached = await redis.get(cacheKey).catch(() => null);
+    if (cached) return JSON.parse(cached) as CachedRobots;
+
+    let result: CachedRobots;
+    try {
+        const response = await fetchText(`${origin}/robots.txt`, { 'User-Agent': userAgent });
+        // 4xx means there are no rules; 5xx counts as unreachable
+        if (response.status >= 500) result = { status: 'unreachable' };
+        else if (response.status >= 400) result = { status: 'missing' };
+        else result = { status: 'ok', text: response.html.slice(0, MAX_ROBOTS_BYTES) };
+    } catch {
+        result = { status: 'unreachable' };
+    }
+
+    const ttl = result.status === 'unreachable' ? ROBOTS_UNREACHABLE_TTL_SEC : ROBOTS_CACHE_TTL_SEC;
+    await redis.set(cacheKey, JSON.stringify(result), 'EX', ttl).catch(() => { });
+    return result;
+}
+
+/**
+ * The crawl rules of the site `url` belongs to, fetched once per origin and cached in Redis.
+ * `agentToken` is the product token matched against User-agent lines.
+ */
+export async function getRobotsPolicy(url: string, agentToken: string, userAgent: string): Promise<RobotsPolicy> {
+    const origin = new URL(url).origin;
+    const cached = await loadRobots(origin, userAgent);
+
+    if (cached.status !== 'ok') {
+        const allowed = cached.status === 'missing';
+        return { isAllowed: () => allowed, crawlDelayMs: 0, sitemaps: [], unreachable: !allowed };
+    }
+
+    const robots = parseRobotsTxt(cached.text);
+    return {
+        isAllowed: (target: string) => {
+            const parsed = new URL(target, origin);
+            // Rules only cover their own origin
+            if (parsed.origin !== origin) return true;
+            return isPathAllowed(robots, agentToken, parsed.pathname + parsed.search);
+        },
+        crawlDelayMs: crawlDelayFor(robots, agentToken),
+        unreachable: false,
+        sitemaps: robots.sitemaps.flatMap(sitemap => {
+            try {
+                return [new URL(sitemap, origin).href];
+            } catch {
+                return [];
+            }
+        }),
+    };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { rankContactCandidates } from './site-crawl';
+
+const HOME = 'https://www.acme.com.tr/';
+
+describe('rankContactCandidates', () => {
+    it('orders contact > imprint > about > branches and drops pages without a contact signal', () => {
+        const ranked = rankContactCandidates(HOME, [
+            { href: '/hakkimizda', text: 'Hakkımızda' },
+            { href: '/urunler', text: 'Ürünler' },
+            { href: '/subeler', text: 'Şubeler' },
+            { href: '/kunye', text: '' },
+            { href: '/iletisim', text: '' },
+        ], []);
+        expect(ranked).toEqual([
+            'https://www.acme.com.tr/iletisim',
+            'https://www.acme.com.tr/kunye',
+            'https://www.acme.com.tr/hakkimizda',
+            'https://www.acme.com.tr/subeler',
+        ]);
+    });
+
+    it('matches Turkish link texts after folding', () => {
+        expect(rankContactCandidates(HOME, [{ href: '/sayfa/7', text: 'BİZE ULAŞIN' }], [])).toEqual(['https://www.acme.com.tr/sayfa/7']);
+    });
+
+    it('skips other sites, files, fragments and the home page itself', () => {
+        const ranked = rankContactCandidates(HOME, [
+            { href: 'https://other.com/contact', text: 'Contact' },
+            { href: '/iletisim.pdf', text: 'İletişim' },
+            { href: 'mailto:info@acme.com.tr', text: 'İletişim' },
+            { href: '/#iletisim', text: 'İletişim' },
+            { href: 'https://acme.com.tr/contact#form', text: 'Contact' },
+        ], []);
+        expect(ranked).toEqual(['https://acme.com.tr/contact']);
+    });
+
+    it('boosts header/footer links and penalizes deep paths', () => {
+        const ranked = rankContactCandidates(HOME, [
+            { href: '/tr/kurumsal/iletisim', text: '' },
+            { href: '/about', text: '' },
+        ], [{ href: '/contact', text: '' }]);
+        expect(ranked).toEqual([
+            'https://www.acme.com.tr/contact',
+            'https://www.acme.com.tr/tr/kurumsal/iletisim',
+            'https://www.acme.com.tr/about',
+        ]);
+    });
+
+    it('includes sitemap pages that were not linked', () => {
+        expect(rankContactCandidates(HOME, [], [], ['https://www.acme.com.tr/en/contact-us', 'https://www.acme.com.tr/blog'])).toEqual([
+            'https://www.acme.com.tr/en/contact-us',
+        ]);
+    });
+});
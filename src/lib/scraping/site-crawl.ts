@@ -0,0 +1,132 @@
+// Picks which pages of a business site are worth visiting for contact details
+
+export const CRAWL_MAX_PAGES = Math.max(0, parseInt(process.env.SCRAPER_CRAWL_MAX_PAGES || '4'));
+export const CRAWL_BUDGET_MS = parseInt(process.env.SCRAPER_CRAWL_BUDGET_MS || '20000');
+
+const MAX_SITEMAP_URLS = 500;
+const MAX_CHILD_SITEMAPS = 3;
+
+export interface CrawlLink {
+    href: string;
+    text: string;
+}
+
+// Keywords are matched against ASCII-folded, lowercased URL paths and link texts
+const KEYWORD_SCORES: { keywords: string[]; score: number }[] = [
+    { keywords: ['iletisim', 'contact', 'bize ulasin', 'bize-ulasin', 'ulasim', 'kontakt'], score: 100 },
+    { keywords: ['kunye', 'impressum', 'imprint', 'yasal', 'legal'], score: 80 },
+    { keywords: ['hakkimizda', 'about', 'kurumsal', 'biz kimiz', 'team', 'ekibimiz'], score: 60 },
+    { keywords: ['subeler', 'subelerimiz', 'magazalar', 'locations', 'adres', 'randevu', 'rezervasyon'], score: 40 },
+];
+const HEADER_FOOTER_BONUS = 15;
+const SITEMAP_AND_LINK_BONUS = 5;
+const DEPTH_PENALTY = 5;
+
+const SKIPPED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|webp|zip|rar|docx?|xlsx?|pptx?|mp4|mp3|css|js|json|xml)$/i;
+
+const foldTurkish = (value: string) => value
+    .toLocaleLowerCase('tr-TR')
+    .replace(/ı/g, 'i').replace(/ş/g, 's').replace(/ç/g, 'c').replace(/ğ/g, 'g').replace(/ü/g, 'u').replace(/ö/g, 'o');
+
+const sameSite = (a: string, b: string) => a.replace(/^www\./, '') === b.replace(/^www\./, '');
+
+function keywordScore(text: string) {
+    const folded = foldTurkish(text);
+    return KEYWORD_SCORES.reduce((best, group) => group.keywords.some(k => folded.includes(k)) ? Math.max(best, group.score) : best, 0);
+}
+
+// Same-site http(s) page URL without fragment, or null when it isn't worth crawling
+function normalizeCandidate(href: string, home: URL) {
+    try {
+        const url = new URL(href, home);
+        if (!['http:', 'https:'].includes(url.protocol) || !sameSite(url.hostname, home.hostname)) return null;
+        if (SKIPPED_EXTENSIONS.test(url.pathname)) return null;
+        url.hash = '';
+        if (url.pathname.replace(/\/$/, '') === home.pathname.replace(/\/$/, '') && !url.search) return null;
+        return url.href;
+    } catch {
+        return null;
+    }
+}
+
+function decodePath(pathname: string) {
+    try {
+        return decodeURIComponent(pathname);
+    } catch {
+        return pathname;
+    }
+}
+
+/**
+ * Orders same-site pages by how likely they are to hold contact details: contact > imprint >
+ * about > branch pages, with a bonus for header/footer links and a penalty for deep paths.
+ * Pages without any contact signal are left out.
+ */
+export function rankContactCandidates(homeUrl: string, links: CrawlLink[], headerFooterLinks: CrawlLink[], sitemapUrls: string[] = []) {
+    const home = new URL(homeUrl);
+    const footerHrefs = new Set(headerFooterLinks.map(l => normalizeCandidate(l.href, home)).filter(Boolean));
+    const sitemapSet = new Set(sitemapUrls.map(u => normalizeCandidate(u, home)).filter(Boolean));
+    const scores = new Map<string, number>();
+
+    const consider = (href: string, text: string) => {
+        const url = normalizeCandidate(href, home);
+        if (!url) return;
+        const path = decodePath(new URL(url).pathname);
+        let score = Math.max(keywordScore(path), keywordScore(text));
+        if (score === 0) return;
+        if (footerHrefs.has(url)) score += HEADER_FOOTER_BONUS;
+        if (sitemapSet.has(url) && text) score += SITEMAP_AND_LINK_BONUS;
+        score -= Math.max(0, path.split('/').filter(Boolean).length - 1) * DEPTH_PENALTY;
+        scores.set(url, Math.max(scores.get(url) ?? 0, score));
+    };
+
+    for (const link of [...links, ...headerFooterLinks]) consider(link.href, link.text);
+    for (const url of sitemapSet) consider(url!, '');
+
+    return [...scores.entries()].sort((a, b) => b[1] - a[1]).map(([url]) => url);
+}
+
+// Sitemap files must live on the site itself and be allowed by robots.txt; an index could point anywhere
+function fetchableSitemap(href: string, home: URL, isAllowed: (url: string) => boolean) {
+    try {
+        const url = new URL(href, home);
+        if (!['http:', 'https:'].includes(url.protocol) || !sameSite(url.hostname, home.hostname)) return null;
+        return isAllowed(url.href) ? url.href : null;
+    } catch {
+        return null;
+    }
+}
+
+const locValues = (xml: string) => [...xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?\s*([^<\]\s]+)\s*(?:\]\]>)?\s*<\/loc>/gi)].map(m => m[1].replace(/&amp;/g, '&'));
+
+/**
+ * Page URLs from the site's sitemap.xml, following a sitemap index one level deep.
+ * Only same-site sitemaps that `isAllowed` accepts are fetched; missing or broken sitemaps simply yield nothing.
+ */
+export async function fetchSitemapUrls(homeUrl: string, fetchText: (url: string) => Promise<string>, isAllowed: (url: string) => boolean, sitemapUrl?: string) {
+    const home = new URL(homeUrl);
+    // A robots.txt sitemap on another host falls back to the conventional location
+    const root = (sitemapUrl && fetchableSitemap(sitemapUrl, home, isAllowed)) || fetchableSitemap('/sitemap.xml', home, isAllowed);
+    if (!root) return [];
+    const urls: string[] = [];
+    try {
+        const xml = await fetchText(root);
+        if (/<sitemapindex/i.test(xml)) {
+            // Page sitemaps first; post/product sitemaps rarely hold contact pages
+            const children = locValues(xml)
+                .map(child => fetchableSitemap(child, home, isAllowed))
+                .filter((child): child is string => child !== null)
+                .sort((a, b) => Number(/post|product|urun|blog/i.test(a)) - Number(/post|product|urun|blog/i.test(b)));
+            for (const child of children.slice(0, MAX_CHILD_SITEMAPS)) {
+                const childXml = await fetchText(child).catch(() => '');
+                urls.push(...locValues(childXml));
+                if (urls.length >= MAX_SITEMAP_URLS) break;
+            }
+        } else {
+            urls.push(...locValues(xml));
+        }
+    } catch {
+        return [];
+    }
+    return urls.filter(u => normalizeCandidate(u, home) !== null).slice(0, MAX_SITEMAP_URLS);
+}
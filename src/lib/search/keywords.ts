@@ -0,0 +1,40 @@
+export const MAX_KEYWORDS_PER_SEARCH = 8;
+
+/**
+ * Primary keyword first, then the extra keywords/synonyms; trimmed, lowercased and de-duplicated.
+ */
+export function normalizeKeywordSet(keyword: string, extra: string[] = []) {
+    const seen = new Set<string>();
+    const keywords: string[] = [];
+    for (const raw of [keyword, ...extra]) {
+        const value = raw.trim().toLowerCase();
+        if (!value || seen.has(value)) continue;
+        seen.add(value);
+        keywords.push(value);
+    }
+    return keywords;
+}
+
+// Order-independent cache/lock key fragment for a keyword set
+export function keywordSetKey(keywords: string[]) {
+    return [...keywords].sort().join("+");
+}
+
+/**
+ * Merges per-keyword result lists into one, de-duplicated by place_id.
+ * Each place carries `matched_keywords` (every query that returned it), first occurrence wins otherwise.
+ */
+export function mergeKeywordResults<T extends { place_id: string }>(batches: { keyword: string; places: T[] }[]) {
+    const byId = new Map<string, T & { matched_keywords: string[] }>();
+    for (const { keyword, places } of batches) {
+        for (const place of places) {
+            const existing = byId.get(place.place_id);
+            if (existing) {
+                if (!existing.matched_keywords.includes(keyword)) existing.matched_keywords.push(keyword);
+                continue;
+            }
+            byId.set(place.place_id, { ...place, matched_keywords: [keyword] });
+        }
+    }
+    return Array.from(byId.values());
+}
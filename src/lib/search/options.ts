@@ -0,0 +1,26 @@
+import type { SearchArea } from "@/lib/geo/polygon";
+import type { PlacesProviderId } from "@/lib/gateway/types";
+
+/**
+ * "Near here" target: either raw coordinates or a Place already in the DB (Place.googleId).
+ */
+export interface NearbyTarget {
+    lat?: number;
+    lng?: number;
+    placeId?: string;
+    radius: number; // meters
+}
+
+/**
+ * Optional search parameters carried next to city/keyword through the
+ * server actions, the search queue and the cache key.
+ */
+export interface SearchOptions {
+    area?: SearchArea; // polygon search area (uploaded, drawn on the map or a bundled boundary)
+    nearby?: NearbyTarget; // radius search, results sorted by distance
+    keywords?: string[]; // extra keywords/synonyms searched in the same job as the primary keyword
+    synonymGroupId?: string; // saved SynonymGroup; resolved into `keywords` before the job is queued
+    includedType?: string; // Google place type filter, e.g. "gym"
+    strictTypeFiltering?: boolean; // only return places that actually carry `includedType`
+    provider?: PlacesProviderId; // data source; defaults to the plan's first provider
+}
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { PLANS, SubscriptionTier } from "@/lib/plans";
+import { parseSearchArea } from "@/lib/geo/polygon";
+import { isValidPlaceType } from "@/lib/places/place-types";
+import { keywordSetKey, MAX_KEYWORDS_PER_SEARCH, normalizeKeywordSet } from "@/lib/search/keywords";
+import type { SearchOptions } from "@/lib/search/options";
+
+const ExtraKeywordsSchema = z.array(
+    z.string().trim().min(2, "Anahtar kelime en az 2 karakter olmalıdır.").max(50, "Anahtar kelime çok uzun.")
+).max(MAX_KEYWORDS_PER_SEARCH - 1, `Tek aramada en fazla ${MAX_KEYWORDS_PER_SEARCH} anahtar kelime kullanılabilir.`);
+
+const NearbySchema = z.object({
+    lat: z.number().min(-90).max(90).optional(),
+    lng: z.number().min(-180).max(180).optional(),
+    placeId: z.string().trim().min(1).max(300).optional(),
+    radius: z.number().min(50, "Yarıçap en az 50 metre olmalıdır.").max(50000, "Yarıçap en fazla 50 km olabilir."),
+}).refine(
+    (n) => !!n.placeId || (n.lat !== undefined && n.lng !== undefined),
+    "Yakın arama için koordinat veya kayıtlı bir işletme gerekli."
+);
+
+// A search rejected for its input or the plan's limits; the message is meant for the user as-is
+export class SearchInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SearchInputError";
+    }
+}
+
+export function normalizeInput(value: string) {
+    return value.trim().toLowerCase();
+}
+
+// Cache/lock scope for a search: city + keyword (or the sorted keyword set), plus a short hash of the polygon when one is used
+export function buildSearchScope(city: string, keyword: string, options: SearchOptions = {}) {
+    const parts = [normalizeInput(city), keywordSetKey(normalizeKeywordSet(keyword, options.keywords))];
+    if (options.area) {
+        parts.push(`area-${createHash("sha1").update(JSON.stringify(options.area)).digest("hex").slice(0, 12)}`);
+    }
+    if (options.nearby) {
+        const { lat, lng, placeId, radius } = options.nearby;
+        const origin = placeId ? `place-${placeId}` : `${lat!.toFixed(4)},${lng!.toFixed(4)}`;
+        parts.push(`near-${origin}-r${Math.round(radius)}`);
+    }
+    if (options.provider && options.provider !== "google") {
+        parts.push(`prov-${options.provider}`);
+    }
+    if (options.includedType) {
+        parts.push(`type-${options.includedType}${options.strictTypeFiltering ? "-strict" : ""}`);
+    }
+    return parts.join(":");
+}
+
+export function validateSearchOptions(options: SearchOptions = {}): SearchOptions {
+    const validated: SearchOptions = {};
+    if (options.area) {
+        const area = parseSearchArea(options.area);
+        if (!area) throw new SearchInputError("Geçersiz arama alanı. GeoJSON Polygon veya MultiPolygon bekleniyor.");
+        validated.area = area;
+    }
+    if (options.nearby) {
+        const nearby = NearbySchema.safeParse(options.nearby);
+        if (!nearby.success) throw new SearchInputError(nearby.error.issues[0].message);
+        validated.nearby = nearby.data;
+    }
+    if (options.keywords && options.keywords.length > 0) {
+        const keywords = ExtraKeywordsSchema.safeParse(options.keywords);
+        if (!keywords.success) throw new SearchInputError(keywords.error.issues[0].message);
+        validated.keywords = keywords.data;
+    }
+    if (options.includedType) {
+        if (!isValidPlaceType(options.includedType)) throw new SearchInputError("Geçersiz işletme türü.");
+        validated.includedType = options.includedType;
+        validated.strictTypeFiltering = !!options.strictTypeFiltering;
+    }
+    if (options.provider) {
+        validated.provider = options.provider;
+    }
+    return validated;
+}
+
+/**
+ * Resolves per-user parts of the options before the cache key is built and the job is queued:
+ * the data source (plan default / plan check) and a saved synonym group (expanded into keywords).
+ */
+export async function resolveSearchOptions(keyword: string, options: SearchOptions, userId: string): Promise<SearchOptions> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { subscriptionTier: true } });
+    const allowedProviders = (PLANS[(user?.subscriptionTier as SubscriptionTier) || "FREE"] || PLANS.FREE).features.placesProviders;
+    const provider = options.provider ?? allowedProviders[0];
+    if (!allowedProviders.includes(provider)) throw new SearchInputError("Seçilen veri kaynağı planınızda bulunmuyor.");
+    options = { ...options, provider };
+
+    if (!options.synonymGroupId) return options;
+    const group = await prisma.synonymGroup.findFirst({
+        where: { id: options.synonymGroupId, userId },
+        select: { keywords: true }
+    });
+    if (!group) throw new SearchInputError("Eş anlamlı kelime grubu bulunamadı.");
+
+    const rest: SearchOptions = { ...options };
+    delete rest.synonymGroupId;
+    const keywords = normalizeKeywordSet(keyword, [...(rest.keywords || []), ...group.keywords]).slice(1);
+    return { ...rest, keywords: keywords.slice(0, MAX_KEYWORDS_PER_SEARCH - 1) };
+}
+
+// Resolve + validate in one step, as done before a search is queued or saved
+export async function prepareSearchOptions(keyword: string, options: SearchOptions, userId: string) {
+    return validateSearchOptions(await resolveSearchOptions(keyword, options, userId));
+}
@@ -0,0 +1,14 @@
+export type SavedSearchSchedule = "daily" | "weekly";
+
+export const SAVED_SEARCH_SCHEDULES: { value: SavedSearchSchedule; label: string; intervalMs: number }[] = [
+    { value: "daily", label: "Günlük", intervalMs: 24 * 60 * 60 * 1000 },
+    { value: "weekly", label: "Haftalık", intervalMs: 7 * 24 * 60 * 60 * 1000 },
+];
+
+export function isSavedSearchSchedule(value: unknown): value is SavedSearchSchedule {
+    return SAVED_SEARCH_SCHEDULES.some(s => s.value === value);
+}
+
+export function scheduleIntervalMs(schedule: SavedSearchSchedule) {
+    return SAVED_SEARCH_SCHEDULES.find(s => s.value === schedule)!.intervalMs;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+vi.mock("@/lib/redis", () => ({ redis: {} }));
+vi.mock("@/app/actions/search-places", () => ({ executeSearchCore: vi.fn() }));
+vi.mock("@/lib/auth/email", () => ({ sendSavedSearchAlertEmail: vi.fn() }));
+
+import { diffSnapshots } from "./saved-searches";
+
+describe("diffSnapshots", () => {
+    it("reports places missing from the previous run as opened", () => {
+        expect(diffSnapshots({ a: "OPERATIONAL" }, { a: "OPERATIONAL", b: null, c: "OPERATIONAL" })).toEqual({ opened: ["b", "c"], closed: [] });
+    });
+
+    it("reports places whose status turned CLOSED_* as closed", () => {
+        expect(diffSnapshots(
+            { a: "OPERATIONAL", b: null, c: "CLOSED_TEMPORARILY" },
+            { a: "CLOSED_PERMANENTLY", b: "CLOSED_TEMPORARILY", c: "CLOSED_PERMANENTLY" },
+        )).toEqual({ opened: [], closed: ["a", "b"] });
+    });
+
+    it("ignores places that dropped out of the results or reopened", () => {
+        expect(diffSnapshots({ a: "OPERATIONAL", b: "CLOSED_TEMPORARILY" }, { b: "OPERATIONAL" })).toEqual({ opened: [], closed: [] });
+    });
+
+    it("counts a place that is new and already closed as opened only", () => {
+        expect(diffSnapshots({}, { a: "CLOSED_PERMANENTLY" })).toEqual({ opened: ["a"], closed: [] });
+    });
+});
@@ -0,0 +1,171 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { redis } from "@/lib/redis";
+import { PLANS, SubscriptionTier } from "@/lib/plans";
+import { executeSearchCore } from "@/app/actions/search-places";
+import { buildSearchScope } from "@/lib/search/prepare";
+import { sendSavedSearchAlertEmail } from "@/lib/auth/email";
+import { getAppUrl } from "@/lib/auth/request";
+import type { SearchOptions } from "@/lib/search/options";
+
+// googleId -> businessStatus (null when the provider did not report one)
+export type SavedSearchSnapshot = Record<string, string | null>;
+
+interface SnapshotPlace {
+    place_id?: string;
+    business_status?: string | null;
+}
+
+export interface SavedSearchDiff {
+    opened: string[];
+    closed: string[];
+}
+
+const CLOSED_STATUSES = new Set(["CLOSED_TEMPORARILY", "CLOSED_PERMANENTLY"]);
+const MAX_ALERT_PLACES = 25;
+
+function isClosed(status: string | null | undefined) {
+    return !!status && CLOSED_STATUSES.has(status);
+}
+
+/**
+ * Compares two runs of a saved search. A place is "opened" the first time it shows up (runSavedSearch
+ * further keeps only places new to the Place table);
+ * "closed" when its status turns CLOSED_* (it may already have dropped out of the results,
+ * in which case `current` carries the status last seen in the Place table).
+ */
+export function diffSnapshots(previous: SavedSearchSnapshot, current: SavedSearchSnapshot): SavedSearchDiff {
+    const opened: string[] = [];
+    const closed: string[] = [];
+    for (const [placeId, status] of Object.entries(current)) {
+        if (!(placeId in previous)) {
+            opened.push(placeId);
+        } else if (isClosed(status) && !isClosed(previous[placeId])) {
+            closed.push(placeId);
+        }
+    }
+    return { opened, closed };
+}
+
+// Deep searches return the first page only; the full result list is in the deep-search list cache
+async function collectRunSnapshot(
+    city: string,
+    keyword: string,
+    options: SearchOptions,
+    deepSearch: boolean,
+    result: { places: SnapshotPlace[] }
+): Promise<SavedSearchSnapshot> {
+    let places = result.places;
+    if (deepSearch) {
+        const cached = await redis.get(`search:list:data:${buildSearchScope(city, keyword, options)}`);
+        if (cached) {
+            const parsed = JSON.parse(cached);
+            places = Array.isArray(parsed) ? parsed : (parsed?.places || places);
+        }
+    }
+
+    const snapshot: SavedSearchSnapshot = {};
+    for (const place of places) {
+        if (place?.place_id) snapshot[place.place_id] = place.business_status ?? null;
+    }
+    return snapshot;
+}
+
+async function notify(userId: string, type: string, title: string, body: string, data?: Prisma.InputJsonValue) {
+    await prisma.notification.create({ data: { userId, type, title, body, data } });
+}
+
+/**
+ * Re-runs a saved search through the regular search pipeline (credits are charged as usual),
+ * diffs it against the previous run and alerts the owner about opened/closed businesses.
+ * The first run only records a baseline.
+ */
+export async function runSavedSearch(savedSearchId: string) {
+    const saved = await prisma.savedSearch.findUnique({
+        where: { id: savedSearchId },
+        include: { user: { select: { email: true, subscriptionTier: true } } }
+    });
+    if (!saved || !saved.active) return { status: "skipped" as const };
+
+    const plan = PLANS[(saved.user.subscriptionTier as SubscriptionTier) || "FREE"] || PLANS.FREE;
+    if (!plan.features.savedSearches) {
+        const message = "Planınız kayıtlı aramaları desteklemiyor. Arama duraklatıldı.";
+        await prisma.savedSearch.update({ where: { id: saved.id }, data: { active: false, lastError: message } });
+        await notify(saved.userId, "SAVED_SEARCH_FAILED", saved.name, message, { savedSearchId: saved.id });
+        return { status: "paused" as const };
+    }
+
+    const options = (saved.options ?? {}) as SearchOptions;
+    let current: SavedSearchSnapshot;
+    try {
+        const result = await executeSearchCore(saved.city, saved.keyword, saved.userId, undefined, saved.deepSearch, undefined, options);
+        current = await collectRunSnapshot(saved.city, saved.keyword, options, saved.deepSearch, result);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Arama çalıştırılamadı.";
+        await prisma.savedSearch.update({ where: { id: saved.id }, data: { lastError: message, lastRunAt: new Date() } });
+        await notify(saved.userId, "SAVED_SEARCH_FAILED", saved.name, `Kayıtlı arama çalıştırılamadı: ${message}`, { savedSearchId: saved.id });
+        return { status: "failed" as const, error: message };
+    }
+
+    const previous = saved.lastSnapshot as SavedSearchSnapshot | null;
+    const resultCount = Object.keys(current).length;
+
+    // Places that fell out of the results keep their last known status from the Place table
+    const merged: SavedSearchSnapshot = { ...(previous || {}), ...current };
+    const missing = previous ? Object.keys(previous).filter(id => !(id in current)) : [];
+    if (missing.length > 0) {
+        const stored = await prisma.place.findMany({
+            where: { googleId: { in: missing } },
+            select: { googleId: true, businessStatus: true }
+        });
+        for (const place of stored) merged[place.googleId] = place.businessStatus ?? merged[place.googleId];
+    }
+
+    const diff = previous ? diffSnapshots(previous, merged) : { opened: [], closed: [] };
+    // Results are ranked, so a known business can move into view (a non-deep run only sees the first
+    // page); only places first stored since the previous run count as opened
+    if (diff.opened.length > 0 && saved.lastRunAt) {
+        const stored = await prisma.place.findMany({
+            where: { googleId: { in: diff.opened }, createdAt: { gt: saved.lastRunAt } },
+            select: { googleId: true }
+        });
+        const newIds = new Set(stored.map(place => place.googleId));
+        diff.opened = diff.opened.filter(id => newIds.has(id));
+    }
+
+    await prisma.$transaction([
+        prisma.savedSearchRun.create({
+            data: { savedSearchId: saved.id, resultCount, newPlaceIds: diff.opened, closedPlaceIds: diff.closed }
+        }),
+        prisma.savedSearch.update({
+            where: { id: saved.id },
+            data: { lastSnapshot: merged, lastRunAt: new Date(), lastError: null }
+        }),
+    ]);
+
+    if (diff.opened.length > 0 || diff.closed.length > 0) {
+        const opened = diff.opened.slice(0, MAX_ALERT_PLACES);
+        const closed = diff.closed.slice(0, MAX_ALERT_PLACES);
+        const places = await prisma.place.findMany({
+            where: { googleId: { in: [...opened, ...closed] } },
+            select: { googleId: true, name: true, address: true }
+        });
+        const byId = new Map(places.map(p => [p.googleId, p]));
+        const pick = (ids: string[]) => ids.map(id => byId.get(id)).filter((p): p is NonNullable<typeof p> => !!p);
+
+        const parts: string[] = [];
+        if (diff.opened.length > 0) parts.push(`${diff.opened.length} yeni işletme`);
+        if (diff.closed.length > 0) parts.push(`${diff.closed.length} kapanan işletme`);
+        await notify(saved.userId, "SAVED_SEARCH_ALERT", saved.name, `${parts.join(", ")} bulundu.`, {
+            savedSearchId: saved.id,
+            opened,
+            closed,
+        });
+
+        if (saved.notifyEmail && saved.user.email) {
+            await sendSavedSearchAlertEmail(saved.user.email, saved.name, pick(opened), pick(closed), `${getAppUrl()}/dashboard`);
+        }
+    }
+
+    return { status: "completed" as const, resultCount, opened: diff.opened.length, closed: diff.closed.length };
+}
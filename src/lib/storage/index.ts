@@ -0,0 +1,10 @@
+import { localStorageBackend } from "./local";
+import { s3StorageBackend } from "./s3";
+import type { StorageBackend } from "./types";
+
+export type { StorageBackend, StoredDownload } from "./types";
+
+// EXPORT_STORAGE=local (default) keeps files on disk; EXPORT_STORAGE=s3 uses S3/MinIO
+export function getStorage(): StorageBackend {
+    return process.env.EXPORT_STORAGE === "s3" ? s3StorageBackend : localStorageBackend;
+}
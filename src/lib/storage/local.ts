@@ -0,0 +1,33 @@
+import fs from "fs";
+import path from "path";
+import type { StorageBackend } from "./types";
+
+const ROOT = path.resolve(process.env.EXPORT_STORAGE_DIR || path.join(process.cwd(), ".data", "exports"));
+
+// Keys are generated server-side, but never let one escape the storage root
+function resolveKey(key: string) {
+    const filePath = path.resolve(ROOT, key);
+    if (!filePath.startsWith(ROOT + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return filePath;
+}
+
+export const localStorageBackend: StorageBackend = {
+    name: "local",
+
+    async putFile(key, filePath) {
+        const target = resolveKey(key);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        // Copy rather than rename: the temp dir may be on another filesystem
+        await fs.promises.copyFile(filePath, target);
+    },
+
+    async getDownload(key) {
+        const filePath = resolveKey(key);
+        const stat = await fs.promises.stat(filePath);
+        return { type: "stream", stream: fs.createReadStream(filePath), size: stat.size };
+    },
+
+    async delete(key) {
+        await fs.promises.rm(resolveKey(key), { force: true });
+    },
+};
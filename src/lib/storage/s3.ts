@@ -0,0 +1,132 @@
+import crypto from "crypto";
+import fs from "fs";
+import { Readable } from "stream";
+import type { StorageBackend } from "./types";
+
+/**
+ * Minimal S3 client (PUT/DELETE + presigned GET, Signature V4) for AWS S3 and
+ * S3-compatible servers such as MinIO. Path-style addressing is the default since
+ * MinIO expects it; set S3_FORCE_PATH_STYLE=false for virtual-hosted buckets.
+ */
+const REGION = process.env.S3_REGION || "us-east-1";
+const ENDPOINT = (process.env.S3_ENDPOINT || `https://s3.${REGION}.amazonaws.com`).replace(/\/$/, "");
+const BUCKET = process.env.S3_BUCKET || "";
+const ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID || "";
+const SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY || "";
+const FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE !== "false";
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+function assertConfigured() {
+    if (!BUCKET || !ACCESS_KEY_ID || !SECRET_ACCESS_KEY) {
+        throw new Error("S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+    }
+}
+
+function encodeRfc3986(value: string) {
+    return encodeURIComponent(value).replace(/[!'()*]/g, ch => `%${ch.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function objectUrl(key: string) {
+    const encodedKey = key.split("/").map(encodeRfc3986).join("/");
+    if (FORCE_PATH_STYLE) return new URL(`${ENDPOINT}/${BUCKET}/${encodedKey}`);
+    const endpoint = new URL(ENDPOINT);
+    return new URL(`${endpoint.protocol}//${BUCKET}.${endpoint.host}/${encodedKey}`);
+}
+
+function hmac(key: crypto.BinaryLike, data: string) {
+    return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+function sha256Hex(data: string) {
+    return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function timestamps(now = new Date()) {
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+    return { amzDate, dateStamp: amzDate.slice(0, 8) };
+}
+
+function canonicalQuery(params: URLSearchParams) {
+    return [...params.entries()]
+        .map(([k, v]) => [encodeRfc3986(k), encodeRfc3986(v)])
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([k, v]) => `${k}=${v}`)
+        .join("&");
+}
+
+function signature(method: string, url: URL, headers: Record<string, string>, amzDate: string, dateStamp: string) {
+    const names = Object.keys(headers).map(h => h.toLowerCase()).sort();
+    const lowered = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v.trim()]));
+    const canonicalRequest = [
+        method,
+        url.pathname,
+        canonicalQuery(url.searchParams),
+        names.map(name => `${name}:${lowered[name]}\n`).join(""),
+        names.join(";"),
+        UNSIGNED_PAYLOAD,
+    ].join("\n");
+
+    const scope = `${dateStamp}/${REGION}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${SECRET_ACCESS_KEY}`, dateStamp), REGION), "s3"), "aws4_request");
+    return {
+        signature: crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex"),
+        signedHeaders: names.join(";"),
+        credential: `${ACCESS_KEY_ID}/${scope}`,
+    };
+}
+
+async function signedRequest(method: string, key: string, extraHeaders: Record<string, string> = {}, body?: Readable) {
+    assertConfigured();
+    const url = objectUrl(key);
+    const { amzDate, dateStamp } = timestamps();
+    const headers: Record<string, string> = {
+        host: url.host,
+        "x-amz-content-sha256": UNSIGNED_PAYLOAD,
+        "x-amz-date": amzDate,
+        ...extraHeaders,
+    };
+    const { signature: sig, signedHeaders, credential } = signature(method, url, headers, amzDate, dateStamp);
+    // fetch sets Host itself
+    const sendHeaders = Object.fromEntries(Object.entries(headers).filter(([name]) => name !== "host"));
+
+    const response = await fetch(url, {
+        method,
+        headers: { ...sendHeaders, Authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${sig}` },
+        body: body ? (Readable.toWeb(body) as ReadableStream) : undefined,
+        // Required by Node's fetch for streamed request bodies
+        ...(body ? { duplex: "half" } : {}),
+    } as RequestInit);
+    if (!response.ok && !(method === "DELETE" && response.status === 404)) {
+        throw new Error(`S3 ${method} ${key} failed: ${response.status} ${(await response.text().catch(() => "")).slice(0, 300)}`);
+    }
+}
+
+export const s3StorageBackend: StorageBackend = {
+    name: "s3",
+
+    async putFile(key, filePath, contentType) {
+        const { size } = await fs.promises.stat(filePath);
+        await signedRequest("PUT", key, { "content-type": contentType, "content-length": String(size) }, fs.createReadStream(filePath));
+    },
+
+    async getDownload(key, { fileName, contentType, expiresInSeconds }) {
+        assertConfigured();
+        const url = objectUrl(key);
+        const { amzDate, dateStamp } = timestamps();
+        url.searchParams.set("X-Amz-Algorithm", "AWS4-HMAC-SHA256");
+        url.searchParams.set("X-Amz-Credential", `${ACCESS_KEY_ID}/${dateStamp}/${REGION}/s3/aws4_request`);
+        url.searchParams.set("X-Amz-Date", amzDate);
+        url.searchParams.set("X-Amz-Expires", String(Math.min(Math.max(1, Math.floor(expiresInSeconds)), 604800)));
+        url.searchParams.set("X-Amz-SignedHeaders", "host");
+        url.searchParams.set("response-content-disposition", `attachment; filename="${fileName}"`);
+        url.searchParams.set("response-content-type", contentType);
+        const { signature: sig } = signature("GET", url, { host: url.host }, amzDate, dateStamp);
+        url.searchParams.set("X-Amz-Signature", sig);
+        return { type: "redirect", url: url.toString() };
+    },
+
+    async delete(key) {
+        await signedRequest("DELETE", key);
+    },
+};
@@ -0,0 +1,14 @@
+import type { Readable } from "stream";
+
+export type StoredDownload =
+    | { type: "stream"; stream: Readable; size: number }
+    | { type: "redirect"; url: string };
+
+export interface StorageBackend {
+    name: string;
+    // Uploads a finished file from local disk under `key`
+    putFile(key: string, filePath: string, contentType: string): Promise<void>;
+    // Either a readable stream or a short-lived URL the browser can be redirected to
+    getDownload(key: string, options: { fileName: string; contentType: string; expiresInSeconds: number }): Promise<StoredDownload>;
+    delete(key: string): Promise<void>;
+}
@@ -130,3 +130,69 @@ export async function withInflightLimiter<T>(key: string, maxConcurrent: number,
         await redis.decr(key);
     }
 }
+
+// Takes a request slot for a domain: -1 = all slots busy, >0 = ms until the next start is allowed, 0 = acquired
+const DOMAIN_SLOT_LUA = `
+local now = tonumber(ARGV[1])
+local maxConcurrent = tonumber(ARGV[2])
+local minDelay = tonumber(ARGV[3])
+local ttl = tonumber(ARGV[4])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now)
+if redis.call("ZCARD", KEYS[1]) >= maxConcurrent then
+  return -1
+end
+local nextAt = tonumber(redis.call("GET", KEYS[2]) or "0")
+if nextAt > now then
+  return nextAt - now
+end
+redis.call("ZADD", KEYS[1], now + ttl, ARGV[5])
+redis.call("PEXPIRE", KEYS[1], ttl)
+if minDelay > 0 then
+  redis.call("SET", KEYS[2], now + minDelay, "PX", minDelay)
+end
+return 0
+`;
+
+export class DomainBusyError extends Error {
+    constructor(public domain: string, public retryAfterMs: number) {
+        super(`Domain ${domain} is busy, retry in ${retryAfterMs}ms`);
+        this.name = "DomainBusyError";
+    }
+}
+
+/**
+ * Per-domain politeness shared by every worker process: at most `maxConcurrent` requests in flight
+ * and `minDelayMs` between request starts. Waits up to `waitTimeoutMs` for a turn, then throws
+ * DomainBusyError so callers can reschedule instead of holding a worker slot.
+ */
+export async function withDomainPoliteness<T>(
+    domain: string,
+    config: { maxConcurrent: number; minDelayMs: number; waitTimeoutMs: number; slotTtlMs?: number },
+    work: () => Promise<T>
+) {
+    const slotsKey = `polite:${domain}:slots`;
+    const nextKey = `polite:${domain}:next`;
+    const token = randomUUID();
+    const slotTtlMs = config.slotTtlMs ?? 60000;
+    const deadline = Date.now() + config.waitTimeoutMs;
+
+    while (true) {
+        const result = Number(await redis.eval(
+            DOMAIN_SLOT_LUA, 2, slotsKey, nextKey,
+            Date.now(), Math.max(1, config.maxConcurrent), Math.max(0, config.minDelayMs), slotTtlMs, token
+        ));
+        if (result === 0) break;
+
+        const waitMs = result > 0 ? result : 250;
+        if (Date.now() + waitMs > deadline) {
+            throw new DomainBusyError(domain, Math.max(waitMs, config.minDelayMs, 1000));
+        }
+        await sleep(waitMs);
+    }
+
+    try {
+        return await work();
+    } finally {
+        await redis.zrem(slotsKey, token).catch(() => { });
+    }
+}
@@ -0,0 +1,55 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { addWebhookDeliveryJob } from "@/lib/queue/webhook-queue";
+import type { Workspace } from "@/lib/org/workspace";
+import type { WebhookEvent } from "./events";
+
+// Everyone working in the workspace: all team members, or just the user for personal workspaces
+export async function workspaceUserIds(workspace: Workspace) {
+    if (!workspace.organizationId) return [workspace.userId];
+    const members = await prisma.membership.findMany({
+        where: { organizationId: workspace.organizationId },
+        select: { userId: true }
+    });
+    return members.map(m => m.userId);
+}
+
+// Users who track a place as a lead, directly or through their team
+export async function placeWatcherUserIds(placeId: string) {
+    const leads = await prisma.lead.findMany({
+        where: { placeId },
+        select: { userId: true, organizationId: true }
+    });
+    const orgIds = [...new Set(leads.map(l => l.organizationId).filter((id): id is string => !!id))];
+    const members = orgIds.length > 0
+        ? await prisma.membership.findMany({ where: { organizationId: { in: orgIds } }, select: { userId: true } })
+        : [];
+    return [...new Set([...leads.filter(l => !l.organizationId).map(l => l.userId), ...members.map(m => m.userId)])];
+}
+
+/**
+ * Records a delivery for every active endpoint of `userIds` subscribed to `event` and queues it.
+ * Never throws: webhook problems must not fail the search, export or pipeline action that emitted them.
+ */
+export async function dispatchWebhookEvent(userIds: string[], event: WebhookEvent, data: Prisma.InputJsonObject) {
+    if (userIds.length === 0) return;
+    try {
+        const endpoints = await prisma.webhookEndpoint.findMany({
+            where: { userId: { in: userIds }, active: true, events: { has: event } },
+            select: { id: true }
+        });
+        for (const endpoint of endpoints) {
+            const delivery = await prisma.webhookDelivery.create({
+                data: {
+                    endpointId: endpoint.id,
+                    event,
+                    payload: { event, createdAt: new Date().toISOString(), data },
+                },
+                select: { id: true }
+            });
+            await addWebhookDeliveryJob(delivery.id);
+        }
+    } catch (error: unknown) {
+        console.error(`[Webhooks] Failed to dispatch ${event}:`, error instanceof Error ? error.message : error);
+    }
+}
@@ -0,0 +1,16 @@
+export type WebhookEvent = "search.completed" | "place.enriched" | "export.ready" | "lead.status_changed";
+
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string; description: string }[] = [
+    { value: "search.completed", label: "Arama tamamlandı", description: "Bir arama sonuçlandığında bulunan işletmelerle birlikte gönderilir." },
+    { value: "place.enriched", label: "İşletme zenginleştirildi", description: "Web sitesinden e-posta, telefon ve sosyal medya bilgileri toplandığında." },
+    { value: "export.ready", label: "Dışa aktarım hazır", description: "CSV/Excel dosyası indirilmeye hazır olduğunda." },
+    { value: "lead.status_changed", label: "Aday aşaması değişti", description: "Bir aday satış hattında başka bir aşamaya taşındığında." },
+];
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+    return WEBHOOK_EVENTS.some(e => e.value === value);
+}
+
+export function webhookEventLabel(event: string) {
+    return WEBHOOK_EVENTS.find(e => e.value === event)?.label || event;
+}
@@ -0,0 +1,32 @@
+import { createHmac } from "crypto";
+import { describe, expect, it } from "vitest";
+import { generateWebhookSecret, signWebhookPayload } from "./signing";
+
+describe("signWebhookPayload", () => {
+    it("signs `<timestamp>.<body>` with HMAC-SHA256", () => {
+        const body = JSON.stringify({ event: "lead.created" });
+        const expected = createHmac("sha256", "whsec_test").update(`1700000000.${body}`).digest("hex");
+        expect(signWebhookPayload("whsec_test", body, 1700000000)).toBe(`t=1700000000,v1=${expected}`);
+    });
+
+    it("changes with the secret, the body and the timestamp", () => {
+        const base = signWebhookPayload("a", "{}", 1);
+        expect(signWebhookPayload("b", "{}", 1)).not.toBe(base);
+        expect(signWebhookPayload("a", "{ }", 1)).not.toBe(base);
+        expect(signWebhookPayload("a", "{}", 2)).not.toBe(base);
+    });
+
+    it("defaults to the current unix time", () => {
+        const now = Math.floor(Date.now() / 1000);
+        const timestamp = Number(signWebhookPayload("a", "{}").match(/^t=(\d+),/)?.[1]);
+        expect(Math.abs(timestamp - now)).toBeLessThanOrEqual(1);
+    });
+});
+
+describe("generateWebhookSecret", () => {
+    it("returns a prefixed random hex secret", () => {
+        const secret = generateWebhookSecret();
+        expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+        expect(generateWebhookSecret()).not.toBe(secret);
+    });
+});
@@ -0,0 +1,16 @@
+import { createHmac, randomBytes } from "crypto";
+
+export const SIGNATURE_HEADER = "X-Zakrom-Signature";
+
+export function generateWebhookSecret() {
+    return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Stripe-style signature: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * Receivers recompute the HMAC with their secret and reject stale timestamps to block replays.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+    const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    return `t=${timestamp},v1=${signature}`;
+}
@@ -0,0 +1,69 @@
+import { lookup } from "dns/promises";
+import { isIP, type LookupFunction } from "net";
+import { Agent } from "undici";
+
+// Lets webhooks target plain http and local receivers, e.g. while developing against a local test server
+const ALLOW_PRIVATE_URLS = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+
+function isPrivateAddress(address: string) {
+    if (isIP(address) === 6) {
+        const lower = address.toLowerCase();
+        if (lower.startsWith("::ffff:")) return isPrivateAddress(lower.slice(7));
+        return lower === "::1" || lower === "::" || lower.startsWith("fc") || lower.startsWith("fd") || lower.startsWith("fe80");
+    }
+    const [a, b] = address.split(".").map(Number);
+    return a === 10 || a === 127 || a === 0
+        || (a === 169 && b === 254)
+        || (a === 172 && b >= 16 && b <= 31)
+        || (a === 192 && b === 168)
+        || (a === 100 && b >= 64 && b <= 127);
+}
+
+/**
+ * Webhook URLs are fetched from our servers, so they must not reach internal services.
+ * Checked when an endpoint is saved and again before every delivery (DNS can change).
+ * Returns the checked public address (null when WEBHOOK_ALLOW_PRIVATE_URLS skips the check)
+ * so the delivery can connect to exactly that address.
+ */
+export async function assertDeliverableUrl(rawUrl: string) {
+    let url: URL;
+    try {
+        url = new URL(rawUrl);
+    } catch {
+        throw new Error("Geçerli bir URL girin.");
+    }
+
+    if (url.protocol !== "https:" && !(url.protocol === "http:" && ALLOW_PRIVATE_URLS)) {
+        throw new Error("Webhook adresi https ile başlamalıdır.");
+    }
+    if (ALLOW_PRIVATE_URLS) return { url, address: null };
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, "");
+    if (hostname === "localhost" || hostname.endsWith(".localhost") || hostname.endsWith(".internal")) {
+        throw new Error("Webhook adresi yerel bir sunucuyu gösteremez.");
+    }
+    const addresses = isIP(hostname)
+        ? [{ address: hostname, family: isIP(hostname) }]
+        : await lookup(hostname, { all: true }).catch(() => []);
+    if (addresses.length === 0) throw new Error("Webhook adresi çözümlenemedi.");
+    if (addresses.some(a => isPrivateAddress(a.address))) {
+        throw new Error("Webhook adresi yerel bir sunucuyu gösteremez.");
+    }
+    return { url, address: addresses[0] };
+}
+
+/**
+ * Connection pool that resolves every hostname to `address`, so a delivery reaches the address
+ * assertDeliverableUrl checked instead of whatever DNS answers a moment later. TLS still verifies
+ * the certificate against the URL's hostname. Close it once the request is done.
+ */
+export function pinnedDispatcher(address: { address: string; family: number }) {
+    const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+        if (options.all) {
+            (callback as (err: null, addresses: { address: string; family: number }[]) => void)(null, [address]);
+        } else {
+            callback(null, address.address, address.family);
+        }
+    };
+    return new Agent({ connect: { lookup: pinnedLookup } });
+}
@@ -1,7 +1,12 @@
 // This file ensures that workers are initialized once
 import { Job } from "bullmq";
 import "./worker/search-worker"; // Side-effect import to start search worker
+import "./worker/webhook-worker"; // Resumes pending webhook retries after a restart
+import "./worker/crm-sync-worker"; // Resumes queued CRM syncs after a restart
 import exportWorker from "./worker/export-worker";
+import { schedulePlaceRefreshScan } from "./queue/place-refresh-queue";
+import { syncSavedSearchSchedules } from "./queue/saved-search-queue";
+import { scheduleExportCleanup } from "./queue/export-queue";
 
 let initialized = false;
 
@@ -14,5 +19,17 @@ export function initWorkers() {
         console.log(`✅ Export Job ${job.id} completed`);
     });
 
+    schedulePlaceRefreshScan().catch((err) => {
+        console.error("Failed to schedule place refresh scan:", err);
+    });
+
+    syncSavedSearchSchedules().catch((err) => {
+        console.error("Failed to sync saved search schedules:", err);
+    });
+
+    scheduleExportCleanup().catch((err) => {
+        console.error("Failed to schedule export cleanup:", err);
+    });
+
     initialized = true;
 }
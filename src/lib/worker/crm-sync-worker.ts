@@ -0,0 +1,35 @@
+import { Worker, Job } from 'bullmq';
+import { redisConnection } from '../queue/config';
+import { syncLeadToCrm } from '@/lib/crm/sync';
+
+const QUEUE_NAME = 'crm-sync';
+
+export const setupCrmSyncWorker = () => {
+    console.log('🔗 CRM Sync Worker starting...');
+
+    const worker = new Worker(
+        QUEUE_NAME,
+        async (job: Job) => {
+            const { connectionId, leadId } = job.data;
+            await syncLeadToCrm(connectionId, leadId);
+        },
+        {
+            connection: redisConnection,
+            // CRM APIs are rate limited per token; keep this low
+            concurrency: parseInt(process.env.CRM_SYNC_CONCURRENCY || '2'),
+        }
+    );
+
+    worker.on('failed', (job, err) => {
+        console.error(`[CRM Sync ${job?.data?.leadId}] Attempt ${job?.attemptsMade} failed:`, err.message);
+    });
+
+    return worker;
+};
+
+// Global singleton for the worker to avoid multiple instances in Next.js HMR
+const globalForWorker = global as unknown as { crmSyncWorker: Worker | undefined };
+
+if (!globalForWorker.crmSyncWorker && process.env.NODE_ENV !== 'test') {
+    globalForWorker.crmSyncWorker = setupCrmSyncWorker();
+}
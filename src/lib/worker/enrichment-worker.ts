@@ -1,17 +1,104 @@
 
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, DelayedError } from 'bullmq';
 import { redisConnection } from '../queue/config';
 import { prisma } from '@/lib/prisma';
 import { scrapeWebsite } from '@/lib/scraper';
+import { dispatchWebhookEvent, placeWatcherUserIds } from '@/lib/webhooks/dispatch';
+import { rescorePlaceLeads } from '@/lib/crm/scoring';
+import { DomainBusyError } from '@/lib/traffic-control';
+import { closeBrowserPool } from '@/lib/scraping/browser-pool';
+import type { ScrapedData } from '@/lib/scraper';
+import { claimDomainEnrichment, domainEnrichmentKey, placesSharingWebsite, releaseDomainEnrichment, saveDomainEnrichment } from '@/lib/scraping/domain-enrichment';
 
 const QUEUE_NAME = 'enrichment-jobs';
+// How long to wait while another job scrapes the same domain before looking for its result
+const DOMAIN_CLAIM_RETRY_MS = 20000;
+
+const ENRICHED_PLACE_SELECT = {
+    googleId: true,
+    name: true,
+    address: true,
+    website: true,
+    emails: true,
+    emailScores: true,
+    phones: true,
+    socials: true
+} as const;
+
+type EnrichedPlaceFields = {
+    website: string | null;
+    emails: string[];
+    emailScores: unknown;
+    phones: string[];
+    socials: unknown;
+};
+
+/**
+ * Merges a scrape result into a place (fresh values win, existing ones are kept where nothing was
+ * found), then rescores its leads and fires place.enriched.
+ */
+async function applyScrapedData(placeId: string, existingPlace: EnrichedPlaceFields, data: ScrapedData, website: string, foundSocials: Record<string, string> = {}) {
+    const mergedSocials = {
+        ...((existingPlace.socials as Record<string, string> | null) || {}),
+        ...(foundSocials || {}),
+        ...(data.socials || {})
+    };
+    const mergedEmails = (data.emails && data.emails.length > 0) ? data.emails : (existingPlace.emails || []);
+    const mergedPhones = (data.phones && data.phones.length > 0) ? data.phones : (existingPlace.phones || []);
+    const mergedEmailScores = (data.emailScores && Object.keys(data.emailScores).length > 0)
+        ? data.emailScores
+        : (existingPlace.emailScores as any) || {};
+
+    const updatedPlace = await prisma.place.update({
+        where: { id: placeId },
+        data: {
+            emails: mergedEmails,
+            emailScores: mergedEmailScores,
+            phones: mergedPhones,
+            socials: mergedSocials as any,
+            scrapeStatus: 'COMPLETED',
+            ...(website ? { website, websiteDomain: domainEnrichmentKey(website) } : {})
+        }
+    });
+
+    // Emails, socials and the website feed the lead score
+    await rescorePlaceLeads(placeId);
+
+    await dispatchWebhookEvent(await placeWatcherUserIds(placeId), 'place.enriched', {
+        placeId: updatedPlace.googleId,
+        name: updatedPlace.name,
+        website: updatedPlace.website,
+        emails: updatedPlace.emails,
+        phones: updatedPlace.phones,
+        socials: (updatedPlace.socials as Record<string, string> | null) ?? {},
+    });
+
+    return updatedPlace;
+}
+
+// Gives other places listing the freshly scraped site the same result, sparing them a scrape of their own
+async function fanOutDomainResult(domain: string, website: string, placeId: string, data: ScrapedData) {
+    const siblingIds = await placesSharingWebsite(domain, website, placeId);
+    let updated = 0;
+    for (const siblingId of siblingIds) {
+        try {
+            const sibling = await prisma.place.findUnique({ where: { id: siblingId }, select: ENRICHED_PLACE_SELECT });
+            if (!sibling) continue;
+            await applyScrapedData(siblingId, sibling, data, (sibling.website || '').trim());
+            updated++;
+        } catch (error) {
+            console.warn(`[Enrichment] Could not share ${domain} result with place ${siblingId}:`, error instanceof Error ? error.message : error);
+        }
+    }
+    return updated;
+}
 
 export const setupEnrichmentWorker = () => {
     console.log('🕵️ Enrichment Worker starting...');
 
     const worker = new Worker(
         QUEUE_NAME,
-        async (job: Job) => {
+        async (job: Job, token?: string) => {
             const { placeId, website } = job.data;
             console.log(`[Enrichment ${job.id}] Scraping ${website} for Place ${placeId}`);
 
@@ -20,16 +107,7 @@ export const setupEnrichmentWorker = () => {
                 const existingPlace = await prisma.place.update({
                     where: { id: placeId },
                     data: { scrapeStatus: 'PROCESSING' },
-                    select: {
-                        googleId: true,
-                        name: true,
-                        address: true,
-                        website: true,
-                        emails: true,
-                        emailScores: true,
-                        phones: true,
-                        socials: true
-                    }
+                    select: ENRICHED_PLACE_SELECT
                 });
 
                 // 2. Perform Scraping
@@ -76,42 +154,48 @@ export const setupEnrichmentWorker = () => {
                     return;
                 }
 
-                const data = await scrapeWebsite(targetWebsite);
-                const mergedSocials = {
-                    ...(existingSocials || {}),
-                    ...(foundSocials || {}),
-                    ...(data.socials || {})
-                };
-                const mergedEmails = (data.emails && data.emails.length > 0) ? data.emails : (existingPlace.emails || []);
-                const mergedPhones = (data.phones && data.phones.length > 0) ? data.phones : (existingPlace.phones || []);
-                const mergedEmailScores = (data.emailScores && Object.keys(data.emailScores).length > 0)
-                    ? data.emailScores
-                    : (existingPlace.emailScores as any) || {};
-                const finalWebsite = (existingPlace.website || "").trim() || targetWebsite || "";
+                // Reuse a recent result for the same site, or claim the domain so concurrent jobs wait for this scrape
+                const domain = domainEnrichmentKey(targetWebsite);
+                const claim = domain ? await claimDomainEnrichment(domain) : null;
+                if (claim?.status === 'busy') {
+                    throw new DomainBusyError(domain!, DOMAIN_CLAIM_RETRY_MS);
+                }
+
+                let data: ScrapedData;
+                if (claim?.status === 'fresh') {
+                    console.log(`[Enrichment ${job.id}] Reusing cached result for ${domain}`);
+                    data = claim.data;
+                } else {
+                    try {
+                        data = await scrapeWebsite(targetWebsite);
+                    } catch (error) {
+                        // Rescheduled jobs hand the domain back untouched; real failures are recorded
+                        if (domain) await releaseDomainEnrichment(domain, error instanceof DomainBusyError ? undefined : String(error instanceof Error ? error.message : error));
+                        throw error;
+                    }
+                    if (domain) await saveDomainEnrichment(domain, data);
+                }
 
                 if (data.meta) {
-                    console.log(`[Enrichment ${job.id}] Scraper Meta: Status=${data.meta.status}, Len=${data.meta.contentLength}, PreFilter=${data.meta.foundEmailsBeforeFilter}`);
+                    console.log(`[Enrichment ${job.id}] Scraper Meta: Mode=${data.meta.fetchMode}${data.meta.escalationReason ? ` (${data.meta.escalationReason})` : ""}, Status=${data.meta.status}, Len=${data.meta.contentLength}, PreFilter=${data.meta.foundEmailsBeforeFilter}`);
                 }
 
                 if (data.emails.length === 0) {
                     console.warn(`[Enrichment ${job.id}] ⚠️ No emails found for ${targetWebsite}`);
                 }
 
-                console.log(`[Enrichment ${job.id}] Final: ${mergedEmails.length} emails, ${Object.keys(mergedSocials).length} socials`);
-
                 // 3. Save Data
-                const updatedPlace = await prisma.place.update({
-                    where: { id: placeId },
-                    data: {
-                        emails: mergedEmails,
-                        emailScores: mergedEmailScores,
-                        phones: mergedPhones,
-                        socials: mergedSocials as any,
-                        scrapeStatus: 'COMPLETED',
-                        // If we found a website via fallback, save it!
-                        ...(usedFallback && targetWebsite ? { website: targetWebsite } : (finalWebsite ? { website: finalWebsite } : {}))
-                    }
-                });
+                // If we found a website via fallback, save it!
+                const finalWebsite = usedFallback ? targetWebsite : ((existingPlace.website || "").trim() || targetWebsite);
+                const updatedPlace = await applyScrapedData(placeId, existingPlace, data, finalWebsite, foundSocials);
+
+                console.log(`[Enrichment ${job.id}] Final: ${updatedPlace.emails.length} emails, ${Object.keys((updatedPlace.socials as object | null) || {}).length} socials`);
+
+                // Blocked results carry nothing to share and would mark the other places as done
+                if (domain && claim?.status === 'claimed' && data.meta && !data.meta.blockedByRobots && !data.meta.robotsUnreachable) {
+                    const shared = await fanOutDomainResult(domain, targetWebsite, placeId, data);
+                    if (shared > 0) console.log(`[Enrichment ${job.id}] Shared ${domain} result with ${shared} other places`);
+                }
 
                 // 4. Publish Real-Time Update if Job ID exists
                 if (job.data.jobId) {
@@ -151,6 +235,13 @@ export const setupEnrichmentWorker = () => {
 
             }
             catch (error: any) {
+                if (error instanceof DomainBusyError) {
+                    // Another job is on the same site (e.g. branches of a chain); come back later without using an attempt
+                    console.log(`[Enrichment ${job.id}] ${error.domain} is busy, retrying in ${error.retryAfterMs}ms`);
+                    await prisma.place.update({ where: { id: placeId }, data: { scrapeStatus: 'PENDING' } });
+                    await job.moveToDelayed(Date.now() + error.retryAfterMs + Math.floor(Math.random() * 5000), token);
+                    throw new DelayedError();
+                }
                 console.error(`[Enrichment ${job.id}] Failed:`, error.message);
                 await prisma.place.update({
                     where: { id: placeId },
@@ -161,7 +252,7 @@ export const setupEnrichmentWorker = () => {
         },
         {
             connection: redisConnection,
-            concurrency: parseInt(process.env.ENRICHMENT_CONCURRENCY || '10') // Increased for speed
+            concurrency: parseInt(process.env.ENRICHMENT_CONCURRENCY || '8') // Matches the default browser pool capacity (2 browsers x 4 pages)
         }
     );
 
@@ -174,14 +265,34 @@ export const setupEnrichmentWorker = () => {
 
 // Global singleton
 // Global singleton handling for Hot Module Replacement (HMR)
-const globalForEnrichmentWorker = global as unknown as { enrichmentWorker: Worker | undefined };
+const globalForEnrichmentWorker = global as unknown as { enrichmentWorker: Worker | undefined; enrichmentShutdownHooked: boolean | undefined };
+
+// The worker's Chromium processes go down with it once its running jobs finish; a new worker gets a fresh pool
+function closeEnrichmentWorker(worker: Worker) {
+    return closeBrowserPool(worker.close().catch(err => console.error('[Enrichment] Failed to close worker:', err)));
+}
 
 if (process.env.NODE_ENV !== 'production' && globalForEnrichmentWorker.enrichmentWorker) {
     console.log('🔄 Reloading Enrichment Worker (Closing old instance)...');
-    globalForEnrichmentWorker.enrichmentWorker.close();
+    void closeEnrichmentWorker(globalForEnrichmentWorker.enrichmentWorker);
     globalForEnrichmentWorker.enrichmentWorker = undefined;
 }
 
 if (!globalForEnrichmentWorker.enrichmentWorker && process.env.NODE_ENV !== 'test') {
     globalForEnrichmentWorker.enrichmentWorker = setupEnrichmentWorker();
 }
+
+if (!globalForEnrichmentWorker.enrichmentShutdownHooked && process.env.NODE_ENV !== 'test') {
+    globalForEnrichmentWorker.enrichmentShutdownHooked = true;
+    for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+        process.once(signal, async () => {
+            // The server usually has its own handler that exits; only exit here when nothing else will
+            const exitsElsewhere = process.listenerCount(signal) > 0;
+            const worker = globalForEnrichmentWorker.enrichmentWorker;
+            globalForEnrichmentWorker.enrichmentWorker = undefined;
+            if (worker) await closeEnrichmentWorker(worker);
+            else await closeBrowserPool();
+            if (!exitsElsewhere) process.exit(0);
+        });
+    }
+}
@@ -0,0 +1,51 @@
+import { Worker, Job } from 'bullmq';
+import { redisConnection } from '../queue/config';
+import { findStalePlaces, refreshPlace } from '@/lib/places/place-refresh';
+
+const QUEUE_NAME = 'place-refresh-jobs';
+
+export const setupPlaceRefreshWorker = () => {
+    console.log('🔄 Place Refresh Worker starting...');
+
+    const worker = new Worker(
+        QUEUE_NAME,
+        async (job: Job) => {
+            if (job.name === 'scan-stale') {
+                // Imported lazily: the queue module imports this worker for its side effect
+                const { addPlaceRefreshJob } = await import('@/lib/queue/place-refresh-queue');
+                const stale = await findStalePlaces();
+                for (const { placeId, leadCount } of stale) {
+                    await addPlaceRefreshJob(placeId, leadCount);
+                }
+                console.log(`[Place Refresh] Queued ${stale.length} stale place(s).`);
+                return { queued: stale.length };
+            }
+
+            const { placeId } = job.data;
+            const result = await refreshPlace(placeId);
+            if (result.changes > 0) {
+                console.log(`[Place Refresh ${job.id}] ${result.changes} field(s) changed for Place ${placeId}`);
+            }
+            return result;
+        },
+        {
+            connection: redisConnection,
+            concurrency: parseInt(process.env.PLACE_REFRESH_CONCURRENCY || '2'),
+            // Stay well under the Places Details quota
+            limiter: { max: Number(process.env.PLACE_REFRESH_RPM || 60), duration: 60_000 },
+        }
+    );
+
+    worker.on('failed', (job, err) => {
+        console.error(`[Place Refresh ${job?.id}] Failed:`, err.message);
+    });
+
+    return worker;
+};
+
+// Global singleton for the worker to avoid multiple instances in Next.js HMR
+const globalForWorker = global as unknown as { placeRefreshWorker: Worker | undefined };
+
+if (!globalForWorker.placeRefreshWorker && process.env.NODE_ENV !== 'test') {
+    globalForWorker.placeRefreshWorker = setupPlaceRefreshWorker();
+}
@@ -0,0 +1,36 @@
+import { Worker, Job } from 'bullmq';
+import { redisConnection } from '../queue/config';
+import { runSavedSearch } from '@/lib/search/saved-searches';
+
+const QUEUE_NAME = 'saved-search-jobs';
+
+export const setupSavedSearchWorker = () => {
+    console.log('📅 Saved Search Worker starting...');
+
+    const worker = new Worker(
+        QUEUE_NAME,
+        async (job: Job) => {
+            const { savedSearchId } = job.data;
+            const result = await runSavedSearch(savedSearchId);
+            console.log(`[Saved Search ${savedSearchId}] ${result.status}`, result);
+            return result;
+        },
+        {
+            connection: redisConnection,
+            concurrency: parseInt(process.env.SAVED_SEARCH_CONCURRENCY || '2'),
+        }
+    );
+
+    worker.on('failed', (job, err) => {
+        console.error(`[Saved Search ${job?.data?.savedSearchId}] Failed:`, err.message);
+    });
+
+    return worker;
+};
+
+// Global singleton for the worker to avoid multiple instances in Next.js HMR
+const globalForWorker = global as unknown as { savedSearchWorker: Worker | undefined };
+
+if (!globalForWorker.savedSearchWorker && process.env.NODE_ENV !== 'test') {
+    globalForWorker.savedSearchWorker = setupSavedSearchWorker();
+}
@@ -11,7 +11,7 @@ export const setupWorker = () => {
     const worker = new Worker(
         QUEUE_NAME,
         async (job: Job) => {
-            const { city, keyword, userId, initialPageToken, deepSearch } = job.data;
+            const { city, keyword, userId, initialPageToken, deepSearch, options, apiKeyId } = job.data;
             const jobId = job.id;
 
             console.log(`[Job ${jobId}] Processing search for ${city}: ${keyword} (PageToken: ${initialPageToken ? 'Yes' : 'No'}, Deep: ${deepSearch})`);
@@ -21,7 +21,7 @@ export const setupWorker = () => {
                 await redis.set(`job:${jobId}:status`, 'processing', 'EX', 3600);
 
                 // 2. Execute actual search
-                const results = await executeSearchCore(city, keyword, userId, initialPageToken, deepSearch, jobId);
+                const results = await executeSearchCore(city, keyword, userId, initialPageToken, deepSearch, jobId, options || {}, apiKeyId);
 
                 // 3. Store result and update status to completed
                 await redis.set(`job:${jobId}:result`, JSON.stringify(results), 'EX', 3600);
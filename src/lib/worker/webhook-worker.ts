@@ -0,0 +1,101 @@
+import { Worker, Job } from 'bullmq';
+import { redisConnection } from '../queue/config';
+import { prisma } from '@/lib/prisma';
+import { signWebhookPayload, SIGNATURE_HEADER } from '@/lib/webhooks/signing';
+import { fetch } from 'undici';
+import { assertDeliverableUrl, pinnedDispatcher } from '@/lib/webhooks/url';
+
+const QUEUE_NAME = 'webhook-deliveries';
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_STORED_RESPONSE_LENGTH = 1000;
+
+export const setupWebhookWorker = () => {
+    console.log('📮 Webhook Worker starting...');
+
+    const worker = new Worker(
+        QUEUE_NAME,
+        async (job: Job) => {
+            const { deliveryId } = job.data;
+            const delivery = await prisma.webhookDelivery.findUnique({
+                where: { id: deliveryId },
+                include: { endpoint: { select: { url: true, secret: true, active: true } } }
+            });
+            if (!delivery || delivery.status === 'SUCCESS') return;
+            if (!delivery.endpoint.active) {
+                await prisma.webhookDelivery.update({
+                    where: { id: deliveryId },
+                    data: { status: 'FAILED', error: 'Uç nokta devre dışı.' }
+                });
+                return;
+            }
+
+            const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as object) });
+            const attempts = delivery.attempts + 1;
+            let responseStatus: number | null = null;
+            let responseBody: string | null = null;
+
+            let dispatcher: ReturnType<typeof pinnedDispatcher> | undefined;
+            try {
+                const { address } = await assertDeliverableUrl(delivery.endpoint.url);
+                dispatcher = address ? pinnedDispatcher(address) : undefined;
+                const response = await fetch(delivery.endpoint.url, {
+                    dispatcher,
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'User-Agent': 'Zakrom-Webhooks/1.0',
+                        'X-Zakrom-Event': delivery.event,
+                        'X-Zakrom-Delivery': delivery.id,
+                        [SIGNATURE_HEADER]: signWebhookPayload(delivery.endpoint.secret, body),
+                    },
+                    body,
+                    redirect: 'manual', // a redirect could point at an address we never validated
+                    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+                });
+                responseStatus = response.status;
+                responseBody = (await response.text().catch(() => '')).slice(0, MAX_STORED_RESPONSE_LENGTH);
+                if (!response.ok) throw new Error(`Alıcı ${response.status} yanıtı döndürdü.`);
+
+                await prisma.webhookDelivery.update({
+                    where: { id: deliveryId },
+                    data: { status: 'SUCCESS', attempts, responseStatus, responseBody, error: null, lastAttemptAt: new Date(), deliveredAt: new Date() }
+                });
+            } catch (error: unknown) {
+                const message = error instanceof Error ? error.message : String(error);
+                // attemptsMade counts earlier tries of this job; the last one marks the delivery as failed
+                const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+                await prisma.webhookDelivery.update({
+                    where: { id: deliveryId },
+                    data: {
+                        status: finalAttempt ? 'FAILED' : 'PENDING',
+                        attempts,
+                        responseStatus,
+                        responseBody,
+                        error: message,
+                        lastAttemptAt: new Date(),
+                    }
+                });
+                throw error; // BullMQ retries with backoff
+            } finally {
+                await dispatcher?.close().catch(() => { });
+            }
+        },
+        {
+            connection: redisConnection,
+            concurrency: parseInt(process.env.WEBHOOK_CONCURRENCY || '5'),
+        }
+    );
+
+    worker.on('failed', (job, err) => {
+        console.error(`[Webhook ${job?.data?.deliveryId}] Attempt ${job?.attemptsMade} failed:`, err.message);
+    });
+
+    return worker;
+};
+
+// Global singleton for the worker to avoid multiple instances in Next.js HMR
+const globalForWorker = global as unknown as { webhookWorker: Worker | undefined };
+
+if (!globalForWorker.webhookWorker && process.env.NODE_ENV !== 'test') {
+    globalForWorker.webhookWorker = setupWebhookWorker();
+}